@@ -1,5 +1,40 @@
-const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const ApiKey = require('../models/ApiKey');
+const { rateLimit } = require('./rateLimit');
+const { isApiKeyToken, hashToken, LAST_USED_RESOLUTION_MS } = require('../utils/apiKeys');
+const { verifyAccessToken } = require('../utils/sessions');
+
+// Each API key gets its own per-minute budget
+const apiKeyLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: (req) => req.apiKey.rateLimit,
+  key: (req) => `api-key:${req.apiKey._id}`,
+  message: 'API key rate limit exceeded. Please slow down.'
+});
+
+// Resolves a personal access token to its key and user, or null
+const findApiKey = async (token) => {
+  const apiKey = await ApiKey.findOne({ tokenHash: hashToken(token) });
+  if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return null;
+  }
+  const user = await User.findById(apiKey.user).select('-password');
+  return user && user.isActive ? { apiKey, user } : null;
+};
+
+const recordApiKeyUse = (apiKey, ip) => {
+  const now = new Date();
+  if (apiKey.lastUsedAt && now - apiKey.lastUsedAt < LAST_USED_RESOLUTION_MS) return;
+  ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: now, lastUsedIp: ip })
+    .catch(error => console.error('Record API key use error:', error));
+};
+
+// Lets the routes after it accept API keys as well as login tokens. Scopes
+// are checked by the workspace middleware.
+const allowApiKeys = (req, res, next) => {
+  req.apiKeysAllowed = true;
+  next();
+};
 
 const auth = async (req, res, next) => {
   try {
@@ -9,14 +44,29 @@ const auth = async (req, res, next) => {
       return res.status(401).json({ message: 'No token, authorization denied' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    const user = await User.findById(decoded.userId).select('-password');
-    
-    if (!user || !user.isActive) {
+    if (isApiKeyToken(token)) {
+      if (!req.apiKeysAllowed) {
+        return res.status(403).json({ message: 'API keys cannot be used for this request' });
+      }
+      const access = await findApiKey(token);
+      if (!access) {
+        return res.status(401).json({ message: 'API key is not valid' });
+      }
+
+      req.user = access.user;
+      req.apiKey = access.apiKey;
+      recordApiKeyUse(access.apiKey, req.ip);
+      return apiKeyLimit(req, res, next);
+    }
+
+    // Expired access tokens are routine; the app refreshes them and retries
+    const access = await verifyAccessToken(token);
+    if (!access) {
       return res.status(401).json({ message: 'Token is not valid' });
     }
 
-    req.user = user;
+    req.user = access.user;
+    req.authSession = access.session;
     next();
   } catch (error) {
     console.error('Auth middleware error:', error);
@@ -29,11 +79,10 @@ const optionalAuth = async (req, res, next) => {
     const token = req.header('Authorization')?.replace('Bearer ', '');
     
     if (token) {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET);
-      const user = await User.findById(decoded.userId).select('-password');
-      
-      if (user && user.isActive) {
-        req.user = user;
+      const access = await verifyAccessToken(token);
+      if (access) {
+        req.user = access.user;
+        req.authSession = access.session;
       }
     }
     
@@ -44,4 +93,4 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
-module.exports = { auth, optionalAuth }; 
\ No newline at end of file
+module.exports = { auth, optionalAuth, allowApiKeys }; 
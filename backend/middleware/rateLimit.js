@@ -0,0 +1,40 @@
+// Fixed-window rate limiting kept in memory, so limits apply per server
+// process. Requests over the limit get 429 with a Retry-After header.
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// `key(req)` names the bucket a request counts against; requests without a
+// key are not limited. `max` may also be a function of the request.
+const rateLimit = ({ windowMs, max, key, message }) => {
+  const windows = new Map();
+
+  // Forget windows that have ended so idle clients do not pile up
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const [bucket, window] of windows) {
+      if (window.resetAt <= now) windows.delete(bucket);
+    }
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+
+  return (req, res, next) => {
+    const bucket = key(req);
+    if (!bucket) return next();
+
+    const now = Date.now();
+    let window = windows.get(bucket);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(bucket, window);
+    }
+
+    window.count += 1;
+    if (window.count > (typeof max === 'function' ? max(req) : max)) {
+      res.set('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ message });
+    }
+    next();
+  };
+};
+
+module.exports = { rateLimit };
@@ -0,0 +1,115 @@
+// Request body validation against the OpenAPI document (openapi/index.js).
+// validate('<operationId>') checks req.body with the operation's request
+// schema and answers 400 { errors } listing one { type, value, msg, path,
+// location } entry per invalid field. Besides JSON Schema's own keywords,
+// schemas may use:
+//
+//   x-trim             trim a string before checking it
+//   x-normalize-email  store a valid email address in its normalised form
+//   x-to-date          turn a valid date-time string into a Date
+//   x-error-message    message for errors on the value, or by keyword
+
+const Ajv = require('ajv/dist/2020').default;
+const validator = require('validator');
+const { document, getOperation } = require('../openapi');
+
+const DOCUMENT_ID = 'openapi';
+const DEFAULT_MESSAGE = 'Invalid value';
+
+const ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+
+ajv.addFormat('email', value => validator.isEmail(value));
+ajv.addFormat('url', value => validator.isURL(value, { require_tld: false }));
+ajv.addFormat('date-time', value => validator.isISO8601(value));
+ajv.addFormat('binary', true);
+
+// Adds a keyword replacing a string with `transform(value)`, which runs
+// before `before` when given and otherwise after the standard keywords
+const addTransform = (keyword, transform, before) => ajv.addKeyword({
+  keyword,
+  type: 'string',
+  modifying: true,
+  schemaType: 'boolean',
+  ...(before ? { before } : {}),
+  validate: (enabled, value, parentSchema, context) => {
+    if (enabled && context && context.parentData !== undefined) {
+      context.parentData[context.parentDataProperty] = transform(value);
+    }
+    return true;
+  }
+});
+
+addTransform('x-trim', value => value.trim(), 'maxLength');
+// Only reached by valid addresses; normalizeEmail returns false otherwise
+addTransform('x-normalize-email', value => validator.normalizeEmail(value) || value);
+addTransform('x-to-date', value => new Date(value));
+ajv.addKeyword({ keyword: 'x-error-message', schemaType: ['string', 'object'] });
+
+ajv.addSchema(document, DOCUMENT_ID);
+
+const escapePointer = (segment) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+// The request body schema of an operation, compiled against the document
+const compileBody = (operationId) => {
+  const { path, method, operation } = getOperation(operationId);
+  if (!operation.requestBody?.content?.['application/json']) {
+    throw new Error(`Operation ${operationId} has no JSON request body`);
+  }
+  const pointer = ['paths', path, method, 'requestBody', 'content', 'application/json', 'schema']
+    .map(escapePointer)
+    .join('/');
+  return ajv.compile({ $ref: `${DOCUMENT_ID}#/${pointer}` });
+};
+
+// "/questions/0/text" becomes "questions[0].text", the path format clients
+// already read
+const toFieldPath = (instancePath, property) => {
+  const segments = instancePath.split('/').slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (property !== undefined) segments.push(property);
+
+  return segments.reduce((path, segment) => {
+    if (/^\d+$/.test(segment)) return `${path}[${segment}]`;
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+};
+
+const customMessage = (schema, keyword) => {
+  const message = schema && schema['x-error-message'];
+  return typeof message === 'object' ? message[keyword] : message;
+};
+
+// One entry per invalid field; the first error found for a field wins
+const formatErrors = (errors) => {
+  const byPath = new Map();
+
+  for (const error of errors) {
+    const missing = error.keyword === 'required' ? error.params.missingProperty : undefined;
+    const path = toFieldPath(error.instancePath, missing);
+    if (byPath.has(path)) continue;
+
+    const schema = missing !== undefined ? error.parentSchema.properties?.[missing] : error.parentSchema;
+    byPath.set(path, {
+      type: 'field',
+      value: missing !== undefined ? undefined : error.data,
+      msg: customMessage(schema, missing !== undefined ? 'required' : error.keyword) || DEFAULT_MESSAGE,
+      path,
+      location: 'body'
+    });
+  }
+
+  return [...byPath.values()];
+};
+
+const validate = (operationId) => {
+  const check = compileBody(operationId);
+
+  return (req, res, next) => {
+    if (check(req.body)) {
+      return next();
+    }
+    res.status(400).json({ errors: formatErrors(check.errors) });
+  };
+};
+
+module.exports = { validate };
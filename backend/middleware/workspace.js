@@ -0,0 +1,154 @@
+const mongoose = require('mongoose');
+const Form = require('../models/Form');
+const Response = require('../models/Response');
+const Workspace = require('../models/Workspace');
+const { can } = require('../utils/permissions');
+const { isBlockedByTwoFactor, TWO_FACTOR_REQUIRED_MESSAGE } = require('../utils/twoFactor');
+
+// API keys only get the permissions in their scopes (see utils/apiKeys), on
+// top of what the user's role allows
+const missingScope = (req, permission) => Boolean(req.apiKey && !req.apiKey.scopes.includes(permission));
+
+const scopeError = (permission) => ({ message: `This API key does not have the ${permission} scope` });
+
+// The workspace used when a request does not name one: the user's oldest
+// workspace, created on first use for accounts that predate workspaces
+const getDefaultWorkspace = async (user) => {
+  const [workspace] = await Workspace.findForUser(user._id).limit(1);
+  return workspace || Workspace.createPersonal(user);
+};
+
+// Resolves the workspace named by the X-Workspace-Id header (or the user's
+// default one) and checks the user's role allows `permission`.
+// Sets req.workspace and req.role. Must run after `auth`.
+const requireWorkspace = (permission) => async (req, res, next) => {
+  try {
+    const workspaceId = req.header('X-Workspace-Id');
+    let workspace;
+
+    if (workspaceId) {
+      if (!mongoose.Types.ObjectId.isValid(workspaceId)) {
+        return res.status(400).json({ message: 'Invalid workspace' });
+      }
+      workspace = await Workspace.findById(workspaceId);
+    } else {
+      workspace = await getDefaultWorkspace(req.user);
+    }
+
+    const role = workspace && workspace.getRole(req.user._id);
+    if (!role) {
+      return res.status(404).json({ message: 'Workspace not found' });
+    }
+    if (!can(role, permission)) {
+      return res.status(403).json({ message: 'You do not have permission to do this in this workspace' });
+    }
+    if (missingScope(req, permission)) {
+      return res.status(403).json(scopeError(permission));
+    }
+    if (isBlockedByTwoFactor(workspace, req.user)) {
+      return res.status(403).json({ message: TWO_FACTOR_REQUIRED_MESSAGE });
+    }
+
+    req.workspace = workspace;
+    req.role = role;
+    next();
+  } catch (error) {
+    console.error('Workspace middleware error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Looks up a form together with the user's role in its workspace. Returns
+// null when the form does not exist or the user is not a member.
+const getFormAccess = async (user, formId) => {
+  if (!mongoose.Types.ObjectId.isValid(formId)) {
+    return null;
+  }
+
+  const form = await Form.findById(formId);
+  if (!form) {
+    return null;
+  }
+
+  // Forms created before workspaces existed move to their creator's workspace
+  if (!form.workspace && form.creator.toString() === user._id.toString()) {
+    const workspace = await getDefaultWorkspace(user);
+    form.workspace = workspace._id;
+    await Form.updateOne({ _id: form._id }, { workspace: workspace._id });
+  }
+
+  const workspace = form.workspace && await Workspace.findById(form.workspace);
+  const role = workspace && workspace.getRole(user._id);
+  return role ? { form, workspace, role } : null;
+};
+
+// Checks the user's role, API key scopes and two-factor authentication allow
+// `permission` on a form found with getFormAccess. Sets req.form,
+// req.workspace and req.role and returns true; responds with an error and
+// returns false otherwise.
+const authorizeForm = (req, res, access, permission) => {
+  if (!can(access.role, permission)) {
+    res.status(403).json({ message: 'You do not have permission to do this in this workspace' });
+    return false;
+  }
+  if (missingScope(req, permission)) {
+    res.status(403).json(scopeError(permission));
+    return false;
+  }
+  if (isBlockedByTwoFactor(access.workspace, req.user)) {
+    res.status(403).json({ message: TWO_FACTOR_REQUIRED_MESSAGE });
+    return false;
+  }
+
+  req.form = access.form;
+  req.workspace = access.workspace;
+  req.role = access.role;
+  return true;
+};
+
+// Loads the form named by req.params[param] and checks the user's role in
+// the form's workspace allows `permission`. Forms in workspaces the user is
+// not a member of are reported as not found.
+// Sets req.form, req.workspace and req.role. Must run after `auth`.
+const requireFormAccess = (permission, param = 'id') => async (req, res, next) => {
+  try {
+    const access = await getFormAccess(req.user, req.params[param]);
+    if (!access) {
+      return res.status(404).json({ message: 'Form not found' });
+    }
+    if (!authorizeForm(req, res, access, permission)) return;
+    next();
+  } catch (error) {
+    console.error('Form access middleware error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Loads the response named by req.params[param] and checks the user's role
+// in its form's workspace allows `permission`.
+// Sets req.response, req.form, req.workspace and req.role. Must run after `auth`.
+const requireResponseAccess = (permission, param = 'id') => async (req, res, next) => {
+  try {
+    const response = mongoose.Types.ObjectId.isValid(req.params[param]) &&
+      await Response.findById(req.params[param]);
+    const access = response && await getFormAccess(req.user, response.form);
+    if (!access) {
+      return res.status(404).json({ message: 'Response not found' });
+    }
+    if (!authorizeForm(req, res, access, permission)) return;
+    req.response = response;
+    next();
+  } catch (error) {
+    console.error('Response access middleware error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  getDefaultWorkspace,
+  getFormAccess,
+  authorizeForm,
+  requireWorkspace,
+  requireFormAccess,
+  requireResponseAccess
+};
@@ -0,0 +1,39 @@
+const mongoose = require('mongoose');
+
+// A single-use link emailed to a user: to reset their password or to verify
+// their email address (see utils/accounts)
+const accountTokenSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  purpose: {
+    type: String,
+    enum: ['password-reset', 'email-verification'],
+    required: true
+  },
+  // Only the hash of the token in the link is stored
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The address the link was sent to; verifying it only counts while it is
+  // still the user's email
+  email: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('AccountToken', accountTokenSchema);
@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+const { API_KEY_SCOPES, DEFAULT_RATE_LIMIT } = require('../utils/apiKeys');
+
+const apiKeySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Start of the token, to recognise the key; the token itself is not stored
+  prefix: {
+    type: String,
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  scopes: [{
+    type: String,
+    enum: API_KEY_SCOPES
+  }],
+  // Requests per minute
+  rateLimit: {
+    type: Number,
+    default: DEFAULT_RATE_LIMIT
+  },
+  // Unset for keys that never expire
+  expiresAt: {
+    type: Date
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  lastUsedIp: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+apiKeySchema.methods.toJSON = function() {
+  const key = this.toObject();
+  delete key.tokenHash;
+  return key;
+};
+
+module.exports = mongoose.model('ApiKey', apiKeySchema);
@@ -0,0 +1,28 @@
+const mongoose = require('mongoose');
+const { FONTS, COLOR_PATTERN } = require('../utils/branding');
+
+// Shared by users (account branding) and forms (per-form overrides)
+const brandingSchema = new mongoose.Schema({
+  logoUrl: {
+    type: String,
+    trim: true
+  },
+  headerImageUrl: {
+    type: String,
+    trim: true
+  },
+  primaryColor: {
+    type: String,
+    trim: true,
+    match: COLOR_PATTERN
+  },
+  fontFamily: {
+    type: String,
+    enum: FONTS
+  },
+  showPoweredBy: {
+    type: Boolean
+  }
+}, { _id: false });
+
+module.exports = brandingSchema;
@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// A mailing of personal invite links to a form; its recipients are
+// CampaignRecipient documents
+const campaignSchema = new mongoose.Schema({
+  form: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Email subject and message; the message may use {{name}}, {{email}} and
+  // the recipient's custom fields as placeholders
+  subject: {
+    type: String,
+    trim: true
+  },
+  message: {
+    type: String,
+    trim: true
+  },
+  // Custom field names from the recipient list, in column order
+  fields: [{
+    type: String
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  lastSentAt: {
+    type: Date
+  },
+  lastRemindedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('Campaign', campaignSchema);
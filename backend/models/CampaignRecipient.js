@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+const { RECIPIENT_STATUSES } = require('../utils/campaigns');
+
+// One person invited by a campaign. Their invite link carries a token signed
+// with the recipient's id (see utils/campaigns), so nothing secret is stored.
+const campaignRecipientSchema = new mongoose.Schema({
+  campaign: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Campaign',
+    required: true
+  },
+  form: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    trim: true
+  },
+  // Extra columns of the recipient list
+  fields: {
+    type: Map,
+    of: String,
+    default: undefined
+  },
+  // Only ever moves forward: pending, sent, opened, started, completed
+  status: {
+    type: String,
+    enum: RECIPIENT_STATUSES,
+    default: 'pending'
+  },
+  sentAt: {
+    type: Date
+  },
+  openedAt: {
+    type: Date
+  },
+  startedAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  },
+  lastRemindedAt: {
+    type: Date
+  },
+  reminderCount: {
+    type: Number,
+    default: 0
+  },
+  // Why the last invitation or reminder could not be sent
+  lastError: {
+    type: String
+  },
+  response: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Response'
+  }
+}, {
+  timestamps: true
+});
+
+campaignRecipientSchema.index({ campaign: 1, email: 1 }, { unique: true });
+campaignRecipientSchema.index({ campaign: 1, status: 1 });
+
+module.exports = mongoose.model('CampaignRecipient', campaignRecipientSchema);
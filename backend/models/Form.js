@@ -1,31 +1,9 @@
 const mongoose = require("mongoose");
-
-const questionSchema = new mongoose.Schema({
-  text: {
-    type: String,
-    required: true,
-    trim: true,
-  },
-  type: {
-    type: String,
-    enum: ["text", "multiple-choice"],
-    required: true,
-  },
-  options: [
-    {
-      type: String,
-      trim: true,
-    },
-  ],
-  required: {
-    type: Boolean,
-    default: false,
-  },
-  order: {
-    type: Number,
-    required: true,
-  },
-});
+const brandingSchema = require("./Branding");
+const { sectionSchema, questionSchema } = require("./FormStructure");
+const { FORM_STATUSES, getFormStatus, getFormState } = require("../utils/formLifecycle");
+const { DUPLICATE_STRATEGIES } = require("../utils/duplicates");
+const { DEFAULT_MIN_FILL_SECONDS } = require("../utils/spam");
 
 const formSchema = new mongoose.Schema(
   {
@@ -43,10 +21,46 @@ const formSchema = new mongoose.Schema(
       ref: "User",
       required: true,
     },
+    // Forms created before workspaces existed have none until first accessed
+    workspace: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Workspace",
+      index: true,
+    },
+    sections: [sectionSchema],
     questions: [questionSchema],
+    // Names of values captured from the public form's URL (see utils/hiddenFields)
+    hiddenFields: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+    // Latest published version; saving changed questions or sections
+    // publishes the next one (see utils/formVersions)
+    version: {
+      type: Number,
+      default: 1,
+    },
+    // Lifecycle status (see utils/formLifecycle). Forms created before
+    // lifecycle states take theirs from `isActive`.
+    status: {
+      type: String,
+      enum: FORM_STATUSES,
+      default: function () {
+        return getFormStatus(this);
+      },
+    },
+    // Superseded by status; only stored on forms created before it
     isActive: {
       type: Boolean,
-      default: true,
+    },
+    // Optional schedule; an open form only accepts responses in between
+    opensAt: {
+      type: Date,
+    },
+    closesAt: {
+      type: Date,
     },
     publicUrl: {
       type: String,
@@ -57,15 +71,87 @@ const formSchema = new mongoose.Schema(
         type: Boolean,
         default: false,
       },
+      // How repeat responses are recognised when multiple are not allowed
+      duplicates: {
+        strategies: {
+          type: [
+            {
+              type: String,
+              enum: DUPLICATE_STRATEGIES,
+            },
+          ],
+          default: ["email", "device"],
+        },
+        ipWindowHours: {
+          type: Number,
+          default: 24,
+        },
+      },
+      // Bot checks for public submissions (see utils/spam)
+      spam: {
+        captcha: {
+          type: Boolean,
+          default: false,
+        },
+        minFillSeconds: {
+          type: Number,
+          default: DEFAULT_MIN_FILL_SECONDS,
+        },
+      },
       requireEmail: {
         type: Boolean,
         default: false,
       },
+      // Keep unfinished answers so respondents can continue later (see
+      // utils/partialResponses)
+      saveProgress: {
+        type: Boolean,
+        default: false,
+      },
       theme: {
         type: String,
         enum: ["light", "dark", "blue", "green"],
         default: "light",
       },
+      // Close the form once it has this many responses
+      maxResponses: {
+        type: Number,
+        min: 1,
+      },
+      // Shown instead of the questions while the form is closed
+      closedMessage: {
+        type: String,
+        trim: true,
+      },
+      // Overrides the creator's account branding; unset fields inherit it
+      branding: {
+        type: brandingSchema,
+        default: () => ({}),
+      },
+      // Emails about new responses; recipients default to the creator
+      notifications: {
+        mode: {
+          type: String,
+          enum: ["off", "instant", "daily", "weekly"],
+          default: "off",
+        },
+        recipients: [
+          {
+            type: String,
+            lowercase: true,
+            trim: true,
+          },
+        ],
+        // Email respondents who gave an address a copy of their answers
+        sendReceipts: {
+          type: Boolean,
+          default: false,
+        },
+      },
+    },
+    // End of the period covered by the last daily/weekly digest
+    digestSentAt: {
+      type: Date,
     },
   },
   {
@@ -88,9 +174,18 @@ formSchema.virtual("responseCount", {
   ref: "Response",
   localField: "_id",
   foreignField: "form",
+  match: { quarantined: { $ne: true }, partial: { $ne: true } },
   count: true,
 });
 
+// Status combined with the schedule: draft, scheduled, open, closed or archived
+formSchema.virtual("state").get(function () {
+  return getFormState(this);
+});
+
+// Forms whose closing time has passed are closed by the lifecycle worker
+formSchema.index({ status: 1, closesAt: 1 });
+
 // Ensure virtuals are included in JSON
 formSchema.set("toJSON", { virtuals: true });
 
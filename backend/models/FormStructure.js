@@ -0,0 +1,123 @@
+const mongoose = require("mongoose");
+const { QUESTION_TYPES } = require("../utils/questionTypes");
+const { CONDITION_OPERATORS } = require("../utils/formLogic");
+
+// Sections and questions, shared by forms and their published versions
+
+const conditionSchema = new mongoose.Schema(
+  {
+    questionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+    },
+    operator: {
+      type: String,
+      enum: CONDITION_OPERATORS,
+      required: true,
+    },
+    value: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+const branchSchema = new mongoose.Schema(
+  {
+    option: {
+      type: String,
+      required: true,
+    },
+    // Id of the question or section to jump to, or "end" to finish the form
+    goTo: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const sectionSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+});
+
+const questionSchema = new mongoose.Schema({
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    required: true,
+  },
+  options: [
+    {
+      type: String,
+      trim: true,
+    },
+  ],
+  // Used by linear-scale and rating questions
+  scale: {
+    min: Number,
+    max: Number,
+    minLabel: {
+      type: String,
+      trim: true,
+    },
+    maxLabel: {
+      type: String,
+      trim: true,
+    },
+  },
+  // Used by number questions
+  limits: {
+    min: Number,
+    max: Number,
+  },
+  // Used by file questions; no allowed types means any
+  file: {
+    maxSizeMB: Number,
+    allowedTypes: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+  },
+  required: {
+    type: Boolean,
+    default: false,
+  },
+  // Show the question only when these conditions on earlier answers hold
+  logic: {
+    match: {
+      type: String,
+      enum: ["all", "any"],
+      default: "all",
+    },
+    conditions: [conditionSchema],
+  },
+  // Single-choice questions can skip ahead depending on the chosen option
+  branches: [branchSchema],
+  // Section (page) the question is shown on; unset when the form has no sections
+  section: {
+    type: mongoose.Schema.Types.ObjectId,
+  },
+  order: {
+    type: Number,
+    required: true,
+  },
+});
+
+module.exports = { sectionSchema, questionSchema };
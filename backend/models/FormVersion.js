@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+const { sectionSchema, questionSchema } = require('./FormStructure');
+
+// Immutable snapshot of a form's questions and sections as published.
+// Responses record the version they answered in `formVersion`.
+const formVersionSchema = new mongoose.Schema({
+  form: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String
+  },
+  sections: [sectionSchema],
+  questions: [questionSchema],
+  publishedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+formVersionSchema.index({ form: 1, version: 1 }, { unique: true });
+
+module.exports = mongoose.model('FormVersion', formVersionSchema);
@@ -0,0 +1,34 @@
+const mongoose = require('mongoose');
+
+// Failed logins for an email address from one IP address (see
+// utils/loginAttempts). Kept per address pair so that strangers who know an
+// email cannot lock its owner out.
+const loginAttemptSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true
+  },
+  ip: {
+    type: String,
+    required: true
+  },
+  failures: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: {
+    type: Date
+  },
+  // Forgotten after a quiet spell
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+loginAttemptSchema.index({ email: 1, ip: 1 }, { unique: true });
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('LoginAttempt', loginAttemptSchema);
@@ -1,4 +1,15 @@
 const mongoose = require('mongoose');
+const { QUESTION_TYPES } = require('../utils/questionTypes');
+const { SPAM_REASONS } = require('../utils/spam');
+const { RESPONSE_STATUSES } = require('../utils/triage');
+
+// Who sent a response, for duplicate checks (see utils/duplicates)
+const fingerprintSchema = new mongoose.Schema({
+  email: String,
+  device: String,
+  ip: String,
+  invite: String
+}, { _id: false });
 
 const answerSchema = new mongoose.Schema({
   questionId: {
@@ -11,7 +22,7 @@ const answerSchema = new mongoose.Schema({
   },
   questionType: {
     type: String,
-    enum: ['text', 'multiple-choice'],
+    enum: QUESTION_TYPES,
     required: true
   },
   answer: {
@@ -20,12 +31,32 @@ const answerSchema = new mongoose.Schema({
   }
 });
 
+// An internal note on a response, never shown to the respondent
+const noteSchema = new mongoose.Schema({
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  text: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
 const responseSchema = new mongoose.Schema({
   form: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Form',
     required: true
   },
+  // Form version the answers were given to; unset on responses submitted
+  // before versioning, which count as version 1
+  formVersion: {
+    type: Number
+  },
   answers: [answerSchema],
   submitterEmail: {
     type: String,
@@ -42,6 +73,78 @@ const responseSchema = new mongoose.Schema({
   userAgent: {
     type: String
   },
+  // Values of the form's hidden fields, captured from its URL
+  hiddenFields: {
+    type: Map,
+    of: String,
+    default: undefined
+  },
+  fingerprints: fingerprintSchema,
+  // Campaign recipient whose invite link was used
+  recipient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CampaignRecipient'
+  },
+  // Set when an admin cleared the fingerprints so the sender could respond again
+  resubmissionAllowedAt: {
+    type: Date
+  },
+  resubmissionAllowedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Suspected spam, left out of results until reviewed (see utils/spam)
+  quarantined: {
+    type: Boolean,
+    default: false
+  },
+  spamReasons: {
+    type: [{ type: String, enum: SPAM_REASONS }],
+    default: undefined
+  },
+  reviewedAt: {
+    type: Date
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Unfinished answers saved for the respondent to resume, left out of
+  // results until submitted (see utils/partialResponses)
+  partial: {
+    type: Boolean,
+    default: false
+  },
+  resumeTokenHash: {
+    type: String
+  },
+  // Partials are deleted once this passes
+  resumeExpiresAt: {
+    type: Date
+  },
+  // Question after the last one answered in a partial; unset once all the
+  // questions shown were answered
+  dropOffQuestion: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  // Triage by the form's workspace (see utils/triage)
+  status: {
+    type: String,
+    enum: RESPONSE_STATUSES,
+    default: 'new'
+  },
+  tags: {
+    type: [String],
+    default: undefined
+  },
+  assignee: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  notes: {
+    type: [noteSchema],
+    default: undefined
+  },
   submittedAt: {
     type: Date,
     default: Date.now
@@ -52,6 +155,18 @@ const responseSchema = new mongoose.Schema({
 
 // Index for efficient querying
 responseSchema.index({ form: 1, submittedAt: -1 });
+responseSchema.index({ form: 1, formVersion: 1 });
+responseSchema.index({ form: 1, quarantined: 1, submittedAt: -1 });
+responseSchema.index({ form: 1, status: 1 });
+responseSchema.index({ form: 1, tags: 1 });
+responseSchema.index({ form: 1, assignee: 1 });
+responseSchema.index({ form: 1, partial: 1, dropOffQuestion: 1 });
+responseSchema.index({ resumeTokenHash: 1 }, { sparse: true });
+responseSchema.index({ resumeExpiresAt: 1 }, { expireAfterSeconds: 0 });
 responseSchema.index({ submitterEmail: 1 });
+responseSchema.index({ form: 1, 'fingerprints.email': 1 });
+responseSchema.index({ form: 1, 'fingerprints.device': 1 });
+responseSchema.index({ form: 1, 'fingerprints.ip': 1, submittedAt: -1 });
+responseSchema.index({ form: 1, 'fingerprints.invite': 1 });
 
 module.exports = mongoose.model('Response', responseSchema); 
\ No newline at end of file
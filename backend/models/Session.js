@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// A signed-in browser (see utils/sessions). Deleting it logs that browser out.
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  // Hash of the refresh token in the browser's cookie
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The refresh token it replaced, to recognise tokens that are used twice
+  previousTokenHash: {
+    type: String,
+    index: true
+  },
+  rotatedAt: {
+    type: Date
+  },
+  userAgent: {
+    type: String
+  },
+  ipAddress: {
+    type: String
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Moves forward on every refresh, so sessions end after a spell of inactivity
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+sessionSchema.methods.toJSON = function() {
+  const session = this.toObject();
+  delete session.tokenHash;
+  delete session.previousTokenHash;
+  return session;
+};
+
+module.exports = mongoose.model('Session', sessionSchema);
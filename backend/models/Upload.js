@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+// A file uploaded to a file question of a public form (see utils/fileUploads).
+// It belongs to nobody until the response it was uploaded for is submitted.
+const uploadSchema = new mongoose.Schema({
+  form: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Form',
+    required: true,
+    index: true
+  },
+  questionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  // Set once the response is submitted
+  response: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Response',
+    index: true
+  },
+  // The respondent's browser keeps the token and sends it as the answer;
+  // only its hash is stored
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // Where the contents are kept (see utils/fileStorage)
+  storageKey: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  // Files never attached to a response are removed after this
+  expiresAt: {
+    type: Date,
+    index: true
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('Upload', uploadSchema);
@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const brandingSchema = require('./Branding');
 
 const userSchema = new mongoose.Schema({
   email: {
@@ -24,9 +25,43 @@ const userSchema = new mongoose.Schema({
     enum: ['admin'],
     default: 'admin'
   },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
   isActive: {
     type: Boolean,
     default: true
+  },
+  // Set when the user deactivated the account themselves; logging in again
+  // reactivates it
+  deactivatedAt: {
+    type: Date
+  },
+  branding: {
+    type: brandingSchema,
+    default: () => ({})
+  },
+  // TOTP two-factor authentication (see utils/twoFactor.js); secrets are
+  // encrypted and recovery codes hashed
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: String,
+    // Set during enrolment until the user confirms a code
+    pendingSecret: String,
+    recoveryCodes: [String],
+    // Time step of the last accepted code, so codes cannot be replayed
+    lastUsedStep: Number,
+    enabledAt: Date,
+    // Wrong codes in a row, from any IP address, and the lock they lead to
+    failedAttempts: {
+      type: Number,
+      default: 0
+    },
+    lockedUntil: Date
   }
 }, {
   timestamps: true
@@ -54,6 +89,12 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
 userSchema.methods.toJSON = function() {
   const user = this.toObject();
   delete user.password;
+  const twoFactor = user.twoFactor || {};
+  user.twoFactor = {
+    enabled: Boolean(twoFactor.enabled),
+    enabledAt: twoFactor.enabledAt,
+    recoveryCodesLeft: twoFactor.enabled ? (twoFactor.recoveryCodes || []).length : 0
+  };
   return user;
 };
 
@@ -0,0 +1,97 @@
+const mongoose = require('mongoose');
+const { ROLES } = require('../utils/permissions');
+
+const memberSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: ROLES,
+    required: true
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const invitationSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  role: {
+    type: String,
+    enum: ROLES,
+    required: true
+  },
+  // Only the hash of the token sent in the invitation link is stored
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+const workspaceSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  members: [memberSchema],
+  invitations: [invitationSchema],
+  // Members without two-factor authentication are kept out until they turn it on
+  requireTwoFactor: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+workspaceSchema.index({ 'members.user': 1 });
+workspaceSchema.index({ 'invitations.tokenHash': 1 });
+
+// Role of a user in this workspace, or null if they are not a member
+workspaceSchema.methods.getRole = function(userId) {
+  const member = this.members.find(m => m.user.toString() === userId.toString());
+  return member ? member.role : null;
+};
+
+// Workspaces a user belongs to, oldest first
+workspaceSchema.statics.findForUser = function(userId) {
+  return this.find({ 'members.user': userId }).sort({ createdAt: 1 });
+};
+
+// Creates a user's first workspace and moves any forms they created before
+// workspaces existed into it
+workspaceSchema.statics.createPersonal = async function(user) {
+  const workspace = await this.create({
+    name: user.businessName,
+    members: [{ user: user._id, role: 'owner' }]
+  });
+
+  await mongoose.model('Form').updateMany(
+    { creator: user._id, workspace: { $exists: false } },
+    { workspace: workspace._id }
+  );
+
+  return workspace;
+};
+
+module.exports = mongoose.model('Workspace', workspaceSchema);
@@ -0,0 +1,80 @@
+// Shorthands for writing the OpenAPI document
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+const OBJECT_ID = { type: 'string', pattern: '^[0-9a-fA-F]{24}$' };
+
+// A string that is trimmed before its length is checked
+const trimmed = (maxLength, minLength) => ({
+  type: 'string',
+  'x-trim': true,
+  ...(minLength !== undefined ? { minLength } : {}),
+  ...(maxLength !== undefined ? { maxLength } : {})
+});
+
+// A value that may also be left blank ('' or null)
+const blankable = (schema) => ({ anyOf: [schema, { const: '' }, { type: 'null' }] });
+
+// An object of `properties` with the names in `required` mandatory
+const object = (properties, required = [], extra = {}) => ({
+  type: 'object',
+  ...(required.length > 0 ? { required } : {}),
+  properties,
+  ...extra
+});
+
+// Properties of an object response merged with its `message`
+const withMessage = (properties, required = []) =>
+  object({ message: { type: 'string' }, ...properties }, ['message', ...required]);
+
+const jsonContent = (schema) => ({ 'application/json': { schema } });
+
+const jsonBody = (schema) => ({ required: true, content: jsonContent(schema) });
+
+const response = (description, schema) => ({ description, content: jsonContent(schema) });
+
+const pathParam = (name, description, schema = { type: 'string' }) => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema
+});
+
+const queryParam = (name, description, schema = { type: 'string' }, extra = {}) => ({
+  name,
+  in: 'query',
+  description,
+  schema,
+  ...extra
+});
+
+const errorResponses = {
+  400: response('Invalid request', { anyOf: [ref('Message'), ref('ValidationErrors')] }),
+  401: response('Missing or invalid credentials', ref('Message')),
+  403: response('Not allowed', ref('Message')),
+  404: response('Not found', ref('Message')),
+  429: response('Too many requests', ref('Message'))
+};
+
+// The error responses listed by `codes`
+const errors = (...codes) => Object.fromEntries(codes.map(code => [code, errorResponses[code]]));
+
+// Operations behind the auth middleware take a session or API key token
+const secured = { security: [{ bearerAuth: [] }] };
+
+module.exports = {
+  OBJECT_ID,
+  ref,
+  trimmed,
+  blankable,
+  object,
+  withMessage,
+  jsonContent,
+  jsonBody,
+  response,
+  pathParam,
+  queryParam,
+  errors,
+  secured
+};
@@ -0,0 +1,69 @@
+// The OpenAPI document describing the REST API. It is the one source for
+// request body validation (middleware/validate) and for the frontend's typed
+// client (scripts/generate-client.js), and is served at GET /api/docs.
+
+const { version } = require('../package.json');
+const schemas = require('./schemas');
+
+const paths = {
+  ...require('./paths/auth'),
+  ...require('./paths/forms'),
+  ...require('./paths/responses'),
+  ...require('./paths/workspaces'),
+  ...require('./paths/webhooks'),
+  ...require('./paths/campaigns'),
+  ...require('./paths/apiKeys'),
+  ...require('./paths/uploads')
+};
+
+const document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Feedback Platform API',
+    version,
+    description: 'Forms, responses and the workspaces that own them. Send a session token or ' +
+      'personal API key as `Authorization: Bearer <token>`; lists and new forms belong to the ' +
+      'workspace in the `X-Workspace-Id` header (your default workspace when unset).'
+  },
+  servers: [{ url: '/api' }],
+  tags: [
+    { name: 'auth', description: 'Accounts and sessions' },
+    { name: 'forms', description: 'Forms and their published versions' },
+    { name: 'responses', description: 'Submissions, results, summaries and exports' },
+    { name: 'workspaces', description: 'Workspaces, members and invitations' },
+    { name: 'webhooks', description: 'Event subscriptions of a form' },
+    { name: 'campaigns', description: 'Personal invite links sent by email' },
+    { name: 'apiKeys', description: 'Personal API keys' },
+    { name: 'uploads', description: 'Branding images and files uploaded to forms' }
+  ],
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'An access token from /auth/login or /auth/refresh, or a personal API key (fbk_...) on the ' +
+          'form and response endpoints'
+      }
+    },
+    schemas
+  },
+  paths
+};
+
+const operations = new Map();
+for (const [path, methods] of Object.entries(paths)) {
+  for (const [method, operation] of Object.entries(methods)) {
+    operations.set(operation.operationId, { path, method, operation });
+  }
+}
+
+// { path, method, operation } of an operation, by its operationId
+const getOperation = (operationId) => {
+  const found = operations.get(operationId);
+  if (!found) {
+    throw new Error(`Unknown operation ${operationId}`);
+  }
+  return found;
+};
+
+module.exports = { document, operations, getOperation };
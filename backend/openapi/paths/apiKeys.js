@@ -0,0 +1,45 @@
+const { ref, object, withMessage, jsonBody, response, pathParam, errors, secured } = require('../helpers');
+
+module.exports = {
+  '/api-keys': {
+    get: {
+      operationId: 'apiKeys.getAll',
+      tags: ['apiKeys'],
+      summary: 'List your API keys, without their tokens',
+      ...secured,
+      responses: {
+        200: response('Your API keys, newest first', object({
+          apiKeys: { type: 'array', items: ref('ApiKey') }
+        }, ['apiKeys'])),
+        ...errors(401)
+      }
+    },
+    post: {
+      operationId: 'apiKeys.create',
+      tags: ['apiKeys'],
+      summary: 'Create an API key',
+      ...secured,
+      requestBody: jsonBody(ref('ApiKeyInput')),
+      responses: {
+        201: response('API key created', withMessage({
+          apiKey: ref('ApiKey'),
+          token: { type: 'string', description: 'The key itself; only returned in this response' }
+        }, ['apiKey', 'token'])),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/api-keys/{id}': {
+    delete: {
+      operationId: 'apiKeys.revoke',
+      tags: ['apiKeys'],
+      summary: 'Revoke an API key',
+      ...secured,
+      parameters: [pathParam('id', 'API key id')],
+      responses: {
+        200: response('API key revoked', ref('Message')),
+        ...errors(401, 404)
+      }
+    }
+  }
+};
@@ -0,0 +1,287 @@
+const { ref, object, withMessage, jsonBody, response, pathParam, errors, secured } = require('../helpers');
+
+// Responses that start or refresh a session also set the httpOnly refresh
+// token cookie, which only /auth requests send
+const session = (description) => response(description, ref('AuthSession'));
+
+module.exports = {
+  '/auth/register': {
+    post: {
+      operationId: 'auth.register',
+      tags: ['auth'],
+      summary: 'Register a new admin user',
+      requestBody: jsonBody(ref('RegisterData')),
+      responses: {
+        201: session('Registered and signed in'),
+        ...errors(400)
+      }
+    }
+  },
+  '/auth/login': {
+    post: {
+      operationId: 'auth.login',
+      tags: ['auth'],
+      summary: 'Log in an admin user',
+      description: 'Accounts with two-factor authentication get a challenge to complete at ' +
+        '/auth/login/2fa instead of a session. Repeated failures for an email address from one ' +
+        'IP address are refused for a while.',
+      requestBody: jsonBody(ref('LoginCredentials')),
+      responses: {
+        200: response('Signed in, or a code is needed', ref('LoginResult')),
+        ...errors(400, 429)
+      }
+    }
+  },
+  '/auth/login/2fa': {
+    post: {
+      operationId: 'auth.loginTwoFactor',
+      tags: ['auth'],
+      summary: 'Finish logging in with a code from the authenticator app or a recovery code',
+      requestBody: jsonBody(ref('TwoFactorLogin')),
+      responses: {
+        200: session('Signed in'),
+        ...errors(400, 401, 429)
+      }
+    }
+  },
+  '/auth/2fa/setup': {
+    post: {
+      operationId: 'auth.setupTwoFactor',
+      tags: ['auth'],
+      summary: 'Start turning on two-factor authentication',
+      description: 'Returns a new secret to scan into an authenticator app; it is used once a code ' +
+        'from the app is confirmed at /auth/2fa/enable.',
+      ...secured,
+      responses: {
+        200: response('Secret to scan', ref('TwoFactorSetup')),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/auth/2fa/enable': {
+    post: {
+      operationId: 'auth.enableTwoFactor',
+      tags: ['auth'],
+      summary: 'Turn on two-factor authentication with a code from the authenticator app',
+      ...secured,
+      requestBody: jsonBody(ref('TwoFactorCode')),
+      responses: {
+        200: response('Two-factor authentication turned on', ref('RecoveryCodes')),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/auth/2fa/disable': {
+    post: {
+      operationId: 'auth.disableTwoFactor',
+      tags: ['auth'],
+      summary: 'Turn off two-factor authentication',
+      description: 'Not possible while a workspace you belong to requires it.',
+      ...secured,
+      requestBody: jsonBody(ref('PasswordConfirmation')),
+      responses: {
+        200: response('Two-factor authentication turned off', ref('Message')),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/auth/2fa/recovery-codes': {
+    post: {
+      operationId: 'auth.regenerateRecoveryCodes',
+      tags: ['auth'],
+      summary: 'Replace your recovery codes with new ones',
+      ...secured,
+      requestBody: jsonBody(ref('PasswordConfirmation')),
+      responses: {
+        200: response('New recovery codes', ref('RecoveryCodes')),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/auth/refresh': {
+    post: {
+      operationId: 'auth.refresh',
+      tags: ['auth'],
+      summary: 'Trade the refresh token cookie for a new one and a new access token',
+      responses: {
+        200: session('Session refreshed'),
+        ...errors(401)
+      }
+    }
+  },
+  '/auth/logout': {
+    post: {
+      operationId: 'auth.logout',
+      tags: ['auth'],
+      summary: 'End the session of the refresh token cookie',
+      responses: {
+        200: response('Logged out', ref('Message'))
+      }
+    }
+  },
+  '/auth/logout-all': {
+    post: {
+      operationId: 'auth.logoutAll',
+      tags: ['auth'],
+      summary: 'End all of your sessions, on every device',
+      ...secured,
+      responses: {
+        200: response('Logged out everywhere', ref('Message')),
+        ...errors(401)
+      }
+    }
+  },
+  '/auth/sessions': {
+    get: {
+      operationId: 'auth.getSessions',
+      tags: ['auth'],
+      summary: 'List your sessions, most recently used first',
+      ...secured,
+      responses: {
+        200: response('Your sessions', object({
+          sessions: { type: 'array', items: ref('Session') }
+        }, ['sessions'])),
+        ...errors(401)
+      }
+    }
+  },
+  '/auth/sessions/{id}': {
+    delete: {
+      operationId: 'auth.revokeSession',
+      tags: ['auth'],
+      summary: 'End one of your sessions',
+      ...secured,
+      parameters: [pathParam('id', 'Session id')],
+      responses: {
+        200: response('Session ended', ref('Message')),
+        ...errors(401, 404)
+      }
+    }
+  },
+  '/auth/password': {
+    put: {
+      operationId: 'auth.changePassword',
+      tags: ['auth'],
+      summary: 'Change your password; your other sessions are ended',
+      ...secured,
+      requestBody: jsonBody(ref('PasswordChange')),
+      responses: {
+        200: response('Password changed', ref('Message')),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/auth/forgot-password': {
+    post: {
+      operationId: 'auth.forgotPassword',
+      tags: ['auth'],
+      summary: 'Email a password reset link; responds the same whether or not an account uses the address',
+      requestBody: jsonBody(ref('ForgotPasswordData')),
+      responses: {
+        200: response('Reset link sent if the account exists', ref('Message')),
+        ...errors(400, 429)
+      }
+    }
+  },
+  '/auth/reset-password': {
+    post: {
+      operationId: 'auth.resetPassword',
+      tags: ['auth'],
+      summary: 'Set a new password with the token from a reset link; all sessions are ended',
+      requestBody: jsonBody(ref('ResetPasswordData')),
+      responses: {
+        200: response('Password reset', ref('Message')),
+        ...errors(400)
+      }
+    }
+  },
+  '/auth/verify-email': {
+    post: {
+      operationId: 'auth.verifyEmail',
+      tags: ['auth'],
+      summary: 'Verify an email address with the token from the link',
+      requestBody: jsonBody(ref('EmailVerificationData')),
+      responses: {
+        200: response('Email address verified', ref('Message')),
+        ...errors(400)
+      }
+    }
+  },
+  '/auth/verify-email/resend': {
+    post: {
+      operationId: 'auth.resendVerification',
+      tags: ['auth'],
+      summary: 'Email yourself a new verification link',
+      ...secured,
+      responses: {
+        200: response('Verification link sent', ref('Message')),
+        ...errors(400, 401, 429)
+      }
+    }
+  },
+  '/auth/account': {
+    put: {
+      operationId: 'auth.updateAccount',
+      tags: ['auth'],
+      summary: 'Update your business name or email address',
+      description: 'Changing the email address needs `currentPassword`; the new address has to be verified again.',
+      ...secured,
+      requestBody: jsonBody(ref('AccountUpdate')),
+      responses: {
+        200: response('Account updated', withMessage({ user: ref('User') }, ['user'])),
+        ...errors(400, 401)
+      }
+    },
+    delete: {
+      operationId: 'auth.deleteAccount',
+      tags: ['auth'],
+      summary: 'Delete your account',
+      description: 'Workspaces where you are the only member are deleted with all their forms and responses; ' +
+        'you leave the others. Fails while you are the only owner of a workspace with other members.',
+      ...secured,
+      requestBody: jsonBody(ref('PasswordConfirmation')),
+      responses: {
+        200: response('Account deleted', ref('Message')),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/auth/deactivate': {
+    post: {
+      operationId: 'auth.deactivate',
+      tags: ['auth'],
+      summary: 'Deactivate your account and end all its sessions; logging in again reactivates it',
+      ...secured,
+      requestBody: jsonBody(ref('PasswordConfirmation')),
+      responses: {
+        200: response('Account deactivated', ref('Message')),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/auth/me': {
+    get: {
+      operationId: 'auth.getProfile',
+      tags: ['auth'],
+      summary: 'Get the current user',
+      ...secured,
+      responses: {
+        200: response('The current user', object({ user: ref('User') }, ['user'])),
+        ...errors(401)
+      }
+    }
+  },
+  '/auth/branding': {
+    put: {
+      operationId: 'auth.updateBranding',
+      tags: ['auth'],
+      summary: 'Update the account branding used by all forms',
+      ...secured,
+      requestBody: jsonBody(object({ branding: ref('BrandingInput') })),
+      responses: {
+        200: response('Branding updated', withMessage({ user: ref('User') }, ['user'])),
+        ...errors(400, 401)
+      }
+    }
+  }
+};
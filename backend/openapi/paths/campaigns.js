@@ -0,0 +1,127 @@
+const {
+  ref,
+  object,
+  withMessage,
+  jsonBody,
+  response,
+  pathParam,
+  queryParam,
+  errors,
+  secured
+} = require('../helpers');
+
+const formId = pathParam('formId', 'Form id');
+const campaignId = pathParam('id', 'Campaign id');
+
+const queued = (description) => response(description, withMessage({
+  count: { type: 'integer', description: 'Emails queued' }
+}, ['count']));
+
+module.exports = {
+  '/campaigns/form/{formId}': {
+    get: {
+      operationId: 'campaigns.getByForm',
+      tags: ['campaigns'],
+      summary: 'Get the campaigns of a form with recipient counts by status',
+      ...secured,
+      parameters: [formId],
+      responses: {
+        200: response('The campaigns, newest first', object({
+          campaigns: { type: 'array', items: ref('Campaign') }
+        }, ['campaigns'])),
+        ...errors(401, 403, 404)
+      }
+    },
+    post: {
+      operationId: 'campaigns.create',
+      tags: ['campaigns'],
+      summary: 'Create a campaign from a CSV recipient list',
+      description: 'The CSV has email, name and custom field columns. Invitations are sent separately.',
+      ...secured,
+      parameters: [formId],
+      requestBody: jsonBody(ref('CampaignInput')),
+      responses: {
+        201: response('Campaign created', withMessage({
+          campaign: ref('Campaign'),
+          skipped: {
+            type: 'array',
+            description: 'Data rows (from 1) left out of the list',
+            items: object({
+              row: { type: 'integer' },
+              reason: { type: 'string' }
+            }, ['row', 'reason'])
+          }
+        }, ['campaign', 'skipped'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/campaigns/{id}': {
+    get: {
+      operationId: 'campaigns.getById',
+      tags: ['campaigns'],
+      summary: 'Get a campaign with its recipients',
+      ...secured,
+      parameters: [
+        campaignId,
+        queryParam('status', 'Only the recipients in this status', ref('RecipientStatus'))
+      ],
+      responses: {
+        200: response('The campaign', object({
+          campaign: ref('Campaign'),
+          recipients: { type: 'array', items: ref('CampaignRecipient') }
+        }, ['campaign', 'recipients'])),
+        ...errors(400, 401, 403, 404)
+      }
+    },
+    delete: {
+      operationId: 'campaigns.delete',
+      tags: ['campaigns'],
+      summary: 'Delete a campaign and its recipients; their links stop working',
+      ...secured,
+      parameters: [campaignId],
+      responses: {
+        200: response('Campaign deleted', ref('Message')),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/campaigns/{id}/send': {
+    post: {
+      operationId: 'campaigns.send',
+      tags: ['campaigns'],
+      summary: 'Email invitations to the recipients who have not been sent one',
+      ...secured,
+      parameters: [campaignId],
+      responses: {
+        202: queued('Invitations queued'),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/campaigns/{id}/remind': {
+    post: {
+      operationId: 'campaigns.remind',
+      tags: ['campaigns'],
+      summary: 'Email a reminder to invited recipients who have not responded',
+      ...secured,
+      parameters: [campaignId],
+      responses: {
+        202: queued('Reminders queued'),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/campaigns/invites/{token}/start': {
+    post: {
+      operationId: 'campaigns.startInvite',
+      tags: ['campaigns'],
+      summary: 'Record that an invitee started answering',
+      parameters: [pathParam('token', 'Token from the invite link')],
+      responses: {
+        200: response('Recorded', ref('Message')),
+        ...errors(404)
+      }
+    }
+  }
+};
@@ -0,0 +1,147 @@
+const {
+  ref,
+  object,
+  withMessage,
+  jsonBody,
+  response,
+  pathParam,
+  queryParam,
+  errors,
+  secured
+} = require('../helpers');
+
+const formId = pathParam('id', 'Form id');
+const nullable = (name) => ({ anyOf: [ref(name), { type: 'null' }] });
+
+module.exports = {
+  '/forms': {
+    post: {
+      operationId: 'forms.create',
+      tags: ['forms'],
+      summary: 'Create a form in the current workspace',
+      description: 'New forms are drafts or open. The workspace is chosen with the X-Workspace-Id header.',
+      ...secured,
+      requestBody: jsonBody(ref('CreateFormData')),
+      responses: {
+        201: response('Form created', withMessage({ form: ref('Form') }, ['form'])),
+        ...errors(400, 401, 403)
+      }
+    },
+    get: {
+      operationId: 'forms.getAll',
+      tags: ['forms'],
+      summary: 'List the forms of the current workspace',
+      ...secured,
+      parameters: [
+        queryParam('page', 'Page number, from 1', { type: 'integer', minimum: 1, default: 1 }),
+        queryParam('limit', 'Forms per page', { type: 'integer', minimum: 1, default: 10 }),
+        queryParam('search', 'Text the title contains')
+      ],
+      responses: {
+        200: response('A page of forms', object({
+          forms: { type: 'array', items: ref('Form') },
+          totalPages: { type: 'integer' },
+          currentPage: { type: 'integer' },
+          total: { type: 'integer' }
+        }, ['forms', 'totalPages', 'currentPage', 'total'])),
+        ...errors(401, 403)
+      }
+    }
+  },
+  '/forms/{id}': {
+    get: {
+      operationId: 'forms.getById',
+      tags: ['forms'],
+      summary: 'Get a form',
+      ...secured,
+      parameters: [formId],
+      responses: {
+        200: response('The form and your role in its workspace', object({
+          form: ref('Form'),
+          role: ref('WorkspaceRole')
+        }, ['form', 'role'])),
+        ...errors(401, 403, 404)
+      }
+    },
+    put: {
+      operationId: 'forms.update',
+      tags: ['forms'],
+      summary: 'Update a form',
+      description: 'Once a form is published, changing its questions or sections publishes a new version.',
+      ...secured,
+      parameters: [formId],
+      requestBody: jsonBody(ref('UpdateFormData')),
+      responses: {
+        200: response('Form updated', withMessage({ form: ref('Form') }, ['form'])),
+        ...errors(400, 401, 403, 404)
+      }
+    },
+    delete: {
+      operationId: 'forms.delete',
+      tags: ['forms'],
+      summary: 'Delete a form with its responses, files, versions, campaigns and webhooks',
+      ...secured,
+      parameters: [formId],
+      responses: {
+        200: response('Form deleted', ref('Message')),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/forms/{id}/versions': {
+    get: {
+      operationId: 'forms.getVersions',
+      tags: ['forms'],
+      summary: "List a form's published versions with their response counts",
+      ...secured,
+      parameters: [formId],
+      responses: {
+        200: response('Published versions, newest first', object({
+          currentVersion: { type: 'integer' },
+          versions: { type: 'array', items: ref('FormVersion') }
+        }, ['currentVersion', 'versions'])),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/forms/{id}/versions/{version}': {
+    get: {
+      operationId: 'forms.getVersion',
+      tags: ['forms'],
+      summary: 'Get the questions and sections of a published version',
+      ...secured,
+      parameters: [formId, pathParam('version', 'Version number', { type: 'integer', minimum: 1 })],
+      responses: {
+        200: response('The version', object({ version: ref('FormSnapshot') }, ['version'])),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/forms/public/{publicUrl}': {
+    get: {
+      operationId: 'forms.getByPublicUrl',
+      tags: ['forms'],
+      summary: 'Get a form by its public URL',
+      description: 'Scheduled and closed forms come without their questions.',
+      parameters: [
+        pathParam('publicUrl', 'Public URL of the form'),
+        queryParam('invite', 'Token from a campaign invite link'),
+        queryParam('resume', 'Resume token of a partial response to continue')
+      ],
+      responses: {
+        200: response('The public form', object({
+          form: ref('PublicFormDetails'),
+          deviceToken: { type: 'string', description: 'Kept by the browser for duplicate checks' },
+          startToken: { type: 'string', description: 'Sent back with the response to time it' },
+          captcha: nullable('CaptchaConfig'),
+          invite: nullable('InviteDetails'),
+          resume: {
+            ...nullable('ResumeDetails'),
+            description: 'Null when the token is unknown or has expired'
+          }
+        }, ['form', 'deviceToken', 'startToken', 'captcha', 'invite', 'resume'])),
+        ...errors(404)
+      }
+    }
+  }
+};
@@ -0,0 +1,257 @@
+const {
+  ref,
+  object,
+  withMessage,
+  jsonBody,
+  response,
+  pathParam,
+  queryParam,
+  errors,
+  secured
+} = require('../helpers');
+const { EXPORT_FORMATS } = require('../../utils/responseExport');
+
+const formId = pathParam('formId', 'Form id');
+const responseId = pathParam('id', 'Response id');
+const stringOrList = (schema) => ({ anyOf: [schema, { type: 'array', items: schema }] });
+
+const valuesByKey = {
+  type: 'object',
+  additionalProperties: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] }
+};
+const deepObject = { style: 'deepObject', explode: true };
+
+// Filters shared by the response list, summary and export (utils/responseFilters)
+const filterParams = [
+  queryParam('version', 'Form version answered; all versions merged when unset', { type: 'integer', minimum: 1 }),
+  queryParam('quarantined', 'Only the responses quarantined as suspected spam', { type: 'boolean' }),
+  queryParam('q', 'Text searched in answers, submitter email and name'),
+  queryParam('email', "Part of the submitter's email address"),
+  queryParam('from', 'Earliest submission time', { type: 'string', format: 'date-time' }),
+  queryParam('to', 'Latest submission time; a date without a time includes that whole day', { type: 'string' }),
+  queryParam('answer', 'Answers to match, by question id; repeat a key for any of several values', valuesByKey, deepObject),
+  queryParam('field', 'Hidden field values to match, by name; repeat a key for any of several values', valuesByKey, deepObject),
+  queryParam('status', 'Triage status; repeat for any of several', stringOrList(ref('ResponseStatus'))),
+  queryParam('tag', 'A tag the response has; repeat for any of several', stringOrList({ type: 'string' })),
+  queryParam('assignee', 'Id of the member it is assigned to, or "none" for unassigned'),
+  queryParam('sort', 'submittedAt, submitterEmail, submitterName or question:<id>'),
+  queryParam('order', 'Sort direction', { enum: ['asc', 'desc'], default: 'desc' })
+];
+const timezoneParam = queryParam('timezone', 'IANA time zone for dates', { type: 'string', default: 'UTC' });
+
+const exportTypes = Object.fromEntries(Object.values(EXPORT_FORMATS).map(({ contentType }) => [
+  contentType.split(';')[0],
+  { schema: { type: 'string', format: 'binary' } }
+]));
+
+module.exports = {
+  '/responses': {
+    post: {
+      operationId: 'responses.submit',
+      tags: ['responses'],
+      summary: 'Submit a response to a public form',
+      description: 'Rate limited per IP address and per form. File questions are answered with ' +
+        'the token of a file uploaded beforehand (uploads.uploadFile).',
+      requestBody: jsonBody(ref('SubmitResponseData')),
+      responses: {
+        201: response('Response stored', withMessage({ responseId: { type: 'string' } }, ['responseId'])),
+        ...errors(400, 403, 404, 429)
+      }
+    }
+  },
+  '/responses/partial': {
+    post: {
+      operationId: 'responses.savePartial',
+      tags: ['responses'],
+      summary: 'Save the answers given so far to a form that saves progress',
+      description: 'Rate limited per IP address.',
+      requestBody: jsonBody(ref('SavePartialResponseData')),
+      responses: {
+        200: response('Progress saved', withMessage({
+          resumeToken: { type: 'string', description: 'Send back with later saves and the final submission' },
+          expiresAt: { type: 'string', format: 'date-time' }
+        }, ['resumeToken', 'expiresAt'])),
+        ...errors(400, 403, 404, 429)
+      }
+    }
+  },
+  '/responses/form/{formId}': {
+    get: {
+      operationId: 'responses.getByForm',
+      tags: ['responses'],
+      summary: "Get a page of a form's responses",
+      ...secured,
+      parameters: [
+        formId,
+        queryParam('page', 'Page number, from 1', { type: 'integer', minimum: 1, default: 1 }),
+        queryParam('limit', 'Responses per page', { type: 'integer', minimum: 1, maximum: 100, default: 20 }),
+        ...filterParams
+      ],
+      responses: {
+        200: response('A page of responses', object({
+          responses: { type: 'array', items: ref('Response') },
+          totalPages: { type: 'integer' },
+          currentPage: { type: 'integer' },
+          total: { type: 'integer' },
+          quarantinedTotal: { type: 'integer', description: 'Responses awaiting spam review' }
+        }, ['responses', 'totalPages', 'currentPage', 'total', 'quarantinedTotal'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/responses/form/{formId}/summary': {
+    get: {
+      operationId: 'responses.getSummary',
+      tags: ['responses'],
+      summary: "Get summary statistics for a form's responses",
+      ...secured,
+      parameters: [
+        formId,
+        ...filterParams,
+        queryParam('interval', 'Period of the timeline', { ...ref('SummaryInterval'), default: 'day' }),
+        timezoneParam
+      ],
+      responses: {
+        200: response('The summary', object({ summary: ref('FormSummary') }, ['summary'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/responses/form/{formId}/export': {
+    get: {
+      operationId: 'responses.export',
+      tags: ['responses'],
+      summary: "Download a form's responses",
+      ...secured,
+      parameters: [
+        formId,
+        ...filterParams,
+        queryParam('format', 'File format', { ...ref('ExportFormat'), default: 'csv' }),
+        timezoneParam
+      ],
+      responses: {
+        200: { description: 'The export file, as an attachment', content: exportTypes },
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/responses/form/{formId}/tags': {
+    get: {
+      operationId: 'responses.getTags',
+      tags: ['responses'],
+      summary: "Get the tags used on a form's responses",
+      ...secured,
+      parameters: [formId],
+      responses: {
+        200: response('Tags in alphabetical order', object({ tags: { type: 'array', items: { type: 'string' } } }, ['tags'])),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/responses/{id}': {
+    get: {
+      operationId: 'responses.getById',
+      tags: ['responses'],
+      summary: 'Get a response',
+      ...secured,
+      parameters: [responseId],
+      responses: {
+        200: response('The response, with its form\'s title and the people in its triage', object({ response: ref('Response') }, ['response'])),
+        ...errors(401, 403, 404)
+      }
+    },
+    delete: {
+      operationId: 'responses.delete',
+      tags: ['responses'],
+      summary: 'Delete a response',
+      ...secured,
+      parameters: [responseId],
+      responses: {
+        200: response('Response deleted', ref('Message')),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/responses/{id}/files/{questionId}': {
+    get: {
+      operationId: 'responses.getFileLink',
+      tags: ['responses'],
+      summary: 'Get a download link for the file answering a question',
+      description: 'The link is signed and works for an hour without credentials.',
+      ...secured,
+      parameters: [responseId, pathParam('questionId', 'Id of the file question')],
+      responses: {
+        200: response('The link', ref('FileLink')),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/responses/{id}/allow-resubmission': {
+    post: {
+      operationId: 'responses.allowResubmission',
+      tags: ['responses'],
+      summary: 'Let the sender of a response respond again',
+      ...secured,
+      parameters: [responseId],
+      responses: {
+        200: response('Fingerprints cleared', withMessage({ response: ref('Response') }, ['response'])),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/responses/{id}/spam': {
+    patch: {
+      operationId: 'responses.setQuarantined',
+      tags: ['responses'],
+      summary: 'Quarantine a response as spam, or release it into the results',
+      ...secured,
+      parameters: [responseId],
+      requestBody: jsonBody(ref('SpamReviewInput')),
+      responses: {
+        200: response('Response reviewed', withMessage({ response: ref('Response') }, ['response'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/responses/{id}/triage': {
+    patch: {
+      operationId: 'responses.updateTriage',
+      tags: ['responses'],
+      summary: "Change a response's status, tags or assignee",
+      ...secured,
+      parameters: [responseId],
+      requestBody: jsonBody(ref('TriageInput')),
+      responses: {
+        200: response('Response updated', withMessage({ response: ref('Response') }, ['response'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/responses/{id}/notes': {
+    post: {
+      operationId: 'responses.addNote',
+      tags: ['responses'],
+      summary: 'Add an internal note to a response',
+      ...secured,
+      parameters: [responseId],
+      requestBody: jsonBody(ref('NoteInput')),
+      responses: {
+        201: response('Note added', withMessage({ response: ref('Response') }, ['response'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/responses/{id}/notes/{noteId}': {
+    delete: {
+      operationId: 'responses.deleteNote',
+      tags: ['responses'],
+      summary: 'Delete a note from a response (its author or workspace owners)',
+      ...secured,
+      parameters: [responseId, pathParam('noteId', 'Note id')],
+      responses: {
+        200: response('Note deleted', withMessage({ response: ref('Response') }, ['response'])),
+        ...errors(401, 403, 404)
+      }
+    }
+  }
+};
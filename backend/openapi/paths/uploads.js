@@ -0,0 +1,66 @@
+const { ref, object, response, pathParam, errors, secured } = require('../helpers');
+
+module.exports = {
+  '/uploads/images': {
+    post: {
+      operationId: 'uploads.uploadImage',
+      tags: ['uploads'],
+      summary: 'Upload a branding image (logo or form header)',
+      description: 'PNG, JPEG, GIF or WebP, up to 2MB.',
+      ...secured,
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: object({ image: { type: 'string', format: 'binary' } }, ['image'])
+          }
+        }
+      },
+      responses: {
+        201: response('Image stored', object({
+          url: { type: 'string', description: 'Public URL of the image' }
+        }, ['url'])),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/uploads/forms/{formId}/questions/{questionId}': {
+    post: {
+      operationId: 'uploads.uploadFile',
+      tags: ['uploads'],
+      summary: 'Upload a file to answer a file question of a public form',
+      description: "Within the question's size and type limits. Files are virus scanned when a " +
+        'scanner is configured. Rate limited per IP address.',
+      parameters: [pathParam('formId', 'Form id'), pathParam('questionId', 'Id of the file question')],
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: object({ file: { type: 'string', format: 'binary' } }, ['file'])
+          }
+        }
+      },
+      responses: {
+        201: response('File stored', ref('UploadedFile')),
+        ...errors(400, 403, 404, 429)
+      }
+    }
+  },
+  '/uploads/files/{token}': {
+    get: {
+      operationId: 'uploads.downloadFile',
+      tags: ['uploads'],
+      summary: 'Download a file uploaded to a form',
+      description: 'Needs no credentials; the token is part of a signed link from ' +
+        'responses.getFileLink or an export, and expires.',
+      parameters: [pathParam('token', 'Signed token from the link')],
+      responses: {
+        200: {
+          description: 'The file, as an attachment',
+          content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } }
+        },
+        ...errors(404)
+      }
+    }
+  }
+};
@@ -0,0 +1,101 @@
+const {
+  ref,
+  object,
+  withMessage,
+  jsonBody,
+  response,
+  pathParam,
+  queryParam,
+  errors,
+  secured
+} = require('../helpers');
+
+const formId = pathParam('formId', 'Form id');
+const webhookId = pathParam('id', 'Webhook id');
+
+module.exports = {
+  '/webhooks/form/{formId}': {
+    get: {
+      operationId: 'webhooks.getByForm',
+      tags: ['webhooks'],
+      summary: 'Get the webhooks of a form (editors)',
+      ...secured,
+      parameters: [formId],
+      responses: {
+        200: response('The webhooks and the events they can subscribe to', object({
+          webhooks: { type: 'array', items: ref('Webhook') },
+          events: { type: 'array', items: ref('WebhookEvent') }
+        }, ['webhooks', 'events'])),
+        ...errors(401, 403, 404)
+      }
+    },
+    post: {
+      operationId: 'webhooks.create',
+      tags: ['webhooks'],
+      summary: 'Subscribe a URL to events of a form (editors)',
+      ...secured,
+      parameters: [formId],
+      requestBody: jsonBody(ref('WebhookInput')),
+      responses: {
+        201: response('Webhook created', withMessage({ webhook: ref('Webhook') }, ['webhook'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/webhooks/{id}': {
+    put: {
+      operationId: 'webhooks.update',
+      tags: ['webhooks'],
+      summary: "Update a webhook's URL, events, secret or status (editors)",
+      ...secured,
+      parameters: [webhookId],
+      requestBody: jsonBody(ref('UpdateWebhookData')),
+      responses: {
+        200: response('Webhook updated', withMessage({ webhook: ref('Webhook') }, ['webhook'])),
+        ...errors(400, 401, 403, 404)
+      }
+    },
+    delete: {
+      operationId: 'webhooks.delete',
+      tags: ['webhooks'],
+      summary: 'Delete a webhook and its delivery log (editors)',
+      ...secured,
+      parameters: [webhookId],
+      responses: {
+        200: response('Webhook deleted', ref('Message')),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/webhooks/{id}/test': {
+    post: {
+      operationId: 'webhooks.sendTest',
+      tags: ['webhooks'],
+      summary: 'Send a test event and wait for the first attempt (editors)',
+      ...secured,
+      parameters: [webhookId],
+      responses: {
+        200: response('The test delivery', object({ delivery: ref('WebhookDelivery') }, ['delivery'])),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/webhooks/{id}/deliveries': {
+    get: {
+      operationId: 'webhooks.getDeliveries',
+      tags: ['webhooks'],
+      summary: 'Get the most recent deliveries of a webhook (editors)',
+      ...secured,
+      parameters: [
+        webhookId,
+        queryParam('limit', 'Deliveries to return', { type: 'integer', minimum: 1, maximum: 100, default: 20 })
+      ],
+      responses: {
+        200: response('Deliveries, newest first', object({
+          deliveries: { type: 'array', items: ref('WebhookDelivery') }
+        }, ['deliveries'])),
+        ...errors(401, 403, 404)
+      }
+    }
+  }
+};
@@ -0,0 +1,167 @@
+const {
+  ref,
+  object,
+  withMessage,
+  jsonBody,
+  response,
+  pathParam,
+  errors,
+  secured
+} = require('../helpers');
+
+const workspaceId = pathParam('id', 'Workspace id');
+const token = pathParam('token', 'Token from the invitation link');
+const userId = pathParam('userId', "Member's user id");
+
+const workspaceResponse = (description) =>
+  response(description, withMessage({ workspace: ref('Workspace') }, ['workspace']));
+
+module.exports = {
+  '/workspaces': {
+    get: {
+      operationId: 'workspaces.getAll',
+      tags: ['workspaces'],
+      summary: 'List the workspaces you belong to',
+      description: 'Users without a workspace get a personal one.',
+      ...secured,
+      responses: {
+        200: response('Your workspaces', object({
+          workspaces: { type: 'array', items: ref('WorkspaceSummary') }
+        }, ['workspaces'])),
+        ...errors(401)
+      }
+    },
+    post: {
+      operationId: 'workspaces.create',
+      tags: ['workspaces'],
+      summary: 'Create a workspace you own',
+      ...secured,
+      requestBody: jsonBody(ref('WorkspaceInput')),
+      responses: {
+        201: workspaceResponse('Workspace created'),
+        ...errors(400, 401)
+      }
+    }
+  },
+  '/workspaces/invitations/{token}': {
+    get: {
+      operationId: 'workspaces.getInvitation',
+      tags: ['workspaces'],
+      summary: 'Get the details of an invitation from its link',
+      parameters: [token],
+      responses: {
+        200: response('The invitation', object({ invitation: ref('InvitationDetails') }, ['invitation'])),
+        ...errors(404)
+      }
+    }
+  },
+  '/workspaces/invitations/{token}/accept': {
+    post: {
+      operationId: 'workspaces.acceptInvitation',
+      tags: ['workspaces'],
+      summary: 'Join a workspace with an invitation sent to your email',
+      ...secured,
+      parameters: [token],
+      responses: {
+        200: workspaceResponse('Joined the workspace'),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/workspaces/{id}': {
+    get: {
+      operationId: 'workspaces.getById',
+      tags: ['workspaces'],
+      summary: 'Get a workspace with its members',
+      ...secured,
+      parameters: [workspaceId],
+      responses: {
+        200: response('The workspace', object({ workspace: ref('Workspace') }, ['workspace'])),
+        ...errors(401, 404)
+      }
+    },
+    put: {
+      operationId: 'workspaces.update',
+      tags: ['workspaces'],
+      summary: 'Rename a workspace (owners)',
+      ...secured,
+      parameters: [workspaceId],
+      requestBody: jsonBody(ref('WorkspaceInput')),
+      responses: {
+        200: workspaceResponse('Workspace renamed'),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/workspaces/{id}/security': {
+    put: {
+      operationId: 'workspaces.updateSecurity',
+      tags: ['workspaces'],
+      summary: 'Require members to use two-factor authentication, or stop requiring it (owners)',
+      description: 'Owners need two-factor authentication themselves before requiring it.',
+      ...secured,
+      parameters: [workspaceId],
+      requestBody: jsonBody(ref('WorkspaceSecurityInput')),
+      responses: {
+        200: workspaceResponse('Security settings updated'),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/workspaces/{id}/invitations': {
+    post: {
+      operationId: 'workspaces.invite',
+      tags: ['workspaces'],
+      summary: 'Invite someone to a workspace by email (owners)',
+      description: 'Inviting the same email again replaces the earlier invitation.',
+      ...secured,
+      parameters: [workspaceId],
+      requestBody: jsonBody(ref('InvitationInput')),
+      responses: {
+        201: response('Invitation created', withMessage({
+          token: { type: 'string', description: 'Only returned once; share the link with the invitee' },
+          workspace: ref('Workspace')
+        }, ['token', 'workspace'])),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  },
+  '/workspaces/{id}/invitations/{invitationId}': {
+    delete: {
+      operationId: 'workspaces.revokeInvitation',
+      tags: ['workspaces'],
+      summary: 'Revoke a pending invitation (owners)',
+      ...secured,
+      parameters: [workspaceId, pathParam('invitationId', 'Invitation id')],
+      responses: {
+        200: workspaceResponse('Invitation revoked'),
+        ...errors(401, 403, 404)
+      }
+    }
+  },
+  '/workspaces/{id}/members/{userId}': {
+    put: {
+      operationId: 'workspaces.updateMember',
+      tags: ['workspaces'],
+      summary: "Change a member's role (owners)",
+      ...secured,
+      parameters: [workspaceId, userId],
+      requestBody: jsonBody(ref('MemberInput')),
+      responses: {
+        200: workspaceResponse('Member updated'),
+        ...errors(400, 401, 403, 404)
+      }
+    },
+    delete: {
+      operationId: 'workspaces.removeMember',
+      tags: ['workspaces'],
+      summary: 'Remove a member (owners), or leave the workspace by removing yourself',
+      ...secured,
+      parameters: [workspaceId, userId],
+      responses: {
+        200: response('Member removed', ref('Message')),
+        ...errors(400, 401, 403, 404)
+      }
+    }
+  }
+};
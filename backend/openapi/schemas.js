@@ -0,0 +1,929 @@
+// Component schemas of the OpenAPI document: the resources the API returns
+// and the bodies it accepts. Request schemas for settings owned by a util
+// (branding, notifications, ...) live next to the code that applies them.
+
+const { OBJECT_ID, ref, trimmed, blankable, object, withMessage } = require('./helpers');
+const { FONTS, brandingSchema } = require('../utils/branding');
+const { ROLES } = require('../utils/permissions');
+const { QUESTION_TYPES } = require('../utils/questionTypes');
+const { CONDITION_OPERATORS } = require('../utils/formLogic');
+const { NOTIFICATION_MODES, notificationSettingsSchema } = require('../utils/notifications');
+const { DUPLICATE_STRATEGIES, duplicateSettingsSchema } = require('../utils/duplicates');
+const { SPAM_REASONS, spamSettingsSchema } = require('../utils/spam');
+const { FORM_STATUSES, lifecycleProperties, lifecycleSettingsProperties } = require('../utils/formLifecycle');
+const { hiddenFieldsSchema, hiddenFieldValuesSchema } = require('../utils/hiddenFields');
+const { SUMMARY_INTERVALS } = require('../utils/summary');
+const { EXPORT_FORMATS } = require('../utils/responseExport');
+const { RECIPIENT_STATUSES, campaignSchema } = require('../utils/campaigns');
+const { WEBHOOK_EVENTS, TEST_EVENT } = require('../utils/webhooks');
+const { API_KEY_SCOPES, apiKeySchema } = require('../utils/apiKeys');
+const { RESPONSE_STATUSES, triageSchema, noteSchema } = require('../utils/triage');
+
+const MAX_QUESTIONS = 100;
+const MAX_SECTIONS = 20;
+const MAX_ANSWERS = 500;
+const THEMES = ['light', 'dark', 'blue', 'green'];
+
+const id = { type: 'string' };
+const timestamp = { type: 'string', format: 'date-time' };
+const nullableTimestamp = { type: ['string', 'null'], format: 'date-time' };
+const count = { type: 'integer', minimum: 0 };
+const counts = { type: 'object', additionalProperties: { type: 'number' } };
+const strings = { type: 'array', items: { type: 'string' } };
+
+// Properties shared by form create and update bodies; `required` sets which
+// of them a body must have
+const formInput = (required) => object({
+  title: trimmed(200, 1),
+  description: trimmed(500),
+  sections: {
+    type: 'array',
+    maxItems: MAX_SECTIONS,
+    items: ref('FormSectionInput')
+  },
+  questions: {
+    type: 'array',
+    minItems: 1,
+    maxItems: MAX_QUESTIONS,
+    items: ref('QuestionInput')
+  },
+  hiddenFields: ref('HiddenFieldsInput'),
+  ...lifecycleProperties,
+  settings: ref('FormSettingsInput')
+}, required);
+
+// Properties of webhook create and update bodies
+const webhookInput = (required) => object({
+  url: {
+    type: 'string',
+    'x-trim': true,
+    format: 'url',
+    pattern: '^https?://',
+    description: 'http(s) URL the events are POSTed to'
+  },
+  events: { type: 'array', minItems: 1, items: ref('WebhookEvent') },
+  secret: {
+    ...blankable({ type: 'string', minLength: 16, maxLength: 200 }),
+    description: 'Signs deliveries; generated when left blank on creation'
+  },
+  isActive: { type: 'boolean' }
+}, required);
+
+const schemas = {
+  Message: object({ message: { type: 'string' } }, ['message']),
+
+  ValidationErrors: object({
+    errors: {
+      type: 'array',
+      items: object({
+        type: { const: 'field' },
+        value: {},
+        msg: { type: 'string' },
+        path: { type: 'string', description: 'Field in the body, e.g. questions[0].text' },
+        location: { const: 'body' }
+      }, ['type', 'msg', 'path', 'location'])
+    }
+  }, ['errors']),
+
+  FormTheme: { enum: THEMES },
+
+  BrandingFont: { enum: FONTS },
+
+  Branding: object({
+    logoUrl: { type: 'string' },
+    headerImageUrl: { type: 'string' },
+    primaryColor: { type: 'string' },
+    fontFamily: ref('BrandingFont'),
+    showPoweredBy: { type: 'boolean' }
+  }),
+
+  BrandingInput: brandingSchema,
+
+  User: object({
+    _id: id,
+    email: { type: 'string' },
+    businessName: { type: 'string' },
+    role: { const: 'admin' },
+    emailVerified: { type: 'boolean' },
+    isActive: { type: 'boolean' },
+    branding: ref('Branding'),
+    twoFactor: ref('TwoFactorStatus'),
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, ['_id', 'email', 'businessName', 'role', 'emailVerified', 'isActive', 'twoFactor', 'createdAt', 'updatedAt']),
+
+  TwoFactorStatus: object({
+    enabled: { type: 'boolean' },
+    enabledAt: timestamp,
+    recoveryCodesLeft: count
+  }, ['enabled', 'recoveryCodesLeft']),
+
+  UserSummary: object({
+    _id: id,
+    email: { type: 'string' },
+    businessName: { type: 'string' }
+  }, ['_id', 'email', 'businessName']),
+
+  SessionUser: object({
+    id: id,
+    email: { type: 'string' },
+    businessName: { type: 'string' },
+    role: { const: 'admin' },
+    emailVerified: { type: 'boolean' },
+    twoFactorEnabled: { type: 'boolean' },
+    branding: ref('Branding')
+  }, ['id', 'email', 'businessName', 'role', 'emailVerified', 'twoFactorEnabled'], {
+    description: 'The user as returned with a new session token'
+  }),
+
+  AuthSession: withMessage({
+    token: { type: 'string', description: 'Short-lived access token for the Authorization header' },
+    user: ref('SessionUser')
+  }, ['token', 'user']),
+
+  TwoFactorChallenge: {
+    ...withMessage({
+      twoFactorRequired: { const: true },
+      twoFactorToken: { type: 'string', description: 'Send back with a code to POST /auth/login/2fa' }
+    }, ['twoFactorRequired', 'twoFactorToken']),
+    description: 'The password was right; the account also needs a code from its authenticator app'
+  },
+
+  LoginResult: { anyOf: [ref('AuthSession'), ref('TwoFactorChallenge')] },
+
+  TwoFactorLogin: object({
+    twoFactorToken: { type: 'string' },
+    code: { type: 'string', description: 'Code from the authenticator app' },
+    recoveryCode: { type: 'string', description: 'One of the recovery codes, instead of a code' }
+  }, ['twoFactorToken']),
+
+  TwoFactorSetup: object({
+    secret: { type: 'string', description: 'For authenticator apps that cannot scan the QR code' },
+    otpauthUrl: { type: 'string' },
+    qrCode: { type: 'string', description: 'The otpauth URL as a PNG data URL' }
+  }, ['secret', 'otpauthUrl', 'qrCode']),
+
+  TwoFactorCode: object({
+    code: { type: 'string', 'x-trim': true, pattern: '^\\d{6}$', 'x-error-message': 'Enter the 6-digit code' }
+  }, ['code']),
+
+  RecoveryCodes: withMessage({
+    recoveryCodes: { ...strings, description: 'Only returned once; each code works once' }
+  }, ['recoveryCodes']),
+
+  LoginCredentials: object({
+    email: { type: 'string', format: 'email', 'x-normalize-email': true },
+    password: { type: 'string' }
+  }, ['email', 'password']),
+
+  RegisterData: object({
+    email: { type: 'string', format: 'email', 'x-normalize-email': true },
+    password: { type: 'string', minLength: 6 },
+    businessName: trimmed(undefined, 2)
+  }, ['email', 'password', 'businessName']),
+
+  PasswordChange: object({
+    currentPassword: { type: 'string' },
+    newPassword: { type: 'string', minLength: 6, 'x-error-message': 'New password must be at least 6 characters' }
+  }, ['currentPassword', 'newPassword']),
+
+  AccountUpdate: object({
+    businessName: { ...trimmed(undefined, 2), 'x-error-message': 'Business name must be at least 2 characters' },
+    email: { type: 'string', format: 'email', 'x-normalize-email': true, 'x-error-message': 'Please enter a valid email' },
+    currentPassword: { type: 'string', description: 'Needed to change the email address' }
+  }),
+
+  PasswordConfirmation: object({
+    password: { type: 'string', description: 'The current password' }
+  }, ['password']),
+
+  ForgotPasswordData: object({
+    email: { type: 'string', format: 'email', 'x-normalize-email': true, 'x-error-message': 'Please enter a valid email' }
+  }, ['email']),
+
+  ResetPasswordData: object({
+    token: { type: 'string', description: 'Token from the reset link' },
+    password: { type: 'string', minLength: 6, 'x-error-message': 'Password must be at least 6 characters' }
+  }, ['token', 'password']),
+
+  EmailVerificationData: object({
+    token: { type: 'string', description: 'Token from the verification link' }
+  }, ['token']),
+
+  Session: object({
+    _id: id,
+    userAgent: { type: 'string' },
+    ipAddress: { type: 'string' },
+    lastUsedAt: timestamp,
+    expiresAt: timestamp,
+    createdAt: timestamp,
+    current: { type: 'boolean', description: 'Whether this is the session making the request' }
+  }, ['_id', 'lastUsedAt', 'expiresAt', 'createdAt', 'current'], {
+    description: 'A browser signed in to the account'
+  }),
+
+  WorkspaceRole: { enum: ROLES },
+
+  WorkspaceSummary: object({
+    _id: id,
+    name: { type: 'string' },
+    role: ref('WorkspaceRole'),
+    memberCount: count,
+    requireTwoFactor: { type: 'boolean' }
+  }, ['_id', 'name', 'role', 'memberCount', 'requireTwoFactor']),
+
+  WorkspaceMember: object({
+    user: ref('UserSummary'),
+    role: ref('WorkspaceRole'),
+    twoFactorEnabled: { type: 'boolean' },
+    joinedAt: timestamp
+  }, ['user', 'role', 'twoFactorEnabled', 'joinedAt']),
+
+  WorkspaceInvitation: object({
+    _id: id,
+    email: { type: 'string' },
+    role: ref('WorkspaceRole'),
+    expiresAt: timestamp,
+    createdAt: timestamp
+  }, ['_id', 'email', 'role', 'expiresAt', 'createdAt']),
+
+  Workspace: object({
+    _id: id,
+    name: { type: 'string' },
+    role: ref('WorkspaceRole'),
+    requireTwoFactor: {
+      type: 'boolean',
+      description: 'Members without two-factor authentication can only leave the workspace'
+    },
+    members: { type: 'array', items: ref('WorkspaceMember') },
+    invitations: {
+      type: 'array',
+      items: ref('WorkspaceInvitation'),
+      description: 'Only listed for owners'
+    },
+    createdAt: timestamp
+  }, ['_id', 'name', 'role', 'requireTwoFactor', 'members', 'invitations', 'createdAt']),
+
+  InvitationDetails: object({
+    workspaceName: { type: 'string' },
+    email: { type: 'string' },
+    role: ref('WorkspaceRole'),
+    expiresAt: timestamp
+  }, ['workspaceName', 'email', 'role', 'expiresAt'], {
+    description: 'A workspace invitation as its link shows it to the invitee'
+  }),
+
+  WorkspaceInput: object({ name: trimmed(100, 1) }, ['name']),
+
+  InvitationInput: object({
+    email: { type: 'string', format: 'email', 'x-normalize-email': true },
+    role: ref('WorkspaceRole')
+  }, ['email', 'role']),
+
+  MemberInput: object({ role: ref('WorkspaceRole') }, ['role']),
+
+  WorkspaceSecurityInput: object({ requireTwoFactor: { type: 'boolean' } }, ['requireTwoFactor']),
+
+  QuestionType: { enum: QUESTION_TYPES },
+
+  QuestionScale: object({
+    min: { type: 'number' },
+    max: { type: 'number' },
+    minLabel: { type: 'string' },
+    maxLabel: { type: 'string' }
+  }, ['min', 'max']),
+
+  QuestionLimits: object({
+    min: { type: 'number' },
+    max: { type: 'number' }
+  }),
+
+  QuestionFileSettings: object({
+    maxSizeMB: { type: 'number', description: 'Largest file accepted, in megabytes' },
+    allowedTypes: {
+      ...strings,
+      description: 'MIME types such as application/pdf or groups such as image/*; empty accepts any'
+    }
+  }),
+
+  UploadedFile: object({
+    token: { type: 'string', description: "Answer to the file question with this; it is kept until the response is submitted" },
+    name: { type: 'string' },
+    size: { type: 'integer' },
+    mimeType: { type: 'string' }
+  }, ['token', 'name', 'size', 'mimeType']),
+
+  ConditionOperator: { enum: CONDITION_OPERATORS },
+
+  QuestionCondition: object({
+    questionId: { type: 'string' },
+    operator: ref('ConditionOperator'),
+    value: { type: 'string' }
+  }, ['questionId', 'operator']),
+
+  QuestionLogic: object({
+    match: { enum: ['all', 'any'] },
+    conditions: { type: 'array', items: ref('QuestionCondition') }
+  }, ['match', 'conditions']),
+
+  QuestionBranch: object({
+    option: { type: 'string' },
+    goTo: {
+      type: 'string',
+      description: "Id of the question or section to jump to, or 'end' to finish the form"
+    }
+  }, ['option', 'goTo']),
+
+  FormSection: object({
+    _id: id,
+    title: { type: 'string' },
+    description: { type: 'string' }
+  }, ['_id', 'title']),
+
+  FormSectionInput: object({
+    _id: id,
+    title: trimmed(200, 1),
+    description: trimmed(500)
+  }, ['title']),
+
+  Question: object({
+    _id: id,
+    text: { type: 'string' },
+    type: ref('QuestionType'),
+    options: strings,
+    scale: ref('QuestionScale'),
+    limits: ref('QuestionLimits'),
+    file: ref('QuestionFileSettings'),
+    logic: ref('QuestionLogic'),
+    branches: { type: 'array', items: ref('QuestionBranch') },
+    section: { type: 'string' },
+    required: { type: 'boolean' },
+    order: { type: 'integer' }
+  }, ['_id', 'text', 'type', 'required', 'order']),
+
+  QuestionInput: object({
+    _id: id,
+    text: trimmed(500, 1),
+    type: ref('QuestionType'),
+    options: strings,
+    scale: ref('QuestionScale'),
+    limits: ref('QuestionLimits'),
+    file: ref('QuestionFileSettings'),
+    logic: ref('QuestionLogic'),
+    branches: { type: 'array', items: ref('QuestionBranch') },
+    section: { type: 'string' },
+    required: { type: 'boolean' },
+    order: { type: 'integer' }
+  }, ['text', 'type'], {
+    description: 'Type-specific settings, sections and logic are checked when the form is saved'
+  }),
+
+  AnswerValue: {
+    anyOf: [{ type: 'string' }, { type: 'number' }, strings]
+  },
+
+  NotificationMode: { enum: NOTIFICATION_MODES },
+
+  NotificationSettings: object({
+    mode: ref('NotificationMode'),
+    recipients: {
+      ...strings,
+      description: "Email addresses of members of the form's workspace; empty means the form's creator"
+    },
+    sendReceipts: { type: 'boolean' }
+  }, ['mode', 'recipients', 'sendReceipts']),
+
+  NotificationSettingsInput: notificationSettingsSchema,
+
+  DuplicateStrategy: {
+    enum: DUPLICATE_STRATEGIES,
+    description: 'Ways of recognising a repeat response when a form allows only one per person'
+  },
+
+  DuplicateSettings: object({
+    strategies: { type: 'array', items: ref('DuplicateStrategy') },
+    ipWindowHours: {
+      type: 'integer',
+      description: 'How long the same IP address is blocked after responding'
+    }
+  }, ['strategies', 'ipWindowHours']),
+
+  DuplicateSettingsInput: duplicateSettingsSchema,
+
+  SpamSettings: object({
+    captcha: {
+      type: 'boolean',
+      description: 'Only enforced when the server has a CAPTCHA provider configured'
+    },
+    minFillSeconds: {
+      type: 'integer',
+      description: 'Faster submissions are quarantined as suspected spam'
+    }
+  }, ['captcha', 'minFillSeconds'], { description: 'Bot checks for public submissions' }),
+
+  SpamSettingsInput: spamSettingsSchema,
+
+  CaptchaProvider: { enum: ['turnstile', 'hcaptcha', 'recaptcha', 'stub'] },
+
+  CaptchaConfig: object({
+    provider: ref('CaptchaProvider'),
+    siteKey: { type: ['string', 'null'] }
+  }, ['provider', 'siteKey'], {
+    description: 'CAPTCHA widget a public form must show; returned with the public form'
+  }),
+
+  FormStatus: { enum: FORM_STATUSES },
+
+  FormState: {
+    anyOf: [ref('FormStatus'), { const: 'scheduled' }],
+    description: 'An open form is scheduled until its opening time and closed after its closing time'
+  },
+
+  FormSettings: object({
+    allowMultipleResponses: { type: 'boolean' },
+    duplicates: ref('DuplicateSettings'),
+    spam: ref('SpamSettings'),
+    requireEmail: { type: 'boolean' },
+    saveProgress: {
+      type: 'boolean',
+      description: 'Unfinished answers are saved so respondents can continue later'
+    },
+    theme: ref('FormTheme'),
+    branding: ref('Branding'),
+    notifications: ref('NotificationSettings'),
+    maxResponses: { type: ['integer', 'null'] },
+    closedMessage: {
+      type: 'string',
+      description: 'Shown on the public form while it is closed'
+    }
+  }, ['allowMultipleResponses', 'requireEmail', 'theme']),
+
+  FormSettingsInput: object({
+    allowMultipleResponses: { type: 'boolean' },
+    duplicates: ref('DuplicateSettingsInput'),
+    spam: ref('SpamSettingsInput'),
+    requireEmail: { type: 'boolean' },
+    saveProgress: { type: 'boolean' },
+    theme: ref('FormTheme'),
+    branding: ref('BrandingInput'),
+    notifications: ref('NotificationSettingsInput'),
+    ...lifecycleSettingsProperties
+  }),
+
+  HiddenFieldsInput: hiddenFieldsSchema,
+
+  Form: object({
+    _id: id,
+    title: { type: 'string' },
+    description: { type: 'string' },
+    creator: { type: 'string' },
+    workspace: { type: 'string' },
+    sections: { type: 'array', items: ref('FormSection') },
+    questions: { type: 'array', items: ref('Question') },
+    hiddenFields: {
+      ...strings,
+      description: "Names of values captured from the public form's URL"
+    },
+    status: ref('FormStatus'),
+    state: { ...ref('FormState'), description: 'Status combined with the schedule' },
+    opensAt: nullableTimestamp,
+    closesAt: nullableTimestamp,
+    publicUrl: { type: 'string' },
+    version: {
+      type: 'integer',
+      description: 'Latest published version; bumped whenever questions or sections change'
+    },
+    settings: ref('FormSettings'),
+    responseCount: count,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, ['_id', 'title', 'creator', 'questions', 'status', 'state', 'publicUrl', 'settings', 'createdAt', 'updatedAt']),
+
+  PublicFormSettings: object({
+    allowMultipleResponses: { type: 'boolean' },
+    requireEmail: { type: 'boolean' },
+    saveProgress: { type: 'boolean' },
+    theme: ref('FormTheme'),
+    closedMessage: { type: 'string' }
+  }, ['allowMultipleResponses', 'requireEmail', 'theme']),
+
+  PublicFormDetails: object({
+    _id: id,
+    title: { type: 'string' },
+    description: { type: 'string' },
+    sections: { type: 'array', items: ref('FormSection') },
+    questions: { type: 'array', items: ref('Question') },
+    hiddenFields: strings,
+    state: ref('FormState'),
+    opensAt: nullableTimestamp,
+    publicUrl: { type: 'string' },
+    version: { type: 'integer' },
+    settings: ref('PublicFormSettings'),
+    branding: { ...ref('Branding'), description: 'Account and form branding combined' }
+  }, ['_id', 'title', 'questions', 'state', 'publicUrl', 'settings', 'branding'], {
+    description: 'A form as its public page shows it to respondents'
+  }),
+
+  CreateFormData: formInput(['title', 'questions']),
+
+  UpdateFormData: formInput([]),
+
+  FormVersion: object({
+    version: { type: 'integer' },
+    title: { type: 'string' },
+    publishedBy: ref('UserSummary'),
+    publishedAt: timestamp,
+    questionCount: count,
+    responseCount: count
+  }, ['version', 'title', 'publishedAt', 'questionCount', 'responseCount']),
+
+  FormSnapshot: object({
+    _id: id,
+    form: { type: 'string' },
+    version: { type: 'integer' },
+    title: { type: 'string' },
+    sections: { type: 'array', items: ref('FormSection') },
+    questions: { type: 'array', items: ref('Question') },
+    publishedBy: ref('UserSummary'),
+    createdAt: timestamp
+  }, ['_id', 'form', 'version', 'title', 'questions', 'createdAt'], {
+    description: "A published version's questions and sections, as its respondents saw them"
+  }),
+
+  Answer: object({
+    questionId: { type: 'string' },
+    questionText: { type: 'string' },
+    questionType: ref('QuestionType'),
+    answer: ref('AnswerValue')
+  }, ['questionId', 'questionText', 'questionType', 'answer']),
+
+  SpamReason: {
+    enum: SPAM_REASONS,
+    description: 'honeypot: a hidden field was filled in; too-fast: submitted too quickly'
+  },
+
+  ResponseStatus: {
+    enum: RESPONSE_STATUSES,
+    description: 'Where the workspace is with following a response up'
+  },
+
+  ResponseNote: object({
+    _id: id,
+    author: {
+      anyOf: [{ type: 'string' }, ref('UserSummary')],
+      description: 'Filled in on single responses, an id in lists'
+    },
+    text: { type: 'string' },
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, ['_id', 'author', 'text', 'createdAt'], {
+    description: 'An internal note, never shown to the respondent'
+  }),
+
+  FileLink: object({
+    url: { type: 'string', description: 'Downloads the file without logging in until it expires' },
+    expiresAt: timestamp,
+    name: { type: 'string' },
+    size: { type: 'integer' },
+    mimeType: { type: 'string' }
+  }, ['url', 'expiresAt', 'name', 'size', 'mimeType'], {
+    description: 'A signed download link for a file answering a question'
+  }),
+
+  Response: object({
+    _id: id,
+    form: { type: 'string' },
+    formVersion: {
+      type: 'integer',
+      description: 'Unset on responses from before versioning, which count as version 1'
+    },
+    answers: { type: 'array', items: ref('Answer') },
+    submitterEmail: { type: 'string' },
+    submitterName: { type: 'string' },
+    hiddenFields: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      description: "Values of the form's hidden fields, by name"
+    },
+    ipAddress: { type: 'string' },
+    userAgent: { type: 'string' },
+    resubmissionAllowedAt: {
+      ...timestamp,
+      description: 'Set once an admin has let the sender respond again'
+    },
+    quarantined: {
+      type: 'boolean',
+      description: 'Suspected spam, left out of results until reviewed'
+    },
+    spamReasons: { type: 'array', items: ref('SpamReason') },
+    reviewedAt: timestamp,
+    status: {
+      ...ref('ResponseStatus'),
+      description: 'Unset on responses from before triage, which count as new'
+    },
+    tags: strings,
+    assignee: {
+      anyOf: [{ type: 'string' }, ref('UserSummary')],
+      description: 'Filled in on single responses, an id in lists'
+    },
+    notes: { type: 'array', items: ref('ResponseNote') },
+    submittedAt: timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, ['_id', 'form', 'answers', 'submittedAt', 'createdAt', 'updatedAt']),
+
+  SubmitResponseData: object({
+    formId: OBJECT_ID,
+    formVersion: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Version the respondent saw; rejected if the form has changed since'
+    },
+    answers: {
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_ANSWERS,
+      items: object({
+        questionId: OBJECT_ID,
+        answer: ref('AnswerValue')
+      }, ['questionId', 'answer'])
+    },
+    submitterEmail: { type: 'string', format: 'email', 'x-normalize-email': true },
+    submitterName: trimmed(100),
+    deviceToken: {
+      type: 'string',
+      maxLength: 200,
+      description: 'Signed token identifying the browser, issued with the public form'
+    },
+    inviteToken: { type: 'string', maxLength: 200 },
+    hiddenFields: {
+      ...hiddenFieldValuesSchema,
+      description: "Values for the form's hidden fields, taken from the page's URL"
+    },
+    startToken: {
+      type: 'string',
+      maxLength: 200,
+      description: 'Issued with the public form to measure how long filling it in took'
+    },
+    resumeToken: {
+      type: 'string',
+      maxLength: 200,
+      description: 'Token of the partial response being completed, which is then deleted'
+    },
+    captchaToken: { type: 'string', maxLength: 4096 },
+    website: {
+      type: 'string',
+      description: 'Honeypot; hidden from people, so only bots fill it in'
+    }
+  }, ['formId', 'answers']),
+
+  SavePartialResponseData: object({
+    formId: OBJECT_ID,
+    answers: {
+      type: 'array',
+      maxItems: MAX_ANSWERS,
+      items: object({
+        questionId: OBJECT_ID,
+        answer: ref('AnswerValue')
+      }, ['questionId', 'answer']),
+      description: 'Answers so far; invalid ones are left out rather than rejected'
+    },
+    submitterEmail: {
+      type: 'string',
+      maxLength: 254,
+      description: 'Kept once it is a valid address'
+    },
+    submitterName: trimmed(100),
+    inviteToken: { type: 'string', maxLength: 200 },
+    hiddenFields: hiddenFieldValuesSchema,
+    resumeToken: {
+      type: 'string',
+      maxLength: 200,
+      description: 'Returned by the first save; updates that partial instead of starting another'
+    }
+  }, ['formId', 'answers']),
+
+  ResumeDetails: object({
+    answers: {
+      type: 'array',
+      items: object({ questionId: { type: 'string' }, answer: ref('AnswerValue') }, ['questionId', 'answer'])
+    },
+    submitterEmail: { type: 'string' },
+    submitterName: { type: 'string' },
+    hiddenFields: { type: 'object', additionalProperties: { type: 'string' } },
+    expiresAt: timestamp
+  }, ['answers', 'expiresAt'], {
+    description: 'A partial response as its resume link restores it'
+  }),
+
+  DropOff: object({
+    totalPartials: { ...count, description: 'Partial responses never submitted' },
+    notSubmitted: { ...count, description: 'Partials with every question shown answered' },
+    questions: {
+      type: 'array',
+      items: object({
+        questionId: { type: 'string' },
+        questionText: { type: 'string' },
+        count: count
+      }, ['questionId', 'questionText', 'count']),
+      description: 'Questions respondents stopped at, in form order'
+    }
+  }, ['totalPartials', 'notSubmitted', 'questions'], {
+    description: 'Where respondents left unfinished responses'
+  }),
+
+  SpamReviewInput: object({ quarantined: { type: 'boolean' } }, ['quarantined']),
+
+  TriageInput: triageSchema,
+
+  NoteInput: noteSchema,
+
+  ExportFormat: { enum: Object.keys(EXPORT_FORMATS) },
+
+  SummaryInterval: { enum: SUMMARY_INTERVALS },
+
+  FormSummary: object({
+    totalResponses: count,
+    completionRate: {
+      type: 'number',
+      description: "Average share of the form's questions answered per response (%)"
+    },
+    interval: ref('SummaryInterval'),
+    timeline: {
+      type: 'array',
+      description: 'Responses per period: YYYY-MM-DD, YYYY-Www or YYYY-MM',
+      items: object({
+        period: { type: 'string' },
+        count
+      }, ['period', 'count'])
+    },
+    sections: {
+      type: 'array',
+      items: object({
+        sectionId: { type: 'string' },
+        title: { type: 'string' },
+        questionIds: strings
+      }, ['sectionId', 'title', 'questionIds'])
+    },
+    questions: { type: 'array', items: ref('QuestionSummary') },
+    dropOff: ref('DropOff')
+  }, ['totalResponses', 'completionRate', 'interval', 'timeline', 'sections', 'questions']),
+
+  QuestionSummary: object({
+    questionId: { type: 'string' },
+    questionText: { type: 'string' },
+    questionType: ref('QuestionType'),
+    sectionId: { type: ['string', 'null'] },
+    retired: {
+      type: 'boolean',
+      description: 'No longer on the form; only in merged results'
+    },
+    totalAnswers: count,
+    responseRate: {
+      type: 'number',
+      description: 'Share of responses answering the question (%)'
+    },
+    answers: counts,
+    percentages: {
+      ...counts,
+      description: "Share of the question's answers with each value (%)"
+    },
+    stats: object({
+      average: { type: ['number', 'null'] },
+      min: { type: ['number', 'null'] },
+      max: { type: ['number', 'null'] },
+      nps: { type: 'number' },
+      earliest: { type: ['string', 'null'] },
+      latest: { type: ['string', 'null'] }
+    }),
+    words: object({
+      averageWords: { type: 'number' },
+      totalWords: count,
+      topWords: {
+        type: 'array',
+        items: object({ word: { type: 'string' }, count }, ['word', 'count'])
+      }
+    }, ['averageWords', 'totalWords', 'topWords'], { description: 'Text questions only' })
+  }, [
+    'questionId',
+    'questionText',
+    'questionType',
+    'sectionId',
+    'retired',
+    'totalAnswers',
+    'responseRate',
+    'answers',
+    'percentages'
+  ]),
+
+  RecipientStatus: {
+    enum: RECIPIENT_STATUSES,
+    description: "pending: not emailed yet; the others follow the recipient's progress"
+  },
+
+  Campaign: object({
+    _id: id,
+    form: { type: 'string' },
+    name: { type: 'string' },
+    subject: { type: 'string' },
+    message: {
+      type: 'string',
+      description: 'May use {{name}}, {{email}} and custom fields as placeholders'
+    },
+    fields: { ...strings, description: 'Custom field columns of the recipient list' },
+    createdBy: ref('UserSummary'),
+    lastSentAt: timestamp,
+    lastRemindedAt: timestamp,
+    counts: {
+      type: 'object',
+      propertyNames: ref('RecipientStatus'),
+      additionalProperties: count,
+      description: 'Recipients in each status'
+    },
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, ['_id', 'form', 'name', 'fields', 'counts', 'createdAt', 'updatedAt']),
+
+  CampaignInput: campaignSchema,
+
+  CampaignRecipient: object({
+    _id: id,
+    campaign: { type: 'string' },
+    email: { type: 'string' },
+    name: { type: 'string' },
+    fields: { type: 'object', additionalProperties: { type: 'string' } },
+    status: ref('RecipientStatus'),
+    sentAt: timestamp,
+    openedAt: timestamp,
+    startedAt: timestamp,
+    completedAt: timestamp,
+    lastRemindedAt: timestamp,
+    reminderCount: count,
+    lastError: { type: 'string', description: 'Why the last email could not be sent' },
+    response: { type: 'string' }
+  }, ['_id', 'campaign', 'email', 'status', 'reminderCount']),
+
+  InviteDetails: object({
+    email: { type: 'string' },
+    name: { type: 'string' }
+  }, ['email'], {
+    description: 'Prefilled details of the recipient whose invite link opened a public form'
+  }),
+
+  WebhookEvent: { enum: WEBHOOK_EVENTS },
+
+  Webhook: object({
+    _id: id,
+    form: { type: 'string' },
+    url: { type: 'string' },
+    secret: { type: 'string' },
+    events: { type: 'array', items: ref('WebhookEvent') },
+    isActive: { type: 'boolean' },
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, ['_id', 'form', 'url', 'secret', 'events', 'isActive', 'createdAt', 'updatedAt']),
+
+  WebhookInput: webhookInput(['url', 'events']),
+
+  UpdateWebhookData: webhookInput([]),
+
+  WebhookDelivery: object({
+    _id: id,
+    webhook: { type: 'string' },
+    event: { anyOf: [ref('WebhookEvent'), { const: TEST_EVENT }] },
+    payload: { type: 'object', additionalProperties: true },
+    status: { enum: ['pending', 'succeeded', 'failed'] },
+    attempts: count,
+    nextAttemptAt: timestamp,
+    lastAttemptAt: timestamp,
+    responseStatus: { type: 'integer' },
+    responseBody: { type: 'string' },
+    error: { type: 'string' },
+    durationMs: { type: 'number' },
+    createdAt: timestamp
+  }, ['_id', 'webhook', 'event', 'payload', 'status', 'attempts', 'nextAttemptAt', 'createdAt']),
+
+  ApiKeyScope: {
+    enum: API_KEY_SCOPES,
+    description: 'Permissions a personal API key can be given'
+  },
+
+  ApiKey: object({
+    _id: id,
+    name: { type: 'string' },
+    prefix: {
+      type: 'string',
+      description: 'Start of the token; the full token is only shown when the key is created'
+    },
+    scopes: { type: 'array', items: ref('ApiKeyScope') },
+    rateLimit: { type: 'integer', description: 'Requests per minute' },
+    expiresAt: timestamp,
+    lastUsedAt: timestamp,
+    lastUsedIp: { type: 'string' },
+    createdAt: timestamp
+  }, ['_id', 'name', 'prefix', 'scopes', 'rateLimit', 'createdAt']),
+
+  ApiKeyInput: apiKeySchema
+};
+
+module.exports = schemas;
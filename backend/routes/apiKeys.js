@@ -0,0 +1,78 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const ApiKey = require('../models/ApiKey');
+const { auth } = require('../middleware/auth');
+const { validate } = require('../middleware/validate');
+const { MAX_API_KEYS, createApiKeyToken } = require('../utils/apiKeys');
+
+const router = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// @route   GET /api/api-keys
+// @desc    List the current user's API keys (without their tokens)
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const apiKeys = await ApiKey.find({ user: req.user._id }).sort({ createdAt: -1 });
+
+    res.json({ apiKeys });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/api-keys
+// @desc    Create an API key; the token is only returned in this response
+// @access  Private
+router.post('/', auth, validate('apiKeys.create'), async (req, res) => {
+  try {
+    const count = await ApiKey.countDocuments({ user: req.user._id });
+    if (count >= MAX_API_KEYS) {
+      return res.status(400).json({ message: `You can have up to ${MAX_API_KEYS} API keys. Revoke one to create another.` });
+    }
+
+    const { name, scopes, expiresInDays, rateLimit } = req.body;
+    const { token, tokenHash, prefix } = createApiKeyToken();
+
+    const apiKey = await ApiKey.create({
+      user: req.user._id,
+      name,
+      prefix,
+      tokenHash,
+      scopes: [...new Set(scopes)],
+      rateLimit,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : undefined
+    });
+
+    res.status(201).json({
+      message: 'API key created. Copy it now; it will not be shown again.',
+      apiKey,
+      token
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/api-keys/:id
+// @desc    Revoke an API key; requests using it fail from now on
+// @access  Private
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const apiKey = mongoose.Types.ObjectId.isValid(req.params.id) &&
+      await ApiKey.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+    if (!apiKey) {
+      return res.status(404).json({ message: 'API key not found' });
+    }
+
+    res.json({ message: 'API key revoked' });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
@@ -1,30 +1,108 @@
 const express = require('express');
-const jwt = require('jsonwebtoken');
-const { body, validationResult } = require('express-validator');
+const mongoose = require('mongoose');
 const User = require('../models/User');
+const Session = require('../models/Session');
+const Workspace = require('../models/Workspace');
 const { auth } = require('../middleware/auth');
+const { rateLimit } = require('../middleware/rateLimit');
+const { validate } = require('../middleware/validate');
+const { cleanBranding } = require('../utils/branding');
+const { useAccountToken, sendPasswordReset, sendEmailVerification, deleteAccount } = require('../utils/accounts');
+const {
+  getLockMessage,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  clearFailedLogins
+} = require('../utils/loginAttempts');
+const {
+  generateSecret,
+  encryptSecret,
+  decryptSecret,
+  matchCode,
+  createEnrolment,
+  createRecoveryCodes,
+  verifySecondFactor,
+  getCodeLockMessage,
+  recordFailedCode,
+  createChallengeToken,
+  readChallengeToken
+} = require('../utils/twoFactor');
+const {
+  startSession,
+  refreshSession,
+  endSession,
+  revokeSessions,
+  createAccessToken,
+  setRefreshCookie,
+  clearRefreshCookie
+} = require('../utils/sessions');
 
 const router = express.Router();
 
-// Generate JWT token
-const generateToken = (userId) => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: '7d' });
+// Password reset and verification emails, per IP address or user
+const accountEmailLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  key: (req) => `account-email:${req.user ? req.user._id : req.ip}`,
+  message: 'Too many emails requested. Please try again later.'
+});
+
+// Password and code guesses per IP address, across all email addresses
+const loginLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 50,
+  key: (req) => `login:${req.ip}`,
+  message: 'Too many login attempts from your network. Please try again later.'
+});
+
+// The user as returned with a new access token
+const sessionUser = (user) => ({
+  id: user._id,
+  email: user.email,
+  businessName: user.businessName,
+  role: user.role,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactor.enabled,
+  branding: user.branding
+});
+
+// Loads the current user with their password hash and checks `password`
+// against it; responds with an error and returns null when it does not match
+const checkPassword = async (req, res, password) => {
+  const user = await User.findById(req.user._id);
+  if (!user || !(await user.comparePassword(password))) {
+    res.status(400).json({ message: 'Password is incorrect' });
+    return null;
+  }
+  return user;
+};
+
+// Signs in a user whose password, and code if they use two-factor
+// authentication, checked out. Accounts their users deactivated come back on
+// logging in.
+const completeLogin = async (req, res, user) => {
+  const reactivated = !user.isActive && !!user.deactivatedAt;
+  if (reactivated) {
+    user.isActive = true;
+    user.deactivatedAt = undefined;
+    await user.save();
+  }
+  await recordSuccessfulLogin(user.email, req.ip);
+
+  const token = await startSession(req, res, user);
+
+  res.json({
+    message: reactivated ? 'Welcome back! Your account has been reactivated.' : 'Login successful',
+    token,
+    user: sessionUser(user)
+  });
 };
 
 // @route   POST /api/auth/register
 // @desc    Register a new admin user
 // @access  Public
-router.post('/register', [
-  body('email').isEmail().normalizeEmail(),
-  body('password').isLength({ min: 6 }),
-  body('businessName').trim().isLength({ min: 2 })
-], async (req, res) => {
+router.post('/register', validate('auth.register'), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { email, password, businessName } = req.body;
 
     // Check if user already exists
@@ -41,19 +119,16 @@ router.post('/register', [
     });
 
     await user.save();
+    await Workspace.createPersonal(user);
+    sendEmailVerification(user)
+      .catch(error => console.error('Email verification error:', error));
 
-    // Generate token
-    const token = generateToken(user._id);
+    const token = await startSession(req, res, user);
 
     res.status(201).json({
       message: 'User registered successfully',
       token,
-      user: {
-        id: user._id,
-        email: user.email,
-        businessName: user.businessName,
-        role: user.role
-      }
+      user: sessionUser(user)
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -62,52 +137,489 @@ router.post('/register', [
 });
 
 // @route   POST /api/auth/login
-// @desc    Login admin user
+// @desc    Login admin user; accounts with two-factor authentication get a
+//          challenge to finish at /api/auth/login/2fa
 // @access  Public
-router.post('/login', [
-  body('email').isEmail().normalizeEmail(),
-  body('password').exists()
-], async (req, res) => {
+router.post('/login', loginLimit, validate('auth.login'), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { email, password } = req.body;
 
-    // Check if user exists
+    // Checked before looking the user up, so unknown emails lock the same way
+    const lockMessage = await getLockMessage(email, req.ip);
+    if (lockMessage) {
+      return res.status(429).json({ message: lockMessage });
+    }
+
+    // Check if user exists and the password matches
     const user = await User.findOne({ email });
-    if (!user) {
+    if (!user || !(await user.comparePassword(password))) {
+      await recordFailedLogin(email, req.ip);
       return res.status(400).json({ message: 'Invalid credentials' });
     }
 
-    // Check if user is active
-    if (!user.isActive) {
+    // Check if user is active; self-deactivated accounts are reactivated
+    if (!user.isActive && !user.deactivatedAt) {
       return res.status(400).json({ message: 'Account is deactivated' });
     }
 
-    // Check password
-    const isMatch = await user.comparePassword(password);
+    if (user.twoFactor.enabled) {
+      return res.json({
+        message: 'Enter the code from your authenticator app',
+        twoFactorRequired: true,
+        twoFactorToken: createChallengeToken(user)
+      });
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/login/2fa
+// @desc    Finish logging in with a code from the authenticator app or a
+//          recovery code
+// @access  Public (challenge token from /api/auth/login)
+router.post('/login/2fa', loginLimit, validate('auth.loginTwoFactor'), async (req, res) => {
+  try {
+    const { twoFactorToken, code, recoveryCode } = req.body;
+
+    const userId = readChallengeToken(twoFactorToken);
+    const user = userId && await User.findById(userId);
+    if (!user || !user.twoFactor.enabled) {
+      return res.status(401).json({ message: 'Your login has expired. Please log in again.' });
+    }
+
+    const lockMessage = await getLockMessage(user.email, req.ip) || getCodeLockMessage(user);
+    if (lockMessage) {
+      return res.status(429).json({ message: lockMessage });
+    }
+    if (!code && !recoveryCode) {
+      return res.status(400).json({ message: 'Enter the code from your authenticator app' });
+    }
+
+    if (!verifySecondFactor(user, { code, recoveryCode })) {
+      await recordFailedLogin(user.email, req.ip);
+      await recordFailedCode(user);
+      return res.status(400).json({ message: recoveryCode ? 'Invalid recovery code' : 'Invalid code' });
+    }
+    // Marks the code or recovery code used and clears the wrong codes
+    await user.save();
+
+    if (!user.isActive && !user.deactivatedAt) {
+      return res.status(400).json({ message: 'Account is deactivated' });
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/refresh
+// @desc    Trade the refresh token cookie for a new one and a new access token
+// @access  Public (refresh token cookie)
+router.post('/refresh', async (req, res) => {
+  try {
+    const refreshed = await refreshSession(req);
+    const user = refreshed && await User.findById(refreshed.session.user);
+    if (!user || !user.isActive) {
+      if (refreshed) await refreshed.session.deleteOne();
+      clearRefreshCookie(res);
+      return res.status(401).json({ message: 'Your session has ended. Please log in again.' });
+    }
+
+    if (refreshed.refreshToken) {
+      setRefreshCookie(res, refreshed.refreshToken, refreshed.session.expiresAt);
+    }
+
+    res.json({
+      message: 'Session refreshed',
+      token: createAccessToken(refreshed.session),
+      user: sessionUser(user)
+    });
+  } catch (error) {
+    console.error('Refresh session error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/logout
+// @desc    End the session of the refresh token cookie
+// @access  Public (refresh token cookie)
+router.post('/logout', async (req, res) => {
+  try {
+    await endSession(req);
+    clearRefreshCookie(res);
+
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/logout-all
+// @desc    End all of the current user's sessions, on every device
+// @access  Private
+router.post('/logout-all', auth, async (req, res) => {
+  try {
+    await revokeSessions(req.user._id);
+    clearRefreshCookie(res);
+
+    res.json({ message: 'Logged out everywhere' });
+  } catch (error) {
+    console.error('Logout everywhere error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List the current user's sessions, most recently used first
+// @access  Private
+router.get('/sessions', auth, async (req, res) => {
+  try {
+    const sessions = await Session.find({ user: req.user._id, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 });
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session.toJSON(),
+        current: !!req.authSession && session._id.equals(req.authSession._id)
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    End one of the current user's sessions
+// @access  Private
+router.delete('/sessions/:id', auth, async (req, res) => {
+  try {
+    const session = mongoose.Types.ObjectId.isValid(req.params.id) &&
+      await Session.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+    if (!session) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    res.json({ message: 'Session ended' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/auth/password
+// @desc    Change the current user's password; other sessions are ended
+// @access  Private
+router.put('/password', auth, validate('auth.changePassword'), async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await User.findById(req.user._id);
+    const isMatch = await user.comparePassword(currentPassword);
     if (!isMatch) {
-      return res.status(400).json({ message: 'Invalid credentials' });
+      return res.status(400).json({ message: 'Current password is incorrect' });
+    }
+
+    user.password = newPassword;
+    await user.save();
+    await revokeSessions(user._id, req.authSession?._id);
+
+    res.json({ message: 'Password changed. You have been logged out on your other devices.' });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/setup
+// @desc    Start turning on two-factor authentication: a new secret to scan
+//          into an authenticator app
+// @access  Private
+router.post('/2fa/setup', auth, async (req, res) => {
+  try {
+    if (req.user.twoFactor.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already on' });
+    }
+
+    // Only used once a code from the app is confirmed
+    const secret = generateSecret();
+    req.user.twoFactor.pendingSecret = encryptSecret(secret);
+    await req.user.save();
+
+    res.json(await createEnrolment(req.user, secret));
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/enable
+// @desc    Turn on two-factor authentication with a code from the app
+// @access  Private
+router.post('/2fa/enable', auth, validate('auth.enableTwoFactor'), async (req, res) => {
+  try {
+    const { enabled, pendingSecret } = req.user.twoFactor;
+    if (enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already on' });
+    }
+    if (!pendingSecret) {
+      return res.status(400).json({ message: 'Scan a new QR code first' });
+    }
+
+    const step = matchCode(decryptSecret(pendingSecret), req.body.code);
+    if (step === null) {
+      return res.status(400).json({ message: 'That code is not right. Check the time on your phone and try again.' });
     }
 
-    // Generate token
-    const token = generateToken(user._id);
+    const { codes, hashes } = createRecoveryCodes();
+    req.user.twoFactor = {
+      enabled: true,
+      secret: pendingSecret,
+      recoveryCodes: hashes,
+      lastUsedStep: step,
+      enabledAt: new Date()
+    };
+    await req.user.save();
 
     res.json({
-      message: 'Login successful',
-      token,
-      user: {
-        id: user._id,
-        email: user.email,
-        businessName: user.businessName,
-        role: user.role
+      message: 'Two-factor authentication is on. Keep your recovery codes somewhere safe.',
+      recoveryCodes: codes
+    });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/disable
+// @desc    Turn off two-factor authentication
+// @access  Private
+router.post('/2fa/disable', auth, validate('auth.disableTwoFactor'), async (req, res) => {
+  try {
+    const user = await checkPassword(req, res, req.body.password);
+    if (!user) return;
+
+    if (!user.twoFactor.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not on' });
+    }
+    if (await Workspace.exists({ 'members.user': user._id, requireTwoFactor: true })) {
+      return res.status(400).json({
+        message: 'A workspace you belong to requires two-factor authentication, so it cannot be turned off'
+      });
+    }
+
+    user.twoFactor = { enabled: false };
+    await user.save();
+
+    res.json({ message: 'Two-factor authentication is off' });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/recovery-codes
+// @desc    Replace the current user's recovery codes with new ones
+// @access  Private
+router.post('/2fa/recovery-codes', auth, validate('auth.regenerateRecoveryCodes'), async (req, res) => {
+  try {
+    const user = await checkPassword(req, res, req.body.password);
+    if (!user) return;
+
+    if (!user.twoFactor.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not on' });
+    }
+
+    const { codes, hashes } = createRecoveryCodes();
+    user.twoFactor.recoveryCodes = hashes;
+    await user.save();
+
+    res.json({
+      message: 'New recovery codes created. The old ones no longer work.',
+      recoveryCodes: codes
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link. Responds the same whether or not an
+//          account uses the address.
+// @access  Public
+router.post('/forgot-password', accountEmailLimit, validate('auth.forgotPassword'), async (req, res) => {
+  try {
+    const user = await User.findOne({ email: req.body.email });
+    if (user && (user.isActive || user.deactivatedAt)) {
+      await sendPasswordReset(user);
+    }
+
+    res.json({ message: 'If an account uses this address, we have emailed it a link to reset the password.' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password with the token from a reset link; all
+//          sessions are ended
+// @access  Public
+router.post('/reset-password', validate('auth.resetPassword'), async (req, res) => {
+  try {
+    const accountToken = await useAccountToken(req.body.token, 'password-reset');
+    const user = accountToken && await User.findById(accountToken.user);
+    if (!user) {
+      return res.status(400).json({ message: 'This link is invalid or has expired. Please request a new one.' });
+    }
+
+    user.password = req.body.password;
+    // Following the link proves the address is theirs
+    if (accountToken.email === user.email) {
+      user.emailVerified = true;
+    }
+    await user.save();
+    await revokeSessions(user._id);
+    await clearFailedLogins(user.email);
+
+    res.json({ message: 'Your password has been reset. Please log in with your new password.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/verify-email
+// @desc    Verify the user's email address with the token from the link
+// @access  Public
+router.post('/verify-email', validate('auth.verifyEmail'), async (req, res) => {
+  try {
+    const accountToken = await useAccountToken(req.body.token, 'email-verification');
+    const user = accountToken && await User.findById(accountToken.user);
+    if (!user) {
+      return res.status(400).json({ message: 'This link is invalid or has expired. Please request a new one.' });
+    }
+    if (accountToken.email !== user.email) {
+      return res.status(400).json({ message: 'This link was sent to an address the account no longer uses.' });
+    }
+
+    user.emailVerified = true;
+    await user.save();
+
+    res.json({ message: 'Your email address has been verified' });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/verify-email/resend
+// @desc    Email the current user a new verification link
+// @access  Private
+router.post('/verify-email/resend', auth, accountEmailLimit, async (req, res) => {
+  try {
+    if (req.user.emailVerified) {
+      return res.status(400).json({ message: 'Your email address is already verified' });
+    }
+
+    await sendEmailVerification(req.user);
+
+    res.json({ message: `We have sent a new verification link to ${req.user.email}` });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/auth/account
+// @desc    Update the business name or email address; changing the email
+//          needs the current password and verifying the new address
+// @access  Private
+router.put('/account', auth, validate('auth.updateAccount'), async (req, res) => {
+  try {
+    const { businessName, email, currentPassword } = req.body;
+    let user = req.user;
+
+    const emailChanged = email !== undefined && email !== user.email;
+    if (emailChanged) {
+      user = await checkPassword(req, res, currentPassword);
+      if (!user) return;
+      if (await User.exists({ email })) {
+        return res.status(400).json({ message: 'Another account already uses this email address' });
       }
+      user.email = email;
+      user.emailVerified = false;
+    }
+    if (businessName !== undefined) {
+      user.businessName = businessName;
+    }
+    await user.save();
+
+    if (emailChanged) {
+      sendEmailVerification(user)
+        .catch(error => console.error('Email verification error:', error));
+    }
+
+    res.json({
+      message: emailChanged
+        ? `Account updated. Check ${user.email} for a link to verify it.`
+        : 'Account updated successfully',
+      user: await User.findById(user._id).select('-password')
     });
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Update account error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/deactivate
+// @desc    Deactivate the current user's account and end all its sessions;
+//          logging in again reactivates it
+// @access  Private
+router.post('/deactivate', auth, validate('auth.deactivate'), async (req, res) => {
+  try {
+    const user = await checkPassword(req, res, req.body.password);
+    if (!user) return;
+
+    user.isActive = false;
+    user.deactivatedAt = new Date();
+    await user.save();
+    await revokeSessions(user._id);
+    clearRefreshCookie(res);
+
+    res.json({ message: 'Your account has been deactivated' });
+  } catch (error) {
+    console.error('Deactivate account error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/auth/account
+// @desc    Delete the current user's account, and the workspaces where they
+//          are the only member with all their forms and responses
+// @access  Private
+router.delete('/account', auth, validate('auth.deleteAccount'), async (req, res) => {
+  try {
+    const user = await checkPassword(req, res, req.body.password);
+    if (!user) return;
+
+    const { error } = await deleteAccount(user);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    clearRefreshCookie(res);
+
+    res.json({ message: 'Your account has been deleted' });
+  } catch (error) {
+    console.error('Delete account error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
@@ -126,4 +638,22 @@ router.get('/me', auth, async (req, res) => {
   }
 });
 
+// @route   PUT /api/auth/branding
+// @desc    Update the account branding used by all forms
+// @access  Private
+router.put('/branding', auth, validate('auth.updateBranding'), async (req, res) => {
+  try {
+    req.user.branding = cleanBranding(req.body.branding);
+    await req.user.save();
+
+    res.json({
+      message: 'Branding updated successfully',
+      user: req.user
+    });
+  } catch (error) {
+    console.error('Update branding error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 module.exports = router; 
\ No newline at end of file
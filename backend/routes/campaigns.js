@@ -0,0 +1,236 @@
+const express = require('express');
+const Campaign = require('../models/Campaign');
+const CampaignRecipient = require('../models/CampaignRecipient');
+const { auth } = require('../middleware/auth');
+const { validate } = require('../middleware/validate');
+const { getFormAccess, authorizeForm, requireFormAccess } = require('../middleware/workspace');
+const { getFormState, isPublicState } = require('../utils/formLifecycle');
+const {
+  RECIPIENT_STATUSES,
+  REMINDABLE_STATUSES,
+  parseRecipients,
+  readInviteToken
+} = require('../utils/campaigns');
+const { deliverCampaign, advanceRecipient, getCampaignCounts } = require('../utils/campaignDelivery');
+
+const router = express.Router();
+
+// Loads the campaign in req.params.id if the user's role in its form's
+// workspace allows `permission`; responds with an error and returns null
+// otherwise
+const loadCampaign = async (req, res, permission) => {
+  const campaign = await Campaign.findById(req.params.id).catch(() => null);
+  const access = campaign && await getFormAccess(req.user, campaign.form);
+
+  if (!access) {
+    res.status(404).json({ message: 'Campaign not found' });
+    return null;
+  }
+  return authorizeForm(req, res, access, permission) ? campaign : null;
+};
+
+// Invitations only go out for forms the public can open
+const checkFormPublic = (form, res) => {
+  if (!isPublicState(getFormState(form))) {
+    res.status(400).json({ message: 'Publish the form before sending invitations' });
+    return false;
+  }
+  return true;
+};
+
+// Sends in the background; progress shows up in the recipients' statuses
+const startDelivery = (form, campaign, options) => {
+  deliverCampaign(form, campaign, options)
+    .catch(error => console.error('Campaign delivery error:', error));
+};
+
+// @route   GET /api/campaigns/form/:formId
+// @desc    Get the campaigns of a form with recipient counts by status
+// @access  Private (workspace members)
+router.get('/form/:formId', auth, requireFormAccess('responses:read', 'formId'), async (req, res) => {
+  try {
+    const campaigns = await Campaign.find({ form: req.form._id })
+      .populate('createdBy', 'email businessName')
+      .sort({ createdAt: -1 })
+      .lean();
+    const counts = await getCampaignCounts(campaigns.map(campaign => campaign._id));
+
+    res.json({
+      campaigns: campaigns.map(campaign => ({
+        ...campaign,
+        counts: counts.get(campaign._id.toString()) ||
+          Object.fromEntries(RECIPIENT_STATUSES.map(status => [status, 0]))
+      }))
+    });
+  } catch (error) {
+    console.error('Get campaigns error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/campaigns/form/:formId
+// @desc    Create a campaign from a CSV recipient list (email, name and
+//          custom field columns); invitations are sent separately
+// @access  Private (editors)
+router.post('/form/:formId', auth, requireFormAccess('forms:write', 'formId'), validate('campaigns.create'), async (req, res) => {
+  try {
+    const { name, subject, message, csv } = req.body;
+
+    const list = parseRecipients(csv);
+    if (list.error) {
+      return res.status(400).json({ message: list.error });
+    }
+    if (list.recipients.length === 0) {
+      return res.status(400).json({ message: 'The recipient list has no valid email addresses', skipped: list.skipped });
+    }
+
+    const campaign = await Campaign.create({
+      form: req.form._id,
+      name,
+      subject,
+      message,
+      fields: list.fields,
+      createdBy: req.user._id
+    });
+    await CampaignRecipient.insertMany(list.recipients.map(recipient => ({
+      ...recipient,
+      campaign: campaign._id,
+      form: req.form._id
+    })));
+
+    res.status(201).json({
+      message: `Campaign created with ${list.recipients.length} recipients`,
+      campaign,
+      skipped: list.skipped
+    });
+  } catch (error) {
+    console.error('Create campaign error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/campaigns/:id
+// @desc    Get a campaign with its recipients, optionally only those in one
+//          `status`
+// @access  Private (workspace members)
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const campaign = await loadCampaign(req, res, 'responses:read');
+    if (!campaign) return;
+
+    const filter = { campaign: campaign._id };
+    if (req.query.status !== undefined) {
+      if (!RECIPIENT_STATUSES.includes(req.query.status)) {
+        return res.status(400).json({ message: 'Unknown recipient status' });
+      }
+      filter.status = req.query.status;
+    }
+
+    const recipients = await CampaignRecipient.find(filter).sort({ email: 1 }).lean();
+    const counts = await getCampaignCounts([campaign._id]);
+
+    res.json({
+      campaign: {
+        ...campaign.toObject(),
+        counts: counts.get(campaign._id.toString()) ||
+          Object.fromEntries(RECIPIENT_STATUSES.map(status => [status, 0]))
+      },
+      recipients
+    });
+  } catch (error) {
+    console.error('Get campaign error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/campaigns/:id/send
+// @desc    Email invitations to the recipients who have not been sent one
+// @access  Private (editors)
+router.post('/:id/send', auth, async (req, res) => {
+  try {
+    const campaign = await loadCampaign(req, res, 'forms:write');
+    if (!campaign) return;
+    if (!checkFormPublic(req.form, res)) return;
+
+    const count = await CampaignRecipient.countDocuments({ campaign: campaign._id, status: 'pending' });
+    if (count === 0) {
+      return res.status(400).json({ message: 'Every recipient has already been invited' });
+    }
+
+    campaign.lastSentAt = new Date();
+    await campaign.save();
+    startDelivery(req.form, campaign);
+
+    res.status(202).json({ message: `Sending ${count} invitations`, count });
+  } catch (error) {
+    console.error('Send campaign error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/campaigns/:id/remind
+// @desc    Email a reminder to invited recipients who have not responded
+// @access  Private (editors)
+router.post('/:id/remind', auth, async (req, res) => {
+  try {
+    const campaign = await loadCampaign(req, res, 'forms:write');
+    if (!campaign) return;
+    if (!checkFormPublic(req.form, res)) return;
+
+    const count = await CampaignRecipient.countDocuments({
+      campaign: campaign._id,
+      status: { $in: REMINDABLE_STATUSES }
+    });
+    if (count === 0) {
+      return res.status(400).json({ message: 'Nobody is waiting for a reminder' });
+    }
+
+    campaign.lastRemindedAt = new Date();
+    await campaign.save();
+    startDelivery(req.form, campaign, { reminder: true });
+
+    res.status(202).json({ message: `Sending ${count} reminders`, count });
+  } catch (error) {
+    console.error('Remind campaign error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/campaigns/:id
+// @desc    Delete a campaign and its recipients; their links stop working
+// @access  Private (editors)
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const campaign = await loadCampaign(req, res, 'forms:write');
+    if (!campaign) return;
+
+    await CampaignRecipient.deleteMany({ campaign: campaign._id });
+    await campaign.deleteOne();
+
+    res.json({ message: 'Campaign deleted successfully' });
+  } catch (error) {
+    console.error('Delete campaign error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/campaigns/invites/:token/start
+// @desc    Record that an invitee started answering the form
+// @access  Public
+router.post('/invites/:token/start', async (req, res) => {
+  try {
+    const recipientId = readInviteToken(req.params.token);
+    if (!recipientId) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+
+    await advanceRecipient(recipientId, 'started');
+
+    res.json({ message: 'Invitation started' });
+  } catch (error) {
+    console.error('Start invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
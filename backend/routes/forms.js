@@ -1,53 +1,107 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
 const Form = require('../models/Form');
+const Response = require('../models/Response');
+const FormVersion = require('../models/FormVersion');
 const { auth } = require('../middleware/auth');
+const { validate } = require('../middleware/validate');
+const { requireWorkspace, requireFormAccess } = require('../middleware/workspace');
+const { prepareQuestions } = require('../utils/questionTypes');
+const { validateLogic } = require('../utils/formLogic');
+const { prepareSections } = require('../utils/formSections');
+const { cleanBranding, resolveBranding } = require('../utils/branding');
+const { structureKey, recordVersion } = require('../utils/formVersions');
+const {
+  getFormStatus,
+  getFormState,
+  isPublicState,
+  validateSchedule
+} = require('../utils/formLifecycle');
+const { formClosed } = require('../utils/formScheduler');
+const { createDeviceToken } = require('../utils/duplicates');
+const { createStartToken } = require('../utils/spam');
+const { isCaptchaRequired, getCaptchaConfig } = require('../utils/captcha');
+const { findRecipient, advanceRecipient } = require('../utils/campaignDelivery');
+const { findPartial, resumeDetails } = require('../utils/partialResponses');
+const { removeForms } = require('../utils/formRemoval');
+const { checkRecipients } = require('../utils/notifications');
 
 const router = express.Router();
 
+// Settings the public form page needs; anything else, including settings
+// added later, stays private unless it is listed here
+const PUBLIC_SETTINGS = ['allowMultipleResponses', 'requireEmail', 'saveProgress', 'theme', 'closedMessage'];
+
+// What anonymous visitors get of a form. Scheduled and closed forms only show
+// their title and closed message.
+const toPublicForm = (form, state, branding) => {
+  const open = state === 'open';
+  return {
+    _id: form._id,
+    title: form.title,
+    description: form.description,
+    sections: open ? form.sections : [],
+    questions: open ? form.questions : [],
+    hiddenFields: form.hiddenFields,
+    state,
+    opensAt: form.opensAt,
+    publicUrl: form.publicUrl,
+    version: form.version,
+    settings: Object.fromEntries(PUBLIC_SETTINGS.map(name => [name, form.settings[name]])),
+    branding
+  };
+};
+
+// Validates and normalises sections and questions in place, returning an
+// error message for the first problem found
+const prepareStructure = (sections, questions) =>
+  prepareSections(sections, questions) ||
+  prepareQuestions(questions) ||
+  validateLogic(questions, sections);
+
 // @route   POST /api/forms
 // @desc    Create a new form
 // @access  Private
-router.post('/', auth, [
-  body('title').trim().isLength({ min: 1, max: 200 }),
-  body('description').optional().trim().isLength({ max: 500 }),
-  body('questions').isArray({ min: 1, max: 10 }),
-  body('questions.*.text').trim().isLength({ min: 1, max: 500 }),
-  body('questions.*.type').isIn(['text', 'multiple-choice']),
-  body('questions.*.options').optional().isArray(),
-  body('questions.*.required').optional().isBoolean(),
-  body('settings').optional().isObject()
-], async (req, res) => {
+router.post('/', auth, requireWorkspace('forms:write'), validate('forms.create'), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
+    const { title, description, questions, sections = [], hiddenFields = [], settings, status = 'open', opensAt, closesAt } = req.body;
 
-    const { title, description, questions, settings } = req.body;
+    if (status !== 'draft' && status !== 'open') {
+      return res.status(400).json({ message: 'New forms must be drafts or open' });
+    }
+    const scheduleError = validateSchedule(opensAt, closesAt);
+    if (scheduleError) {
+      return res.status(400).json({ message: scheduleError });
+    }
+    const recipientsError = await checkRecipients(req.workspace, settings?.notifications?.recipients);
+    if (recipientsError) {
+      return res.status(400).json({ message: recipientsError });
+    }
 
-    // Validate multiple-choice questions have options
-    for (let i = 0; i < questions.length; i++) {
-      const question = questions[i];
-      if (question.type === 'multiple-choice' && (!question.options || question.options.length < 2)) {
-        return res.status(400).json({ 
-          message: `Multiple-choice question "${question.text}" must have at least 2 options` 
-        });
-      }
-      
-      // Add order to questions
-      question.order = i + 1;
+    // Validate sections, type-specific question settings and logic, and add order to questions
+    const structureError = prepareStructure(sections, questions);
+    if (structureError) {
+      return res.status(400).json({ message: structureError });
     }
 
     const form = new Form({
       title,
       description,
       creator: req.user._id,
+      workspace: req.workspace._id,
+      sections,
       questions,
-      settings: settings || {}
+      hiddenFields,
+      status,
+      opensAt,
+      closesAt,
+      settings: settings ? { ...settings, branding: cleanBranding(settings.branding) } : {}
     });
 
     await form.save();
+    // Drafts get their first version when published
+    if (status !== 'draft') {
+      await recordVersion(form, req.user._id);
+    }
 
     res.status(201).json({
       message: 'Form created successfully',
@@ -60,13 +114,13 @@ router.post('/', auth, [
 });
 
 // @route   GET /api/forms
-// @desc    Get all forms for the authenticated user
+// @desc    Get all forms in the current workspace
 // @access  Private
-router.get('/', auth, async (req, res) => {
+router.get('/', auth, requireWorkspace('forms:read'), async (req, res) => {
   try {
     const { page = 1, limit = 10, search = '' } = req.query;
     
-    const query = { creator: req.user._id };
+    const query = { workspace: req.workspace._id };
     if (search) {
       query.title = { $regex: search, $options: 'i' };
     }
@@ -95,18 +149,11 @@ router.get('/', auth, async (req, res) => {
 // @route   GET /api/forms/:id
 // @desc    Get a specific form by ID
 // @access  Private
-router.get('/:id', auth, async (req, res) => {
+router.get('/:id', auth, requireFormAccess('forms:read'), async (req, res) => {
   try {
-    const form = await Form.findOne({ 
-      _id: req.params.id, 
-      creator: req.user._id 
-    }).populate('responseCount');
-
-    if (!form) {
-      return res.status(404).json({ message: 'Form not found' });
-    }
+    const form = await req.form.populate('responseCount');
 
-    res.json({ form });
+    res.json({ form, role: req.role });
   } catch (error) {
     console.error('Get form error:', error);
     res.status(500).json({ message: 'Server error' });
@@ -116,55 +163,94 @@ router.get('/:id', auth, async (req, res) => {
 // @route   PUT /api/forms/:id
 // @desc    Update a form
 // @access  Private
-router.put('/:id', auth, [
-  body('title').optional().trim().isLength({ min: 1, max: 200 }),
-  body('description').optional().trim().isLength({ max: 500 }),
-  body('questions').optional().isArray({ min: 1, max: 10 }),
-  body('isActive').optional().isBoolean(),
-  body('settings').optional().isObject()
-], async (req, res) => {
+router.put('/:id', auth, requireFormAccess('forms:write'), validate('forms.update'), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
+    const form = req.form;
+    const { title, description, questions, sections, hiddenFields, status, opensAt, closesAt, settings } = req.body;
+    const statusBefore = getFormStatus(form);
+    const wasDraft = statusBefore === 'draft';
+    const stateBefore = getFormState(form);
 
-    const form = await Form.findOne({ 
-      _id: req.params.id, 
-      creator: req.user._id 
-    });
-
-    if (!form) {
-      return res.status(404).json({ message: 'Form not found' });
+    if (status === 'draft' && !wasDraft) {
+      return res.status(400).json({ message: 'A published form cannot be moved back to draft' });
+    }
+    const nextClosesAt = closesAt !== undefined ? closesAt : form.closesAt;
+    const scheduleError = validateSchedule(opensAt !== undefined ? opensAt : form.opensAt, nextClosesAt);
+    if (scheduleError) {
+      return res.status(400).json({ message: scheduleError });
+    }
+    if (status === 'open' && stateBefore !== 'open' && nextClosesAt && nextClosesAt <= new Date()) {
+      return res.status(400).json({ message: 'Move the closing time into the future to reopen the form' });
+    }
+    const recipientsError = await checkRecipients(req.workspace, settings?.notifications?.recipients);
+    if (recipientsError) {
+      return res.status(400).json({ message: recipientsError });
     }
 
-    const { title, description, questions, isActive, settings } = req.body;
+    // Keep a snapshot of the version being edited (forms created before
+    // versioning have none yet)
+    if (!wasDraft && (questions || sections)) {
+      await recordVersion(form, form.creator);
+    }
 
     // Update fields
     if (title !== undefined) form.title = title;
     if (description !== undefined) form.description = description;
-    if (isActive !== undefined) form.isActive = isActive;
-    if (settings !== undefined) form.settings = { ...form.settings, ...settings };
-
-    // Update questions if provided
-    if (questions) {
-      // Validate multiple-choice questions have options
-      for (let i = 0; i < questions.length; i++) {
-        const question = questions[i];
-        if (question.type === 'multiple-choice' && (!question.options || question.options.length < 2)) {
-          return res.status(400).json({ 
-            message: `Multiple-choice question "${question.text}" must have at least 2 options` 
-          });
-        }
-        question.order = i + 1;
+    if (hiddenFields !== undefined) form.hiddenFields = hiddenFields;
+    if (status !== undefined) form.status = status;
+    if (opensAt !== undefined) form.opensAt = opensAt;
+    if (closesAt !== undefined) form.closesAt = closesAt;
+    if (settings !== undefined) {
+      form.settings = { ...form.settings, ...settings };
+      if (settings.branding !== undefined) {
+        form.settings.branding = cleanBranding(settings.branding);
       }
-      form.questions = questions;
+    }
+
+    // Update questions and sections if provided; either one is validated
+    // against the current value of the other. Once a form is published any
+    // change to them publishes a new version, keeping the previous one for
+    // existing responses.
+    let published = false;
+    if (questions || sections) {
+      const nextQuestions = questions || form.questions.map(q => q.toObject());
+      const nextSections = sections || form.sections.map(s => s.toObject());
+
+      const structureError = prepareStructure(nextSections, nextQuestions);
+      if (structureError) {
+        return res.status(400).json({ message: structureError });
+      }
+
+      const previousStructure = structureKey(form);
+      form.sections = nextSections;
+      form.questions = nextQuestions;
+      if (!wasDraft && structureKey(form) !== previousStructure) {
+        form.version += 1;
+        published = true;
+      }
+    }
+    if (wasDraft && getFormStatus(form) !== 'draft') {
+      published = true;
+    }
+
+    // A closing time moved into the past closes the form now rather than
+    // leaving it to the schedule worker
+    const stateAfter = getFormState(form);
+    if (stateAfter === 'closed') {
+      form.status = 'closed';
     }
 
     await form.save();
+    if (published) {
+      await recordVersion(form, req.user._id);
+    }
+
+    if (statusBefore === 'open' && ['closed', 'archived'].includes(form.status)) {
+      formClosed(form, status !== undefined ? 'manual' : 'schedule');
+    }
 
     res.json({
-      message: 'Form updated successfully',
+      message: published ? `Form updated and published as version ${form.version}` : 'Form updated successfully',
       form
     });
   } catch (error) {
@@ -173,21 +259,79 @@ router.put('/:id', auth, [
   }
 });
 
-// @route   DELETE /api/forms/:id
-// @desc    Delete a form
+// @route   GET /api/forms/:id/versions
+// @desc    List a form's published versions with their response counts
 // @access  Private
-router.delete('/:id', auth, async (req, res) => {
+router.get('/:id/versions', auth, requireFormAccess('forms:read'), async (req, res) => {
   try {
-    const form = await Form.findOne({ 
-      _id: req.params.id, 
-      creator: req.user._id 
+    const form = req.form;
+    if (getFormStatus(form) !== 'draft') {
+      await recordVersion(form, form.creator);
+    }
+
+    const versions = await FormVersion.find({ form: form._id })
+      .select('version title publishedBy questions createdAt')
+      .populate('publishedBy', 'email businessName')
+      .sort({ version: -1 })
+      .lean();
+
+    // Responses from before versioning count as version 1
+    const counts = await Response.aggregate([
+      { $match: { form: form._id, quarantined: { $ne: true }, partial: { $ne: true } } },
+      { $group: { _id: { $ifNull: ['$formVersion', 1] }, count: { $sum: 1 } } }
+    ]);
+    const countByVersion = new Map(counts.map(row => [row._id, row.count]));
+
+    res.json({
+      currentVersion: form.version,
+      versions: versions.map(version => ({
+        version: version.version,
+        title: version.title,
+        publishedBy: version.publishedBy,
+        publishedAt: version.createdAt,
+        questionCount: version.questions.length,
+        responseCount: countByVersion.get(version.version) || 0
+      }))
     });
+  } catch (error) {
+    console.error('Get form versions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/forms/:id/versions/:version
+// @desc    Get the questions and sections of a published version
+// @access  Private
+router.get('/:id/versions/:version', auth, requireFormAccess('forms:read'), async (req, res) => {
+  try {
+    const version = parseInt(req.params.version, 10);
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(404).json({ message: 'Form version not found' });
+    }
+    if (version === req.form.version && getFormStatus(req.form) !== 'draft') {
+      await recordVersion(req.form, req.form.creator);
+    }
 
-    if (!form) {
-      return res.status(404).json({ message: 'Form not found' });
+    const snapshot = await FormVersion.findOne({ form: req.form._id, version })
+      .populate('publishedBy', 'email businessName');
+    if (!snapshot) {
+      return res.status(404).json({ message: 'Form version not found' });
     }
 
-    await Form.findByIdAndDelete(req.params.id);
+    res.json({ version: snapshot });
+  } catch (error) {
+    console.error('Get form version error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/forms/:id
+// @desc    Delete a form with its responses, files, versions, campaigns
+//          and webhooks
+// @access  Private
+router.delete('/:id', auth, requireFormAccess('forms:write'), async (req, res) => {
+  try {
+    await removeForms({ _id: req.form._id });
 
     res.json({ message: 'Form deleted successfully' });
   } catch (error) {
@@ -197,20 +341,42 @@ router.delete('/:id', auth, async (req, res) => {
 });
 
 // @route   GET /api/forms/public/:publicUrl
-// @desc    Get a form by public URL (no auth required)
+// @desc    Get a form by public URL; scheduled and closed forms come
+//          without their questions. A `resume` token brings back the
+//          answers saved in a partial response (no auth required)
 // @access  Public
 router.get('/public/:publicUrl', async (req, res) => {
   try {
-    const form = await Form.findOne({ 
-      publicUrl: req.params.publicUrl,
-      isActive: true
-    });
+    const form = await Form.findOne({ publicUrl: req.params.publicUrl })
+      .populate('creator', 'branding');
 
-    if (!form) {
+    const state = form && getFormState(form);
+    if (!form || !isPublicState(state)) {
       return res.status(404).json({ message: 'Form not found or inactive' });
     }
 
-    res.json({ form });
+    // Only the combined branding is exposed, not the creator's account
+    const branding = resolveBranding(form.creator?.branding, form.settings.branding);
+
+    // Invite links prefill the recipient's details
+    const recipient = typeof req.query.invite === 'string' && await findRecipient(form, req.query.invite);
+    if (recipient) {
+      await advanceRecipient(recipient._id, 'opened');
+    }
+
+    const partial = state === 'open' && form.settings.saveProgress &&
+      await findPartial(form, req.query.resume);
+
+    // Browsers keep the first device token they get, for duplicate checks;
+    // the start token tells how long the respondent took to fill in the form
+    res.json({
+      form: toPublicForm(form, state, branding),
+      deviceToken: createDeviceToken(),
+      startToken: createStartToken(form),
+      captcha: isCaptchaRequired(form) ? getCaptchaConfig() : null,
+      invite: recipient ? { email: recipient.email, name: recipient.name } : null,
+      resume: partial ? resumeDetails(partial) : null
+    });
   } catch (error) {
     console.error('Get public form error:', error);
     res.status(500).json({ message: 'Server error' });
@@ -1,97 +1,264 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const mongoose = require('mongoose');
+const validator = require('validator');
 const Response = require('../models/Response');
 const Form = require('../models/Form');
+const Upload = require('../models/Upload');
 const { auth } = require('../middleware/auth');
-const createCsvWriter = require('csv-writer').createObjectCsvWriter;
+const { validate } = require('../middleware/validate');
+const { requireFormAccess, requireResponseAccess } = require('../middleware/workspace');
+const { rateLimit } = require('../middleware/rateLimit');
+const { responseData } = require('../utils/webhooks');
+const { dispatchEvent } = require('../utils/webhookDelivery');
+const { notifyResponse } = require('../utils/notifications');
+const { validateAnswer } = require('../utils/questionTypes');
+const { getVisibleQuestionIds } = require('../utils/formLogic');
+const { SUMMARY_INTERVALS, buildSummary } = require('../utils/summary');
+const { parseResponseQuery, responsePipeline } = require('../utils/responseFilters');
+const { getResultsForm } = require('../utils/formVersions');
+const { getFormState, isPublicState, getClosedMessage } = require('../utils/formLifecycle');
+const { closeForm } = require('../utils/formScheduler');
+const { getFingerprints, findDuplicate, allowResubmission } = require('../utils/duplicates');
+const { HONEYPOT_FIELD, getSpamReasons, isAnswerTooLarge } = require('../utils/spam');
+const { isCaptchaRequired, verifyCaptcha } = require('../utils/captcha');
+const { findRecipient, advanceRecipient } = require('../utils/campaignDelivery');
+const { pickHiddenFields } = require('../utils/hiddenFields');
+const { EXPORT_FORMATS, isValidTimeZone, attachmentHeader, writeExport } = require('../utils/responseExport');
+const { normalizeTags } = require('../utils/triage');
+const {
+  partialExpiry,
+  createResumeToken,
+  findPartial,
+  collectPartialAnswers,
+  buildDropOff
+} = require('../utils/partialResponses');
+const {
+  EXPORT_LINK_TTL_MS,
+  resolveFileAnswers,
+  attachUploads,
+  removeUploads,
+  createFileLink,
+  uploadsLookup
+} = require('../utils/fileUploads');
+const { can } = require('../utils/permissions');
 
 const router = express.Router();
 
+const PERSON_FIELDS = 'email businessName';
+
+// Fills in the people a response's triage refers to
+const populateTriage = (response) => response.populate([
+  { path: 'assignee', select: PERSON_FIELDS },
+  { path: 'notes.author', select: PERSON_FIELDS }
+]);
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Submissions per minute from one IP address, and to one form from anywhere
+const submitLimits = [
+  rateLimit({
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: parseInt(process.env.SUBMIT_RATE_LIMIT_PER_IP, 10) || 10,
+    key: (req) => `ip:${req.ip}`,
+    message: 'Too many responses from your network. Please try again in a minute.'
+  }),
+  rateLimit({
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: parseInt(process.env.SUBMIT_RATE_LIMIT_PER_FORM, 10) || 120,
+    key: (req) => typeof req.body.formId === 'string' && `form:${req.body.formId}`,
+    message: 'This form is receiving too many responses. Please try again in a minute.'
+  })
+];
+
+// Progress saves per minute from one IP address; browsers save a few
+// seconds after each change
+const partialLimit = rateLimit({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  max: parseInt(process.env.PARTIAL_RATE_LIMIT_PER_IP, 10) || 60,
+  key: (req) => `partial:${req.ip}`,
+  message: 'Too many saves from your network. Please try again in a minute.'
+});
+
 // @route   POST /api/responses
 // @desc    Submit a response to a form
 // @access  Public
-router.post('/', [
-  body('formId').isMongoId(),
-  body('answers').isArray({ min: 1 }),
-  body('answers.*.questionId').isMongoId(),
-  body('answers.*.answer').notEmpty(),
-  body('submitterEmail').optional().isEmail().normalizeEmail(),
-  body('submitterName').optional().trim().isLength({ max: 100 })
-], async (req, res) => {
+router.post('/', submitLimits, validate('responses.submit'), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
-    const { formId, answers, submitterEmail, submitterName } = req.body;
+    const {
+      formId,
+      formVersion,
+      answers,
+      deviceToken,
+      inviteToken,
+      resumeToken,
+      captchaToken
+    } = req.body;
 
     // Get the form
     const form = await Form.findById(formId);
-    if (!form || !form.isActive) {
+    const state = form && getFormState(form);
+    if (!form || !isPublicState(state)) {
       return res.status(404).json({ message: 'Form not found or inactive' });
     }
+    if (state !== 'open') {
+      return res.status(403).json({ message: getClosedMessage(form, state), state });
+    }
+
+    if (isCaptchaRequired(form) && !(await verifyCaptcha(captchaToken, req.ip))) {
+      return res.status(400).json({ message: 'CAPTCHA verification failed. Please try again.', captcha: true });
+    }
+
+    // Forms with a response limit close once they reach it
+    const { maxResponses } = form.settings;
+    const responseCount = maxResponses
+      ? await Response.countDocuments({ form: form._id, quarantined: { $ne: true }, partial: { $ne: true } })
+      : 0;
+    if (maxResponses && responseCount >= maxResponses) {
+      await closeForm(form, 'max-responses');
+      return res.status(403).json({ message: getClosedMessage(form, 'closed'), state: 'closed' });
+    }
+
+    // Answers to an earlier version of the questions may no longer fit them
+    if (formVersion !== undefined && formVersion !== form.version) {
+      return res.status(409).json({
+        message: 'This form has changed since you opened it. Please reload the page and try again.'
+      });
+    }
 
-    // Validate answers match form questions
-    if (answers.length !== form.questions.length) {
-      return res.status(400).json({ message: 'Number of answers does not match number of questions' });
+    // Every answer must belong to a question on this form
+    for (const answer of answers) {
+      if (!form.questions.some(q => q._id.toString() === answer.questionId.toString())) {
+        return res.status(400).json({ message: 'Answer does not match a question on this form' });
+      }
+      if (isAnswerTooLarge(answer.answer)) {
+        return res.status(400).json({ message: 'Answer is too large' });
+      }
     }
 
-    // Validate required questions are answered
-    for (let i = 0; i < form.questions.length; i++) {
-      const question = form.questions[i];
-      const answer = answers.find(a => a.questionId.toString() === question._id.toString());
-      
-      if (!answer && question.required) {
+    // Validate each answer against its question type and collect the
+    // normalised values; blank answers are treated as unanswered
+    const values = {};
+    for (const question of form.questions) {
+      const submitted = answers.find(a => a.questionId.toString() === question._id.toString());
+      const result = validateAnswer(question, submitted ? submitted.answer : undefined);
+
+      if (result.error) {
         return res.status(400).json({ 
-          message: `Required question "${question.text}" is not answered` 
+          message: `${result.error} for question "${question.text}"` 
         });
       }
+
+      if (!result.empty) {
+        values[question._id.toString()] = result.value;
+      }
     }
 
-    // Validate multiple-choice answers
-    for (const answer of answers) {
-      const question = form.questions.find(q => q._id.toString() === answer.questionId.toString());
-      if (question && question.type === 'multiple-choice') {
-        if (!question.options.includes(answer.answer)) {
+    // Apply conditional logic: hidden questions must not be answered and
+    // are not required
+    const visibleIds = getVisibleQuestionIds(form.questions, values);
+    const validatedAnswers = [];
+    for (const question of form.questions) {
+      const id = question._id.toString();
+      const isVisible = visibleIds.has(id);
+
+      if (!isVisible && values[id] !== undefined) {
+        return res.status(400).json({ 
+          message: `Question "${question.text}" does not apply to this response` 
+        });
+      }
+
+      if (isVisible && values[id] === undefined) {
+        if (question.required) {
           return res.status(400).json({ 
-            message: `Invalid option for question "${question.text}"` 
+            message: `Required question "${question.text}" is not answered` 
           });
         }
+        continue;
       }
-    }
 
-    // Check if multiple responses are allowed
-    if (!form.settings.allowMultipleResponses) {
-      const existingResponse = await Response.findOne({ 
-        form: formId, 
-        submitterEmail: submitterEmail || req.ip 
-      });
-      
-      if (existingResponse) {
-        return res.status(400).json({ message: 'You have already submitted a response to this form' });
+      if (isVisible) {
+        validatedAnswers.push({
+          questionId: question._id,
+          questionText: question.text,
+          questionType: question.type,
+          answer: values[id]
+        });
       }
     }
 
+    if (validatedAnswers.length === 0) {
+      return res.status(400).json({ message: 'Please answer at least one question' });
+    }
+
+    // Files were uploaded beforehand; from here on their answers are their names
+    const files = await resolveFileAnswers(form, validatedAnswers);
+    if (files.error) {
+      return res.status(400).json({ message: files.error });
+    }
+
+    // Invitees are known from their personal link
+    const recipient = inviteToken ? await findRecipient(form, inviteToken) : null;
+    const submitterEmail = req.body.submitterEmail || recipient?.email;
+    const submitterName = req.body.submitterName || recipient?.name;
+    const hiddenFields = pickHiddenFields(form, req.body.hiddenFields, recipient?.fields);
+
+    // Reject repeat responses unless the form allows them
+    const fingerprints = getFingerprints({ submitterEmail, deviceToken, inviteToken, ip: req.ip });
+    const duplicate = await findDuplicate(form, fingerprints);
+    if (duplicate) {
+      return res.status(409).json({ message: duplicate.message, duplicate: duplicate.strategy });
+    }
+
+    // Suspected spam is kept for review instead of being rejected, so that
+    // bots cannot tell they were caught
+    const spamReasons = getSpamReasons(form, {
+      [HONEYPOT_FIELD]: req.body[HONEYPOT_FIELD],
+      startToken: req.body.startToken
+    });
+    const quarantined = spamReasons.length > 0;
+
     // Create response with metadata
     const response = new Response({
       form: formId,
-      answers: answers.map(answer => {
-        const question = form.questions.find(q => q._id.toString() === answer.questionId.toString());
-        return {
-          questionId: answer.questionId,
-          questionText: question.text,
-          questionType: question.type,
-          answer: answer.answer
-        };
-      }),
+      formVersion: form.version,
+      answers: validatedAnswers,
       submitterEmail,
       submitterName,
+      hiddenFields,
       ipAddress: req.ip,
-      userAgent: req.get('User-Agent')
+      userAgent: req.get('User-Agent'),
+      fingerprints,
+      recipient: recipient?._id,
+      quarantined,
+      spamReasons: quarantined ? spamReasons : undefined
     });
 
     await response.save();
+    await attachUploads(files.uploads, response);
+
+    if (recipient) {
+      await advanceRecipient(recipient._id, 'completed', { response: response._id });
+    }
+
+    // The saved progress is finished with
+    const partial = resumeToken && await findPartial(form, resumeToken);
+    if (partial) {
+      await partial.deleteOne();
+    }
+
+    if (quarantined) {
+      return res.status(201).json({
+        message: 'Response submitted successfully',
+        responseId: response._id
+      });
+    }
+
+    dispatchEvent(form._id, 'response.created', responseData(form, response));
+    notifyResponse(form, response);
+    if (maxResponses && responseCount + 1 >= maxResponses) {
+      closeForm(form, 'max-responses')
+        .catch(error => console.error('Close form error:', error));
+    }
 
     res.status(201).json({
       message: 'Response submitted successfully',
@@ -103,36 +270,102 @@ router.post('/', [
   }
 });
 
+// @route   POST /api/responses/partial
+// @desc    Save the answers given so far to a form with save and resume
+//          turned on (see utils/partialResponses); the first save returns
+//          the resume token that later saves and the submission send back
+// @access  Public
+router.post('/partial', partialLimit, validate('responses.savePartial'), async (req, res) => {
+  try {
+    const { formId, resumeToken, inviteToken, submitterEmail, submitterName } = req.body;
+
+    const form = await Form.findById(formId);
+    const state = form && getFormState(form);
+    if (!form || !isPublicState(state)) {
+      return res.status(404).json({ message: 'Form not found or inactive' });
+    }
+    if (state !== 'open') {
+      return res.status(403).json({ message: getClosedMessage(form, state), state });
+    }
+    if (!form.settings.saveProgress) {
+      return res.status(403).json({ message: 'This form does not save progress' });
+    }
+
+    for (const answer of req.body.answers) {
+      if (isAnswerTooLarge(answer.answer)) {
+        return res.status(400).json({ message: 'Answer is too large' });
+      }
+    }
+
+    // An unknown or expired token starts a new partial
+    let partial = await findPartial(form, resumeToken);
+    let token = resumeToken;
+    if (!partial) {
+      const created = createResumeToken();
+      token = created.token;
+      partial = new Response({ form: form._id, partial: true, resumeTokenHash: created.tokenHash });
+    }
+
+    const recipient = inviteToken ? await findRecipient(form, inviteToken) : null;
+    const { answers, dropOffQuestion } = collectPartialAnswers(form, req.body.answers);
+
+    partial.set({
+      formVersion: form.version,
+      answers,
+      dropOffQuestion,
+      submitterEmail: submitterEmail && validator.isEmail(submitterEmail) ? submitterEmail : undefined,
+      submitterName: submitterName || undefined,
+      hiddenFields: pickHiddenFields(form, req.body.hiddenFields, recipient?.fields),
+      recipient: recipient?._id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      resumeExpiresAt: partialExpiry(),
+      // Last saved, for partials
+      submittedAt: new Date()
+    });
+    await partial.save();
+
+    res.json({ message: 'Progress saved', resumeToken: token, expiresAt: partial.resumeExpiresAt });
+  } catch (error) {
+    console.error('Save partial response error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // @route   GET /api/responses/form/:formId
-// @desc    Get all responses for a specific form (admin only)
+// @desc    Get a page of a form's responses, filtered and sorted by the query
+//          parameters described in utils/responseFilters.js (workspace members)
 // @access  Private
-router.get('/form/:formId', auth, async (req, res) => {
+router.get('/form/:formId', auth, requireFormAccess('responses:read', 'formId'), async (req, res) => {
   try {
-    const { page = 1, limit = 20 } = req.query;
-    
-    // Verify form belongs to user
-    const form = await Form.findOne({ 
-      _id: req.params.formId, 
-      creator: req.user._id 
-    });
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 20, 1), 100);
+
+    const results = await getResultsForm(req.form, req.query.version);
+    if (results.error) {
+      return res.status(400).json({ message: results.error });
+    }
 
-    if (!form) {
-      return res.status(404).json({ message: 'Form not found' });
+    const { error, filter, sort } = parseResponseQuery(results.form, req.query);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    const responses = await Response.find({ form: req.params.formId })
-      .sort({ submittedAt: -1 })
-      .limit(limit * 1)
-      .skip((page - 1) * limit)
-      .exec();
+    const responses = await Response.aggregate([
+      ...responsePipeline(filter, sort),
+      { $skip: (page - 1) * limit },
+      { $limit: limit }
+    ]);
 
-    const total = await Response.countDocuments({ form: req.params.formId });
+    const total = await Response.countDocuments(filter);
+    const quarantinedTotal = await Response.countDocuments({ form: req.form._id, quarantined: true });
 
     res.json({
       responses,
       totalPages: Math.ceil(total / limit),
-      currentPage: parseInt(page),
-      total
+      currentPage: page,
+      total,
+      quarantinedTotal
     });
   } catch (error) {
     console.error('Get responses error:', error);
@@ -141,56 +374,35 @@ router.get('/form/:formId', auth, async (req, res) => {
 });
 
 // @route   GET /api/responses/form/:formId/summary
-// @desc    Get summary statistics for a form (admin only)
+// @desc    Get summary statistics for a form's (filtered) responses, with a
+//          timeline by `interval` (day, week or month) in `timezone`, for one
+//          `version` of the form or all versions merged, and where unfinished
+//          responses were abandoned (workspace members)
 // @access  Private
-router.get('/form/:formId/summary', auth, async (req, res) => {
+router.get('/form/:formId/summary', auth, requireFormAccess('responses:read', 'formId'), async (req, res) => {
   try {
-    // Verify form belongs to user
-    const form = await Form.findOne({ 
-      _id: req.params.formId, 
-      creator: req.user._id 
-    });
-
-    if (!form) {
-      return res.status(404).json({ message: 'Form not found' });
+    const interval = req.query.interval || 'day';
+    const timeZone = req.query.timezone || 'UTC';
+    if (!SUMMARY_INTERVALS.includes(interval)) {
+      return res.status(400).json({ message: `Interval must be one of ${SUMMARY_INTERVALS.join(', ')}` });
+    }
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ message: 'Unknown time zone' });
     }
 
-    const totalResponses = await Response.countDocuments({ form: req.params.formId });
-    
-    // Get responses for analysis
-    const responses = await Response.find({ form: req.params.formId });
-    
-    // Calculate summary statistics
-    const summary = {
-      totalResponses,
-      questions: []
-    };
-
-    // Analyze each question
-    for (const question of form.questions) {
-      const questionSummary = {
-        questionId: question._id,
-        questionText: question.text,
-        questionType: question.type,
-        totalAnswers: 0,
-        answers: {}
-      };
-
-      // Count answers for this question
-      for (const response of responses) {
-        const answer = response.answers.find(a => a.questionId.toString() === question._id.toString());
-        if (answer) {
-          questionSummary.totalAnswers++;
-          
-          if (question.type === 'multiple-choice') {
-            questionSummary.answers[answer.answer] = (questionSummary.answers[answer.answer] || 0) + 1;
-          }
-        }
-      }
+    const results = await getResultsForm(req.form, req.query.version);
+    if (results.error) {
+      return res.status(400).json({ message: results.error });
+    }
 
-      summary.questions.push(questionSummary);
+    const { error, filter } = parseResponseQuery(results.form, req.query);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
+    const summary = await buildSummary(results.form, filter, { interval, timeZone });
+    summary.dropOff = await buildDropOff(results.form, filter.formVersion);
+
     res.json({ summary });
   } catch (error) {
     console.error('Get summary error:', error);
@@ -199,98 +411,228 @@ router.get('/form/:formId/summary', auth, async (req, res) => {
 });
 
 // @route   GET /api/responses/form/:formId/export
-// @desc    Export responses as CSV (admin only)
+// @desc    Export a form's (filtered) responses as CSV, XLSX, JSON or NDJSON
+//          (`format`), with times in the `timezone` given (default UTC), for
+//          one `version` of the form or all versions merged (workspace members)
 // @access  Private
-router.get('/form/:formId/export', auth, async (req, res) => {
+router.get('/form/:formId/export', auth, requireFormAccess('responses:read', 'formId'), async (req, res) => {
   try {
-    // Verify form belongs to user
-    const form = await Form.findOne({ 
-      _id: req.params.formId, 
-      creator: req.user._id 
-    });
+    const format = req.query.format || 'csv';
+    const timeZone = req.query.timezone || 'UTC';
 
-    if (!form) {
-      return res.status(404).json({ message: 'Form not found' });
+    if (!Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format)) {
+      return res.status(400).json({
+        message: `Export format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`
+      });
+    }
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ message: 'Unknown time zone' });
     }
 
-    const responses = await Response.find({ form: req.params.formId })
-      .sort({ submittedAt: -1 });
+    const results = await getResultsForm(req.form, req.query.version);
+    if (results.error) {
+      return res.status(400).json({ message: results.error });
+    }
+    const form = results.form;
 
-    if (responses.length === 0) {
-      return res.status(404).json({ message: 'No responses to export' });
+    const { error, filter, sort } = parseResponseQuery(form, req.query);
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    // Prepare CSV data
-    const csvData = [];
-    
-    for (const response of responses) {
-      const row = {
-        'Response ID': response._id,
-        'Submitted At': response.submittedAt.toISOString(),
-        'Submitter Email': response.submitterEmail || '',
-        'Submitter Name': response.submitterName || '',
-        'IP Address': response.ipAddress || ''
-      };
+    const cursor = Response.aggregate([...responsePipeline(filter, sort), uploadsLookup()])
+      .allowDiskUse(true)
+      .cursor({ batchSize: 500 });
 
-      // Add answers
-      for (const answer of response.answers) {
-        row[`Q${answer.questionText}`] = answer.answer;
-      }
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    res.setHeader('Content-Type', contentType);
+    const name = form.version ? `${form.title}-v${form.version}` : form.title;
+    res.setHeader('Content-Disposition', attachmentHeader(`${name}-responses.${extension}`));
 
-      csvData.push(row);
+    // File answers link to the files for a few days
+    const fileLink = (upload) => createFileLink(req, upload, EXPORT_LINK_TTL_MS).url;
+    await writeExport(res, { form, cursor, format, timeZone, fileLink });
+  } catch (error) {
+    console.error('Export error:', error);
+    // Once streaming has started the client can only be told by cutting the download short
+    if (res.headersSent) {
+      return res.destroy(error);
     }
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
-    // Set up CSV writer
-    const csvWriter = createCsvWriter({
-      path: `./temp/${form.title}-responses-${Date.now()}.csv`,
-      header: Object.keys(csvData[0]).map(key => ({ id: key, title: key }))
-    });
-
-    await csvWriter.writeRecords(csvData);
-
-    // Send file
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', `attachment; filename="${form.title}-responses.csv"`);
-    
-    // Read and send the file
-    const fs = require('fs');
-    const filePath = `./temp/${form.title}-responses-${Date.now()}.csv`;
-    const fileStream = fs.createReadStream(filePath);
-    fileStream.pipe(res);
-    
-    // Clean up file after sending
-    fileStream.on('end', () => {
-      fs.unlink(filePath, (err) => {
-        if (err) console.error('Error deleting temp file:', err);
-      });
-    });
+// @route   GET /api/responses/form/:formId/tags
+// @desc    Get the tags used on a form's responses, for filtering (workspace members)
+// @access  Private
+router.get('/form/:formId/tags', auth, requireFormAccess('responses:read', 'formId'), async (req, res) => {
+  try {
+    const tags = await Response.distinct('tags', { form: req.form._id });
 
+    res.json({ tags: tags.sort() });
   } catch (error) {
-    console.error('Export error:', error);
+    console.error('Get tags error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
 // @route   GET /api/responses/:id
-// @desc    Get a specific response (admin only)
+// @desc    Get a specific response with its triage (workspace members)
 // @access  Private
-router.get('/:id', auth, async (req, res) => {
+router.get('/:id', auth, requireResponseAccess('responses:read'), async (req, res) => {
   try {
-    const response = await Response.findById(req.params.id)
-      .populate('form', 'title creator');
+    await req.response.populate('form', 'title workspace');
+    const response = await populateTriage(req.response);
 
-    if (!response) {
-      return res.status(404).json({ message: 'Response not found' });
+    res.json({ response });
+  } catch (error) {
+    console.error('Get response error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/responses/:id/files/:questionId
+// @desc    Get a signed download link for the file answering a question of
+//          a response, valid for an hour (workspace members)
+// @access  Private
+router.get('/:id/files/:questionId', auth, requireResponseAccess('responses:read'), async (req, res) => {
+  try {
+    const upload = mongoose.Types.ObjectId.isValid(req.params.questionId) &&
+      await Upload.findOne({ response: req.response._id, questionId: req.params.questionId });
+    if (!upload) {
+      return res.status(404).json({ message: 'File not found' });
     }
 
-    // Verify form belongs to user
-    if (response.form.creator.toString() !== req.user._id.toString()) {
-      return res.status(403).json({ message: 'Access denied' });
+    const { url, expiresAt } = createFileLink(req, upload);
+    res.json({ url, expiresAt, name: upload.name, size: upload.size, mimeType: upload.mimeType });
+  } catch (error) {
+    console.error('Get file link error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/responses/:id/allow-resubmission
+// @desc    Clear a response's duplicate fingerprints so its sender can
+//          respond again (workspace editors)
+// @access  Private
+router.post('/:id/allow-resubmission', auth, requireResponseAccess('forms:write'), async (req, res) => {
+  try {
+    const response = await allowResubmission(req.response, req.user);
+
+    res.json({ message: 'The sender of this response can now respond again', response });
+  } catch (error) {
+    console.error('Allow resubmission error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PATCH /api/responses/:id/spam
+// @desc    Quarantine a response as spam, or release it into the results;
+//          released responses are delivered to webhooks and notifications
+//          like new ones (workspace editors)
+// @access  Private
+router.patch('/:id/spam', auth, requireResponseAccess('forms:write'), validate('responses.setQuarantined'), async (req, res) => {
+  try {
+    const response = req.response;
+    const { quarantined } = req.body;
+    const released = response.quarantined && !quarantined;
+
+    response.quarantined = quarantined;
+    response.reviewedAt = new Date();
+    response.reviewedBy = req.user._id;
+    await response.save();
+
+    if (released) {
+      dispatchEvent(req.form._id, 'response.created', responseData(req.form, response));
+      notifyResponse(req.form, response);
     }
 
-    res.json({ response });
+    res.json({
+      message: quarantined ? 'Response marked as spam' : 'Response moved to the results',
+      response
+    });
   } catch (error) {
-    console.error('Get response error:', error);
+    console.error('Review spam error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PATCH /api/responses/:id/triage
+// @desc    Change a response's status, tags or assignee; the assignee must
+//          be a member of the form's workspace (workspace members)
+// @access  Private
+router.patch('/:id/triage', auth, requireResponseAccess('responses:triage'), validate('responses.updateTriage'), async (req, res) => {
+  try {
+    const response = req.response;
+    const { status, tags, assignee } = req.body;
+
+    if (assignee && !req.workspace.getRole(assignee)) {
+      return res.status(400).json({ message: 'The assignee must be a member of this workspace' });
+    }
+
+    if (status !== undefined) response.status = status;
+    if (tags !== undefined) response.tags = normalizeTags(tags);
+    if (assignee !== undefined) response.assignee = assignee;
+    await response.save();
+
+    res.json({ message: 'Response updated', response: await populateTriage(response) });
+  } catch (error) {
+    console.error('Update triage error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/responses/:id/notes
+// @desc    Add an internal note to a response (workspace members)
+// @access  Private
+router.post('/:id/notes', auth, requireResponseAccess('responses:triage'), validate('responses.addNote'), async (req, res) => {
+  try {
+    const response = req.response;
+    response.notes = [...(response.notes || []), { author: req.user._id, text: req.body.text }];
+    await response.save();
+
+    res.status(201).json({ message: 'Note added', response: await populateTriage(response) });
+  } catch (error) {
+    console.error('Add note error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/responses/:id/notes/:noteId
+// @desc    Delete a note from a response (its author or workspace owners)
+// @access  Private
+router.delete('/:id/notes/:noteId', auth, requireResponseAccess('responses:triage'), async (req, res) => {
+  try {
+    const response = req.response;
+    const note = response.notes && response.notes.id(req.params.noteId);
+    if (!note) {
+      return res.status(404).json({ message: 'Note not found' });
+    }
+    if (!note.author.equals(req.user._id) && !can(req.role, 'workspace:manage')) {
+      return res.status(403).json({ message: 'Only its author or a workspace owner can delete a note' });
+    }
+
+    note.deleteOne();
+    await response.save();
+
+    res.json({ message: 'Note deleted', response: await populateTriage(response) });
+  } catch (error) {
+    console.error('Delete note error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/responses/:id
+// @desc    Delete a response (workspace editors)
+// @access  Private
+router.delete('/:id', auth, requireResponseAccess('forms:write'), async (req, res) => {
+  try {
+    await removeUploads({ response: req.response._id });
+    await req.response.deleteOne();
+
+    res.json({ message: 'Response deleted successfully' });
+  } catch (error) {
+    console.error('Delete response error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
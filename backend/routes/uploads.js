@@ -0,0 +1,195 @@
+const express = require('express');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const multer = require('multer');
+const Form = require('../models/Form');
+const Upload = require('../models/Upload');
+const { auth } = require('../middleware/auth');
+const { rateLimit } = require('../middleware/rateLimit');
+const { getFormState, isPublicState, getClosedMessage } = require('../utils/formLifecycle');
+const { partialExpiry } = require('../utils/partialResponses');
+const { scanFile } = require('../utils/virusScan');
+const { getStorage } = require('../utils/fileStorage');
+const { attachmentHeader } = require('../utils/responseExport');
+const { MB, matchesFileType, storeUpload, readFileLink } = require('../utils/fileUploads');
+
+const router = express.Router();
+
+const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || path.join(__dirname, '..', 'uploads'));
+const IMAGE_DIR = path.join(UPLOAD_DIR, 'images');
+const MAX_IMAGE_SIZE = 2 * 1024 * 1024;
+const IMAGE_TYPES = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp'
+};
+
+fs.mkdirSync(IMAGE_DIR, { recursive: true });
+
+const imageUpload = multer({
+  storage: multer.diskStorage({
+    destination: IMAGE_DIR,
+    filename: (req, file, cb) => {
+      cb(null, `${crypto.randomBytes(16).toString('hex')}${IMAGE_TYPES[file.mimetype]}`);
+    }
+  }),
+  limits: { fileSize: MAX_IMAGE_SIZE },
+  fileFilter: (req, file, cb) => {
+    cb(null, Boolean(IMAGE_TYPES[file.mimetype]));
+  }
+}).single('image');
+
+// Files uploaded per minute from one IP address
+const fileLimit = rateLimit({
+  windowMs: 60 * 1000,
+  max: parseInt(process.env.UPLOAD_RATE_LIMIT_PER_IP, 10) || 20,
+  key: (req) => `upload:${req.ip}`,
+  message: 'Too many uploads from your network. Please try again in a minute.'
+});
+
+// Loads the open form and file question a file is uploaded to
+const loadFileQuestion = async (req, res, next) => {
+  try {
+    const { formId, questionId } = req.params;
+    const form = mongoose.Types.ObjectId.isValid(formId) && await Form.findById(formId);
+    const state = form && getFormState(form);
+    if (!form || !isPublicState(state)) {
+      return res.status(404).json({ message: 'Form not found or inactive' });
+    }
+    if (state !== 'open') {
+      return res.status(403).json({ message: getClosedMessage(form, state), state });
+    }
+
+    const question = mongoose.Types.ObjectId.isValid(questionId) && form.questions.id(questionId);
+    if (!question || question.type !== 'file') {
+      return res.status(404).json({ message: 'File question not found' });
+    }
+
+    req.form = form;
+    req.question = question;
+    next();
+  } catch (error) {
+    console.error('Load file question error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Files wait in the system's temporary directory until they are scanned
+const fileUpload = (question) => multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: question.file.maxSizeMB * MB, files: 1 },
+  fileFilter: (req, file, cb) => {
+    req.fileTypeRejected = !matchesFileType(file.mimetype, question.file.allowedTypes);
+    cb(null, !req.fileTypeRejected);
+  }
+}).single('file');
+
+// @route   POST /api/uploads/images
+// @desc    Upload a branding image (logo or form header)
+// @access  Private
+router.post('/images', auth, (req, res) => {
+  imageUpload(req, res, (error) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? 'Image must be 2MB or smaller'
+        : error.message;
+      return res.status(400).json({ message });
+    }
+    if (error) {
+      console.error('Upload image error:', error);
+      return res.status(500).json({ message: 'Server error' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: 'Please upload a PNG, JPEG, GIF or WebP image' });
+    }
+
+    res.status(201).json({
+      url: `${req.protocol}://${req.get('host')}/uploads/images/${req.file.filename}`
+    });
+  });
+});
+
+// @route   POST /api/uploads/forms/:formId/questions/:questionId
+// @desc    Upload a file to answer a file question of a public form; the
+//          token returned is the answer (see utils/fileUploads)
+// @access  Public
+router.post('/forms/:formId/questions/:questionId', fileLimit, loadFileQuestion, (req, res) => {
+  const { form, question } = req;
+
+  fileUpload(question)(req, res, async (error) => {
+    try {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === 'LIMIT_FILE_SIZE'
+          ? `Files must be ${question.file.maxSizeMB}MB or smaller`
+          : error.message;
+        return res.status(400).json({ message });
+      }
+      if (error) throw error;
+      if (req.fileTypeRejected) {
+        return res.status(400).json({ message: 'This question does not accept files of this type' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: 'Please choose a file to upload' });
+      }
+
+      const scan = await scanFile(req.file.path);
+      if (!scan.clean) {
+        return res.status(400).json({ message: 'This file failed a virus scan and was not uploaded' });
+      }
+
+      // Kept as long as progress saved with it, in case the respondent
+      // finishes the form later
+      const { upload, token } = await storeUpload(form, question, req.file, partialExpiry());
+
+      res.status(201).json({ token, name: upload.name, size: upload.size, mimeType: upload.mimeType });
+    } catch (uploadError) {
+      console.error('Upload file error:', uploadError);
+      res.status(500).json({ message: 'Server error' });
+    } finally {
+      if (req.file) {
+        fs.promises.rm(req.file.path, { force: true }).catch(() => undefined);
+      }
+    }
+  });
+});
+
+// @route   GET /api/uploads/files/:token
+// @desc    Download a file answering a response through a signed link
+//          (see utils/fileUploads)
+// @access  Public
+router.get('/files/:token', async (req, res) => {
+  try {
+    const uploadId = readFileLink(req.params.token);
+    const upload = uploadId && mongoose.Types.ObjectId.isValid(uploadId) &&
+      await Upload.findOne({ _id: uploadId, response: { $ne: null } });
+    if (!upload) {
+      return res.status(404).json({ message: 'This link is invalid or has expired' });
+    }
+
+    const stream = await getStorage().getObject(upload.storageKey);
+    stream.on('error', (error) => {
+      console.error('Download file error:', error);
+      if (!res.headersSent) {
+        res.removeHeader('Content-Disposition');
+        return res.status(404).json({ message: 'File not found' });
+      }
+      res.destroy(error);
+    });
+
+    // Always a download, so uploaded HTML cannot run on this site
+    res.setHeader('Content-Type', upload.mimeType);
+    res.setHeader('Content-Disposition', attachmentHeader(upload.name));
+    res.setHeader('Cache-Control', 'private, no-store');
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Download file error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
+module.exports.UPLOAD_DIR = UPLOAD_DIR;
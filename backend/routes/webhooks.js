@@ -0,0 +1,164 @@
+const express = require('express');
+const Webhook = require('../models/Webhook');
+const WebhookDelivery = require('../models/WebhookDelivery');
+const { auth } = require('../middleware/auth');
+const { validate } = require('../middleware/validate');
+const { getFormAccess, authorizeForm, requireFormAccess } = require('../middleware/workspace');
+const { WEBHOOK_EVENTS, TEST_EVENT, createWebhookSecret } = require('../utils/webhooks');
+const { deliver } = require('../utils/webhookDelivery');
+const { checkWebhookTarget } = require('../utils/webhookTargets');
+
+const router = express.Router();
+
+// Loads the webhook in req.params.id if the user may manage its form's
+// webhooks; responds with an error and returns null otherwise
+const loadWebhook = async (req, res) => {
+  const webhook = await Webhook.findById(req.params.id).catch(() => null);
+  const access = webhook && await getFormAccess(req.user, webhook.form);
+
+  if (!access) {
+    res.status(404).json({ message: 'Webhook not found' });
+    return null;
+  }
+  return authorizeForm(req, res, access, 'forms:write') ? webhook : null;
+};
+
+// @route   GET /api/webhooks/form/:formId
+// @desc    Get the webhooks of a form
+// @access  Private (editors)
+router.get('/form/:formId', auth, requireFormAccess('forms:write', 'formId'), async (req, res) => {
+  try {
+    const webhooks = await Webhook.find({ form: req.form._id }).sort({ createdAt: 1 });
+
+    res.json({ webhooks, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error('Get webhooks error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/webhooks/form/:formId
+// @desc    Subscribe a URL to events of a form
+// @access  Private (editors)
+router.post('/form/:formId', auth, requireFormAccess('forms:write', 'formId'), validate('webhooks.create'), async (req, res) => {
+  try {
+    const { url, events, secret } = req.body;
+
+    const targetError = await checkWebhookTarget(url);
+    if (targetError) {
+      return res.status(400).json({ message: targetError });
+    }
+
+    const webhook = await Webhook.create({
+      form: req.form._id,
+      url,
+      events: [...new Set(events)],
+      secret: secret || createWebhookSecret(),
+      createdBy: req.user._id
+    });
+
+    res.status(201).json({
+      message: 'Webhook created successfully',
+      webhook
+    });
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/webhooks/:id
+// @desc    Update a webhook's URL, events, secret or status
+// @access  Private (editors)
+router.put('/:id', auth, validate('webhooks.update'), async (req, res) => {
+  try {
+    const webhook = await loadWebhook(req, res);
+    if (!webhook) return;
+
+    const { url, events, secret, isActive } = req.body;
+
+    if (url !== undefined) {
+      const targetError = await checkWebhookTarget(url);
+      if (targetError) {
+        return res.status(400).json({ message: targetError });
+      }
+      webhook.url = url;
+    }
+    if (events !== undefined) webhook.events = [...new Set(events)];
+    if (secret) webhook.secret = secret;
+    if (isActive !== undefined) webhook.isActive = isActive;
+
+    await webhook.save();
+
+    res.json({
+      message: 'Webhook updated successfully',
+      webhook
+    });
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/webhooks/:id
+// @desc    Delete a webhook and its delivery log
+// @access  Private (editors)
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const webhook = await loadWebhook(req, res);
+    if (!webhook) return;
+
+    await WebhookDelivery.deleteMany({ webhook: webhook._id });
+    await Webhook.findByIdAndDelete(webhook._id);
+
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/webhooks/:id/test
+// @desc    Send a test event to a webhook and wait for the first attempt
+// @access  Private (editors)
+router.post('/:id/test', auth, async (req, res) => {
+  try {
+    const webhook = await loadWebhook(req, res);
+    if (!webhook) return;
+
+    const delivery = await deliver(webhook, TEST_EVENT, {
+      form: {
+        id: req.form._id,
+        title: req.form.title
+      },
+      message: 'This is a test event'
+    });
+
+    res.json({ delivery });
+  } catch (error) {
+    console.error('Test webhook error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/webhooks/:id/deliveries
+// @desc    Get the most recent deliveries of a webhook
+// @access  Private (editors)
+router.get('/:id/deliveries', auth, async (req, res) => {
+  try {
+    const webhook = await loadWebhook(req, res);
+    if (!webhook) return;
+
+    const limit = Math.min(parseInt(req.query.limit, 10) || 20, 100);
+    const deliveries = await WebhookDelivery.find({ webhook: webhook._id })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.json({ deliveries });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
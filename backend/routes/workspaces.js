@@ -0,0 +1,373 @@
+const express = require('express');
+const Workspace = require('../models/Workspace');
+const { auth } = require('../middleware/auth');
+const { validate } = require('../middleware/validate');
+const { can } = require('../utils/permissions');
+const { createRandomToken, hashToken } = require('../utils/tokens');
+const { isBlockedByTwoFactor, TWO_FACTOR_REQUIRED_MESSAGE } = require('../utils/twoFactor');
+
+const router = express.Router();
+
+const INVITATION_TTL_DAYS = 7;
+
+// Members and pending invitations as shown to workspace members; the
+// invitation list is only included for owners
+const serializeWorkspace = async (workspace, userId) => {
+  await workspace.populate('members.user', 'email businessName twoFactor.enabled');
+  const role = workspace.getRole(userId);
+
+  return {
+    _id: workspace._id,
+    name: workspace.name,
+    role,
+    requireTwoFactor: workspace.requireTwoFactor,
+    members: workspace.members
+      .filter(member => member.user)
+      .map(member => ({
+        user: {
+          _id: member.user._id,
+          email: member.user.email,
+          businessName: member.user.businessName
+        },
+        role: member.role,
+        twoFactorEnabled: Boolean(member.user.twoFactor && member.user.twoFactor.enabled),
+        joinedAt: member.joinedAt
+      })),
+    invitations: can(role, 'workspace:manage')
+      ? workspace.invitations.map(invitation => ({
+        _id: invitation._id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt
+      }))
+      : [],
+    createdAt: workspace.createdAt
+  };
+};
+
+// Loads the workspace in req.params.id and checks the user's role allows
+// `permission`; responds with an error and returns null otherwise. Members
+// the workspace requires two-factor authentication of can only leave it
+// until they turn it on.
+const loadWorkspace = async (req, res, permission, { leaving = false } = {}) => {
+  const workspace = await Workspace.findById(req.params.id);
+  const role = workspace && workspace.getRole(req.user._id);
+
+  if (!role) {
+    res.status(404).json({ message: 'Workspace not found' });
+    return null;
+  }
+  if (!can(role, permission)) {
+    res.status(403).json({ message: 'Only workspace owners can do this' });
+    return null;
+  }
+  if (!leaving && isBlockedByTwoFactor(workspace, req.user)) {
+    res.status(403).json({ message: TWO_FACTOR_REQUIRED_MESSAGE });
+    return null;
+  }
+  return workspace;
+};
+
+const countOwners = (workspace) => workspace.members.filter(member => member.role === 'owner').length;
+
+// Finds a pending, unexpired invitation by the token from its link
+const findInvitation = async (token) => {
+  const tokenHash = hashToken(token);
+  const workspace = await Workspace.findOne({ 'invitations.tokenHash': tokenHash });
+  const invitation = workspace && workspace.invitations.find(i => i.tokenHash === tokenHash);
+
+  if (!invitation || invitation.expiresAt < new Date()) {
+    return null;
+  }
+  return { workspace, invitation };
+};
+
+// @route   GET /api/workspaces
+// @desc    Get the workspaces the user belongs to
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    let workspaces = await Workspace.findForUser(req.user._id);
+    if (workspaces.length === 0) {
+      workspaces = [await Workspace.createPersonal(req.user)];
+    }
+
+    res.json({
+      workspaces: workspaces.map(workspace => ({
+        _id: workspace._id,
+        name: workspace.name,
+        role: workspace.getRole(req.user._id),
+        memberCount: workspace.members.length,
+        requireTwoFactor: workspace.requireTwoFactor
+      }))
+    });
+  } catch (error) {
+    console.error('Get workspaces error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/workspaces
+// @desc    Create a workspace owned by the user
+// @access  Private
+router.post('/', auth, validate('workspaces.create'), async (req, res) => {
+  try {
+    const workspace = await Workspace.create({
+      name: req.body.name,
+      members: [{ user: req.user._id, role: 'owner' }]
+    });
+
+    res.status(201).json({
+      message: 'Workspace created successfully',
+      workspace: await serializeWorkspace(workspace, req.user._id)
+    });
+  } catch (error) {
+    console.error('Create workspace error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/workspaces/invitations/:token
+// @desc    Get the details of an invitation from its link
+// @access  Public
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const found = await findInvitation(req.params.token);
+    if (!found) {
+      return res.status(404).json({ message: 'Invitation not found or expired' });
+    }
+
+    res.json({
+      invitation: {
+        workspaceName: found.workspace.name,
+        email: found.invitation.email,
+        role: found.invitation.role,
+        expiresAt: found.invitation.expiresAt
+      }
+    });
+  } catch (error) {
+    console.error('Get invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/workspaces/invitations/:token/accept
+// @desc    Join a workspace using an invitation sent to the user's email
+// @access  Private
+router.post('/invitations/:token/accept', auth, async (req, res) => {
+  try {
+    const found = await findInvitation(req.params.token);
+    if (!found) {
+      return res.status(404).json({ message: 'Invitation not found or expired' });
+    }
+
+    const { workspace, invitation } = found;
+    if (invitation.email !== req.user.email) {
+      return res.status(403).json({ message: `This invitation was sent to ${invitation.email}` });
+    }
+
+    if (!workspace.getRole(req.user._id)) {
+      workspace.members.push({ user: req.user._id, role: invitation.role });
+    }
+    workspace.invitations.pull(invitation._id);
+    await workspace.save();
+
+    res.json({
+      message: 'Invitation accepted',
+      workspace: await serializeWorkspace(workspace, req.user._id)
+    });
+  } catch (error) {
+    console.error('Accept invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/workspaces/:id
+// @desc    Get a workspace with its members
+// @access  Private
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const workspace = await loadWorkspace(req, res, 'forms:read');
+    if (!workspace) return;
+
+    res.json({ workspace: await serializeWorkspace(workspace, req.user._id) });
+  } catch (error) {
+    console.error('Get workspace error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/workspaces/:id
+// @desc    Rename a workspace
+// @access  Private (owners)
+router.put('/:id', auth, validate('workspaces.update'), async (req, res) => {
+  try {
+    const workspace = await loadWorkspace(req, res, 'workspace:manage');
+    if (!workspace) return;
+
+    workspace.name = req.body.name;
+    await workspace.save();
+
+    res.json({
+      message: 'Workspace updated successfully',
+      workspace: await serializeWorkspace(workspace, req.user._id)
+    });
+  } catch (error) {
+    console.error('Update workspace error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/workspaces/:id/security
+// @desc    Require members to use two-factor authentication, or stop
+//          requiring it
+// @access  Private (owners)
+router.put('/:id/security', auth, validate('workspaces.updateSecurity'), async (req, res) => {
+  try {
+    const workspace = await loadWorkspace(req, res, 'workspace:manage');
+    if (!workspace) return;
+
+    // Owners could otherwise lock themselves out
+    if (req.body.requireTwoFactor && !req.user.twoFactor.enabled) {
+      return res.status(400).json({
+        message: 'Turn on two-factor authentication for your own account before requiring it'
+      });
+    }
+
+    workspace.requireTwoFactor = req.body.requireTwoFactor;
+    await workspace.save();
+
+    res.json({
+      message: workspace.requireTwoFactor
+        ? 'Members now need two-factor authentication to use this workspace'
+        : 'Two-factor authentication is no longer required',
+      workspace: await serializeWorkspace(workspace, req.user._id)
+    });
+  } catch (error) {
+    console.error('Update workspace security error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/workspaces/:id/invitations
+// @desc    Invite someone to a workspace by email
+// @access  Private (owners)
+router.post('/:id/invitations', auth, validate('workspaces.invite'), async (req, res) => {
+  try {
+    const workspace = await loadWorkspace(req, res, 'workspace:manage');
+    if (!workspace) return;
+
+    const { email, role } = req.body;
+
+    await workspace.populate('members.user', 'email');
+    if (workspace.members.some(member => member.user && member.user.email === email)) {
+      return res.status(400).json({ message: 'This person is already a member' });
+    }
+
+    // Inviting the same email again replaces the earlier invitation
+    const existing = workspace.invitations.find(invitation => invitation.email === email);
+    if (existing) {
+      workspace.invitations.pull(existing._id);
+    }
+
+    const token = createRandomToken();
+    workspace.invitations.push({
+      email,
+      role,
+      tokenHash: hashToken(token),
+      invitedBy: req.user._id,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+    });
+    await workspace.save();
+
+    // The token is only returned once; the owner shares the link with the invitee
+    res.status(201).json({
+      message: 'Invitation created',
+      token,
+      workspace: await serializeWorkspace(workspace, req.user._id)
+    });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/workspaces/:id/invitations/:invitationId
+// @desc    Revoke a pending invitation
+// @access  Private (owners)
+router.delete('/:id/invitations/:invitationId', auth, async (req, res) => {
+  try {
+    const workspace = await loadWorkspace(req, res, 'workspace:manage');
+    if (!workspace) return;
+
+    workspace.invitations.pull(req.params.invitationId);
+    await workspace.save();
+
+    res.json({
+      message: 'Invitation revoked',
+      workspace: await serializeWorkspace(workspace, req.user._id)
+    });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/workspaces/:id/members/:userId
+// @desc    Change a member's role
+// @access  Private (owners)
+router.put('/:id/members/:userId', auth, validate('workspaces.updateMember'), async (req, res) => {
+  try {
+    const workspace = await loadWorkspace(req, res, 'workspace:manage');
+    if (!workspace) return;
+
+    const member = workspace.members.find(m => m.user.toString() === req.params.userId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (member.role === 'owner' && req.body.role !== 'owner' && countOwners(workspace) === 1) {
+      return res.status(400).json({ message: 'A workspace must have at least one owner' });
+    }
+
+    member.role = req.body.role;
+    await workspace.save();
+
+    res.json({
+      message: 'Member updated successfully',
+      workspace: await serializeWorkspace(workspace, req.user._id)
+    });
+  } catch (error) {
+    console.error('Update member error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/workspaces/:id/members/:userId
+// @desc    Remove a member, or leave the workspace when removing yourself
+// @access  Private (owners, or the member themselves)
+router.delete('/:id/members/:userId', auth, async (req, res) => {
+  try {
+    const leaving = req.params.userId === req.user._id.toString();
+    const workspace = await loadWorkspace(req, res, leaving ? 'forms:read' : 'workspace:manage', { leaving });
+    if (!workspace) return;
+
+    const member = workspace.members.find(m => m.user.toString() === req.params.userId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (member.role === 'owner' && countOwners(workspace) === 1) {
+      return res.status(400).json({ message: 'A workspace must have at least one owner' });
+    }
+
+    workspace.members = workspace.members.filter(m => m !== member);
+    await workspace.save();
+
+    res.json({ message: leaving ? 'You left the workspace' : 'Member removed successfully' });
+  } catch (error) {
+    console.error('Remove member error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
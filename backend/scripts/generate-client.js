@@ -0,0 +1,263 @@
+// Writes the frontend's API types and client from the OpenAPI document:
+//
+//   frontend/src/types/api.ts      one type per component schema
+//   frontend/src/services/api.ts   an <tag>API object per tag with one method
+//                                  per operation, named after its operationId
+//
+// Methods take the path parameters in order, then the request body, then the
+// query parameters as an object. Run `npm run generate-client` after changing
+// anything in openapi/.
+//
+// Usage: node scripts/generate-client.js [--check]
+//   --check   exit with an error if the generated files are out of date
+
+const fs = require('fs');
+const path = require('path');
+const { document } = require('../openapi');
+
+const FRONTEND_SRC = path.join(__dirname, '..', '..', 'frontend', 'src');
+const TYPES_FILE = path.join(FRONTEND_SRC, 'types', 'api.ts');
+const CLIENT_FILE = path.join(FRONTEND_SRC, 'services', 'api.ts');
+const MAX_LINE = 100;
+
+const HEADER = [
+  '// Generated by backend/scripts/generate-client.js from the OpenAPI document',
+  '// in backend/openapi. Do not edit; run `npm run generate-client` in backend/.',
+  ''
+];
+
+const { schemas } = document.components;
+
+const refName = (schema) => schema.$ref.split('/').pop();
+
+const indent = (text, depth) => text.split('\n').map(line => (line ? '  '.repeat(depth) + line : line)).join('\n');
+
+const comment = (description, depth = 0) =>
+  description ? `${'  '.repeat(depth)}// ${description}\n` : '';
+
+const literal = (value) => (typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value));
+
+const union = (types) => [...new Set(types)].join(' | ');
+
+// Wraps union members of an array element type in parentheses
+const arrayOf = (type) => (/[|&]/.test(type) && !/^[{(]/.test(type) ? `(${type})[]` : `${type}[]`);
+
+const PRIMITIVES = {
+  string: 'string',
+  integer: 'number',
+  number: 'number',
+  boolean: 'boolean',
+  null: 'null'
+};
+
+// The TypeScript type of a schema; `refs` collects the component names used
+const toType = (schema, refs) => {
+  if (!schema || Object.keys(schema).length === 0 || (Object.keys(schema).length === 1 && schema.description)) {
+    return 'unknown';
+  }
+  if (schema.$ref) {
+    refs.add(refName(schema));
+    return refName(schema);
+  }
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return union(schema.enum.map(literal));
+  if (schema.anyOf || schema.oneOf) return union((schema.anyOf || schema.oneOf).map(item => toType(item, refs)));
+  if (schema.format === 'binary') return 'Blob';
+
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map(type => toType({ ...schema, type }, refs)));
+  }
+  if (schema.type === 'array') return arrayOf(toType(schema.items, refs));
+  if (schema.type === 'object' || schema.properties) return objectType(schema, refs);
+  return PRIMITIVES[schema.type] || 'unknown';
+};
+
+// An object type: its properties, or a Record for maps
+const objectType = (schema, refs) => {
+  const properties = Object.entries(schema.properties || {});
+  if (properties.length === 0) {
+    const keys = schema.propertyNames ? toType(schema.propertyNames, refs) : 'string';
+    const values = typeof schema.additionalProperties === 'object'
+      ? toType(schema.additionalProperties, refs)
+      : 'unknown';
+    return `Record<${keys}, ${values}>`;
+  }
+
+  const required = new Set(schema.required || []);
+  const lines = properties.map(([name, property]) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+    const optional = required.has(name) ? '' : '?';
+    return `${comment(property.description)}${key}${optional}: ${toType(property, refs)};`;
+  });
+  return `{\n${indent(lines.join('\n'), 1)}\n}`;
+};
+
+// A component as an interface, or a type alias for anything but an object
+const declaration = (name, schema, refs) => {
+  const type = toType(schema, refs);
+  if (type.startsWith('{')) {
+    return `${comment(schema.description)}export interface ${name} ${type}`;
+  }
+  const single = `export type ${name} = ${type};`;
+  if (single.length <= MAX_LINE || !type.includes(' | ')) {
+    return `${comment(schema.description)}${single}`;
+  }
+  const members = type.split(' | ').map(member => `  | ${member}`).join('\n');
+  return `${comment(schema.description)}export type ${name} =\n${members};`;
+};
+
+const generateTypes = () => {
+  const declarations = Object.entries(schemas).map(([name, schema]) => declaration(name, schema, new Set()));
+  return [...HEADER, declarations.join('\n\n'), ''].join('\n');
+};
+
+const pascalCase = (text) => text.replace(/(^|[^A-Za-z0-9])([a-z])/g, (match, separator, letter) => letter.toUpperCase());
+
+const jsonSchemaOf = (content) => content && content['application/json'] && content['application/json'].schema;
+
+// Collects what the client needs to know about an operation
+const describeOperation = ({ path: route, method, operation }) => {
+  const [tag, name] = operation.operationId.split('.');
+  const typeName = pascalCase(`${tag} ${name}`);
+  const parameters = operation.parameters || [];
+  const successCode = Object.keys(operation.responses).find(code => code.startsWith('2'));
+  const success = operation.responses[successCode];
+  const body = operation.requestBody && operation.requestBody.content;
+  // Files (e.g. exports) are downloaded as Blobs whatever their format
+  const blobResult = Object.values(success.content || {}).some(({ schema }) => schema.format === 'binary');
+
+  return {
+    tag,
+    name,
+    typeName,
+    route,
+    method,
+    summary: operation.summary,
+    pathParams: parameters.filter(parameter => parameter.in === 'path'),
+    queryParams: parameters.filter(parameter => parameter.in === 'query'),
+    jsonBody: jsonSchemaOf(body),
+    multipartBody: body && body['multipart/form-data'] && body['multipart/form-data'].schema,
+    jsonResult: blobResult ? undefined : jsonSchemaOf(success.content),
+    blobResult
+  };
+};
+
+// Exported types for an operation's inline query parameters and result
+const operationTypes = (op, refs) => {
+  const declarations = [];
+
+  if (op.queryParams.length > 0) {
+    const schema = {
+      type: 'object',
+      required: op.queryParams.filter(parameter => parameter.required).map(parameter => parameter.name),
+      properties: Object.fromEntries(op.queryParams.map(parameter => [
+        parameter.name,
+        { ...parameter.schema, description: parameter.description }
+      ]))
+    };
+    declarations.push(`export interface ${op.typeName}Params ${toType(schema, refs)}`);
+  }
+  if (op.jsonResult && !op.jsonResult.$ref) {
+    declarations.push(`export interface ${op.typeName}Result ${toType(op.jsonResult, refs)}`);
+  }
+  return declarations;
+};
+
+const resultType = (op, refs) => {
+  if (op.blobResult) return 'Blob';
+  if (!op.jsonResult) return 'void';
+  return op.jsonResult.$ref ? toType(op.jsonResult, refs) : `${op.typeName}Result`;
+};
+
+// One method of an API object
+const operationMethod = (op, refs) => {
+  const args = op.pathParams.map(parameter => `${parameter.name}: ${toType(parameter.schema, refs)}`);
+  if (op.jsonBody) args.push(`data: ${toType(op.jsonBody, refs)}`);
+  if (op.multipartBody) args.push(`data: ${toType(op.multipartBody, refs)}`);
+  if (op.queryParams.length > 0) {
+    const optional = op.queryParams.some(parameter => parameter.required) ? '' : '?';
+    args.push(`params${optional}: ${op.typeName}Params`);
+  }
+
+  const url = op.route.replace(/{(\w+)}/g, (match, name) => `\${encodeURIComponent(${name})}`);
+  const quotedUrl = url.includes('${') ? `\`${url}\`` : `'${url}'`;
+  const hasBody = ['post', 'put', 'patch'].includes(op.method);
+
+  const config = [];
+  // DELETE requests carry their body in the config
+  if (!hasBody && op.jsonBody) config.push('data');
+  if (op.queryParams.length > 0) config.push('params');
+  if (op.blobResult) config.push("responseType: 'blob'");
+  if (op.multipartBody) config.push("headers: { 'Content-Type': 'multipart/form-data' }");
+
+  const callArgs = [quotedUrl];
+  if (hasBody) callArgs.push(op.jsonBody ? 'data' : op.multipartBody ? 'body' : 'undefined');
+  if (config.length > 0) callArgs.push(`{ ${config.join(', ')} }`);
+  if (hasBody && callArgs[1] === 'undefined' && callArgs.length === 2) callArgs.pop();
+
+  const lines = [];
+  if (op.multipartBody) {
+    lines.push('const body = new FormData();');
+    for (const field of Object.keys(op.multipartBody.properties)) {
+      lines.push(`body.append('${field}', data.${field});`);
+    }
+  }
+  lines.push(`const response = await api.${op.method}(${callArgs.join(', ')});`);
+  lines.push('return response.data;');
+
+  return [
+    comment(op.summary).trimEnd(),
+    `${op.name}: async (${args.join(', ')}): Promise<${resultType(op, refs)}> => {`,
+    indent(lines.join('\n'), 1),
+    '},'
+  ].join('\n');
+};
+
+const generateClient = () => {
+  const refs = new Set();
+  const byTag = new Map(document.tags.map(tag => [tag.name, { tag, operations: [] }]));
+  for (const [route, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const op = describeOperation({ path: route, method, operation });
+      byTag.get(op.tag).operations.push(op);
+    }
+  }
+
+  const types = [];
+  const objects = [];
+  for (const { tag, operations } of byTag.values()) {
+    types.push(...operations.flatMap(op => operationTypes(op, refs)));
+    const methods = operations.map(op => indent(operationMethod(op, refs), 1));
+    objects.push(`// ${tag.description}\nexport const ${tag.name}API = {\n${methods.join('\n\n')}\n};`);
+  }
+
+  const imports = [...refs].sort();
+  return [
+    ...HEADER,
+    "import api from './http';",
+    `import {\n${imports.map(name => `  ${name},`).join('\n')}\n} from '../types';`,
+    '',
+    types.join('\n\n'),
+    '',
+    objects.join('\n\n'),
+    ''
+  ].join('\n');
+};
+
+const outputs = [
+  [TYPES_FILE, generateTypes()],
+  [CLIENT_FILE, generateClient()]
+];
+
+if (process.argv.includes('--check')) {
+  const stale = outputs.filter(([file, content]) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content);
+  for (const [file] of stale) {
+    console.error(`${path.relative(process.cwd(), file)} is out of date; run npm run generate-client`);
+  }
+  process.exit(stale.length > 0 ? 1 : 0);
+}
+
+for (const [file, content] of outputs) {
+  fs.writeFileSync(file, content);
+  console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+}
@@ -0,0 +1,52 @@
+// Minimal local webhook receiver for trying out form webhooks.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.js [port]
+//
+// Logs every request, verifies its signature when WEBHOOK_SECRET is set and
+// answers 200 (or 401 for a bad signature). Set FAIL_TIMES=n to answer 500
+// to the first n requests and watch the retries.
+
+const http = require('http');
+const crypto = require('crypto');
+
+const port = parseInt(process.argv[2], 10) || 4000;
+const secret = process.env.WEBHOOK_SECRET;
+let failuresLeft = parseInt(process.env.FAIL_TIMES, 10) || 0;
+
+const verifySignature = (timestamp, body, header) => {
+  const expected = `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  return Boolean(header) &&
+    header.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(header), Buffer.from(expected));
+};
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const event = req.headers['x-webhook-event'];
+    const timestamp = req.headers['x-webhook-timestamp'];
+    const signature = req.headers['x-webhook-signature'];
+
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} ${event || ''}`);
+    console.log(body);
+
+    if (secret && !verifySignature(timestamp, body, signature)) {
+      console.log('-> 401 invalid signature');
+      res.writeHead(401);
+      return res.end('Invalid signature');
+    }
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      console.log('-> 500 (simulated failure)');
+      res.writeHead(500);
+      return res.end('Simulated failure');
+    }
+
+    console.log(secret ? '-> 200 signature verified' : '-> 200');
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: true }));
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
@@ -5,28 +5,83 @@ const helmet = require('helmet');
 const morgan = require('morgan');
 require('dotenv').config();
 
+// Sessions and every signed link and token fall back to JWT_SECRET, so the
+// server must not run without it
+if (!process.env.JWT_SECRET) {
+  console.error('JWT_SECRET is not set. Copy env.example to .env and set a long random value.');
+  process.exit(1);
+}
+
 const authRoutes = require('./routes/auth');
 const formRoutes = require('./routes/forms');
 const responseRoutes = require('./routes/responses');
+const uploadRoutes = require('./routes/uploads');
+const workspaceRoutes = require('./routes/workspaces');
+const webhookRoutes = require('./routes/webhooks');
+const campaignRoutes = require('./routes/campaigns');
+const apiKeyRoutes = require('./routes/apiKeys');
+const { allowApiKeys } = require('./middleware/auth');
+const { document: apiDocument } = require('./openapi');
+const { startWebhookWorker } = require('./utils/webhookDelivery');
+const { startDigestWorker } = require('./utils/notifications');
+const { startScheduleWorker } = require('./utils/formScheduler');
+const { startUploadCleanupWorker } = require('./utils/fileUploads');
 
 const app = express();
 
 // Middleware
 app.use(helmet());
-app.use(cors());
+// Public forms and API keys work from any origin. /api/auth also takes the
+// refresh token cookie, so only the app's own origins may call it with
+// credentials.
+const appOrigins = (process.env.CORS_ORIGINS || process.env.APP_URL || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim());
+const authCors = cors({ origin: appOrigins, credentials: true });
+const publicCors = cors();
+app.use((req, res, next) => (req.path.startsWith('/api/auth/') ? authCors : publicCors)(req, res, next));
 app.use(morgan('combined'));
+// Public submissions get a much smaller body limit than the dashboard
+app.use('/api/responses', express.json({ limit: process.env.RESPONSE_BODY_LIMIT || '256kb' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Database connection
 mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/feedback-platform')
-  .then(() => console.log('Connected to MongoDB'))
+  .then(() => {
+    console.log('Connected to MongoDB');
+    // Retries failed webhook deliveries
+    startWebhookWorker();
+    // Sends daily and weekly response digests
+    startDigestWorker();
+    // Closes forms whose closing time has passed
+    startScheduleWorker();
+    // Removes files uploaded to responses that were never submitted
+    startUploadCleanupWorker();
+  })
   .catch(err => console.error('MongoDB connection error:', err));
 
 // Routes
 app.use('/api/auth', authRoutes);
-app.use('/api/forms', formRoutes);
-app.use('/api/responses', responseRoutes);
+// API keys only work on the form and response endpoints
+app.use('/api/forms', allowApiKeys, formRoutes);
+app.use('/api/responses', allowApiKeys, responseRoutes);
+app.use('/api/uploads', uploadRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/campaigns', campaignRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+
+// Uploaded images are shown on public forms served from another origin
+app.use('/uploads', (req, res, next) => {
+  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+  next();
+}, express.static(uploadRoutes.UPLOAD_DIR));
+
+// OpenAPI document of the routes above
+app.get('/api/docs', (req, res) => {
+  res.json(apiDocument);
+});
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -35,6 +90,9 @@ app.get('/api/health', (req, res) => {
 
 // Error handling middleware
 app.use((err, req, res, next) => {
+  if (err.type === 'entity.too.large') {
+    return res.status(413).json({ message: 'Request body is too large' });
+  }
   console.error(err.stack);
   res.status(500).json({ message: 'Something went wrong!' });
 });
@@ -0,0 +1,113 @@
+// Account recovery and lifecycle. Password reset and email verification links
+// carry a single-use token (stored hashed as an AccountToken) and are sent
+// with the mailer; with MAIL_TRANSPORT=file they land in MAIL_DIR.
+//
+// Users can deactivate their account, which logs them out everywhere until
+// they log in again, or delete it together with the workspaces they have to
+// themselves and everything in them.
+
+const AccountToken = require('../models/AccountToken');
+const ApiKey = require('../models/ApiKey');
+const Session = require('../models/Session');
+const Workspace = require('../models/Workspace');
+const { sendMail, escapeHtml } = require('./mailer');
+const { removeForms } = require('./formRemoval');
+const { createRandomToken, hashToken } = require('./tokens');
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Replaces any earlier link for `purpose` and returns the new token
+const createAccountToken = async (user, purpose, ttl) => {
+  const token = createRandomToken();
+  await AccountToken.deleteMany({ user: user._id, purpose });
+  await AccountToken.create({
+    user: user._id,
+    purpose,
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + ttl)
+  });
+  return token;
+};
+
+// Uses up the token from a link; returns its AccountToken, or null when it is
+// unknown, expired or for another purpose
+const useAccountToken = (token, purpose) => AccountToken.findOneAndDelete({
+  tokenHash: hashToken(token),
+  purpose,
+  expiresAt: { $gt: new Date() }
+});
+
+const sendPasswordReset = async (user) => {
+  const token = await createAccountToken(user, 'password-reset', PASSWORD_RESET_TTL_MS);
+  const link = `${APP_URL}/reset-password/${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Someone asked to reset the password of your account, ${user.businessName}.\n\n` +
+      `Choose a new password here within the next hour:\n${link}\n\n` +
+      'If it was not you, ignore this email; your password stays the same.\n',
+    html: `<p>Someone asked to reset the password of your account, <strong>${escapeHtml(user.businessName)}</strong>.</p>` +
+      `<p><a href="${link}">Choose a new password</a> within the next hour.</p>` +
+      '<p>If it was not you, ignore this email; your password stays the same.</p>'
+  });
+};
+
+const sendEmailVerification = async (user) => {
+  const token = await createAccountToken(user, 'email-verification', EMAIL_VERIFICATION_TTL_MS);
+  const link = `${APP_URL}/verify-email/${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Confirm that ${user.email} is the email address of ${user.businessName}:\n${link}\n`,
+    html: `<p>Confirm that ${escapeHtml(user.email)} is the email address of ` +
+      `<strong>${escapeHtml(user.businessName)}</strong>.</p>` +
+      `<p><a href="${link}">Verify email address</a></p>`
+  });
+};
+
+// Deletes `user`. Workspaces where they are the only member go with them;
+// they leave the others. Returns { error } without deleting anything when they
+// are the last owner of a workspace that has other members.
+const deleteAccount = async (user) => {
+  const workspaces = await Workspace.findForUser(user._id);
+  const isLastOwner = (workspace) => workspace.getRole(user._id) === 'owner' &&
+    workspace.members.filter(member => member.role === 'owner').length === 1;
+
+  const blocking = workspaces.find(workspace => workspace.members.length > 1 && isLastOwner(workspace));
+  if (blocking) {
+    return {
+      error: `You are the only owner of "${blocking.name}". Make another member an owner or remove its members first.`
+    };
+  }
+
+  for (const workspace of workspaces) {
+    if (workspace.members.length === 1) {
+      await removeForms({ workspace: workspace._id });
+      await workspace.deleteOne();
+    } else {
+      workspace.members = workspace.members.filter(member => !member.user.equals(user._id));
+      await workspace.save();
+    }
+  }
+  // Forms from before workspaces existed
+  await removeForms({ creator: user._id, workspace: { $exists: false } });
+
+  await Session.deleteMany({ user: user._id });
+  await ApiKey.deleteMany({ user: user._id });
+  await AccountToken.deleteMany({ user: user._id });
+  await user.deleteOne();
+  return {};
+};
+
+module.exports = {
+  useAccountToken,
+  sendPasswordReset,
+  sendEmailVerification,
+  deleteAccount
+};
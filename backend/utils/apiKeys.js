@@ -0,0 +1,62 @@
+// Personal access tokens ("API keys") let scripts call the form and response
+// endpoints as the user who created them. Each key carries scopes, and a
+// request is allowed only when both the user's workspace role and the key's
+// scopes grant the permission. Keys are shown once; only their hash is stored.
+
+const { object, trimmed } = require('../openapi/helpers');
+const { createRandomToken, hashToken } = require('./tokens');
+
+const API_KEY_PREFIX = 'fbk_';
+const API_KEY_SCOPES = ['forms:read', 'responses:read', 'responses:triage', 'forms:write'];
+const MAX_API_KEYS = 20;
+// Requests per minute
+const DEFAULT_RATE_LIMIT = parseInt(process.env.API_KEY_RATE_LIMIT, 10) || 60;
+const MAX_RATE_LIMIT = 1000;
+const MAX_EXPIRY_DAYS = 365;
+// lastUsedAt is only written this often, to spare the database on busy keys
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Returns the token to show the user, its hash to store and the visible
+// start of it that identifies the key in lists
+const createApiKeyToken = () => {
+  const token = `${API_KEY_PREFIX}${createRandomToken()}`;
+  return { token, tokenHash: hashToken(token), prefix: token.slice(0, API_KEY_PREFIX.length + 8) };
+};
+
+const isApiKeyToken = (token) => typeof token === 'string' && token.startsWith(API_KEY_PREFIX);
+
+// Request schema for creating a key
+const apiKeySchema = object({
+  name: { ...trimmed(100, 1), 'x-error-message': 'Name is required (up to 100 characters)' },
+  scopes: {
+    type: 'array',
+    minItems: 1,
+    items: { enum: API_KEY_SCOPES, 'x-error-message': `Scopes must be among ${API_KEY_SCOPES.join(', ')}` },
+    'x-error-message': 'Choose at least one scope'
+  },
+  expiresInDays: {
+    type: ['integer', 'null'],
+    minimum: 1,
+    maximum: MAX_EXPIRY_DAYS,
+    description: 'Unset or null for a key that never expires',
+    'x-error-message': `Keys can expire after 1 to ${MAX_EXPIRY_DAYS} days`
+  },
+  rateLimit: {
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_RATE_LIMIT,
+    description: 'Requests per minute',
+    'x-error-message': `Rate limits are between 1 and ${MAX_RATE_LIMIT} requests per minute`
+  }
+}, ['name', 'scopes']);
+
+module.exports = {
+  API_KEY_SCOPES,
+  MAX_API_KEYS,
+  DEFAULT_RATE_LIMIT,
+  LAST_USED_RESOLUTION_MS,
+  createApiKeyToken,
+  isApiKeyToken,
+  hashToken,
+  apiKeySchema
+};
@@ -0,0 +1,52 @@
+// Branding is set on the account and can be overridden per form. Form values
+// left blank fall back to the account's branding.
+
+const { object, blankable } = require('../openapi/helpers');
+
+const FONTS = ['inter', 'system', 'serif', 'mono'];
+
+const BRANDING_FIELDS = ['logoUrl', 'headerImageUrl', 'primaryColor', 'fontFamily', 'showPoweredBy'];
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const IMAGE_URL = { type: 'string', 'x-trim': true, format: 'url' };
+
+// Request schema for a branding object; blank fields fall back to the defaults
+const brandingSchema = object({
+  logoUrl: blankable(IMAGE_URL),
+  headerImageUrl: blankable(IMAGE_URL),
+  primaryColor: blankable({ type: 'string', pattern: '^#[0-9a-fA-F]{6}$' }),
+  fontFamily: blankable({ enum: FONTS }),
+  showPoweredBy: { type: 'boolean' }
+});
+
+const isBlank = (value) => value === undefined || value === null || value === '';
+
+// Keeps only the branding fields that are set
+const cleanBranding = (branding = {}) => {
+  const cleaned = {};
+  for (const field of BRANDING_FIELDS) {
+    if (!isBlank(branding[field])) {
+      cleaned[field] = branding[field];
+    }
+  }
+  return cleaned;
+};
+
+// Combines account and form branding into what the public form shows
+const resolveBranding = (account = {}, form = {}) => {
+  const branding = {};
+  for (const field of BRANDING_FIELDS) {
+    branding[field] = isBlank(form[field]) ? account[field] : form[field];
+  }
+  branding.showPoweredBy = branding.showPoweredBy !== false;
+  return branding;
+};
+
+module.exports = {
+  FONTS,
+  COLOR_PATTERN,
+  brandingSchema,
+  cleanBranding,
+  resolveBranding
+};
@@ -0,0 +1,102 @@
+// Sends campaign invitations and reminders, and records each recipient's
+// progress (see utils/campaigns for the statuses).
+
+const mongoose = require('mongoose');
+const CampaignRecipient = require('../models/CampaignRecipient');
+const { sendMail, escapeHtml } = require('./mailer');
+const {
+  RECIPIENT_STATUSES,
+  REMINDABLE_STATUSES,
+  DEFAULT_MESSAGE,
+  readInviteToken,
+  inviteUrl,
+  renderTemplate
+} = require('./campaigns');
+
+const sendInvitation = (form, campaign, recipient, reminder) => {
+  const link = inviteUrl(form, recipient);
+  const message = renderTemplate(campaign.message || DEFAULT_MESSAGE, recipient);
+  const subject = campaign.subject || `We'd like your feedback: ${form.title}`;
+
+  return sendMail({
+    to: recipient.email,
+    subject: reminder ? `Reminder: ${subject}` : subject,
+    text: `${message}\n\n${link}\n`,
+    html: `<p>${escapeHtml(message).replace(/\n/g, '<br>')}</p>` +
+      `<p><a href="${escapeHtml(link)}">Open "${escapeHtml(form.title)}"</a></p>`
+  });
+};
+
+// Emails the campaign's pending recipients their invitation, or with
+// `reminder` everyone who has been invited but not responded. Returns the
+// number of messages sent; failures are recorded on the recipient.
+const deliverCampaign = async (form, campaign, { reminder = false } = {}) => {
+  const statuses = reminder ? REMINDABLE_STATUSES : ['pending'];
+  const recipients = CampaignRecipient.find({ campaign: campaign._id, status: { $in: statuses } }).cursor();
+
+  let sent = 0;
+  for await (const recipient of recipients) {
+    try {
+      await sendInvitation(form, campaign, recipient, reminder);
+      sent += 1;
+
+      const now = new Date();
+      if (reminder) {
+        recipient.lastRemindedAt = now;
+        recipient.reminderCount += 1;
+      } else {
+        recipient.status = 'sent';
+        recipient.sentAt = now;
+      }
+      recipient.lastError = undefined;
+      await recipient.save();
+    } catch (error) {
+      console.error('Campaign delivery error:', error);
+      await CampaignRecipient.updateOne({ _id: recipient._id }, { lastError: error.message })
+        .catch(() => {});
+    }
+  }
+  return sent;
+};
+
+// Moves a recipient on to `status`, recording when; a recipient never goes
+// back to an earlier status
+const advanceRecipient = (recipientId, status, update = {}) => {
+  const earlier = RECIPIENT_STATUSES.slice(0, RECIPIENT_STATUSES.indexOf(status));
+  return CampaignRecipient.updateOne(
+    { _id: recipientId, status: { $in: earlier } },
+    { $set: { status, [`${status}At`]: new Date(), ...update } }
+  );
+};
+
+// The recipient an invite token was issued to, if they were invited to `form`
+const findRecipient = async (form, token) => {
+  const id = readInviteToken(token);
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) return null;
+  return CampaignRecipient.findOne({ _id: id, form: form._id });
+};
+
+// Number of recipients in each status, by campaign id
+const getCampaignCounts = async (campaignIds) => {
+  const rows = await CampaignRecipient.aggregate([
+    { $match: { campaign: { $in: campaignIds } } },
+    { $group: { _id: { campaign: '$campaign', status: '$status' }, count: { $sum: 1 } } }
+  ]);
+
+  const counts = new Map();
+  for (const row of rows) {
+    const id = row._id.campaign.toString();
+    if (!counts.has(id)) {
+      counts.set(id, Object.fromEntries(RECIPIENT_STATUSES.map(status => [status, 0])));
+    }
+    counts.get(id)[row._id.status] = row.count;
+  }
+  return counts;
+};
+
+module.exports = {
+  deliverCampaign,
+  advanceRecipient,
+  findRecipient,
+  getCampaignCounts
+};
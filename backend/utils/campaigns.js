@@ -0,0 +1,170 @@
+// Distribution campaigns. A campaign mails each recipient of an uploaded list
+// a personal invite link: the form's public URL with ?invite=<token>, where
+// the token is the recipient's id signed with INVITE_TOKEN_SECRET. The link
+// prefills the recipient's email and name, and their progress is tracked:
+//
+//   pending    not emailed yet
+//   sent       invitation emailed
+//   opened     invite link opened
+//   started    first question answered
+//   completed  response submitted
+//
+// Database and mail work lives in utils/campaignDelivery.
+
+const { object, trimmed } = require('../openapi/helpers');
+const { createSignedToken, readSignedToken } = require('./tokens');
+
+const RECIPIENT_STATUSES = ['pending', 'sent', 'opened', 'started', 'completed'];
+// Recipients who have not responded yet and can be reminded
+const REMINDABLE_STATUSES = ['sent', 'opened', 'started'];
+const MAX_RECIPIENTS = 5000;
+const MAX_FIELDS = 20;
+const MAX_FIELD_LENGTH = 500;
+
+const INVITE_TOKEN_SECRET = process.env.INVITE_TOKEN_SECRET || process.env.JWT_SECRET;
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const DEFAULT_MESSAGE = 'Hi {{name}},\n\nWe would love to hear what you think. ' +
+  'The link below is personal, so please do not forward it.';
+
+// Request schema for a new campaign; `csv` is the recipient list
+const campaignSchema = object({
+  name: trimmed(100, 1),
+  subject: trimmed(200),
+  message: trimmed(5000),
+  csv: { type: 'string', minLength: 1 }
+}, ['name', 'csv']);
+
+// Splits CSV text into rows of fields. Quoted fields may contain commas,
+// doubled quotes and line breaks; blank lines are skipped.
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+// Custom field names become keys of a Mongoose map, which cannot contain dots
+// or start with "$"
+const toFieldName = (header) => header.trim().replace(/\./g, '_').replace(/^\$+/, '');
+
+// Reads a recipient list with a header row. The `email` column is required
+// and `name` optional; every other column becomes a custom field. Returns
+// { recipients, fields, skipped } where skipped lists the data rows (from 1)
+// left out and why, or { error } when the list cannot be used at all.
+const parseRecipients = (text) => {
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  if (!header) {
+    return { error: 'The recipient list is empty' };
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const emailIndex = columns.indexOf('email');
+  const nameIndex = columns.indexOf('name');
+  if (emailIndex === -1) {
+    return { error: 'The recipient list needs an "email" column' };
+  }
+
+  const fieldColumns = header
+    .map((column, index) => ({ name: toFieldName(column), index }))
+    .filter(column => column.index !== emailIndex && column.index !== nameIndex && column.name);
+  if (fieldColumns.length > MAX_FIELDS) {
+    return { error: `The recipient list can have at most ${MAX_FIELDS} custom fields` };
+  }
+  if (rows.length > MAX_RECIPIENTS) {
+    return { error: `A campaign can have at most ${MAX_RECIPIENTS} recipients` };
+  }
+
+  const recipients = [];
+  const skipped = [];
+  const seen = new Set();
+  rows.forEach((values, index) => {
+    const row = index + 1;
+    const email = (values[emailIndex] || '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      skipped.push({ row, reason: 'Invalid email address' });
+      return;
+    }
+    if (seen.has(email)) {
+      skipped.push({ row, reason: 'Duplicate email address' });
+      return;
+    }
+    seen.add(email);
+
+    const fields = {};
+    for (const column of fieldColumns) {
+      const value = (values[column.index] || '').trim();
+      if (value) fields[column.name] = value.slice(0, MAX_FIELD_LENGTH);
+    }
+    recipients.push({
+      email,
+      name: nameIndex === -1 ? undefined : (values[nameIndex] || '').trim().slice(0, 100) || undefined,
+      fields
+    });
+  });
+
+  return { recipients, fields: fieldColumns.map(column => column.name), skipped };
+};
+
+const createInviteToken = (recipient) => createSignedToken(recipient._id.toString(), INVITE_TOKEN_SECRET);
+
+// The id of the recipient an invite token was issued to, or null
+const readInviteToken = (token) => readSignedToken(token, INVITE_TOKEN_SECRET);
+
+const inviteUrl = (form, recipient) =>
+  `${APP_URL}/form/${form.publicUrl}?invite=${encodeURIComponent(createInviteToken(recipient))}`;
+
+// Replaces {{name}}, {{email}} and {{<custom field>}} with the recipient's
+// values; unknown placeholders become empty
+const renderTemplate = (template, recipient) =>
+  template.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, key) => {
+    if (key === 'name') return recipient.name || '';
+    if (key === 'email') return recipient.email;
+    return recipient.fields?.get(key) || '';
+  });
+
+module.exports = {
+  RECIPIENT_STATUSES,
+  REMINDABLE_STATUSES,
+  DEFAULT_MESSAGE,
+  campaignSchema,
+  parseRecipients,
+  readInviteToken,
+  inviteUrl,
+  renderTemplate
+};
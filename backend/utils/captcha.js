@@ -0,0 +1,76 @@
+// CAPTCHA verification for public submissions. CAPTCHA_PROVIDER chooses a
+// verifier; forms that turn on `settings.spam.captcha` then require a token
+// from its widget. Without a provider the setting has no effect.
+//
+//   turnstile, hcaptcha, recaptcha   checked against the provider's siteverify
+//                                    API with CAPTCHA_SECRET
+//   stub                             local stand-in for development and
+//                                    tests; accepts the token STUB_TOKEN
+//
+// Other providers can be added with registerCaptchaVerifier.
+
+const STUB_TOKEN = 'stub-captcha-pass';
+const VERIFY_TIMEOUT_MS = 10 * 1000;
+
+// Providers that follow the common siteverify protocol: a form-encoded POST
+// with secret, response and remoteip, answered with { success }
+const siteVerify = (url) => async (token, ip) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      secret: process.env.CAPTCHA_SECRET || '',
+      response: token,
+      ...(ip ? { remoteip: ip } : {})
+    }),
+    signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS)
+  });
+  if (!response.ok) return false;
+
+  const result = await response.json();
+  return result.success === true;
+};
+
+// name -> (token, ip) => Promise<boolean>
+const verifiers = {
+  turnstile: siteVerify('https://challenges.cloudflare.com/turnstile/v0/siteverify'),
+  hcaptcha: siteVerify('https://api.hcaptcha.com/siteverify'),
+  recaptcha: siteVerify('https://www.google.com/recaptcha/api/siteverify'),
+  stub: async (token) => token === STUB_TOKEN
+};
+
+const registerCaptchaVerifier = (name, verify) => {
+  verifiers[name] = verify;
+};
+
+// What the public form needs to render the widget, or null when no
+// provider is configured
+const getCaptchaConfig = () => {
+  const provider = process.env.CAPTCHA_PROVIDER;
+  if (!provider || !verifiers[provider]) return null;
+  return { provider, siteKey: process.env.CAPTCHA_SITE_KEY || null };
+};
+
+const isCaptchaRequired = (form) => Boolean(form.settings.spam?.captcha && getCaptchaConfig());
+
+// Resolves to whether the token passes; provider errors count as a failure
+const verifyCaptcha = async (token, ip) => {
+  const config = getCaptchaConfig();
+  if (!config) return true;
+  if (typeof token !== 'string' || !token) return false;
+
+  try {
+    return await verifiers[config.provider](token, ip);
+  } catch (error) {
+    console.error('CAPTCHA verification error:', error);
+    return false;
+  }
+};
+
+module.exports = {
+  STUB_TOKEN,
+  registerCaptchaVerifier,
+  getCaptchaConfig,
+  isCaptchaRequired,
+  verifyCaptcha
+};
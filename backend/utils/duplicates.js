@@ -0,0 +1,106 @@
+// Duplicate submission protection. Every response stores fingerprints of
+// who sent it; unless a form allows multiple responses, a new response is
+// rejected when one of the form's strategies matches an earlier one:
+//
+//   email   the same submitter email address
+//   device  the same signed device token, kept by the respondent's browser
+//   ip      the same IP address within `ipWindowHours`
+//   invite  the same invite token
+//
+// Device, IP and invite fingerprints are stored as hashes. Clearing a
+// response's fingerprints (allowResubmission) lets its sender respond again.
+
+const crypto = require('crypto');
+const { object } = require('../openapi/helpers');
+const Response = require('../models/Response');
+const { hashToken, createSignedToken, readSignedToken } = require('./tokens');
+
+const DUPLICATE_STRATEGIES = ['email', 'device', 'ip', 'invite'];
+const MAX_IP_WINDOW_HOURS = 24 * 30;
+
+const DEVICE_TOKEN_SECRET = process.env.DEVICE_TOKEN_SECRET || process.env.JWT_SECRET;
+
+// Handed to browsers opening a public form
+const createDeviceToken = () =>
+  createSignedToken(crypto.randomBytes(16).toString('hex'), DEVICE_TOKEN_SECRET);
+
+// Request schema for a form's duplicate settings
+const duplicateSettingsSchema = object({
+  strategies: { type: 'array', items: { enum: DUPLICATE_STRATEGIES } },
+  ipWindowHours: { type: 'integer', minimum: 1, maximum: MAX_IP_WINDOW_HOURS }
+});
+
+const getFingerprints = ({ submitterEmail, deviceToken, inviteToken, ip }) => {
+  const deviceId = readSignedToken(deviceToken, DEVICE_TOKEN_SECRET);
+  return {
+    email: submitterEmail || undefined,
+    device: deviceId ? hashToken(deviceId) : undefined,
+    ip: ip ? hashToken(ip) : undefined,
+    invite: inviteToken ? hashToken(inviteToken) : undefined
+  };
+};
+
+const duplicateMessage = (strategy, ipWindowHours) => {
+  switch (strategy) {
+    case 'email':
+      return 'A response has already been submitted with this email address';
+    case 'device':
+      return 'You have already submitted a response to this form from this device';
+    case 'ip':
+      return `A response was already submitted from your network in the last ${ipWindowHours} hours`;
+    default:
+      return 'This invitation has already been used to submit a response';
+  }
+};
+
+// Looks for an earlier response from the same sender. Returns
+// { strategy, message } for the first strategy that matches, or null.
+const findDuplicate = async (form, fingerprints) => {
+  if (form.settings.allowMultipleResponses) return null;
+
+  const { strategies = [], ipWindowHours } = form.settings.duplicates || {};
+  for (const strategy of strategies) {
+    const value = fingerprints[strategy];
+    if (!value) continue;
+
+    const query = {
+      form: form._id,
+      [`fingerprints.${strategy}`]: value,
+      quarantined: { $ne: true },
+      partial: { $ne: true }
+    };
+    if (strategy === 'email') {
+      // Responses from before fingerprints only have the submitter's email
+      delete query['fingerprints.email'];
+      query.$or = [
+        { 'fingerprints.email': value },
+        { submitterEmail: value, fingerprints: { $exists: false } }
+      ];
+    }
+    if (strategy === 'ip') {
+      query.submittedAt = { $gte: new Date(Date.now() - ipWindowHours * 60 * 60 * 1000) };
+    }
+
+    if (await Response.exists(query)) {
+      return { strategy, message: duplicateMessage(strategy, ipWindowHours) };
+    }
+  }
+  return null;
+};
+
+// Forgets who sent a response so that they can submit again
+const allowResubmission = (response, user) => {
+  response.fingerprints = {};
+  response.resubmissionAllowedAt = new Date();
+  response.resubmissionAllowedBy = user._id;
+  return response.save();
+};
+
+module.exports = {
+  DUPLICATE_STRATEGIES,
+  createDeviceToken,
+  duplicateSettingsSchema,
+  getFingerprints,
+  findDuplicate,
+  allowResubmission
+};
@@ -0,0 +1,71 @@
+// Where files uploaded to forms are kept. Storage drivers share the object
+// interface of S3-compatible stores, so one can be swapped for another:
+//
+//   putObject(key, stream, { contentType })   store a file under `key`
+//   getObject(key)                            a readable stream of its contents
+//   deleteObject(key)                         remove it (missing keys are ignored)
+//
+// FILE_STORAGE picks the driver. "local" (the default) writes to
+// FILE_STORAGE_DIR on this server's disk, which is never served statically;
+// files only leave it through signed download links (see utils/fileUploads).
+// Another driver, e.g. one wrapping an S3 client, is added with
+// registerStorageDriver before the server starts.
+
+const fs = require('fs');
+const path = require('path');
+const { pipeline } = require('stream/promises');
+
+const STORAGE_DIR = path.resolve(process.env.FILE_STORAGE_DIR || path.join(__dirname, '..', 'storage'));
+
+// Keys are made of path segments like "forms/<formId>/<name>"
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_.-]+)*$/;
+
+const createLocalStorage = ({ directory = STORAGE_DIR } = {}) => {
+  const pathOf = (key) => {
+    if (!KEY_PATTERN.test(key) || key.split('/').includes('..')) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return path.join(directory, ...key.split('/'));
+  };
+
+  return {
+    putObject: async (key, stream) => {
+      const file = pathOf(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await pipeline(stream, fs.createWriteStream(file));
+    },
+    getObject: async (key) => fs.createReadStream(pathOf(key)),
+    deleteObject: async (key) => {
+      await fs.promises.rm(pathOf(key), { force: true });
+    }
+  };
+};
+
+const drivers = {
+  local: createLocalStorage
+};
+
+const registerStorageDriver = (name, createDriver) => {
+  drivers[name] = createDriver;
+};
+
+let storage = null;
+
+// The storage driver chosen by FILE_STORAGE, created on first use
+const getStorage = () => {
+  if (!storage) {
+    const name = process.env.FILE_STORAGE || 'local';
+    if (!drivers[name]) {
+      throw new Error(`Unknown file storage driver ${name}`);
+    }
+    storage = drivers[name]();
+  }
+  return storage;
+};
+
+module.exports = {
+  KEY_PATTERN,
+  createLocalStorage,
+  registerStorageDriver,
+  getStorage
+};
@@ -0,0 +1,180 @@
+// File questions. Respondents upload each file on its own as soon as they pick
+// it (POST /api/uploads/forms/:formId/questions/:questionId) and send the token
+// they get back as the question's answer. Submitting the response attaches the
+// upload to it and keeps the file's name as the answer. Files are checked
+// against the question's size and type limits and by the virus scanner
+// (utils/virusScan) before they are kept in file storage (utils/fileStorage).
+//
+// Workspace members download files through signed links, which work without
+// logging in until they expire: after an hour in the dashboard and after
+// FILE_LINK_DAYS in exports.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const Upload = require('../models/Upload');
+const { getStorage } = require('./fileStorage');
+const { createRandomToken, hashToken, createSignedToken, readSignedToken } = require('./tokens');
+
+const MB = 1024 * 1024;
+// No question may allow more than this; questions that set nothing allow the default
+const MAX_FILE_SIZE_MB = parseInt(process.env.MAX_UPLOAD_SIZE_MB, 10) || 25;
+const DEFAULT_FILE_SIZE_MB = Math.min(10, MAX_FILE_SIZE_MB);
+const MAX_FILE_NAME_LENGTH = 200;
+// A MIME type, or a group of them such as image/*
+const FILE_TYPE_PATTERN = /^[a-z0-9][a-z0-9.+-]*\/(\*|[a-z0-9][a-z0-9.+-]*)$/;
+const UPLOAD_TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+const LINK_TTL_MS = 60 * 60 * 1000;
+const EXPORT_LINK_TTL_MS = (parseInt(process.env.FILE_LINK_DAYS, 10) || 7) * 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const getLinkSecret = () => process.env.FILE_LINK_SECRET || process.env.JWT_SECRET;
+
+// Whether a question accepts files of `mimeType`; no allowed types means any
+const matchesFileType = (mimeType, allowedTypes = []) => {
+  if (allowedTypes.length === 0) return true;
+  const type = String(mimeType).toLowerCase();
+  return allowedTypes.some(allowed => (allowed.endsWith('/*')
+    ? type.startsWith(allowed.slice(0, -1))
+    : type === allowed));
+};
+
+// Multer reads file names as Latin-1 while browsers send UTF-8. Long names
+// keep their end, with the extension.
+const cleanFileName = (originalName) => {
+  const name = Buffer.from(originalName, 'latin1').toString('utf8')
+    .replace(/[\\/\u0000-\u001f\u007f]/g, '_')
+    .trim();
+  return (name || 'file').slice(-MAX_FILE_NAME_LENGTH);
+};
+
+// Keeps a file multer saved to a temporary path as an upload to `question`.
+// Returns the upload and the token to answer the question with.
+const storeUpload = async (form, question, file, expiresAt) => {
+  const token = createRandomToken();
+  const storageKey = `forms/${form._id}/${crypto.randomBytes(16).toString('hex')}`;
+  const storage = getStorage();
+  await storage.putObject(storageKey, fs.createReadStream(file.path), { contentType: file.mimetype });
+
+  try {
+    const upload = await Upload.create({
+      form: form._id,
+      questionId: question._id,
+      tokenHash: hashToken(token),
+      storageKey,
+      name: cleanFileName(file.originalname),
+      size: file.size,
+      mimeType: file.mimetype,
+      expiresAt
+    });
+    return { upload, token };
+  } catch (error) {
+    await storage.deleteObject(storageKey);
+    throw error;
+  }
+};
+
+// Replaces the tokens answering file questions in `answers` with the names
+// of their files. Returns { uploads } to attach once the response is saved,
+// or { error } when a file is unknown or already belongs to a response.
+const resolveFileAnswers = async (form, answers) => {
+  const uploads = [];
+  for (const answer of answers) {
+    if (answer.questionType !== 'file') continue;
+
+    const upload = await Upload.findOne({
+      form: form._id,
+      questionId: answer.questionId,
+      tokenHash: hashToken(answer.answer),
+      response: null
+    });
+    if (!upload) {
+      return { error: `The file for question "${answer.questionText}" is no longer available. Please upload it again.` };
+    }
+    answer.answer = upload.name;
+    uploads.push(upload);
+  }
+  return { uploads };
+};
+
+const attachUploads = (uploads, response) => Upload.updateMany(
+  { _id: { $in: uploads.map(upload => upload._id) } },
+  { $set: { response: response._id }, $unset: { expiresAt: 1 } }
+);
+
+// Deletes the uploads matching `filter` together with their files
+const removeUploads = async (filter) => {
+  const uploads = await Upload.find(filter).select('storageKey');
+  const storage = getStorage();
+  for (const upload of uploads) {
+    await storage.deleteObject(upload.storageKey);
+  }
+  await Upload.deleteMany({ _id: { $in: uploads.map(upload => upload._id) } });
+};
+
+// A signed link downloading `upload`, valid for `ttl` milliseconds
+const createFileLink = (req, upload, ttl = LINK_TTL_MS) => {
+  const expiresAt = new Date(Date.now() + ttl);
+  const token = createSignedToken(`${upload._id}.${expiresAt.getTime()}`, getLinkSecret());
+  return {
+    url: `${req.protocol}://${req.get('host')}/api/uploads/files/${token}`,
+    expiresAt
+  };
+};
+
+// The id of the upload a download link is for, or null if the link was
+// tampered with or has expired
+const readFileLink = (token) => {
+  const value = readSignedToken(token, getLinkSecret());
+  if (!value) return null;
+  const [uploadId, expires] = value.split('.');
+  return Number(expires) > Date.now() ? uploadId : null;
+};
+
+// Aggregation stage adding each response's attached `uploads`, for exports
+const uploadsLookup = () => ({
+  $lookup: {
+    from: Upload.collection.name,
+    localField: '_id',
+    foreignField: 'response',
+    as: 'uploads'
+  }
+});
+
+// Deletes uploads never attached to a response once they expire
+const removeExpiredUploads = () => removeUploads({ response: null, expiresAt: { $lte: new Date() } });
+
+const startUploadCleanupWorker = () => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await removeExpiredUploads();
+    } catch (error) {
+      console.error('Upload cleanup worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, CLEANUP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  MB,
+  MAX_FILE_SIZE_MB,
+  DEFAULT_FILE_SIZE_MB,
+  FILE_TYPE_PATTERN,
+  UPLOAD_TOKEN_PATTERN,
+  EXPORT_LINK_TTL_MS,
+  matchesFileType,
+  storeUpload,
+  resolveFileAnswers,
+  attachUploads,
+  removeUploads,
+  createFileLink,
+  readFileLink,
+  uploadsLookup,
+  startUploadCleanupWorker
+};
@@ -0,0 +1,67 @@
+// Form lifecycle. A form's stored `status` is draft, open, closed or archived;
+// together with its `opensAt`/`closesAt` schedule that gives the state the
+// public sees:
+//
+//   draft      being written; not public and not versioned yet
+//   scheduled  open, but `opensAt` is still in the future
+//   open       accepting responses
+//   closed     closed by hand, at `closesAt` or after `settings.maxResponses`
+//   archived   hidden from the public; results stay available
+
+const { trimmed } = require('../openapi/helpers');
+
+const FORM_STATUSES = ['draft', 'open', 'closed', 'archived'];
+const MAX_CLOSED_MESSAGE_LENGTH = 1000;
+
+// Forms created before lifecycle states only have `isActive`
+const getFormStatus = (form) => form.status || (form.isActive === false ? 'closed' : 'open');
+
+const getFormState = (form, now = new Date()) => {
+  const status = getFormStatus(form);
+  if (status !== 'open') return status;
+  if (form.opensAt && form.opensAt > now) return 'scheduled';
+  if (form.closesAt && form.closesAt <= now) return 'closed';
+  return 'open';
+};
+
+// Whether the public can see the form at all (possibly only its closed message)
+const isPublicState = (state) => state !== 'draft' && state !== 'archived';
+
+// What respondents are told when a form is not accepting responses
+const getClosedMessage = (form, state) => {
+  if (state === 'scheduled') return 'This form is not open yet';
+  return form.settings.closedMessage || 'This form is no longer accepting responses';
+};
+
+const SCHEDULE_TIME = { type: ['string', 'null'], format: 'date-time', 'x-to-date': true };
+
+// Request schema properties for the lifecycle fields of a form body, and of
+// its settings
+const lifecycleProperties = {
+  status: { enum: FORM_STATUSES },
+  opensAt: SCHEDULE_TIME,
+  closesAt: SCHEDULE_TIME
+};
+const lifecycleSettingsProperties = {
+  maxResponses: { type: ['integer', 'null'], minimum: 1 },
+  closedMessage: trimmed(MAX_CLOSED_MESSAGE_LENGTH)
+};
+
+// Returns an error message if the schedule is inconsistent
+const validateSchedule = (opensAt, closesAt) => {
+  if (opensAt && closesAt && closesAt <= opensAt) {
+    return 'The closing time must be after the opening time';
+  }
+  return null;
+};
+
+module.exports = {
+  FORM_STATUSES,
+  getFormStatus,
+  getFormState,
+  isPublicState,
+  getClosedMessage,
+  lifecycleProperties,
+  lifecycleSettingsProperties,
+  validateSchedule
+};
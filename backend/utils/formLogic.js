@@ -0,0 +1,168 @@
+// Conditional logic for forms.
+//
+// Questions may carry show/hide `logic` (conditions on earlier answers) and,
+// for single-choice questions, `branches` that jump past the following
+// questions once an option is picked. A branch targets a later question, a
+// later section (its first question) or the end of the form. The same rules are evaluated by
+// PublicForm.tsx while the form is filled in; keep both in sync.
+
+const mongoose = require('mongoose');
+
+const CONDITION_OPERATORS = [
+  'equals',
+  'not-equals',
+  'contains',
+  'not-contains',
+  'greater-than',
+  'less-than',
+  'answered',
+  'not-answered'
+];
+const BRANCHING_TYPES = ['multiple-choice', 'dropdown'];
+const END_OF_FORM = 'end';
+
+const idOf = (question) => question._id.toString();
+
+const hasAnswer = (value) =>
+  value !== undefined && value !== null && value !== '' &&
+  !(Array.isArray(value) && value.length === 0);
+
+const matchesCondition = (condition, value) => {
+  const expected = condition.value === undefined || condition.value === null
+    ? ''
+    : String(condition.value);
+  const values = Array.isArray(value) ? value.map(String) : [String(value)];
+
+  switch (condition.operator) {
+    case 'answered':
+      return hasAnswer(value);
+    case 'not-answered':
+      return !hasAnswer(value);
+    case 'equals':
+      return hasAnswer(value) && values.includes(expected);
+    case 'not-equals':
+      return !hasAnswer(value) || !values.includes(expected);
+    case 'contains':
+      return hasAnswer(value) &&
+        values.some(item => item.toLowerCase().includes(expected.toLowerCase()));
+    case 'not-contains':
+      return !hasAnswer(value) ||
+        !values.some(item => item.toLowerCase().includes(expected.toLowerCase()));
+    case 'greater-than':
+      return hasAnswer(value) && Number(value) > Number(expected);
+    case 'less-than':
+      return hasAnswer(value) && Number(value) < Number(expected);
+    default:
+      return false;
+  }
+};
+
+const conditionsMet = (logic, answers) => {
+  if (!logic || !logic.conditions || logic.conditions.length === 0) return true;
+  const results = logic.conditions.map(condition =>
+    matchesCondition(condition, answers[condition.questionId.toString()])
+  );
+  return logic.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+};
+
+// Returns the ids of the questions a respondent is shown, given their
+// answers keyed by question id. Answers to questions that end up hidden
+// are ignored when evaluating later rules.
+const getVisibleQuestionIds = (questions, answers) => {
+  const visible = new Set();
+  const visibleAnswers = {};
+  let jumpTarget = null;
+
+  for (const question of questions) {
+    const id = idOf(question);
+
+    if (jumpTarget) {
+      const section = question.section ? question.section.toString() : null;
+      if (jumpTarget !== id && jumpTarget !== section) continue;
+      jumpTarget = null;
+    }
+
+    if (!conditionsMet(question.logic, visibleAnswers)) continue;
+
+    visible.add(id);
+    visibleAnswers[id] = answers[id];
+
+    const branch = (question.branches || []).find(b => b.option === answers[id]);
+    if (branch && branch.goTo) {
+      jumpTarget = branch.goTo.toString();
+    }
+  }
+
+  return visible;
+};
+
+// Validates logic and branch definitions against the (already prepared)
+// question list and returns an error message for the first problem found.
+const validateLogic = (questions, sections = []) => {
+  const positions = new Map();
+  questions.forEach((question, index) => {
+    if (!question._id) {
+      question._id = new mongoose.Types.ObjectId().toString();
+    }
+    positions.set(question._id.toString(), index);
+  });
+
+  if (positions.size !== questions.length) {
+    return 'Each question must have a unique id';
+  }
+
+  // Jumping to a section lands on its first question
+  const jumpPositions = new Map(positions);
+  for (const section of sections) {
+    const first = questions.findIndex(question =>
+      question.section && question.section.toString() === section._id.toString()
+    );
+    if (first !== -1) {
+      jumpPositions.set(section._id.toString(), first);
+    }
+  }
+
+  for (let i = 0; i < questions.length; i++) {
+    const question = questions[i];
+
+    if (!mongoose.Types.ObjectId.isValid(question._id)) {
+      return `Question "${question.text}" has an invalid id`;
+    }
+
+    const conditions = (question.logic && question.logic.conditions) || [];
+    for (const condition of conditions) {
+      const position = positions.get(String(condition.questionId));
+      if (position === undefined || position >= i) {
+        return `Question "${question.text}" can only depend on earlier questions`;
+      }
+      if (!CONDITION_OPERATORS.includes(condition.operator)) {
+        return `Question "${question.text}" has an unsupported condition`;
+      }
+    }
+
+    // A branch without a target just continues with the next question
+    const branches = (question.branches || []).filter(branch => branch.goTo);
+    question.branches = branches;
+    if (branches.length > 0 && !BRANCHING_TYPES.includes(question.type)) {
+      return `Question "${question.text}" does not support branching`;
+    }
+    for (const branch of branches) {
+      if (!question.options.includes(branch.option)) {
+        return `Question "${question.text}" branches on an unknown option`;
+      }
+      const target = jumpPositions.get(String(branch.goTo));
+      if (branch.goTo !== END_OF_FORM && (target === undefined || target <= i)) {
+        return `Question "${question.text}" can only jump to a later question or section`;
+      }
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  CONDITION_OPERATORS,
+  END_OF_FORM,
+  getVisibleQuestionIds,
+  validateLogic
+};
@@ -0,0 +1,33 @@
+// Deleting forms takes everything that belongs to them with them: responses
+// and their uploaded files, versions, campaigns with their recipients, and
+// webhooks with their delivery logs. Used when a form is deleted and when an
+// account is deleted with its workspaces.
+
+const Campaign = require('../models/Campaign');
+const CampaignRecipient = require('../models/CampaignRecipient');
+const Form = require('../models/Form');
+const FormVersion = require('../models/FormVersion');
+const Response = require('../models/Response');
+const Webhook = require('../models/Webhook');
+const WebhookDelivery = require('../models/WebhookDelivery');
+const { removeUploads } = require('./fileUploads');
+
+// Deletes the forms matching `filter` with everything that belongs to them
+const removeForms = async (filter) => {
+  const formIds = (await Form.find(filter).select('_id')).map(form => form._id);
+  if (formIds.length === 0) return;
+
+  const webhookIds = (await Webhook.find({ form: { $in: formIds } }).select('_id')).map(webhook => webhook._id);
+  await WebhookDelivery.deleteMany({ webhook: { $in: webhookIds } });
+  await Webhook.deleteMany({ _id: { $in: webhookIds } });
+  await removeUploads({ form: { $in: formIds } });
+  await Response.deleteMany({ form: { $in: formIds } });
+  await FormVersion.deleteMany({ form: { $in: formIds } });
+  await Campaign.deleteMany({ form: { $in: formIds } });
+  await CampaignRecipient.deleteMany({ form: { $in: formIds } });
+  await Form.deleteMany({ _id: { $in: formIds } });
+};
+
+module.exports = {
+  removeForms
+};
@@ -0,0 +1,64 @@
+// Closes forms automatically: when their closing time passes (checked by a
+// background worker) and when they reach their maximum number of responses.
+// Each closure sends the form.closed webhook event exactly once.
+
+const Form = require('../models/Form');
+const { formData } = require('./webhooks');
+const { dispatchEvent } = require('./webhookDelivery');
+
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Sends form.closed with the reason: manual, schedule or max-responses
+const formClosed = (form, reason) => {
+  dispatchEvent(form._id, 'form.closed', { form: formData(form), reason });
+};
+
+// Closes an open form unless someone else already did. Returns whether
+// this call closed it.
+const closeForm = async (form, reason) => {
+  const closed = await Form.findOneAndUpdate(
+    { _id: form._id, status: 'open' },
+    { $set: { status: 'closed' } },
+    { new: true }
+  );
+  if (!closed) return false;
+
+  formClosed(closed, reason);
+  return true;
+};
+
+// Closes every open form whose closing time has passed
+const closeExpiredForms = async () => {
+  for (;;) {
+    const form = await Form.findOneAndUpdate(
+      { status: 'open', closesAt: { $lte: new Date() } },
+      { $set: { status: 'closed' } },
+      { new: true }
+    );
+    if (!form) return;
+    formClosed(form, 'schedule');
+  }
+};
+
+const startScheduleWorker = () => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await closeExpiredForms();
+    } catch (error) {
+      console.error('Schedule worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULE_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  formClosed,
+  closeForm,
+  startScheduleWorker
+};
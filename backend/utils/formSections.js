@@ -0,0 +1,68 @@
+// Sections split a form into pages. Questions reference their section by id;
+// a form without sections is shown as a single page.
+
+const mongoose = require('mongoose');
+
+// Normalises sections in place and sorts `questions` so that each section's
+// questions are contiguous and follow the section order. Returns an error
+// message if a question points at an unknown section.
+const prepareSections = (sections, questions) => {
+  for (const section of sections) {
+    if (!section._id) {
+      section._id = new mongoose.Types.ObjectId().toString();
+    }
+    if (!mongoose.Types.ObjectId.isValid(section._id)) {
+      return `Section "${section.title}" has an invalid id`;
+    }
+  }
+
+  const positions = new Map(sections.map((section, index) => [section._id.toString(), index]));
+  if (positions.size !== sections.length) {
+    return 'Each section must have a unique id';
+  }
+
+  if (sections.length === 0) {
+    for (const question of questions) {
+      question.section = undefined;
+    }
+    return null;
+  }
+
+  for (const question of questions) {
+    // Questions without a section go on the first page
+    if (!question.section) {
+      question.section = sections[0]._id;
+    }
+    if (!positions.has(question.section.toString())) {
+      return `Question "${question.text}" belongs to an unknown section`;
+    }
+  }
+
+  const sectionIndex = (question) => positions.get(question.section.toString());
+  const sorted = questions
+    .map((question, index) => ({ question, index }))
+    .sort((a, b) => sectionIndex(a.question) - sectionIndex(b.question) || a.index - b.index)
+    .map(({ question }) => question);
+  questions.splice(0, questions.length, ...sorted);
+
+  return null;
+};
+
+// Groups questions by section for summaries and exports.
+const groupBySection = (sections, questions) => {
+  if (!sections || sections.length === 0) {
+    return [{ sectionId: null, title: null, questions }];
+  }
+  return sections.map(section => ({
+    sectionId: section._id,
+    title: section.title,
+    questions: questions.filter(question =>
+      question.section && question.section.toString() === section._id.toString()
+    )
+  }));
+};
+
+module.exports = {
+  prepareSections,
+  groupBySection
+};
@@ -0,0 +1,106 @@
+// Published versions of a form. Saving a form whose questions or sections
+// changed publishes the next version, and each response records the version
+// it answered. Results can be reported for a single version or for all
+// versions merged, where answers are matched to questions by question id.
+
+const FormVersion = require('../models/FormVersion');
+
+// Section that merged results put removed questions in when the form has pages
+const RETIRED_SECTION = { _id: 'retired', title: 'Removed questions' };
+
+// Copy of a JSON value with object keys in sorted order
+const sortKeys = (value) => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((sorted, key) => {
+      sorted[key] = sortKeys(value[key]);
+      return sorted;
+    }, {});
+  }
+  return value;
+};
+
+// Serialised questions and sections, for telling whether an edit changes them
+const structureKey = (form) => JSON.stringify(sortKeys(
+  JSON.parse(JSON.stringify({ sections: form.sections, questions: form.questions }))
+));
+
+// Stores the snapshot of the form's current version unless it already
+// exists. Forms created before versioning get theirs on their first edit.
+const recordVersion = (form, publishedBy) => FormVersion.updateOne(
+  { form: form._id, version: form.version },
+  {
+    $setOnInsert: {
+      title: form.title,
+      description: form.description,
+      sections: form.sections.map(section => section.toObject()),
+      questions: form.questions.map(question => question.toObject()),
+      publishedBy
+    }
+  },
+  { upsert: true }
+);
+
+// Response condition for answers given to `version`
+const versionCondition = (version) => version === 1 ? { $in: [1, null] } : version;
+
+// Resolves the `version` query parameter to the questions and sections to
+// report on. For a version, `form` holds that version's questions; without
+// one (`form.version` null) it holds the current questions followed by those
+// removed since, flagged `retired`. Returns { error } for an unknown version.
+const getResultsForm = async (form, value) => {
+  const view = { _id: form._id, title: form.title, hiddenFields: form.hiddenFields || [], version: null };
+
+  if (value !== undefined && value !== '') {
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 1) {
+      return { error: 'Version must be a positive whole number' };
+    }
+    if (version === form.version) {
+      return { form: { ...view, version, sections: form.sections, questions: form.questions } };
+    }
+
+    const snapshot = await FormVersion.findOne({ form: form._id, version }).lean();
+    if (!snapshot) {
+      return { error: `Version ${version} of this form does not exist` };
+    }
+    return { form: { ...view, version, sections: snapshot.sections, questions: snapshot.questions } };
+  }
+
+  const older = await FormVersion.find({ form: form._id, version: { $lt: form.version } })
+    .sort({ version: -1 })
+    .select('questions')
+    .lean();
+
+  const seen = new Set(form.questions.map(question => question._id.toString()));
+  const retired = [];
+  for (const snapshot of older) {
+    for (const question of snapshot.questions) {
+      const id = question._id.toString();
+      if (seen.has(id)) continue;
+      seen.add(id);
+      retired.push({
+        ...question,
+        section: form.sections.length > 0 ? RETIRED_SECTION._id : undefined,
+        retired: true
+      });
+    }
+  }
+
+  return {
+    form: {
+      ...view,
+      sections: retired.length > 0 && form.sections.length > 0
+        ? [...form.sections, RETIRED_SECTION]
+        : form.sections,
+      questions: [...form.questions, ...retired]
+    }
+  };
+};
+
+module.exports = {
+  structureKey,
+  recordVersion,
+  versionCondition,
+  getResultsForm
+};
@@ -0,0 +1,72 @@
+// Hidden fields are values a public form captures from its URL instead of
+// asking for them, e.g. /form/<publicUrl>?customer_id=42&utm_source=mail.
+// Forms list the names they accept in `hiddenFields`; submitted values for
+// other names are dropped. Campaign recipients' custom fields with the same
+// names fill them in for invitees.
+//
+// Visible questions can be prefilled from the URL too, with
+// q_<questionId>=<value>, so that prefix is not allowed as a field name.
+
+const MAX_HIDDEN_FIELDS = 20;
+const MAX_VALUE_LENGTH = 500;
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,49}$/;
+// Query parameters the public form uses itself
+const RESERVED_NAMES = ['invite', 'embed', 'resume'];
+const PREFILL_PREFIX = 'q_';
+
+// Schema patterns have no flags, so letters are matched in either case
+const anyCase = (text) => text.replace(/[a-z]/gi, letter => `[${letter.toLowerCase()}${letter.toUpperCase()}]`);
+const RESERVED_PATTERN = `^(${RESERVED_NAMES.map(anyCase).join('|')})$|^${anyCase(PREFILL_PREFIX)}`;
+
+// Request schema for a form's `hiddenFields` names
+const hiddenFieldsSchema = {
+  type: 'array',
+  maxItems: MAX_HIDDEN_FIELDS,
+  uniqueItems: true,
+  items: {
+    type: 'string',
+    'x-trim': true,
+    pattern: NAME_PATTERN.source,
+    not: { pattern: RESERVED_PATTERN },
+    'x-error-message': {
+      pattern: 'Hidden field names must start with a letter and use only letters, numbers, - and _ (up to 50)',
+      not: `${RESERVED_NAMES.map(name => `"${name}"`).join(', ')} and names starting with "${PREFILL_PREFIX}" are reserved`
+    }
+  },
+  'x-error-message': {
+    maxItems: `A form can have up to ${MAX_HIDDEN_FIELDS} hidden fields`,
+    uniqueItems: 'Hidden field names must be unique'
+  }
+};
+
+// Request schema for submitted hidden field values, by name
+const hiddenFieldValuesSchema = { type: 'object', additionalProperties: { type: 'string' } };
+
+// The submitted values for the form's hidden fields, as strings; `defaults`
+// (e.g. a campaign recipient's custom fields) win over `values` from the URL.
+// Returns undefined when there are none.
+const pickHiddenFields = (form, values, defaults) => {
+  const picked = {};
+
+  for (const name of form.hiddenFields || []) {
+    let value = defaults?.get ? defaults.get(name) : defaults?.[name];
+    if (value === undefined || value === null || value === '') {
+      value = values && typeof values === 'object' ? values[name] : undefined;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      value = String(value);
+    }
+    if (typeof value !== 'string' || value.trim() === '') continue;
+    picked[name] = value.trim().slice(0, MAX_VALUE_LENGTH);
+  }
+
+  return Object.keys(picked).length > 0 ? picked : undefined;
+};
+
+module.exports = {
+  MAX_HIDDEN_FIELDS,
+  PREFILL_PREFIX,
+  hiddenFieldsSchema,
+  hiddenFieldValuesSchema,
+  pickHiddenFields
+};
@@ -0,0 +1,43 @@
+// Brute-force protection for logins. Wrong passwords and wrong two-factor
+// codes both count; after MAX_FAILED_LOGINS in a row for an email address
+// from one IP address, that address pair is locked for LOGIN_LOCKOUT_MINUTES,
+// even for the right password. Failures are counted whether or not an
+// account uses the email, so a lock does not reveal that it does, and the
+// owner can still log in from their own network.
+
+const LoginAttempt = require('../models/LoginAttempt');
+
+const MAX_FAILED_LOGINS = parseInt(process.env.MAX_FAILED_LOGINS, 10) || 5;
+const LOCKOUT_MS = (parseInt(process.env.LOGIN_LOCKOUT_MINUTES, 10) || 15) * 60 * 1000;
+
+// The message for a locked email address and IP, or null when not locked
+const getLockMessage = async (email, ip) => {
+  const attempt = await LoginAttempt.findOne({ email, ip, lockedUntil: { $gt: new Date() } });
+  if (!attempt) return null;
+  const minutes = Math.ceil((attempt.lockedUntil - Date.now()) / 60000);
+  return `Too many failed login attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+const recordFailedLogin = async (email, ip) => {
+  const expiresAt = new Date(Date.now() + LOCKOUT_MS);
+  const attempt = await LoginAttempt.findOneAndUpdate(
+    { email, ip },
+    { $inc: { failures: 1 }, $set: { expiresAt } },
+    { upsert: true, new: true }
+  );
+  if (attempt.failures >= MAX_FAILED_LOGINS) {
+    await LoginAttempt.updateOne({ _id: attempt._id }, { failures: 0, lockedUntil: expiresAt });
+  }
+};
+
+const recordSuccessfulLogin = (email, ip) => LoginAttempt.deleteOne({ email, ip });
+
+// Lifts every lock on an email address, e.g. once its password was reset
+const clearFailedLogins = (email) => LoginAttempt.deleteMany({ email });
+
+module.exports = {
+  getLockMessage,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  clearFailedLogins
+};
@@ -0,0 +1,73 @@
+// Outgoing email. The transport is chosen with MAIL_TRANSPORT:
+//
+//   smtp - delivers through SMTP_HOST/SMTP_PORT (SMTP_USER/SMTP_PASS optional)
+//   file - writes each message as an .eml file to MAIL_DIR, for development
+//          and tests; open the files in any mail client or text editor
+//
+// Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set and the file sink
+// otherwise. Other transports can be added with registerTransport().
+
+const fs = require('fs');
+const path = require('path');
+const nodemailer = require('nodemailer');
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Feedback Platform <no-reply@localhost>';
+const MAIL_DIR = path.resolve(process.env.MAIL_DIR || './mail');
+
+const transports = {
+  smtp: () => nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT, 10) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  }),
+  file: () => {
+    const stream = nodemailer.createTransport({ streamTransport: true, buffer: true });
+    return {
+      sendMail: async (message) => {
+        const info = await stream.sendMail(message);
+        const id = info.messageId.replace(/[<>]/g, '').replace(/[^\w.-]/g, '_');
+        fs.mkdirSync(MAIL_DIR, { recursive: true });
+        await fs.promises.writeFile(path.join(MAIL_DIR, `${Date.now()}-${id}.eml`), info.message);
+        return info;
+      }
+    };
+  }
+};
+
+let transport = null;
+
+const registerTransport = (name, factory) => {
+  transports[name] = factory;
+  transport = null;
+};
+
+const getTransport = () => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file');
+    if (!transports[name]) {
+      throw new Error(`Unknown mail transport "${name}"`);
+    }
+    transport = transports[name]();
+  }
+  return transport;
+};
+
+// Sends a message ({ to, subject, text, html, replyTo }) from MAIL_FROM
+const sendMail = (message) => getTransport().sendMail({ from: MAIL_FROM, ...message });
+
+// For user-provided text in HTML bodies
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+module.exports = {
+  MAIL_DIR,
+  registerTransport,
+  sendMail,
+  escapeHtml
+};
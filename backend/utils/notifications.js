@@ -0,0 +1,224 @@
+// Email notifications for form owners (instant or daily/weekly digests) and
+// confirmation receipts for respondents. Mail goes through utils/mailer.
+
+const { object } = require('../openapi/helpers');
+const Form = require('../models/Form');
+const Response = require('../models/Response');
+const User = require('../models/User');
+const { sendMail, escapeHtml } = require('./mailer');
+const { buildSummary } = require('./summary');
+
+const NOTIFICATION_MODES = ['off', 'instant', 'daily', 'weekly'];
+const MAX_RECIPIENTS = 10;
+
+const DIGEST_PERIODS = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Links in emails point at the dashboard
+const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+// Request schema for a form's notification settings
+const notificationSettingsSchema = object({
+  mode: { enum: NOTIFICATION_MODES },
+  recipients: {
+    type: 'array',
+    maxItems: MAX_RECIPIENTS,
+    items: { type: 'string', 'x-trim': true, format: 'email', 'x-normalize-email': true },
+    description: "Email addresses of members of the form's workspace; empty means the form's creator"
+  },
+  sendReceipts: { type: 'boolean' }
+});
+
+const formatAnswer = (answer) => Array.isArray(answer) ? answer.join(', ') : String(answer);
+
+const responsesUrl = (form) => `${APP_URL}/forms/${form._id}/responses`;
+
+// Plain text and HTML versions of a list of question/answer pairs
+const renderAnswers = (answers) => ({
+  text: answers.map(a => `${a.questionText}\n  ${formatAnswer(a.answer)}`).join('\n\n'),
+  html: answers.map(a =>
+    `<p><strong>${escapeHtml(a.questionText)}</strong><br>${escapeHtml(formatAnswer(a.answer))}</p>`
+  ).join('')
+});
+
+// Notification emails carry every answer, so recipients must be members of
+// the form's workspace. Returns an error message, or null when they all are.
+const checkRecipients = async (workspace, recipients = []) => {
+  if (recipients.length === 0) return null;
+  const members = await User.find({ _id: { $in: workspace.members.map(member => member.user) } }).select('email');
+  const memberEmails = new Set(members.map(member => member.email));
+  const outsider = recipients.find(email => !memberEmails.has(email));
+  return outsider ? `Notifications can only be sent to members of this workspace, not ${outsider}` : null;
+};
+
+// Explicit recipients, or the form's creator when none are configured
+const getRecipients = async (form) => {
+  const { recipients } = form.settings.notifications || {};
+  if (recipients && recipients.length > 0) {
+    return recipients;
+  }
+  const creator = await User.findById(form.creator).select('email');
+  return creator ? [creator.email] : [];
+};
+
+const sendResponseNotification = async (form, response) => {
+  const recipients = await getRecipients(form);
+  if (recipients.length === 0) return;
+
+  const from = response.submitterName || response.submitterEmail || 'Anonymous';
+  const answers = renderAnswers(response.answers);
+
+  await sendMail({
+    to: recipients,
+    replyTo: response.submitterEmail,
+    subject: `New response to "${form.title}"`,
+    text: `${from} responded to "${form.title}".\n\n${answers.text}\n\nView all responses: ${responsesUrl(form)}\n`,
+    html: `<p>${escapeHtml(from)} responded to <strong>${escapeHtml(form.title)}</strong>.</p>` +
+      `${answers.html}<p><a href="${responsesUrl(form)}">View all responses</a></p>`
+  });
+};
+
+const sendReceipt = async (form, response) => {
+  const answers = renderAnswers(response.answers);
+
+  await sendMail({
+    to: response.submitterEmail,
+    subject: `Your response to "${form.title}"`,
+    text: `Thanks for your feedback. Here is a copy of your response to "${form.title}".\n\n${answers.text}\n`,
+    html: `<p>Thanks for your feedback. Here is a copy of your response to ` +
+      `<strong>${escapeHtml(form.title)}</strong>.</p>${answers.html}`
+  });
+};
+
+// Emails owners about a new response (instant mode) and sends the respondent
+// a receipt when enabled. Runs in the background; failures are only logged.
+const notifyResponse = (form, response) => {
+  const { mode, sendReceipts } = form.settings.notifications || {};
+
+  if (mode === 'instant') {
+    sendResponseNotification(form, response)
+      .catch(error => console.error('Response notification error:', error));
+  }
+  if (sendReceipts && response.submitterEmail) {
+    sendReceipt(form, response)
+      .catch(error => console.error('Response receipt error:', error));
+  }
+};
+
+// One line per question: answer count plus the stats or top answers
+const describeQuestion = (question) => {
+  const parts = [`${question.totalAnswers} answers`];
+  const { stats = {}, percentages = {}, words } = question;
+
+  if (stats.average != null) parts.push(`average ${stats.average}`);
+  if (stats.nps !== undefined) parts.push(`NPS ${stats.nps}`);
+
+  const top = Object.entries(percentages)
+    .filter(([, percentage]) => percentage > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([value, percentage]) => `${value} ${percentage}%`);
+  if (top.length > 0) parts.push(top.join(', '));
+
+  if (words && words.topWords.length > 0) {
+    parts.push(`common words: ${words.topWords.slice(0, 5).map(w => w.word).join(', ')}`);
+  }
+
+  return parts.join(' · ');
+};
+
+// Emails a summary of the responses received between `since` and `until`.
+// Nothing is sent for a period without responses.
+const sendDigest = async (form, since, until) => {
+  const summary = await buildSummary(form, {
+    form: form._id,
+    quarantined: { $ne: true },
+    partial: { $ne: true },
+    submittedAt: { $gte: since, $lt: until }
+  });
+  const count = summary.totalResponses;
+  if (count === 0) return false;
+
+  const recipients = await getRecipients(form);
+  if (recipients.length === 0) return false;
+
+  const totalResponses = await Response.countDocuments({ form: form._id, quarantined: { $ne: true }, partial: { $ne: true } });
+  const period = form.settings.notifications.mode === 'weekly' ? 'week' : 'day';
+  const headline = `${count} new ${count === 1 ? 'response' : 'responses'} ` +
+    `to "${form.title}" in the last ${period} (${totalResponses} in total).`;
+  const lines = summary.questions.map(question => ({
+    questionText: question.questionText,
+    description: describeQuestion(question)
+  }));
+
+  await sendMail({
+    to: recipients,
+    subject: `${form.title}: ${count} new ${count === 1 ? 'response' : 'responses'}`,
+    text: `${headline}\n\n` +
+      lines.map(line => `${line.questionText}\n  ${line.description}`).join('\n\n') +
+      `\n\nView all responses: ${responsesUrl(form)}\n`,
+    html: `<p>${escapeHtml(headline)}</p>` +
+      lines.map(line =>
+        `<p><strong>${escapeHtml(line.questionText)}</strong><br>${escapeHtml(line.description)}</p>`
+      ).join('') +
+      `<p><a href="${responsesUrl(form)}">View all responses</a></p>`
+  });
+  return true;
+};
+
+// Sends the digests that are due. Each form is claimed by moving its
+// digestSentAt forward before sending, so concurrent workers never send the
+// same digest twice. A form's first digest covers the preceding period.
+const sendDueDigests = async () => {
+  const now = new Date();
+
+  for (const [mode, period] of Object.entries(DIGEST_PERIODS)) {
+    const dueBefore = new Date(now.getTime() - period);
+
+    for (;;) {
+      const form = await Form.findOneAndUpdate(
+        {
+          'settings.notifications.mode': mode,
+          $or: [{ digestSentAt: { $lte: dueBefore } }, { digestSentAt: null }]
+        },
+        { $set: { digestSentAt: now } }
+      );
+      if (!form) break;
+
+      try {
+        await sendDigest(form, form.digestSentAt || dueBefore, now);
+      } catch (error) {
+        console.error('Digest error:', error);
+      }
+    }
+  }
+};
+
+const startDigestWorker = () => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sendDueDigests();
+    } catch (error) {
+      console.error('Digest worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, DIGEST_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  NOTIFICATION_MODES,
+  notificationSettingsSchema,
+  checkRecipients,
+  notifyResponse,
+  sendDigest,
+  startDigestWorker
+};
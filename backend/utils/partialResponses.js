@@ -0,0 +1,116 @@
+// Save and resume. Forms with `settings.saveProgress` store what a
+// respondent has filled in so far as a partial Response while they answer.
+// The browser keeps the resume token it gets back and can reopen the form
+// with it from any device (/form/<publicUrl>?resume=<token>) until it expires.
+//
+// Partials are left out of results, counts, exports, webhooks and
+// notifications. Submitting the form deletes its partial; the ones left are
+// abandoned and show where respondents dropped off in the summary.
+
+const Response = require('../models/Response');
+const { validateAnswer } = require('./questionTypes');
+const { getVisibleQuestionIds } = require('./formLogic');
+const { createRandomToken, hashToken } = require('./tokens');
+
+// Days a partial can be resumed before it is deleted
+const PARTIAL_RESPONSE_DAYS = parseInt(process.env.PARTIAL_RESPONSE_DAYS, 10) || 30;
+
+const partialExpiry = (now = Date.now()) => new Date(now + PARTIAL_RESPONSE_DAYS * 24 * 60 * 60 * 1000);
+
+// Returns a new resume token and its hash to store
+const createResumeToken = () => {
+  const token = createRandomToken();
+  return { token, tokenHash: hashToken(token) };
+};
+
+const findPartial = (form, token) => {
+  if (typeof token !== 'string' || !token) return null;
+  return Response.findOne({
+    form: form._id,
+    partial: true,
+    resumeTokenHash: hashToken(token),
+    // Expired partials may outlive their expiry until MongoDB removes them
+    resumeExpiresAt: { $gt: new Date() }
+  });
+};
+
+// What the resume link restores into the public form
+const resumeDetails = (partial) => ({
+  answers: partial.answers.map(({ questionId, answer }) => ({ questionId, answer })),
+  submitterEmail: partial.submitterEmail,
+  submitterName: partial.submitterName,
+  hiddenFields: partial.hiddenFields,
+  expiresAt: partial.resumeExpiresAt
+});
+
+// Keeps the answers that are valid so far, unlike a submission, which is
+// rejected as a whole: half-typed answers are simply not saved yet. Required
+// questions may still be blank. Returns the answers to store and the
+// question after the last one answered, where the respondent is (or
+// stopped), or null once they answered the last question they were shown.
+const collectPartialAnswers = (form, answers) => {
+  const values = {};
+  for (const question of form.questions) {
+    const submitted = answers.find(a => a.questionId.toString() === question._id.toString());
+    const result = validateAnswer(question, submitted ? submitted.answer : undefined);
+    if (!result.empty && !result.error) {
+      values[question._id.toString()] = result.value;
+    }
+  }
+
+  const visibleIds = getVisibleQuestionIds(form.questions, values);
+  const shown = form.questions.filter(question => visibleIds.has(question._id.toString()));
+  const partialAnswers = shown
+    .filter(question => values[question._id.toString()] !== undefined)
+    .map(question => ({
+      questionId: question._id,
+      questionText: question.text,
+      questionType: question.type,
+      answer: values[question._id.toString()]
+    }));
+
+  let lastAnswered = -1;
+  shown.forEach((question, index) => {
+    if (values[question._id.toString()] !== undefined) lastAnswered = index;
+  });
+  const next = shown[lastAnswered + 1];
+
+  return { answers: partialAnswers, dropOffQuestion: next ? next._id : null };
+};
+
+// Drop-off counts for a form's abandoned partials: how many stopped at each
+// question, and how many answered everything they were shown but never
+// submitted. `formVersion` is a condition from utils/formVersions, if any.
+const buildDropOff = async (form, formVersion) => {
+  const match = { form: form._id, partial: true };
+  if (formVersion !== undefined) match.formVersion = formVersion;
+
+  const rows = await Response.aggregate([
+    { $match: match },
+    { $group: { _id: '$dropOffQuestion', count: { $sum: 1 } } }
+  ]);
+
+  const counts = new Map(rows.map(row => [row._id ? row._id.toString() : null, row.count]));
+  const total = rows.reduce((sum, row) => sum + row.count, 0);
+
+  return {
+    totalPartials: total,
+    notSubmitted: counts.get(null) || 0,
+    questions: form.questions
+      .filter(question => counts.has(question._id.toString()))
+      .map(question => ({
+        questionId: question._id,
+        questionText: question.text,
+        count: counts.get(question._id.toString())
+      }))
+  };
+};
+
+module.exports = {
+  partialExpiry,
+  createResumeToken,
+  findPartial,
+  resumeDetails,
+  collectPartialAnswers,
+  buildDropOff
+};
@@ -0,0 +1,21 @@
+// Workspace roles and what each of them may do. Owners manage the workspace
+// and its members, editors build forms, analysts read forms and results and
+// triage responses (utils/triage).
+
+const ROLES = ['owner', 'editor', 'analyst'];
+
+const PERMISSIONS = {
+  'forms:read': ['owner', 'editor', 'analyst'],
+  'forms:write': ['owner', 'editor'],
+  'responses:read': ['owner', 'editor', 'analyst'],
+  'responses:triage': ['owner', 'editor', 'analyst'],
+  'workspace:manage': ['owner']
+};
+
+const can = (role, permission) => Boolean(role && PERMISSIONS[permission]?.includes(role));
+
+module.exports = {
+  ROLES,
+  PERMISSIONS,
+  can
+};
@@ -0,0 +1,259 @@
+// Question type registry.
+//
+// Each entry describes how a question type is configured, how a submitted
+// answer is validated/normalised and which aggregations the summary view runs
+// over its answers (`summary`, see utils/summary.js). Routes and models
+// should go through the helpers exported here instead of switching on
+// `question.type` themselves.
+
+const {
+  MAX_FILE_SIZE_MB,
+  DEFAULT_FILE_SIZE_MB,
+  FILE_TYPE_PATTERN,
+  UPLOAD_TOKEN_PATTERN
+} = require('./fileUploads');
+
+const EMAIL_PATTERN = /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isEmptyAnswer = (answer) =>
+  answer === undefined ||
+  answer === null ||
+  (typeof answer === 'string' && answer.trim() === '') ||
+  (Array.isArray(answer) && answer.length === 0);
+
+const toNumber = (answer) => {
+  if (typeof answer === 'number') return answer;
+  if (typeof answer === 'string' && answer.trim() !== '') return Number(answer);
+  return NaN;
+};
+
+const toOptionalNumber = (value) => {
+  const number = toNumber(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const requireOptions = (question) => {
+  if (!question.options || question.options.length < 2) {
+    return `Question "${question.text}" must have at least 2 options`;
+  }
+  if (new Set(question.options).size !== question.options.length) {
+    return `Question "${question.text}" has duplicate options`;
+  }
+  return null;
+};
+
+const textType = (maxLength) => ({
+  validateAnswer: (question, answer) => {
+    if (typeof answer !== 'string') return { error: 'Answer must be text' };
+    if (answer.length > maxLength) {
+      return { error: `Answer must be at most ${maxLength} characters` };
+    }
+    return { value: answer.trim() };
+  },
+  summary: ['words']
+});
+
+const singleChoiceType = {
+  validateDefinition: requireOptions,
+  validateAnswer: (question, answer) => {
+    if (!question.options.includes(answer)) return { error: 'Invalid option' };
+    return { value: answer };
+  },
+  summary: ['counts']
+};
+
+const scaleType = (defaults, limits) => ({
+  prepare: (question) => {
+    const scale = question.scale || {};
+    question.scale = {
+      ...scale,
+      min: toOptionalNumber(scale.min) ?? defaults.min,
+      max: toOptionalNumber(scale.max) ?? defaults.max
+    };
+  },
+  validateDefinition: (question) => {
+    const { min, max } = question.scale;
+    if (!Number.isInteger(min) || !Number.isInteger(max) ||
+        min < limits.min || max > limits.max || min >= max) {
+      return `Question "${question.text}" must have a scale between ${limits.min} and ${limits.max}`;
+    }
+    return null;
+  },
+  validateAnswer: (question, answer) => {
+    const value = toNumber(answer);
+    if (!Number.isInteger(value) || value < question.scale.min || value > question.scale.max) {
+      return { error: `Answer must be a whole number between ${question.scale.min} and ${question.scale.max}` };
+    }
+    return { value };
+  },
+  summary: ['counts', 'numeric']
+});
+
+const questionTypes = {
+  text: textType(5000),
+  'short-text': textType(500),
+  email: {
+    validateAnswer: (question, answer) => {
+      if (typeof answer !== 'string' || !EMAIL_PATTERN.test(answer.trim())) {
+        return { error: 'Answer must be a valid email address' };
+      }
+      return { value: answer.trim().toLowerCase() };
+    },
+    summary: []
+  },
+  'multiple-choice': singleChoiceType,
+  dropdown: singleChoiceType,
+  checkboxes: {
+    validateDefinition: requireOptions,
+    validateAnswer: (question, answer) => {
+      const selected = Array.isArray(answer) ? answer : [answer];
+      if (selected.some(option => !question.options.includes(option))) {
+        return { error: 'Invalid option' };
+      }
+      if (new Set(selected).size !== selected.length) {
+        return { error: 'Options may only be selected once' };
+      }
+      return { value: selected };
+    },
+    summary: ['counts']
+  },
+  'linear-scale': {
+    ...scaleType({ min: 1, max: 10 }, { min: 0, max: 10 }),
+    summary: ['counts', 'numeric'],
+    // A 0-10 scale is treated as a Net Promoter Score question
+    finishSummary: (question, summary, numeric) => {
+      if (question.scale.min === 0 && question.scale.max === 10 && numeric && summary.totalAnswers > 0) {
+        summary.stats.nps = Math.round(((numeric.promoters - numeric.detractors) / summary.totalAnswers) * 100);
+      }
+    }
+  },
+  rating: scaleType({ min: 1, max: 5 }, { min: 1, max: 10 }),
+  number: {
+    prepare: (question) => {
+      const { min, max } = question.limits || {};
+      question.limits = { min: toOptionalNumber(min), max: toOptionalNumber(max) };
+    },
+    validateDefinition: (question) => {
+      const { min, max } = question.limits;
+      if (min !== undefined && max !== undefined && min > max) {
+        return `Question "${question.text}" has a minimum greater than its maximum`;
+      }
+      return null;
+    },
+    validateAnswer: (question, answer) => {
+      const value = toNumber(answer);
+      if (!Number.isFinite(value)) return { error: 'Answer must be a number' };
+      const { min, max } = question.limits || {};
+      if (typeof min === 'number' && value < min) {
+        return { error: `Answer must be at least ${min}` };
+      }
+      if (typeof max === 'number' && value > max) {
+        return { error: `Answer must be at most ${max}` };
+      }
+      return { value };
+    },
+    summary: ['numeric']
+  },
+  date: {
+    validateAnswer: (question, answer) => {
+      if (typeof answer !== 'string' || !DATE_PATTERN.test(answer) ||
+          Number.isNaN(Date.parse(answer))) {
+        return { error: 'Answer must be a date in YYYY-MM-DD format' };
+      }
+      return { value: answer };
+    },
+    summary: ['counts', 'dates']
+  },
+  // Answered with the token of a file uploaded beforehand, which becomes the
+  // file's name once the response is submitted (see utils/fileUploads)
+  file: {
+    prepare: (question) => {
+      const { maxSizeMB, allowedTypes } = question.file || {};
+      question.file = {
+        maxSizeMB: toOptionalNumber(maxSizeMB) ?? DEFAULT_FILE_SIZE_MB,
+        allowedTypes: [...new Set((allowedTypes || [])
+          .map(type => String(type).trim().toLowerCase())
+          .filter(type => type !== ''))]
+      };
+    },
+    validateDefinition: (question) => {
+      const { maxSizeMB, allowedTypes } = question.file;
+      if (!(maxSizeMB > 0) || maxSizeMB > MAX_FILE_SIZE_MB) {
+        return `Question "${question.text}" must allow files of up to ${MAX_FILE_SIZE_MB}MB`;
+      }
+      const invalid = allowedTypes.find(type => !FILE_TYPE_PATTERN.test(type));
+      if (invalid) {
+        return `Question "${question.text}" has an invalid file type "${invalid}"`;
+      }
+      return null;
+    },
+    validateAnswer: (question, answer) => {
+      if (typeof answer !== 'string' || !UPLOAD_TOKEN_PATTERN.test(answer)) {
+        return { error: 'Answer must be an uploaded file' };
+      }
+      return { value: answer };
+    },
+    summary: []
+  }
+};
+
+const QUESTION_TYPES = Object.keys(questionTypes);
+const CHOICE_TYPES = ['multiple-choice', 'checkboxes', 'dropdown'];
+
+// Normalises question definitions in place (order, options, type defaults)
+// and returns an error message for the first invalid question, if any.
+const prepareQuestions = (questions) => {
+  for (let i = 0; i < questions.length; i++) {
+    const question = questions[i];
+    const type = questionTypes[question.type];
+
+    if (!type) {
+      return `Question "${question.text}" has an unsupported type`;
+    }
+
+    if (CHOICE_TYPES.includes(question.type)) {
+      question.options = (question.options || [])
+        .map(option => String(option).trim())
+        .filter(option => option !== '');
+    } else {
+      question.options = [];
+    }
+
+    if (type.prepare) type.prepare(question);
+
+    const error = type.validateDefinition ? type.validateDefinition(question) : null;
+    if (error) return error;
+
+    question.order = i + 1;
+  }
+  return null;
+};
+
+// Validates a submitted answer against its question. Returns `{ value }`
+// with the normalised answer, `{ empty: true }` for a blank answer, or
+// `{ error }` describing why the answer was rejected.
+const validateAnswer = (question, answer) => {
+  if (isEmptyAnswer(answer)) return { empty: true };
+  return questionTypes[question.type].validateAnswer(question, answer);
+};
+
+// Aggregations to run over a question's answers: 'counts' (per value),
+// 'numeric' (average/min/max), 'dates' (earliest/latest) and 'words' (text stats)
+const getSummaryKinds = (question) => questionTypes[question.type].summary;
+
+// Lets a type add derived statistics to its finished summary entry
+const finishSummary = (question, summary, numeric) => {
+  const { finishSummary: finish } = questionTypes[question.type];
+  if (finish) finish(question, summary, numeric);
+};
+
+module.exports = {
+  QUESTION_TYPES,
+  CHOICE_TYPES,
+  isEmptyAnswer,
+  prepareQuestions,
+  validateAnswer,
+  getSummaryKinds,
+  finishSummary
+};
@@ -0,0 +1,246 @@
+// Streams a form's responses to an HTTP response as CSV, XLSX, JSON or NDJSON.
+// Rows come straight from a database cursor, so exports of any size use a
+// constant amount of memory. Columns follow the form's question order (grouped
+// by section) and timestamps are shown in the requested time zone. Files
+// answering questions are given as signed download links.
+
+const ExcelJS = require('exceljs');
+const { groupBySection } = require('./formSections');
+
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx'
+  },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' }
+};
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const pad = (number) => String(Math.abs(number)).padStart(2, '0');
+
+// Returns functions formatting a date in `timeZone` for spreadsheets
+// ("2024-05-01 14:30:00") and as ISO 8601 with the zone's offset
+const createDateFormatters = (timeZone) => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  });
+
+  const toParts = (date) => {
+    const parts = {};
+    for (const { type, value } of formatter.formatToParts(date)) {
+      parts[type] = value;
+    }
+    return parts;
+  };
+
+  return {
+    toLocal: (date) => {
+      const p = toParts(date);
+      return `${p.year}-${p.month}-${p.day} ${p.hour}:${p.minute}:${p.second}`;
+    },
+    toIso: (date) => {
+      const p = toParts(date);
+      const localAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+      const offset = Math.round((localAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+      const sign = offset < 0 ? '-' : '+';
+      return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}:${p.second}` +
+        `${sign}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`;
+    }
+  };
+};
+
+// One column per question in form order, titled with its section when the
+// form has several pages. Questions removed from the form come last.
+const getQuestionColumns = (form) => {
+  const columns = [];
+  for (const group of groupBySection(form.sections, form.questions)) {
+    for (const question of group.questions) {
+      let title = question.text;
+      if (group.title) {
+        title = `${group.title} - ${question.text}`;
+      } else if (question.retired) {
+        title = `${question.text} (removed)`;
+      }
+      columns.push({
+        questionId: question._id.toString(),
+        question: question.text,
+        type: question.type,
+        title
+      });
+    }
+  }
+  return columns;
+};
+
+const getAnswer = (response, questionId) => {
+  const answer = response.answers.find(a => a.questionId.toString() === questionId);
+  return answer ? answer.answer : null;
+};
+
+// The link to the file answering a file question, if the response has one.
+// Responses come with their `uploads` (see utils/fileUploads).
+const getFileLink = (response, column, fileLink) => {
+  if (column.type !== 'file' || !fileLink) return null;
+  const upload = (response.uploads || []).find(u => u.questionId.toString() === column.questionId);
+  return upload ? fileLink(upload) : null;
+};
+
+// Values that spreadsheet apps would run as formulas are prefixed with a quote
+const FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+const toCsvField = (value) => {
+  if (value === null || value === undefined) return '';
+  let text = Array.isArray(value) ? value.join(', ') : String(value);
+  if (typeof value === 'string' && FORMULA_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Waits for the client to catch up when the socket buffer is full
+const write = (res, chunk) => new Promise((resolve) => {
+  if (res.write(chunk)) return resolve();
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.on('drain', done);
+  res.on('close', done);
+});
+
+const getHiddenField = (response, name) => {
+  const values = response.hiddenFields;
+  if (!values) return '';
+  return (values instanceof Map ? values.get(name) : values[name]) || '';
+};
+
+const tabularHeader = (form, columns, timeZone) => [
+  'Response ID',
+  `Submitted At (${timeZone})`,
+  'Form Version',
+  'Submitter Email',
+  'Submitter Name',
+  'IP Address',
+  ...form.hiddenFields,
+  ...columns.map(column => column.title)
+];
+
+const tabularRow = (form, response, columns, dates, fileLink) => [
+  response._id.toString(),
+  dates.toLocal(response.submittedAt),
+  response.formVersion || 1,
+  response.submitterEmail || '',
+  response.submitterName || '',
+  response.ipAddress || '',
+  ...form.hiddenFields.map(name => getHiddenField(response, name)),
+  ...columns.map(column => getFileLink(response, column, fileLink) || getAnswer(response, column.questionId))
+];
+
+const jsonRecord = (response, columns, dates, fileLink) => ({
+  id: response._id,
+  submittedAt: dates.toIso(response.submittedAt),
+  formVersion: response.formVersion || 1,
+  submitterEmail: response.submitterEmail || null,
+  submitterName: response.submitterName || null,
+  ipAddress: response.ipAddress || null,
+  hiddenFields: (response.hiddenFields instanceof Map
+    ? Object.fromEntries(response.hiddenFields)
+    : response.hiddenFields) || {},
+  answers: columns.map(column => {
+    const url = getFileLink(response, column, fileLink);
+    return {
+      questionId: column.questionId,
+      question: column.question,
+      answer: getAnswer(response, column.questionId),
+      ...(url ? { url } : {})
+    };
+  })
+});
+
+// Writes every response from `cursor` to `res` and ends it. Stops early if
+// the client disconnects. `fileLink(upload)` returns a file's download link.
+const writeExport = async (res, { form, cursor, format, timeZone, fileLink }) => {
+  const columns = getQuestionColumns(form);
+  const dates = createDateFormatters(timeZone);
+
+  try {
+    if (format === 'xlsx') {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+        stream: res,
+        useStyles: false,
+        useSharedStrings: false
+      });
+      const sheet = workbook.addWorksheet('Responses');
+      sheet.addRow(tabularHeader(form, columns, timeZone)).commit();
+      for await (const response of cursor) {
+        if (res.destroyed) return;
+        sheet.addRow(tabularRow(form, response, columns, dates, fileLink).map(value =>
+          Array.isArray(value) ? value.join(', ') : value
+        )).commit();
+      }
+      sheet.commit();
+      await workbook.commit();
+      return;
+    }
+
+    if (format === 'csv') {
+      // The byte order mark makes Excel read the file as UTF-8
+      await write(res, `\ufeff${tabularHeader(form, columns, timeZone).map(toCsvField).join(',')}\r\n`);
+    } else if (format === 'json') {
+      await write(res, '[');
+    }
+
+    let first = true;
+    for await (const response of cursor) {
+      if (res.destroyed) return;
+      if (format === 'csv') {
+        await write(res, `${tabularRow(form, response, columns, dates, fileLink).map(toCsvField).join(',')}\r\n`);
+      } else if (format === 'json') {
+        await write(res, `${first ? '\n' : ',\n'}${JSON.stringify(jsonRecord(response, columns, dates, fileLink))}`);
+      } else {
+        await write(res, `${JSON.stringify(jsonRecord(response, columns, dates, fileLink))}\n`);
+      }
+      first = false;
+    }
+
+    if (format === 'json') {
+      await write(res, first ? ']\n' : '\n]\n');
+    }
+    res.end();
+  } finally {
+    await cursor.close();
+  }
+};
+
+// Content-Disposition value with an ASCII fallback for non-ASCII titles
+const attachmentHeader = (filename) => {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename)
+    .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  isValidTimeZone,
+  attachmentHeader,
+  writeExport
+};
@@ -0,0 +1,244 @@
+// Filtering and sorting of a form's responses from query string parameters,
+// shared by the response list, summary and export:
+//
+//   version         form version answered (resolved by utils/formVersions)
+//   quarantined     "true" for the responses quarantined as suspected spam,
+//                   which are left out otherwise (see utils/spam)
+//   from, to        submittedAt range; a date without a time in `to` includes that whole day
+//   email           part of the submitter's email address
+//   q               text searched in answers, submitter email and name
+//   answer[<id>]    answers to a question; exact for choice, numeric and date
+//                   questions, "contains" for text and file names. Repeat for any
+//                   of several values.
+//   field[<name>]   exact value of a hidden field (see utils/hiddenFields); repeat
+//                   for any of several values
+//   status          triage status (see utils/triage); repeat for any of several
+//   tag             a tag the response has; repeat for any of several
+//   assignee        id of the member it is assigned to, or "none" for unassigned
+//   sort            submittedAt, submitterEmail, submitterName or question:<id>
+//   order           asc or desc (default desc)
+
+const mongoose = require('mongoose');
+const { CHOICE_TYPES } = require('./questionTypes');
+const { versionCondition } = require('./formVersions');
+const { RESPONSE_STATUSES } = require('./triage');
+
+const SORT_FIELDS = ['submittedAt', 'submitterEmail', 'submitterName'];
+const NUMERIC_TYPES = ['linear-scale', 'rating', 'number'];
+// File answers are the files' names
+const TEXT_TYPES = ['text', 'short-text', 'email', 'file'];
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_PREFIX_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A query parameter given once or repeated, as a list of non-empty strings
+const queryValues = (raw) =>
+  (Array.isArray(raw) ? raw : [raw]).filter(value => typeof value === 'string' && value !== '');
+
+// Date rolls days that do not exist, like 2024-02-31, over into the next
+// month, so the calendar day is checked before the value is parsed
+const parseDate = (value) => {
+  if (typeof value !== 'string' || !value) return null;
+  const [day] = value.match(DATE_PREFIX_PATTERN) || [];
+  const calendarDay = day && new Date(`${day}T00:00:00Z`);
+  if (calendarDay && (Number.isNaN(calendarDay.getTime()) || calendarDay.toISOString().slice(0, 10) !== day)) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Converts the query values for one question into a condition on `answer`
+const answerCondition = (question, values) => {
+  if (TEXT_TYPES.includes(question.type)) {
+    return { $in: values.map(value => new RegExp(escapeRegex(value), 'i')) };
+  }
+  if (NUMERIC_TYPES.includes(question.type)) {
+    const numbers = values.map(Number);
+    if (numbers.some(number => Number.isNaN(number))) return null;
+    return { $in: numbers };
+  }
+  if (CHOICE_TYPES.includes(question.type) || question.type === 'date') {
+    return { $in: values };
+  }
+  return null;
+};
+
+// Returns { filter, sort } for Response queries, or { error } when a
+// parameter is invalid. `form` comes from getResultsForm.
+const parseResponseQuery = (form, query) => {
+  const filter = {
+    form: form._id,
+    quarantined: query.quarantined === 'true' ? true : { $ne: true },
+    // Unfinished responses (utils/partialResponses) are never results
+    partial: { $ne: true }
+  };
+  const conditions = [];
+
+  if (form.version) {
+    filter.formVersion = versionCondition(form.version);
+  }
+
+  if (query.from || query.to) {
+    const from = query.from && parseDate(query.from);
+    const to = query.to && parseDate(query.to);
+    if (from === null || to === null) {
+      return { error: 'Invalid date range' };
+    }
+    filter.submittedAt = {};
+    if (from) filter.submittedAt.$gte = from;
+    if (to) {
+      if (DATE_ONLY_PATTERN.test(query.to)) {
+        filter.submittedAt.$lt = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+      } else {
+        filter.submittedAt.$lte = to;
+      }
+    }
+  }
+
+  if (typeof query.email === 'string' && query.email.trim()) {
+    filter.submitterEmail = new RegExp(escapeRegex(query.email.trim()), 'i');
+  }
+
+  if (typeof query.q === 'string' && query.q.trim()) {
+    const pattern = new RegExp(escapeRegex(query.q.trim()), 'i');
+    conditions.push({
+      $or: [
+        { 'answers.answer': pattern },
+        { submitterEmail: pattern },
+        { submitterName: pattern }
+      ]
+    });
+  }
+
+  if (query.answer !== undefined) {
+    if (typeof query.answer !== 'object' || Array.isArray(query.answer)) {
+      return { error: 'Answer filters must be given as answer[<questionId>]=<value>' };
+    }
+    for (const [questionId, raw] of Object.entries(query.answer)) {
+      const question = form.questions.find(q => q._id.toString() === questionId);
+      if (!question) {
+        return { error: 'Answer filter does not match a question on this form' };
+      }
+      const values = queryValues(raw);
+      if (values.length === 0) continue;
+
+      const condition = answerCondition(question, values);
+      if (!condition) {
+        return { error: `Invalid answer filter for question "${question.text}"` };
+      }
+      conditions.push({
+        answers: { $elemMatch: { questionId: question._id, answer: condition } }
+      });
+    }
+  }
+
+  if (query.field !== undefined) {
+    if (typeof query.field !== 'object' || Array.isArray(query.field)) {
+      return { error: 'Hidden field filters must be given as field[<name>]=<value>' };
+    }
+    for (const [name, raw] of Object.entries(query.field)) {
+      if (!form.hiddenFields.includes(name)) {
+        return { error: `"${name}" is not a hidden field of this form` };
+      }
+      const values = queryValues(raw);
+      if (values.length === 0) continue;
+      conditions.push({ [`hiddenFields.${name}`]: { $in: values } });
+    }
+  }
+
+  if (query.status !== undefined) {
+    const statuses = queryValues(query.status);
+    if (statuses.some(status => !RESPONSE_STATUSES.includes(status))) {
+      return { error: `Status must be one of ${RESPONSE_STATUSES.join(', ')}` };
+    }
+    if (statuses.length > 0) {
+      // Responses from before triage have no status and count as new
+      filter.status = { $in: statuses.includes('new') ? [...statuses, null] : statuses };
+    }
+  }
+
+  if (query.tag !== undefined) {
+    const tags = queryValues(query.tag).map(tag => tag.toLowerCase());
+    if (tags.length > 0) {
+      filter.tags = { $in: tags };
+    }
+  }
+
+  if (typeof query.assignee === 'string' && query.assignee) {
+    if (query.assignee === 'none') {
+      filter.assignee = null;
+    } else if (mongoose.Types.ObjectId.isValid(query.assignee)) {
+      filter.assignee = new mongoose.Types.ObjectId(query.assignee);
+    } else {
+      return { error: 'Invalid assignee' };
+    }
+  }
+
+  if (conditions.length > 0) {
+    filter.$and = conditions;
+  }
+
+  if (query.order !== undefined && !['asc', 'desc'].includes(query.order)) {
+    return { error: 'Sort order must be asc or desc' };
+  }
+  const direction = query.order === 'asc' ? 1 : -1;
+
+  const sortBy = query.sort || 'submittedAt';
+  let sort;
+  if (SORT_FIELDS.includes(sortBy)) {
+    sort = { field: sortBy, direction };
+  } else if (typeof sortBy === 'string' && sortBy.startsWith('question:')) {
+    const question = form.questions.find(q => q._id.toString() === sortBy.slice('question:'.length));
+    if (!question) {
+      return { error: 'Sort does not match a question on this form' };
+    }
+    sort = { field: 'answer', questionId: question._id, direction };
+  } else {
+    return { error: `Responses cannot be sorted by "${sortBy}"` };
+  }
+
+  return { filter, sort };
+};
+
+// Aggregation stages matching and ordering responses. Sorting by a question
+// uses that question's answer; responses without one sort first in
+// ascending order.
+const responsePipeline = (filter, sort) => {
+  if (sort.field !== 'answer') {
+    return [
+      { $match: filter },
+      { $sort: { [sort.field]: sort.direction, _id: sort.direction } }
+    ];
+  }
+
+  return [
+    { $match: filter },
+    {
+      $addFields: {
+        sortValue: {
+          $let: {
+            vars: {
+              match: {
+                $arrayElemAt: [
+                  { $filter: { input: '$answers', cond: { $eq: ['$$this.questionId', sort.questionId] } } },
+                  0
+                ]
+              }
+            },
+            in: '$$match.answer'
+          }
+        }
+      }
+    },
+    { $sort: { sortValue: sort.direction, _id: sort.direction } },
+    { $project: { sortValue: 0 } }
+  ];
+};
+
+module.exports = {
+  escapeRegex,
+  parseResponseQuery,
+  responsePipeline
+};
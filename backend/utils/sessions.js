@@ -0,0 +1,155 @@
+// Login sessions. Logging in starts a session: the browser gets a refresh
+// token in an httpOnly cookie that is only sent to /api/auth, and a
+// short-lived access token (a JWT naming the session) for the Authorization
+// header. POST /api/auth/refresh trades the refresh token for a new one and a
+// new access token.
+//
+// Each refresh token works once. One that is presented again after it was
+// traded in must have been copied, so the session it belonged to is revoked.
+// Deleting a session (logging out, or changing the password) stops its access
+// tokens at once, since the auth middleware checks that the session exists.
+
+const jwt = require('jsonwebtoken');
+const Session = require('../models/Session');
+const User = require('../models/User');
+const { createRandomToken, hashToken } = require('./tokens');
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+// Days a session lasts without being used
+const SESSION_DAYS = parseInt(process.env.SESSION_DAYS, 10) || 30;
+const SESSION_TTL_MS = SESSION_DAYS * 24 * 60 * 60 * 1000;
+// Tabs refreshing at the same moment all send the token only one of them
+// gets to trade in; the others are let through for this long
+const REUSE_GRACE_MS = 30 * 1000;
+
+const REFRESH_COOKIE = 'refreshToken';
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+const cookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: process.env.COOKIE_SAME_SITE || 'lax',
+  path: REFRESH_COOKIE_PATH
+});
+
+const setRefreshCookie = (res, token, expiresAt) => {
+  res.cookie(REFRESH_COOKIE, token, { ...cookieOptions(), expires: expiresAt });
+};
+
+const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE, cookieOptions());
+};
+
+const readRefreshCookie = (req) => {
+  for (const pair of (req.get('Cookie') || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === REFRESH_COOKIE) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return null;
+};
+
+const createAccessToken = (session) => jwt.sign(
+  { userId: session.user, sessionId: session._id },
+  process.env.JWT_SECRET,
+  { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+// Starts a session for `user`, sets its refresh cookie and returns the
+// access token
+const startSession = async (req, res, user) => {
+  const refreshToken = createRandomToken();
+  const session = await Session.create({
+    user: user._id,
+    tokenHash: hashToken(refreshToken),
+    userAgent: req.get('User-Agent'),
+    ipAddress: req.ip,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+  });
+  setRefreshCookie(res, refreshToken, session.expiresAt);
+  return createAccessToken(session);
+};
+
+// Trades in the refresh token in the request's cookie. Returns the session
+// and, unless another tab has just traded the token in, the refresh token
+// replacing it; null when the token is unknown, expired or reused.
+const refreshSession = async (req) => {
+  const token = readRefreshCookie(req);
+  if (!token) return null;
+
+  const now = new Date();
+  const tokenHash = hashToken(token);
+  const nextToken = createRandomToken();
+  // Only one of several concurrent refreshes matches the current hash
+  const session = await Session.findOneAndUpdate(
+    { tokenHash, expiresAt: { $gt: now } },
+    {
+      tokenHash: hashToken(nextToken),
+      previousTokenHash: tokenHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      userAgent: req.get('User-Agent'),
+      ipAddress: req.ip,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS)
+    },
+    { new: true }
+  );
+  if (session) return { session, refreshToken: nextToken };
+
+  const previous = await Session.findOne({ previousTokenHash: tokenHash });
+  if (!previous) return null;
+  if (now - previous.rotatedAt < REUSE_GRACE_MS) {
+    // The response to the other tab's refresh has set the new cookie
+    return { session: previous };
+  }
+  await previous.deleteOne();
+  return null;
+};
+
+// Deletes the session whose refresh token is in the request's cookie
+const endSession = async (req) => {
+  const token = readRefreshCookie(req);
+  if (!token) return;
+  const tokenHash = hashToken(token);
+  await Session.deleteOne({ $or: [{ tokenHash }, { previousTokenHash: tokenHash }] });
+};
+
+// Logs `userId` out everywhere except, if given, the session `exceptId`
+const revokeSessions = (userId, exceptId) => Session.deleteMany({
+  user: userId,
+  ...(exceptId ? { _id: { $ne: exceptId } } : {})
+});
+
+// Resolves an access token to its user and session, or null when it is
+// invalid, expired or its session has ended
+const verifyAccessToken = async (token) => {
+  let decoded;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    return null;
+  }
+  if (!decoded.sessionId) return null;
+
+  const session = await Session.findOne({
+    _id: decoded.sessionId,
+    user: decoded.userId,
+    expiresAt: { $gt: new Date() }
+  });
+  if (!session) return null;
+
+  const user = await User.findById(decoded.userId).select('-password');
+  return user && user.isActive ? { user, session } : null;
+};
+
+module.exports = {
+  startSession,
+  refreshSession,
+  endSession,
+  revokeSessions,
+  createAccessToken,
+  verifyAccessToken,
+  setRefreshCookie,
+  clearRefreshCookie
+};
@@ -0,0 +1,68 @@
+// Bot checks for public submissions. Responses that fail them are still
+// stored, but quarantined: they are left out of results, counts, webhooks and
+// notifications until an admin reviews them. The reasons are:
+//
+//   honeypot   the hidden HONEYPOT_FIELD, which people never see, was filled in
+//   too-fast   the form was submitted less than `settings.spam.minFillSeconds`
+//              after it was opened, or without a valid start token
+//
+// The start token is handed out with the public form and records when it
+// was opened. CAPTCHA checks (utils/captcha) reject a response outright.
+
+const { object } = require('../openapi/helpers');
+const { createSignedToken, readSignedToken } = require('./tokens');
+
+const SPAM_REASONS = ['honeypot', 'too-fast'];
+const HONEYPOT_FIELD = 'website';
+const DEFAULT_MIN_FILL_SECONDS = 3;
+const MAX_MIN_FILL_SECONDS = 600;
+// Serialised size of a single answer
+const MAX_ANSWER_BYTES = 20 * 1024;
+
+const START_TOKEN_SECRET = process.env.JWT_SECRET;
+
+// Request schema for a form's spam settings
+const spamSettingsSchema = object({
+  captcha: { type: 'boolean' },
+  minFillSeconds: { type: 'integer', minimum: 0, maximum: MAX_MIN_FILL_SECONDS }
+});
+
+const createStartToken = (form) => createSignedToken(`${form._id}:${Date.now()}`, START_TOKEN_SECRET);
+
+// When the form was opened, or null for a token not issued for this form
+const getStartTime = (form, token) => {
+  const value = readSignedToken(token, START_TOKEN_SECRET);
+  if (!value) return null;
+
+  const [formId, startedAt] = value.split(':');
+  return formId === form._id.toString() ? Number(startedAt) : null;
+};
+
+// Returns the reasons to quarantine a submission, empty when it looks human
+const getSpamReasons = (form, submission, now = Date.now()) => {
+  const reasons = [];
+
+  if (submission[HONEYPOT_FIELD]) {
+    reasons.push('honeypot');
+  }
+
+  const minFillSeconds = form.settings.spam?.minFillSeconds ?? DEFAULT_MIN_FILL_SECONDS;
+  const startedAt = getStartTime(form, submission.startToken);
+  if (startedAt === null || now - startedAt < minFillSeconds * 1000) {
+    reasons.push('too-fast');
+  }
+
+  return reasons;
+};
+
+const isAnswerTooLarge = (answer) => Buffer.byteLength(JSON.stringify(answer)) > MAX_ANSWER_BYTES;
+
+module.exports = {
+  SPAM_REASONS,
+  HONEYPOT_FIELD,
+  DEFAULT_MIN_FILL_SECONDS,
+  spamSettingsSchema,
+  createStartToken,
+  getSpamReasons,
+  isAnswerTooLarge
+};
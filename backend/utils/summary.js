@@ -0,0 +1,262 @@
+// Summary statistics for a form's responses, computed in MongoDB with a single
+// aggregation so that no response documents are loaded into Node. Each
+// question type chooses the aggregations it needs (see getSummaryKinds).
+
+const Response = require('../models/Response');
+const { getSummaryKinds, finishSummary } = require('./questionTypes');
+const { groupBySection } = require('./formSections');
+
+// Buckets for the responses-over-time series
+const INTERVAL_FORMATS = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m'
+};
+const SUMMARY_INTERVALS = Object.keys(INTERVAL_FORMATS);
+
+const TOP_WORDS = 10;
+const MIN_WORD_LENGTH = 3;
+// Anything between whitespace and punctuation counts as a word
+const WORD_PATTERN = '[^\\s.,;:!?"()\\[\\]{}<>/|*]+';
+const STOP_WORDS = [
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was',
+  'one', 'our', 'out', 'has', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'she', 'use',
+  'that', 'with', 'have', 'this', 'will', 'your', 'from', 'they', 'been', 'were', 'what',
+  'when', 'there', 'their', 'would', 'which', 'about', 'very', 'just', 'also', 'more', 'some',
+  "it's", "don't", "i'm"
+];
+
+const round = (value, places = 2) =>
+  value === null || value === undefined ? null : Math.round(value * 10 ** places) / 10 ** places;
+
+// Stages that turn each response into one document per answer to `questionIds`
+const answersOf = (questionIds) => [
+  { $unwind: '$answers' },
+  { $match: { 'answers.questionId': { $in: questionIds } } }
+];
+
+// Lower-cased words of a text answer
+const wordsOf = {
+  $map: {
+    input: { $regexFindAll: { input: { $toLower: '$answers.answer' }, regex: WORD_PATTERN } },
+    in: '$$this.match'
+  }
+};
+
+// Values a question's answers are expected to take, so that unpicked options
+// still appear (with a count of 0) in their defined order
+const expectedValues = (question) => {
+  if (question.options && question.options.length > 0) {
+    return question.options;
+  }
+  if (question.scale && Number.isInteger(question.scale.min) && Number.isInteger(question.scale.max)) {
+    const values = [];
+    for (let value = question.scale.min; value <= question.scale.max; value++) {
+      values.push(String(value));
+    }
+    return values;
+  }
+  return [];
+};
+
+const byQuestion = (rows) => new Map(rows.map(row => [row._id.toString(), row]));
+
+// Builds the summary for the responses matching `filter`:
+//
+//   totalResponses   number of responses
+//   completionRate   average share of the form's questions answered per response (%)
+//                    (questions removed from the form are left out)
+//   timeline         responses per day, week or month in `timeZone`
+//   questions        per question: answer count, response rate (%), per-value
+//                    counts and percentages, numeric or date stats, text word stats
+//                    and whether it has been removed from the form (`retired`)
+const buildSummary = async (form, filter, { interval = 'day', timeZone = 'UTC' } = {}) => {
+  const idsFor = (kind) => form.questions
+    .filter(question => getSummaryKinds(question).includes(kind))
+    .map(question => question._id);
+
+  const [result] = await Response.aggregate([
+    { $match: filter },
+    {
+      $facet: {
+        totals: [
+          { $group: { _id: null, count: { $sum: 1 }, answers: { $avg: { $size: '$answers' } } } }
+        ],
+        timeline: [
+          {
+            $group: {
+              _id: { $dateToString: { format: INTERVAL_FORMATS[interval], date: '$submittedAt', timezone: timeZone } },
+              count: { $sum: 1 }
+            }
+          },
+          { $sort: { _id: 1 } }
+        ],
+        answered: [
+          { $unwind: '$answers' },
+          { $group: { _id: '$answers.questionId', count: { $sum: 1 } } }
+        ],
+        counts: [
+          ...answersOf(idsFor('counts')),
+          // Checkbox answers count once for every option picked
+          { $unwind: '$answers.answer' },
+          {
+            $group: {
+              _id: { questionId: '$answers.questionId', value: '$answers.answer' },
+              count: { $sum: 1 }
+            }
+          }
+        ],
+        numeric: [
+          ...answersOf(idsFor('numeric')),
+          {
+            $group: {
+              _id: '$answers.questionId',
+              average: { $avg: '$answers.answer' },
+              min: { $min: '$answers.answer' },
+              max: { $max: '$answers.answer' },
+              promoters: { $sum: { $cond: [{ $gte: ['$answers.answer', 9] }, 1, 0] } },
+              detractors: { $sum: { $cond: [{ $lte: ['$answers.answer', 6] }, 1, 0] } }
+            }
+          }
+        ],
+        dates: [
+          ...answersOf(idsFor('dates')),
+          {
+            $group: {
+              _id: '$answers.questionId',
+              earliest: { $min: '$answers.answer' },
+              latest: { $max: '$answers.answer' }
+            }
+          }
+        ],
+        wordCounts: [
+          ...answersOf(idsFor('words')),
+          { $project: { questionId: '$answers.questionId', words: { $size: wordsOf } } },
+          {
+            $group: {
+              _id: '$questionId',
+              averageWords: { $avg: '$words' },
+              totalWords: { $sum: '$words' }
+            }
+          }
+        ],
+        topWords: [
+          ...answersOf(idsFor('words')),
+          { $project: { questionId: '$answers.questionId', word: wordsOf } },
+          { $unwind: '$word' },
+          {
+            $match: {
+              word: { $nin: STOP_WORDS },
+              $expr: { $gte: [{ $strLenCP: '$word' }, MIN_WORD_LENGTH] }
+            }
+          },
+          { $group: { _id: { questionId: '$questionId', word: '$word' }, count: { $sum: 1 } } },
+          // $topN keeps only TOP_WORDS per question while grouping, so a question
+          // with many distinct words never builds one huge document
+          {
+            $group: {
+              _id: '$_id.questionId',
+              words: {
+                $topN: {
+                  n: TOP_WORDS,
+                  sortBy: { count: -1, '_id.word': 1 },
+                  output: { word: '$_id.word', count: '$count' }
+                }
+              }
+            }
+          }
+        ]
+      }
+    }
+  ]).allowDiskUse(true);
+
+  const totals = result.totals[0] || { count: 0, answers: 0 };
+  const askedCount = form.questions.filter(question => !question.retired).length;
+  const answered = byQuestion(result.answered);
+  const numeric = byQuestion(result.numeric);
+  const dates = byQuestion(result.dates);
+  const wordCounts = byQuestion(result.wordCounts);
+  const topWords = byQuestion(result.topWords);
+
+  const summary = {
+    totalResponses: totals.count,
+    completionRate: askedCount > 0
+      ? Math.min(round((totals.answers / askedCount) * 100, 1) || 0, 100)
+      : 0,
+    interval,
+    timeline: result.timeline.map(bucket => ({ period: bucket._id, count: bucket.count })),
+    sections: groupBySection(form.sections, form.questions)
+      .filter(group => group.sectionId)
+      .map(group => ({
+        sectionId: group.sectionId,
+        title: group.title,
+        questionIds: group.questions.map(question => question._id)
+      })),
+    questions: []
+  };
+
+  for (const question of form.questions) {
+    const id = question._id.toString();
+    const kinds = getSummaryKinds(question);
+    const totalAnswers = answered.has(id) ? answered.get(id).count : 0;
+
+    const entry = {
+      questionId: question._id,
+      questionText: question.text,
+      questionType: question.type,
+      sectionId: question.section || null,
+      retired: Boolean(question.retired),
+      totalAnswers,
+      responseRate: totals.count > 0 ? round((totalAnswers / totals.count) * 100, 1) : 0,
+      answers: {},
+      percentages: {}
+    };
+
+    if (kinds.includes('counts')) {
+      for (const value of expectedValues(question)) {
+        entry.answers[value] = 0;
+      }
+      for (const row of result.counts) {
+        if (row._id.questionId.toString() === id) {
+          entry.answers[row._id.value] = row.count;
+        }
+      }
+      for (const [value, count] of Object.entries(entry.answers)) {
+        entry.percentages[value] = totalAnswers > 0 ? round((count / totalAnswers) * 100, 1) : 0;
+      }
+    }
+
+    if (kinds.includes('numeric')) {
+      const stats = numeric.get(id);
+      entry.stats = {
+        average: stats ? round(stats.average) : null,
+        min: stats ? stats.min : null,
+        max: stats ? stats.max : null
+      };
+    }
+
+    if (kinds.includes('dates')) {
+      const stats = dates.get(id);
+      entry.stats = {
+        earliest: stats ? stats.earliest : null,
+        latest: stats ? stats.latest : null
+      };
+    }
+
+    if (kinds.includes('words')) {
+      const counts = wordCounts.get(id);
+      entry.words = {
+        averageWords: counts ? round(counts.averageWords, 1) : 0,
+        totalWords: counts ? counts.totalWords : 0,
+        topWords: topWords.has(id) ? topWords.get(id).words : []
+      };
+    }
+
+    finishSummary(question, entry, numeric.get(id));
+    summary.questions.push(entry);
+  }
+
+  return summary;
+};
+
+module.exports = { SUMMARY_INTERVALS, buildSummary };
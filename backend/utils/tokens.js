@@ -0,0 +1,36 @@
+const crypto = require('crypto');
+
+// Random tokens are handed out once (e.g. in invitation links) and only
+// their hash is stored, so a database leak does not expose usable tokens.
+const createRandomToken = () => crypto.randomBytes(32).toString('hex');
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+const signature = (value, secret) =>
+  crypto.createHmac('sha256', secret).update(value).digest('hex');
+
+// Signed tokens ("<value>.<signature>") are handed to browsers and must come
+// back unchanged; the value itself is not secret
+const createSignedToken = (value, secret) => `${value}.${signature(value, secret)}`;
+
+// Returns the value of a token signed with `secret`, or null
+const readSignedToken = (token, secret) => {
+  if (typeof token !== 'string') return null;
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const value = token.slice(0, separator);
+  const expected = Buffer.from(signature(value, secret));
+  const actual = Buffer.from(token.slice(separator + 1));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return value;
+};
+
+module.exports = {
+  createRandomToken,
+  hashToken,
+  createSignedToken,
+  readSignedToken
+};
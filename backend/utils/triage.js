@@ -0,0 +1,46 @@
+// Triage of responses by the people working through them: a status, tags,
+// an assignee from the form's workspace and internal notes. None of it is
+// shown to respondents. Statuses are:
+//
+//   new           not looked at yet (every response starts here)
+//   in-progress   someone is following it up
+//   resolved      done with
+
+const { OBJECT_ID, object, trimmed } = require('../openapi/helpers');
+
+const RESPONSE_STATUSES = ['new', 'in-progress', 'resolved'];
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_NOTE_LENGTH = 5000;
+
+// Request schema for changing a response's triage; only the fields given change
+const triageSchema = object({
+  status: { enum: RESPONSE_STATUSES, 'x-error-message': `Status must be one of ${RESPONSE_STATUSES.join(', ')}` },
+  tags: {
+    type: 'array',
+    maxItems: MAX_TAGS,
+    items: { ...trimmed(MAX_TAG_LENGTH, 1), 'x-error-message': `Tags are 1 to ${MAX_TAG_LENGTH} characters` },
+    'x-error-message': `A response can have up to ${MAX_TAGS} tags`
+  },
+  assignee: {
+    ...OBJECT_ID,
+    type: ['string', 'null'],
+    description: 'A member of the form\'s workspace, or null to unassign',
+    'x-error-message': 'Invalid assignee'
+  }
+});
+
+// Request schema for a note
+const noteSchema = object({
+  text: { ...trimmed(MAX_NOTE_LENGTH, 1), 'x-error-message': `Notes are 1 to ${MAX_NOTE_LENGTH} characters` }
+}, ['text']);
+
+// Tags are stored in lower case, each once
+const normalizeTags = (tags) => [...new Set(tags.map(tag => tag.toLowerCase()))];
+
+module.exports = {
+  RESPONSE_STATUSES,
+  triageSchema,
+  noteSchema,
+  normalizeTags
+};
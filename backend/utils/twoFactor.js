@@ -0,0 +1,198 @@
+// Two-factor authentication with time-based one-time passwords (TOTP,
+// RFC 6238), as shown by authenticator apps. Users enrol by scanning a QR
+// code and confirming a code; they also get single-use recovery codes for
+// when they lose their phone. Logging in then takes two steps: the password
+// returns a short-lived challenge token, which is traded with a code for a
+// session (POST /api/auth/login/2fa).
+//
+// Secrets are stored encrypted with TWO_FACTOR_SECRET (defaulting to
+// JWT_SECRET) and recovery codes only as hashes. Workspaces can require their
+// members to use two-factor authentication.
+//
+// Wrong codes count against the account whatever IP address they come from:
+// after MAX_FAILED_TWO_FACTOR_CODES in a row, the second step is locked for
+// TWO_FACTOR_LOCKOUT_MINUTES. Passwords are still checked per IP address
+// (see utils/loginAttempts.js), so the lock needs the password to trigger.
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const User = require('../models/User');
+const { hashToken } = require('./tokens');
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'Feedback Platform';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step before or after are accepted too, for clock drift
+const WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL = '5m';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const MAX_FAILED_CODES = parseInt(process.env.MAX_FAILED_TWO_FACTOR_CODES, 10) || 5;
+const CODE_LOCKOUT_MS = (parseInt(process.env.TWO_FACTOR_LOCKOUT_MINUTES, 10) || 15) * 60 * 1000;
+
+const TWO_FACTOR_REQUIRED_MESSAGE =
+  'This workspace requires two-factor authentication. Turn it on in Settings to continue.';
+
+const base32Encode = (buffer) => {
+  let bits = '';
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+};
+
+const base32Decode = (text) => {
+  let bits = '';
+  for (const char of text.replace(/=+$/, '').toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error('Invalid base32 secret');
+    bits += value.toString(2).padStart(5, '0');
+  }
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  return Buffer.from(bytes);
+};
+
+// A new secret, base32 encoded as authenticator apps expect
+const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+// The code for time step `counter` (RFC 4226)
+const hotp = (key, counter) => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const value = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(value % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+// Returns the time step `code` belongs to, or null when it does not match.
+// Steps up to `lastUsedStep` are refused so each code only works once.
+const matchCode = (secret, code, lastUsedStep = -1) => {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - WINDOW; step <= current + WINDOW; step += 1) {
+    if (step <= lastUsedStep) continue;
+    const expected = Buffer.from(hotp(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) return step;
+  }
+  return null;
+};
+
+const encryptionKey = () =>
+  crypto.createHash('sha256').update(process.env.TWO_FACTOR_SECRET || process.env.JWT_SECRET).digest();
+
+const encryptSecret = (secret) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+};
+
+const decryptSecret = (value) => {
+  const [iv, tag, encrypted] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// What authenticator apps scan: the otpauth:// URL as a QR code image
+const createEnrolment = async (user, secret) => {
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const url = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) };
+};
+
+const normalizeRecoveryCode = (code) => String(code || '').toLowerCase().replace(/[^0-9a-z]/g, '');
+
+// Returns the codes to show the user once, and their hashes to store
+const createRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(code => hashToken(normalizeRecoveryCode(code))) };
+};
+
+// Checks the user's code or recovery code and, when it matches, marks it used
+// and clears the count of wrong codes on `user` (which the caller saves)
+const verifySecondFactor = (user, { code, recoveryCode }) => {
+  const { twoFactor } = user;
+  if (recoveryCode) {
+    const hash = hashToken(normalizeRecoveryCode(recoveryCode));
+    if (!twoFactor.recoveryCodes.includes(hash)) return false;
+    twoFactor.recoveryCodes = twoFactor.recoveryCodes.filter(stored => stored !== hash);
+  } else {
+    const step = matchCode(decryptSecret(twoFactor.secret), code, twoFactor.lastUsedStep);
+    if (step === null) return false;
+    twoFactor.lastUsedStep = step;
+  }
+
+  twoFactor.failedAttempts = 0;
+  twoFactor.lockedUntil = undefined;
+  return true;
+};
+
+// The message for a user whose second step is locked, or null when it is not
+const getCodeLockMessage = (user) => {
+  const { lockedUntil } = user.twoFactor;
+  if (!lockedUntil || lockedUntil <= Date.now()) return null;
+  const minutes = Math.ceil((lockedUntil - Date.now()) / 60000);
+  return `Too many wrong codes. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+// Counted atomically, so guesses sent in parallel cannot slip past the limit
+const recordFailedCode = async (user) => {
+  const updated = await User.findByIdAndUpdate(
+    user._id,
+    { $inc: { 'twoFactor.failedAttempts': 1 } },
+    { new: true }
+  );
+  if (updated && updated.twoFactor.failedAttempts >= MAX_FAILED_CODES) {
+    await User.updateOne(
+      { _id: user._id },
+      { 'twoFactor.failedAttempts': 0, 'twoFactor.lockedUntil': new Date(Date.now() + CODE_LOCKOUT_MS) }
+    );
+  }
+};
+
+// Proof that the password was right, to send back with the code
+const createChallengeToken = (user) =>
+  jwt.sign({ userId: user._id, purpose: 'two-factor' }, process.env.JWT_SECRET, { expiresIn: CHALLENGE_TTL });
+
+// The id of the user a challenge token is for, or null
+const readChallengeToken = (token) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    return decoded.purpose === 'two-factor' ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Whether `user` is kept out of `workspace` for not using two-factor authentication
+const isBlockedByTwoFactor = (workspace, user) =>
+  Boolean(workspace.requireTwoFactor && !(user.twoFactor && user.twoFactor.enabled));
+
+module.exports = {
+  TWO_FACTOR_REQUIRED_MESSAGE,
+  generateSecret,
+  encryptSecret,
+  decryptSecret,
+  matchCode,
+  createEnrolment,
+  createRecoveryCodes,
+  verifySecondFactor,
+  getCodeLockMessage,
+  recordFailedCode,
+  createChallengeToken,
+  readChallengeToken,
+  isBlockedByTwoFactor
+};
@@ -0,0 +1,56 @@
+// Virus scanning of files uploaded to forms, before they are stored.
+// VIRUS_SCANNER chooses a scanner; without one, files are stored unchecked.
+//
+//   clamav   runs clamdscan (or VIRUS_SCAN_COMMAND) against a running clamd
+//   stub     local stand-in for development and tests; flags files containing
+//            the EICAR test signature
+//
+// Other scanners can be added with registerVirusScanner. A scanner resolves
+// to { clean, threat } and rejects when it cannot check the file.
+
+const fs = require('fs');
+const { execFile } = require('child_process');
+
+const SCAN_TIMEOUT_MS = 60 * 1000;
+const EICAR_SIGNATURE = 'EICAR-STANDARD-ANTIVIRUS-TEST-FILE';
+
+// clamdscan exits with 0 for clean files, 1 for infected ones and 2 on errors
+const clamav = (file) => new Promise((resolve, reject) => {
+  const command = process.env.VIRUS_SCAN_COMMAND || 'clamdscan';
+  execFile(command, ['--no-summary', '--fdpass', file], { timeout: SCAN_TIMEOUT_MS }, (error, stdout) => {
+    if (!error) return resolve({ clean: true });
+    if (error.code === 1) {
+      const match = /: (.+) FOUND/.exec(stdout);
+      return resolve({ clean: false, threat: match ? match[1] : 'unknown' });
+    }
+    reject(error);
+  });
+});
+
+const stub = async (file) => {
+  const contents = await fs.promises.readFile(file, 'latin1');
+  return contents.includes(EICAR_SIGNATURE)
+    ? { clean: false, threat: 'EICAR-Test-File' }
+    : { clean: true };
+};
+
+// name -> (path of the file) => Promise<{ clean, threat }>
+const scanners = { clamav, stub };
+
+const registerVirusScanner = (name, scan) => {
+  scanners[name] = scan;
+};
+
+const scanFile = async (file) => {
+  const name = process.env.VIRUS_SCANNER;
+  if (!name) return { clean: true };
+  if (!scanners[name]) {
+    throw new Error(`Unknown virus scanner ${name}`);
+  }
+  return scanners[name](file);
+};
+
+module.exports = {
+  registerVirusScanner,
+  scanFile
+};
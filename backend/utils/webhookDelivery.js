@@ -0,0 +1,139 @@
+const Webhook = require('../models/Webhook');
+const WebhookDelivery = require('../models/WebhookDelivery');
+const { MAX_ATTEMPTS, signPayload, getRetryDelay } = require('./webhooks');
+const { checkWebhookTarget } = require('./webhookTargets');
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY = 1000;
+const WORKER_INTERVAL_MS = 5 * 1000;
+// A claimed delivery is retried after this long if its attempt never finished
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+
+// Makes one attempt at sending a delivery and records the outcome, scheduling
+// a retry with exponential backoff on failure
+const attemptDelivery = async (delivery, webhook) => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  delivery.attempts += 1;
+  delivery.lastAttemptAt = new Date();
+
+  // The host may resolve somewhere else than when the webhook was saved.
+  // Nothing is sent to refused targets, so no reply is stored.
+  const targetError = await checkWebhookTarget(webhook.url);
+
+  try {
+    if (targetError) {
+      throw new Error(targetError);
+    }
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'FeedbackPlatform-Webhooks/1.0',
+        'X-Webhook-Id': delivery._id.toString(),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signPayload(webhook.secret, timestamp, body)}`
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    delivery.responseStatus = response.status;
+    delivery.responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+    delivery.error = response.ok ? undefined : `Receiver responded with ${response.status}`;
+  } catch (error) {
+    delivery.responseStatus = undefined;
+    delivery.responseBody = undefined;
+    // fetch reports network problems (refused, DNS) as the error's cause
+    delivery.error = error.name === 'TimeoutError'
+      ? 'Request timed out'
+      : (error.cause && error.cause.message) || error.message;
+  }
+
+  delivery.durationMs = Date.now() - startedAt;
+
+  if (!delivery.error) {
+    delivery.status = 'succeeded';
+  } else if (delivery.attempts >= MAX_ATTEMPTS) {
+    delivery.status = 'failed';
+  } else {
+    delivery.nextAttemptAt = new Date(Date.now() + getRetryDelay(delivery.attempts));
+  }
+
+  await delivery.save();
+  return delivery;
+};
+
+// Creates a delivery of `event` for a webhook and makes the first attempt
+const deliver = async (webhook, event, data) => {
+  const delivery = new WebhookDelivery({ webhook: webhook._id, event, payload: {} });
+  delivery.payload = {
+    id: delivery._id,
+    event,
+    createdAt: new Date().toISOString(),
+    data
+  };
+  delivery.nextAttemptAt = new Date(Date.now() + CLAIM_TIMEOUT_MS);
+  await delivery.save();
+
+  return attemptDelivery(delivery, webhook);
+};
+
+// Sends `event` to every active webhook of a form subscribed to it. Callers
+// do not wait for it; failures are logged and retried by the worker.
+const dispatchEvent = (formId, event, data) => {
+  Webhook.find({ form: formId, isActive: true, events: event })
+    .then(webhooks => Promise.all(webhooks.map(webhook => deliver(webhook, event, data))))
+    .catch(error => console.error(`Webhook dispatch error (${event}):`, error));
+};
+
+// Claims and retries pending deliveries that are due
+const processDueDeliveries = async () => {
+  for (;;) {
+    const now = new Date();
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now } },
+      { nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS) },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+    if (!delivery) return;
+
+    const webhook = await Webhook.findById(delivery.webhook);
+    if (!webhook || !webhook.isActive) {
+      delivery.status = 'failed';
+      delivery.error = 'Webhook was disabled or deleted';
+      await delivery.save();
+      continue;
+    }
+
+    await attemptDelivery(delivery, webhook);
+  }
+};
+
+const startWebhookWorker = () => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processDueDeliveries();
+    } catch (error) {
+      console.error('Webhook worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, WORKER_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  deliver,
+  dispatchEvent,
+  startWebhookWorker
+};
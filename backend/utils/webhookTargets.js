@@ -0,0 +1,73 @@
+// Keeps webhooks from reaching the server's own network. Editors choose
+// webhook URLs and can read the replies in the delivery log, so URLs whose
+// host resolves to a loopback, private, link-local or unique-local address
+// are refused, both when a webhook is saved and before each delivery.
+//
+// WEBHOOK_ALLOWED_HOSTS lists hosts that are allowed anyway (comma
+// separated), e.g. "localhost" for scripts/webhook-receiver.js.
+
+const dns = require('dns').promises;
+const net = require('net');
+
+const ALLOWED_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata services
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4] // reserved and broadcast
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // IPv4 translation
+  ['fc00::', 7], // unique-local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8] // multicast
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const isBlockedAddress = (address) =>
+  blockedAddresses.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+// Why webhooks may not be sent to `url`, or null when they may. Hosts that
+// cannot be resolved are reported too.
+const checkWebhookTarget = async (url) => {
+  let hostname;
+  try {
+    // URL keeps the brackets around IPv6 addresses
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  } catch (error) {
+    return 'Webhook URL is invalid';
+  }
+  if (ALLOWED_HOSTS.includes(hostname)) return null;
+
+  let addresses;
+  try {
+    addresses = net.isIP(hostname)
+      ? [{ address: hostname }]
+      : await dns.lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    return `Could not find the host ${hostname}`;
+  }
+
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    return 'Webhooks cannot be sent to private or internal network addresses';
+  }
+  return null;
+};
+
+module.exports = {
+  checkWebhookTarget
+};
@@ -0,0 +1,62 @@
+// Outbound webhooks. Payloads are JSON and signed with the webhook's secret:
+//
+//   X-Webhook-Timestamp: <unix seconds>
+//   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+//
+// Receivers recompute the HMAC and should reject old timestamps to prevent
+// replays. See scripts/webhook-receiver.js for a local example.
+
+const crypto = require('crypto');
+
+const WEBHOOK_EVENTS = ['response.created', 'form.closed'];
+
+// Only sent from the "send test event" button; nobody subscribes to it
+const TEST_EVENT = 'webhook.test';
+
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS, 10) || 30 * 1000;
+
+const createWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+const signPayload = (secret, timestamp, body) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Exponential backoff: 30s, 1m, 2m, 4m, 8m with the default base delay
+const getRetryDelay = (attempts) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+// Event data describing a form
+const formData = (form) => ({
+  id: form._id,
+  title: form.title,
+  publicUrl: form.publicUrl
+});
+
+// Event data for response.created. Network details (IP, user agent) are left out.
+const responseData = (form, response) => ({
+  form: formData(form),
+  response: {
+    id: response._id,
+    submittedAt: response.submittedAt,
+    formVersion: response.formVersion,
+    submitterEmail: response.submitterEmail,
+    submitterName: response.submitterName,
+    hiddenFields: response.hiddenFields ? Object.fromEntries(response.hiddenFields) : {},
+    answers: response.answers.map(answer => ({
+      questionId: answer.questionId,
+      questionText: answer.questionText,
+      questionType: answer.questionType,
+      answer: answer.answer
+    }))
+  }
+});
+
+module.exports = {
+  WEBHOOK_EVENTS,
+  TEST_EVENT,
+  MAX_ATTEMPTS,
+  createWebhookSecret,
+  signPayload,
+  getRetryDelay,
+  formData,
+  responseData
+};
@@ -0,0 +1,209 @@
+/*
+ * Feedback Platform embed script. Add a form to any page with:
+ *
+ *   <script src="https://<app>/embed.js" data-form="<publicUrl>" data-mode="inline" async></script>
+ *
+ * Options (data- attributes on the script tag):
+ *   data-form          public URL of the form (required)
+ *   data-mode          inline (default), popup or slider
+ *   data-target        CSS selector of the element to put an inline form in;
+ *                      defaults to right after the script tag
+ *   data-button-text   label of the popup and slider launcher button
+ *   data-button-color  background colour of the launcher button
+ *   data-params        query string passed on to the form, for hidden fields
+ *                      and prefilled questions (e.g. "plan=pro&utm_source=app")
+ *
+ * The form's events are dispatched on window as CustomEvents named
+ * feedback-platform:loaded, feedback-platform:submitted and
+ * feedback-platform:height, with the form's publicUrl in event.detail.
+ * window.FeedbackPlatform.open(publicUrl) and .close(publicUrl) show and hide
+ * popup and slider forms.
+ */
+(function () {
+  'use strict';
+
+  var script = document.currentScript;
+  if (!script || !script.getAttribute('data-form')) {
+    console.error('Feedback Platform: the embed script needs a data-form attribute');
+    return;
+  }
+
+  var MODES = ['inline', 'popup', 'slider'];
+  var MESSAGE_SOURCE = 'feedback-platform';
+  var appOrigin = new URL(script.src).origin;
+  var publicUrl = script.getAttribute('data-form');
+  var mode = MODES.indexOf(script.getAttribute('data-mode')) >= 0 ? script.getAttribute('data-mode') : 'inline';
+  var buttonText = script.getAttribute('data-button-text') || 'Feedback';
+  var buttonColor = script.getAttribute('data-button-color') || '#2563eb';
+  var params = script.getAttribute('data-params') || '';
+
+  var api = window.FeedbackPlatform = window.FeedbackPlatform || { widgets: {} };
+  api.open = api.open || function (id) {
+    if (api.widgets[id]) api.widgets[id].open();
+  };
+  api.close = api.close || function (id) {
+    if (api.widgets[id]) api.widgets[id].close();
+  };
+
+  var style = function (element, styles) {
+    for (var key in styles) element.style[key] = styles[key];
+    return element;
+  };
+
+  var frameUrl = appOrigin + '/form/' + encodeURIComponent(publicUrl) +
+    '?embed=' + mode + (params ? '&' + params.replace(/^[?&]/, '') : '');
+
+  var iframe = style(document.createElement('iframe'), {
+    width: '100%',
+    border: '0',
+    display: 'block',
+    colorScheme: 'normal'
+  });
+  iframe.title = 'Feedback form';
+  iframe.setAttribute('allow', 'clipboard-write');
+
+  // Inline frames grow with the form; overlays scroll inside a fixed size
+  var container;
+  var isOpen = false;
+
+  if (mode === 'inline') {
+    style(iframe, { height: '400px' });
+    iframe.src = frameUrl;
+    var target = script.getAttribute('data-target') && document.querySelector(script.getAttribute('data-target'));
+    if (target) {
+      target.appendChild(iframe);
+    } else {
+      script.parentNode.insertBefore(iframe, script.nextSibling);
+    }
+  } else {
+    container = style(document.createElement('div'), mode === 'popup'
+      ? {
+          position: 'fixed',
+          inset: '0',
+          zIndex: '2147483646',
+          background: 'rgba(17, 24, 39, 0.6)',
+          display: 'none',
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: '16px'
+        }
+      : {
+          position: 'fixed',
+          top: '0',
+          right: '0',
+          bottom: '0',
+          zIndex: '2147483646',
+          width: '100%',
+          maxWidth: '420px',
+          background: '#fff',
+          boxShadow: '-4px 0 24px rgba(0, 0, 0, 0.15)',
+          transform: 'translateX(100%)',
+          transition: 'transform 0.3s ease'
+        });
+
+    var panel = mode === 'popup'
+      ? style(document.createElement('div'), {
+          position: 'relative',
+          width: '100%',
+          maxWidth: '640px',
+          height: '85vh',
+          background: '#fff',
+          borderRadius: '8px',
+          overflow: 'hidden'
+        })
+      : container;
+    style(iframe, { height: '100%' });
+    panel.appendChild(iframe);
+    if (panel !== container) container.appendChild(panel);
+
+    var closeButton = style(document.createElement('button'), {
+      position: 'absolute',
+      top: '8px',
+      right: '8px',
+      zIndex: '1',
+      width: '32px',
+      height: '32px',
+      border: '0',
+      borderRadius: '16px',
+      background: 'rgba(255, 255, 255, 0.9)',
+      cursor: 'pointer',
+      fontSize: '20px',
+      lineHeight: '32px'
+    });
+    closeButton.type = 'button';
+    closeButton.setAttribute('aria-label', 'Close');
+    closeButton.textContent = '×';
+    panel.appendChild(closeButton);
+
+    var launcher = style(document.createElement('button'), {
+      position: 'fixed',
+      right: '24px',
+      bottom: '24px',
+      zIndex: '2147483645',
+      padding: '12px 20px',
+      border: '0',
+      borderRadius: '24px',
+      background: buttonColor,
+      color: '#fff',
+      font: '600 14px/1 system-ui, sans-serif',
+      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
+      cursor: 'pointer'
+    });
+    launcher.type = 'button';
+    launcher.textContent = buttonText;
+
+    var open = function () {
+      // The form loads on first open
+      if (!iframe.src) iframe.src = frameUrl;
+      isOpen = true;
+      if (mode === 'popup') {
+        container.style.display = 'flex';
+      } else {
+        container.style.transform = 'translateX(0)';
+      }
+    };
+    var close = function () {
+      isOpen = false;
+      if (mode === 'popup') {
+        container.style.display = 'none';
+      } else {
+        container.style.transform = 'translateX(100%)';
+      }
+    };
+
+    launcher.addEventListener('click', function () {
+      if (isOpen) close(); else open();
+    });
+    closeButton.addEventListener('click', close);
+    container.addEventListener('click', function (event) {
+      if (event.target === container) close();
+    });
+    document.addEventListener('keydown', function (event) {
+      if (event.key === 'Escape' && isOpen) close();
+    });
+
+    var mount = function () {
+      document.body.appendChild(container);
+      document.body.appendChild(launcher);
+    };
+    if (document.body) mount(); else document.addEventListener('DOMContentLoaded', mount);
+
+    api.widgets[publicUrl] = { open: open, close: close };
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== appOrigin || event.source !== iframe.contentWindow) return;
+    var data = event.data;
+    if (!data || data.source !== MESSAGE_SOURCE) return;
+
+    if (data.event === 'height' && mode === 'inline') {
+      iframe.style.height = data.height + 'px';
+    }
+
+    var detail = {};
+    for (var key in data) {
+      if (key !== 'source' && key !== 'event') detail[key] = data[key];
+    }
+    window.dispatchEvent(new CustomEvent(MESSAGE_SOURCE + ':' + data.event, { detail: detail }));
+  });
+})();
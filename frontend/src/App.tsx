@@ -2,13 +2,22 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { WorkspaceProvider } from './contexts/WorkspaceContext';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import Dashboard from './pages/Dashboard';
 import CreateForm from './pages/CreateForm';
 import EditForm from './pages/EditForm';
 import FormResponses from './pages/FormResponses';
+import FormWebhooks from './pages/FormWebhooks';
+import FormCampaigns from './pages/FormCampaigns';
 import PublicForm from './pages/PublicForm';
+import Settings from './pages/Settings';
+import Team from './pages/Team';
+import AcceptInvitation from './pages/AcceptInvitation';
 import Layout from './components/Layout';
 
 // Protected Route Component
@@ -43,7 +52,11 @@ const AppRoutes: React.FC = () => {
       {/* Public routes */}
       <Route path="/login" element={user ? <Navigate to="/dashboard" replace /> : <Login />} />
       <Route path="/register" element={user ? <Navigate to="/dashboard" replace /> : <Register />} />
+      <Route path="/forgot-password" element={user ? <Navigate to="/dashboard" replace /> : <ForgotPassword />} />
+      <Route path="/reset-password/:token" element={<ResetPassword />} />
+      <Route path="/verify-email/:token" element={<VerifyEmail />} />
       <Route path="/form/:publicUrl" element={<PublicFormRoute />} />
+      <Route path="/invitations/:token" element={<AcceptInvitation />} />
       {/* Protected routes */}
       <Route path="/dashboard" element={
         <ProtectedRoute>
@@ -73,6 +86,34 @@ const AppRoutes: React.FC = () => {
           </Layout>
         </ProtectedRoute>
       } />
+      <Route path="/forms/:id/webhooks" element={
+        <ProtectedRoute>
+          <Layout>
+            <FormWebhooks />
+          </Layout>
+        </ProtectedRoute>
+      } />
+      <Route path="/forms/:id/campaigns" element={
+        <ProtectedRoute>
+          <Layout>
+            <FormCampaigns />
+          </Layout>
+        </ProtectedRoute>
+      } />
+      <Route path="/team" element={
+        <ProtectedRoute>
+          <Layout>
+            <Team />
+          </Layout>
+        </ProtectedRoute>
+      } />
+      <Route path="/settings" element={
+        <ProtectedRoute>
+          <Layout>
+            <Settings />
+          </Layout>
+        </ProtectedRoute>
+      } />
       {/* Default redirect */}
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
       <Route path="*" element={<Navigate to="/dashboard" replace />} />
@@ -83,35 +124,37 @@ const AppRoutes: React.FC = () => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <Router>
-        <div className="App">
-          <AppRoutes />
-          <Toaster
-            position="top-right"
-            toastOptions={{
-              duration: 4000,
-              style: {
-                background: '#363636',
-                color: '#fff',
-              },
-              success: {
-                duration: 3000,
-                iconTheme: {
-                  primary: '#10b981',
-                  secondary: '#fff',
+      <WorkspaceProvider>
+        <Router>
+          <div className="App">
+            <AppRoutes />
+            <Toaster
+              position="top-right"
+              toastOptions={{
+                duration: 4000,
+                style: {
+                  background: '#363636',
+                  color: '#fff',
+                },
+                success: {
+                  duration: 3000,
+                  iconTheme: {
+                    primary: '#10b981',
+                    secondary: '#fff',
+                  },
                 },
-              },
-              error: {
-                duration: 5000,
-                iconTheme: {
-                  primary: '#ef4444',
-                  secondary: '#fff',
+                error: {
+                  duration: 5000,
+                  iconTheme: {
+                    primary: '#ef4444',
+                    secondary: '#fff',
+                  },
                 },
-              },
-            }}
-          />
-        </div>
-      </Router>
+              }}
+            />
+          </div>
+        </Router>
+      </WorkspaceProvider>
     </AuthProvider>
   );
 };
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+interface AccountFormData {
+  businessName: string;
+  email: string;
+  currentPassword: string;
+}
+
+// Business name and email address; a new email address has to be verified
+const AccountCard: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    resetField,
+    formState: { errors },
+  } = useForm<AccountFormData>({
+    defaultValues: { businessName: user?.businessName || '', email: user?.email || '', currentPassword: '' },
+  });
+  const emailChanged = watch('email').trim().toLowerCase() !== user?.email;
+
+  const onSubmit = async (data: AccountFormData) => {
+    setSaving(true);
+    try {
+      const response = await authAPI.updateAccount({
+        businessName: data.businessName,
+        email: data.email,
+        currentPassword: emailChanged ? data.currentPassword : undefined,
+      });
+      updateUser(response.user);
+      resetField('currentPassword');
+      toast.success(response.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to update account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Account</h2>
+        <p className="card-description">Your business name and the email address you sign in with</p>
+      </div>
+      <form onSubmit={handleSubmit(onSubmit)} className="card-content space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <label htmlFor="accountBusinessName" className="block text-sm font-medium text-gray-700">
+              Business Name
+            </label>
+            <input
+              id="accountBusinessName"
+              type="text"
+              className={`input mt-1 ${errors.businessName ? 'border-red-500' : ''}`}
+              {...register('businessName', {
+                required: 'Business name is required',
+                minLength: {
+                  value: 2,
+                  message: 'Business name must be at least 2 characters',
+                },
+              })}
+            />
+            {errors.businessName && (
+              <p className="mt-1 text-sm text-red-600">{errors.businessName.message}</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="accountEmail" className="block text-sm font-medium text-gray-700">
+              Email Address
+              {user?.emailVerified === false && !emailChanged && (
+                <span className="ml-2 inline-flex rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-semibold text-yellow-800">
+                  Not verified
+                </span>
+              )}
+            </label>
+            <input
+              id="accountEmail"
+              type="email"
+              autoComplete="email"
+              className={`input mt-1 ${errors.email ? 'border-red-500' : ''}`}
+              {...register('email', {
+                required: 'Email is required',
+                pattern: {
+                  value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                  message: 'Invalid email address',
+                },
+              })}
+            />
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+            )}
+          </div>
+        </div>
+
+        {emailChanged && (
+          <div className="max-w-sm">
+            <label htmlFor="accountCurrentPassword" className="block text-sm font-medium text-gray-700">
+              Current Password
+            </label>
+            <input
+              id="accountCurrentPassword"
+              type="password"
+              autoComplete="current-password"
+              className={`input mt-1 ${errors.currentPassword ? 'border-red-500' : ''}`}
+              {...register('currentPassword', {
+                validate: (value) => !emailChanged || !!value || 'Enter your password to change your email address',
+              })}
+            />
+            {errors.currentPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.currentPassword.message}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">We will email the new address a link to verify it.</p>
+          </div>
+        )}
+
+        <button type="submit" disabled={saving} className="btn btn-primary btn-md">
+          {saving ? 'Saving...' : 'Save Account'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AccountCard;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { apiKeysAPI } from '../services/api';
+import { ApiKey, ApiKeyScope } from '../types';
+import { API_KEY_EXPIRY_OPTIONS, API_KEY_SCOPES, isExpired } from '../utils/apiKeys';
+
+interface ApiKeyFormData {
+  name: string;
+  scopes: ApiKeyScope[];
+  // Select value; empty never expires
+  expiresInDays: string;
+  rateLimit: number;
+}
+
+// Personal API keys for scripts that read forms and responses
+const ApiKeysCard: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  // Shown once, right after the key is created
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ApiKeyFormData>({
+    defaultValues: { name: '', scopes: ['forms:read', 'responses:read'], expiresInDays: '90', rateLimit: 60 },
+  });
+
+  useEffect(() => {
+    const fetchApiKeys = async () => {
+      try {
+        const response = await apiKeysAPI.getAll();
+        setApiKeys(response.apiKeys);
+      } catch (error: any) {
+        toast.error(error.response?.data?.message || 'Failed to load API keys');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchApiKeys();
+  }, []);
+
+  const onSubmit = async (data: ApiKeyFormData) => {
+    if (!data.scopes || data.scopes.length === 0) {
+      toast.error('Choose at least one scope');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await apiKeysAPI.create({
+        name: data.name,
+        scopes: data.scopes,
+        expiresInDays: data.expiresInDays ? Number(data.expiresInDays) : null,
+        rateLimit: data.rateLimit,
+      });
+      setApiKeys([response.apiKey, ...apiKeys]);
+      setNewToken(response.token);
+      reset();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    try {
+      await apiKeysAPI.revoke(apiKey._id);
+      setApiKeys(apiKeys.filter((key) => key._id !== apiKey._id));
+      toast.success('API key revoked');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to revoke API key');
+    }
+  };
+
+  const copyToken = () => {
+    if (!newToken) return;
+    navigator.clipboard.writeText(newToken);
+    toast.success('API key copied to clipboard!');
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">API Keys</h2>
+        <p className="card-description">
+          Let scripts read your forms and responses. Send a key as <code>Authorization: Bearer &lt;key&gt;</code>;
+          it can do what you can in each workspace, limited to its scopes.
+        </p>
+      </div>
+      <div className="card-content space-y-6">
+        {newToken && (
+          <div className="rounded-md border border-green-200 bg-green-50 p-4">
+            <p className="text-sm font-medium text-green-800">Copy your new API key now. It will not be shown again.</p>
+            <div className="mt-2 flex items-center space-x-2">
+              <code className="flex-1 break-all rounded bg-white px-2 py-1 text-xs text-gray-800">{newToken}</code>
+              <button type="button" onClick={copyToken} className="btn btn-outline btn-sm">
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => setNewToken(null)}
+              className="mt-2 text-xs text-green-700 hover:text-green-900"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label htmlFor="apiKeyName" className="block text-sm font-medium text-gray-700">
+                Name *
+              </label>
+              <input
+                id="apiKeyName"
+                type="text"
+                className={`input mt-1 ${errors.name ? 'border-red-500' : ''}`}
+                placeholder="e.g., Warehouse sync"
+                {...register('name', { required: 'Name is required' })}
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="apiKeyExpiry" className="block text-sm font-medium text-gray-700">
+                Expires After
+              </label>
+              <select id="apiKeyExpiry" className="input mt-1" {...register('expiresInDays')}>
+                {API_KEY_EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="apiKeyRateLimit" className="block text-sm font-medium text-gray-700">
+                Requests per Minute
+              </label>
+              <input
+                id="apiKeyRateLimit"
+                type="number"
+                min={1}
+                max={1000}
+                className="input mt-1"
+                {...register('rateLimit', { valueAsNumber: true, min: 1, max: 1000 })}
+              />
+            </div>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700">Scopes</legend>
+            <div className="mt-2 space-y-2">
+              {API_KEY_SCOPES.map((scope) => (
+                <label key={scope.value} className="flex items-start space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    value={scope.value}
+                    className="mt-0.5 h-4 w-4 text-primary-600"
+                    {...register('scopes')}
+                  />
+                  <span>
+                    {scope.label}
+                    <span className="block text-xs text-gray-500">{scope.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <button type="submit" disabled={creating} className="btn btn-primary btn-md">
+            <Plus className="h-4 w-4 mr-2" />
+            {creating ? 'Creating...' : 'Create API Key'}
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <div className="text-center py-6">
+            <KeyRound className="mx-auto h-10 w-10 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">No API keys yet</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border-t border-gray-200">
+            {apiKeys.map((apiKey) => (
+              <li key={apiKey._id} className="flex items-center justify-between py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {apiKey.name}
+                    <code className="ml-2 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">{apiKey.prefix}…</code>
+                    {isExpired(apiKey.expiresAt) && (
+                      <span className="ml-2 inline-flex rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-800">
+                        Expired
+                      </span>
+                    )}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {apiKey.scopes.join(', ')} · {apiKey.rateLimit}/min ·{' '}
+                    {apiKey.lastUsedAt
+                      ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                      : 'Never used'}
+                    {' · '}
+                    {apiKey.expiresAt
+                      ? `Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                      : 'Never expires'}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(apiKey)}
+                  className="ml-4 text-gray-400 hover:text-red-600"
+                  title="Revoke API key"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeysCard;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Controller, get, useFormContext } from 'react-hook-form';
+import { Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { uploadsAPI } from '../services/api';
+import { FONTS } from '../utils/branding';
+
+interface BrandingEditorProps {
+  // Path of the branding object in the surrounding form
+  name: string;
+  // Form-level branding falls back to the account branding when left blank
+  inherit?: boolean;
+}
+
+interface ImageFieldProps {
+  name: string;
+  label: string;
+  placeholder: string;
+}
+
+const ImageField: React.FC<ImageFieldProps> = ({ name, label, placeholder }) => {
+  const { register, setValue, watch } = useFormContext();
+  const [uploading, setUploading] = useState(false);
+  const url = watch(name);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const response = await uploadsAPI.uploadImage({ image: file });
+      setValue(name, response.url, { shouldDirty: true });
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to upload image');
+    } finally {
+      setUploading(false);
+      input.value = '';
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <div className="mt-1 flex items-center space-x-2">
+        {url && (
+          <img src={url} alt="" className="h-10 w-10 rounded border border-gray-200 object-contain" />
+        )}
+        <input
+          type="url"
+          className="input"
+          placeholder={placeholder}
+          {...register(name)}
+        />
+        <label className={`btn btn-outline btn-md cursor-pointer ${uploading ? 'opacity-50' : ''}`}>
+          <Upload className="h-4 w-4 mr-2" />
+          {uploading ? 'Uploading...' : 'Upload'}
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/gif,image/webp"
+            className="hidden"
+            disabled={uploading}
+            onChange={handleFile}
+          />
+        </label>
+        {url && (
+          <button
+            type="button"
+            onClick={() => setValue(name, '', { shouldDirty: true })}
+            className="text-gray-400 hover:text-red-600"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Edits logo, header image, colour and font for the account or a single form.
+const BrandingEditor: React.FC<BrandingEditorProps> = ({ name, inherit = false }) => {
+  const { register, control, formState: { errors } } = useFormContext();
+  const placeholder = inherit ? 'Use account default' : 'https://';
+  const colorError = get(errors, `${name}.primaryColor`);
+
+  return (
+    <div className="space-y-4">
+      <ImageField name={`${name}.logoUrl`} label="Logo" placeholder={placeholder} />
+      <ImageField name={`${name}.headerImageUrl`} label="Header Image" placeholder={placeholder} />
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Primary Colour</label>
+          <Controller
+            name={`${name}.primaryColor`}
+            control={control}
+            rules={{
+              pattern: { value: /^#[0-9a-f]{6}$/i, message: 'Use a hex colour such as #2563eb' },
+            }}
+            render={({ field }) => (
+              <div className="mt-1 flex items-center space-x-2">
+                <input
+                  type="color"
+                  className="h-10 w-12 cursor-pointer rounded border border-gray-300"
+                  value={field.value || '#2563eb'}
+                  onChange={field.onChange}
+                />
+                <input
+                  type="text"
+                  className={`input ${colorError ? 'border-red-500' : ''}`}
+                  placeholder={inherit ? 'Use account default' : 'Theme default'}
+                  value={field.value || ''}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                />
+              </div>
+            )}
+          />
+          {colorError && (
+            <p className="mt-1 text-sm text-red-600">{String(colorError.message)}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Font</label>
+          <select className="input mt-1" {...register(`${name}.fontFamily`)}>
+            <option value="">{inherit ? 'Use account default' : 'Default'}</option>
+            {FONTS.map((font) => (
+              <option key={font.value} value={font.value}>{font.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!inherit && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="showPoweredBy"
+            {...register(`${name}.showPoweredBy`)}
+            className="h-4 w-4 text-primary-600"
+          />
+          <label htmlFor="showPoweredBy" className="text-sm">
+            Show "Powered by Feedback Platform" on forms
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandingEditor;
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { BellRing, ChevronDown, ChevronRight, Send, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { campaignsAPI } from '../services/api';
+import { Campaign, CampaignRecipient, RecipientStatus } from '../types';
+import {
+  RECIPIENT_STATUSES,
+  countReached,
+  countRecipients,
+  countRemindable,
+} from '../utils/campaigns';
+
+interface CampaignCardProps {
+  campaign: Campaign;
+  canManage: boolean;
+  // Called after an action that changes the campaign's counts
+  onRefresh: () => void;
+  onDelete: (campaignId: string) => void;
+}
+
+const FUNNEL: RecipientStatus[] = ['sent', 'opened', 'started', 'completed'];
+
+// Latest progress of a recipient, for the recipients table
+const lastActivity = (recipient: CampaignRecipient) =>
+  recipient.completedAt || recipient.startedAt || recipient.openedAt || recipient.lastRemindedAt || recipient.sentAt;
+
+// A campaign with its progress funnel, delivery controls and recipient list.
+const CampaignCard: React.FC<CampaignCardProps> = ({ campaign, canManage, onRefresh, onDelete }) => {
+  const [recipients, setRecipients] = useState<CampaignRecipient[] | null>(null);
+  const [statusFilter, setStatusFilter] = useState<RecipientStatus | ''>('');
+  const [expanded, setExpanded] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const total = countRecipients(campaign.counts);
+  const remindable = countRemindable(campaign.counts);
+
+  const fetchRecipients = async (status: RecipientStatus | '') => {
+    try {
+      const response = await campaignsAPI.getById(campaign._id, { status: status || undefined });
+      setRecipients(response.recipients);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load recipients');
+    }
+  };
+
+  const toggleRecipients = () => {
+    if (!expanded) fetchRecipients(statusFilter);
+    setExpanded(!expanded);
+  };
+
+  const handleFilter = (status: RecipientStatus | '') => {
+    setStatusFilter(status);
+    fetchRecipients(status);
+  };
+
+  const handleDeliver = async (reminder: boolean) => {
+    if (reminder && !window.confirm(`Send a reminder to ${remindable} recipients who have not responded?`)) return;
+
+    setSending(true);
+    try {
+      const response = reminder
+        ? await campaignsAPI.remind(campaign._id)
+        : await campaignsAPI.send(campaign._id);
+      toast.success(response.message);
+      onRefresh();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to send emails');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this campaign? Its invite links will stop working.')) return;
+
+    try {
+      await campaignsAPI.delete(campaign._id);
+      onDelete(campaign._id);
+      toast.success('Campaign deleted');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete campaign');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex items-start justify-between">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 truncate">{campaign.name}</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {total} recipients · created {new Date(campaign.createdAt).toLocaleDateString()}
+              {campaign.lastRemindedAt && ` · last reminder ${new Date(campaign.lastRemindedAt).toLocaleString()}`}
+            </p>
+          </div>
+        </div>
+      </div>
+      <div className="card-content space-y-4">
+        {/* Funnel */}
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {FUNNEL.map((status) => {
+            const reached = countReached(campaign.counts, status);
+            return (
+              <div key={status} className="rounded-md bg-gray-50 p-3">
+                <p className="text-xs font-medium uppercase tracking-wider text-gray-500">
+                  {RECIPIENT_STATUSES[status].label}
+                </p>
+                <p className="mt-1 text-xl font-semibold text-gray-900">{reached}</p>
+                <p className="text-xs text-gray-500">
+                  {total > 0 ? Math.round((reached / total) * 100) : 0}%
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        {canManage && (
+          <div className="flex flex-wrap gap-2">
+            {campaign.counts.pending > 0 && (
+              <button
+                type="button"
+                onClick={() => handleDeliver(false)}
+                disabled={sending}
+                className="btn btn-primary btn-sm"
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Send {campaign.counts.pending} Invitations
+              </button>
+            )}
+            {remindable > 0 && (
+              <button
+                type="button"
+                onClick={() => handleDeliver(true)}
+                disabled={sending}
+                className="btn btn-outline btn-sm"
+              >
+                <BellRing className="h-4 w-4 mr-1" />
+                Remind {remindable} Non-Responders
+              </button>
+            )}
+            <button type="button" onClick={handleDelete} className="btn btn-outline btn-sm text-red-600">
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </button>
+          </div>
+        )}
+
+        {/* Recipients */}
+        <div>
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={toggleRecipients}
+              className="inline-flex items-center text-sm font-medium text-gray-900"
+            >
+              {expanded
+                ? <ChevronDown className="h-4 w-4 mr-1 text-gray-400" />
+                : <ChevronRight className="h-4 w-4 mr-1 text-gray-400" />}
+              Recipients
+            </button>
+            {expanded && (
+              <select
+                aria-label="Recipient status"
+                className="input w-auto"
+                value={statusFilter}
+                onChange={(event) => handleFilter(event.target.value as RecipientStatus | '')}
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(RECIPIENT_STATUSES) as RecipientStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {RECIPIENT_STATUSES[status].label} ({campaign.counts[status] || 0})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {expanded && recipients && (
+            recipients.length === 0 ? (
+              <p className="mt-2 text-sm text-gray-500">No recipients in this status.</p>
+            ) : (
+              <div className="mt-2 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      {campaign.fields.map((field) => (
+                        <th key={field} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {field}
+                        </th>
+                      ))}
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Activity</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reminders</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {recipients.map((recipient) => {
+                      const activity = lastActivity(recipient);
+                      return (
+                        <tr key={recipient._id}>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{recipient.email}</td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{recipient.name || '-'}</td>
+                          {campaign.fields.map((field) => (
+                            <td key={field} className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                              {recipient.fields?.[field] || '-'}
+                            </td>
+                          ))}
+                          <td className="px-4 py-2 whitespace-nowrap">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                              RECIPIENT_STATUSES[recipient.status].className
+                            }`}>
+                              {RECIPIENT_STATUSES[recipient.status].label}
+                            </span>
+                            {recipient.lastError && (
+                              <span className="ml-2 text-xs text-red-600" title={recipient.lastError}>
+                                Email failed
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                            {activity ? new Date(activity).toLocaleString() : '-'}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{recipient.reminderCount}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignCard;
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptchaConfig } from '../types';
+import { STUB_CAPTCHA_TOKEN, loadCaptcha } from '../utils/captcha';
+
+interface CaptchaWidgetProps {
+  config: CaptchaConfig;
+  // Called with the solved token, or undefined once it expires
+  onChange: (token?: string) => void;
+}
+
+// The CAPTCHA challenge on a public form. The stub provider is a plain
+// checkbox for development.
+const CaptchaWidget: React.FC<CaptchaWidgetProps> = ({ config, onChange }) => {
+  const container = useRef<HTMLDivElement>(null);
+  const [failed, setFailed] = useState(false);
+  const { provider, siteKey } = config;
+
+  useEffect(() => {
+    if (provider === 'stub' || !siteKey) return;
+
+    let cancelled = false;
+    loadCaptcha(provider)
+      .then((captcha) => {
+        if (cancelled || !container.current) return;
+        captcha.render(container.current, {
+          sitekey: siteKey,
+          callback: (token) => onChange(token),
+          'expired-callback': () => onChange(undefined),
+        });
+      })
+      .catch(() => setFailed(true));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, siteKey, onChange]);
+
+  if (provider === 'stub') {
+    return (
+      <label className="flex items-center space-x-2 text-sm">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-primary-600"
+          onChange={(event) => onChange(event.target.checked ? STUB_CAPTCHA_TOKEN : undefined)}
+        />
+        <span>I am not a robot</span>
+      </label>
+    );
+  }
+
+  if (failed) {
+    return <p className="text-sm text-red-600">The CAPTCHA could not be loaded. Please reload the page.</p>;
+  }
+
+  return <div ref={container} />;
+};
+
+export default CaptchaWidget;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+type Closing = 'deactivate' | 'delete';
+
+// Deactivating signs the account out until its next login; deleting removes
+// it with the workspaces nobody else uses
+const CloseAccountCard: React.FC = () => {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [closing, setClosing] = useState<Closing | null>(null);
+
+  const closeAccount = async (action: Closing) => {
+    if (!password) {
+      toast.error('Enter your password first');
+      return;
+    }
+    const question = action === 'delete'
+      ? 'Delete your account? Workspaces only you belong to are deleted with all their forms and responses. This cannot be undone.'
+      : 'Deactivate your account? You will be logged out everywhere until you log in again.';
+    if (!window.confirm(question)) {
+      return;
+    }
+
+    setClosing(action);
+    try {
+      const response = action === 'delete'
+        ? await authAPI.deleteAccount({ password })
+        : await authAPI.deactivate({ password });
+      toast.success(response.message);
+      logout();
+      navigate('/login');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || `Failed to ${action} your account`);
+      setClosing(null);
+    }
+  };
+
+  return (
+    <div className="card border-red-200">
+      <div className="card-header">
+        <h2 className="card-title">Deactivate or Delete Account</h2>
+        <p className="card-description">
+          A deactivated account is logged out everywhere and its API keys stop working until you log in again.
+          Deleting your account removes the workspaces only you belong to, with all their forms and responses,
+          and takes you out of the others.
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        <div className="max-w-sm">
+          <label htmlFor="closeAccountPassword" className="block text-sm font-medium text-gray-700">
+            Password
+          </label>
+          <input
+            id="closeAccountPassword"
+            type="password"
+            autoComplete="current-password"
+            className="input mt-1"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => closeAccount('deactivate')}
+            disabled={closing !== null}
+            className="btn btn-outline btn-md"
+          >
+            {closing === 'deactivate' ? 'Deactivating...' : 'Deactivate Account'}
+          </button>
+          <button
+            type="button"
+            onClick={() => closeAccount('delete')}
+            disabled={closing !== null}
+            className="btn btn-md bg-red-600 text-white hover:bg-red-700"
+          >
+            {closing === 'delete' ? 'Deleting...' : 'Delete Account'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CloseAccountCard;
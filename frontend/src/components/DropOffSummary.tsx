@@ -0,0 +1,53 @@
+import React from 'react';
+import { DropOff } from '../types';
+
+interface DropOffSummaryProps {
+  dropOff: DropOff;
+}
+
+// Where respondents left the form without submitting: the question each
+// abandoned partial response stopped at, as a share of all of them.
+const DropOffSummary: React.FC<DropOffSummaryProps> = ({ dropOff }) => {
+  const rows = [
+    ...dropOff.questions.map((question) => ({
+      key: question.questionId,
+      label: question.questionText,
+      count: question.count,
+    })),
+    ...(dropOff.notSubmitted > 0
+      ? [{ key: 'not-submitted', label: 'Answered everything but did not submit', count: dropOff.notSubmitted }]
+      : []),
+  ];
+  const percentage = (count: number) => Math.round((count / dropOff.totalPartials) * 100);
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">Drop-off</h3>
+        <p className="card-description">
+          {dropOff.totalPartials} unfinished {dropOff.totalPartials === 1 ? 'response' : 'responses'}, by the
+          question respondents stopped at
+        </p>
+      </div>
+      <div className="card-content">
+        <ul className="space-y-3">
+          {rows.map((row) => (
+            <li key={row.key}>
+              <div className="flex justify-between text-sm">
+                <span className="truncate text-gray-700">{row.label}</span>
+                <span className="ml-4 shrink-0 text-gray-500">
+                  {row.count} ({percentage(row.count)}%)
+                </span>
+              </div>
+              <div className="mt-1 h-2 w-full rounded-full bg-gray-200">
+                <div className="h-2 rounded-full bg-primary-600" style={{ width: `${percentage(row.count)}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default DropOffSummary;
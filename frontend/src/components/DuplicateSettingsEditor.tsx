@@ -0,0 +1,78 @@
+import React from 'react';
+import { Controller, useFormContext } from 'react-hook-form';
+import { DuplicateSettings, DuplicateStrategy } from '../types';
+import { DUPLICATE_STRATEGIES } from '../utils/duplicates';
+
+interface DuplicateFields {
+  settings: {
+    allowMultipleResponses: boolean;
+    duplicates: DuplicateSettings;
+  };
+}
+
+// Chooses how repeat responses are recognised when a form allows only one
+// response per person. Rendered inside the form settings card.
+const DuplicateSettingsEditor: React.FC = () => {
+  const { register, control, watch } = useFormContext<DuplicateFields>();
+  const allowMultiple = watch('settings.allowMultipleResponses');
+  const strategies = watch('settings.duplicates.strategies') || [];
+
+  if (allowMultiple) return null;
+
+  return (
+    <div className="ml-6 space-y-3">
+      <p className="text-sm text-gray-700">Recognise repeat responses by</p>
+      <Controller
+        control={control}
+        name="settings.duplicates.strategies"
+        render={({ field }) => (
+          <div className="space-y-2">
+            {DUPLICATE_STRATEGIES.map((strategy) => {
+              const selected: DuplicateStrategy[] = field.value || [];
+              return (
+                <label key={strategy.value} className="flex items-start space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5 h-4 w-4 text-primary-600"
+                    checked={selected.includes(strategy.value)}
+                    onChange={(event) =>
+                      field.onChange(
+                        event.target.checked
+                          ? [...selected, strategy.value]
+                          : selected.filter((value) => value !== strategy.value)
+                      )
+                    }
+                  />
+                  <span>
+                    {strategy.label}
+                    <span className="block text-xs text-gray-500">{strategy.description}</span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        )}
+      />
+      {strategies.includes('ip') && (
+        <div>
+          <label htmlFor="ipWindowHours" className="block text-sm font-medium text-gray-700">
+            Block the same IP address for (hours)
+          </label>
+          <input
+            id="ipWindowHours"
+            type="number"
+            min={1}
+            max={720}
+            className="input mt-1 w-32"
+            {...register('settings.duplicates.ipWindowHours', { valueAsNumber: true })}
+          />
+        </div>
+      )}
+      {strategies.length === 0 && (
+        <p className="text-xs text-yellow-700">Without a strategy, repeat responses are not detected.</p>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateSettingsEditor;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Copy, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Form } from '../types';
+import { EMBED_MODES, EmbedMode, buildEmbedCode } from '../utils/embed';
+
+interface EmbedCodeDialogProps {
+  form: Form;
+  onClose: () => void;
+}
+
+// Generates the snippet that puts a form on another website
+const EmbedCodeDialog: React.FC<EmbedCodeDialogProps> = ({ form, onClose }) => {
+  const [mode, setMode] = useState<EmbedMode>('inline');
+  const [buttonText, setButtonText] = useState('Feedback');
+  const [params, setParams] = useState('');
+
+  const code = buildEmbedCode({ publicUrl: form.publicUrl, mode, buttonText, params });
+
+  const copyCode = () => {
+    navigator.clipboard.writeText(code);
+    toast.success('Embed code copied to clipboard!');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="card relative w-full max-w-lg">
+        <div className="card-header">
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className="card-title">Embed Form</h2>
+              <p className="card-description">Add {form.title} to your website</p>
+            </div>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+        <div className="card-content space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700">Display</legend>
+            <div className="mt-2 space-y-2">
+              {EMBED_MODES.map((option) => (
+                <label key={option.value} className="flex items-start space-x-2 text-sm">
+                  <input
+                    type="radio"
+                    name="embedMode"
+                    value={option.value}
+                    checked={mode === option.value}
+                    onChange={() => setMode(option.value)}
+                    className="mt-0.5 h-4 w-4 text-primary-600"
+                  />
+                  <span>
+                    {option.label}
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {mode !== 'inline' && (
+            <div>
+              <label htmlFor="embedButtonText" className="block text-sm font-medium text-gray-700">
+                Button Text
+              </label>
+              <input
+                id="embedButtonText"
+                type="text"
+                className="input mt-1"
+                value={buttonText}
+                onChange={(event) => setButtonText(event.target.value)}
+              />
+            </div>
+          )}
+
+          {(form.hiddenFields || []).length > 0 && (
+            <div>
+              <label htmlFor="embedParams" className="block text-sm font-medium text-gray-700">
+                Hidden Field Values
+              </label>
+              <input
+                id="embedParams"
+                type="text"
+                className="input mt-1"
+                placeholder={(form.hiddenFields || []).map((name) => `${name}=...`).join('&')}
+                value={params}
+                onChange={(event) => setParams(event.target.value)}
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="embedCode" className="block text-sm font-medium text-gray-700">
+              Code
+            </label>
+            <textarea
+              id="embedCode"
+              readOnly
+              rows={4}
+              className="textarea mt-1 font-mono text-xs"
+              value={code}
+              onFocus={(event) => event.target.select()}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Paste it into your page's HTML. It reports feedback-platform:loaded, feedback-platform:submitted
+              and feedback-platform:height events on window.
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <button type="button" onClick={copyCode} className="btn btn-primary btn-md">
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Code
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmbedCodeDialog;
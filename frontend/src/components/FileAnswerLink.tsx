@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Paperclip } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { responsesAPI } from '../services/api';
+
+interface FileAnswerLinkProps {
+  responseId: string;
+  questionId: string;
+  name: string;
+}
+
+// Downloads the file answering a question. Links to files are signed and
+// short-lived, so one is only fetched when the file is opened.
+const FileAnswerLink: React.FC<FileAnswerLinkProps> = ({ responseId, questionId, name }) => {
+  const [loading, setLoading] = useState(false);
+
+  const download = async () => {
+    setLoading(true);
+    try {
+      const link = await responsesAPI.getFileLink(responseId, questionId);
+      window.location.assign(link.url);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to download the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={download}
+      disabled={loading}
+      className="inline-flex max-w-full items-center text-primary-600 hover:text-primary-500 disabled:opacity-50"
+      title={name}
+    >
+      <Paperclip className="mr-1 h-4 w-4 flex-shrink-0" />
+      <span className="truncate">{name}</span>
+    </button>
+  );
+};
+
+export default FileAnswerLink;
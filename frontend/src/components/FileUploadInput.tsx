@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { Paperclip, Upload, X } from 'lucide-react';
+import { uploadsAPI } from '../services/api';
+import { Question } from '../types';
+import { DEFAULT_FILE_SIZE_MB, FileValue, formatFileSize, matchesFileType } from '../utils/fileUploads';
+
+interface FileUploadInputProps {
+  question: Question;
+  // Unset in the editor's preview, where nothing can be uploaded
+  formId?: string;
+  value?: FileValue | null;
+  onChange: (value: FileValue | null) => void;
+  hasError: boolean;
+}
+
+// Uploads the chosen file straight away and holds its token as the answer
+const FileUploadInput: React.FC<FileUploadInputProps> = ({ question, formId, value, onChange, hasError }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const maxSizeMB = question.file?.maxSizeMB || DEFAULT_FILE_SIZE_MB;
+  const allowedTypes = question.file?.allowedTypes || [];
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !formId) return;
+
+    // Checked again by the API; this saves uploading files it would refuse
+    if (file.size > maxSizeMB * 1024 * 1024) {
+      setError(`Files must be ${maxSizeMB}MB or smaller`);
+      return;
+    }
+    if (!matchesFileType(file.type, allowedTypes)) {
+      setError('This question does not accept files of this type');
+      return;
+    }
+
+    setError(null);
+    setUploading(true);
+    try {
+      const uploaded = await uploadsAPI.uploadFile(formId, question._id, { file });
+      onChange({ token: uploaded.token, name: uploaded.name, size: uploaded.size });
+    } catch (uploadError: any) {
+      setError(uploadError.response?.data?.message || 'Failed to upload the file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div>
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept={allowedTypes.join(',') || undefined}
+        onChange={handleFile}
+      />
+      {value ? (
+        <div className="flex items-center justify-between rounded-md border border-gray-300 px-3 py-2 text-sm">
+          <span className="flex min-w-0 items-center text-gray-900">
+            <Paperclip className="mr-2 h-4 w-4 flex-shrink-0 text-gray-400" />
+            <span className="truncate">{value.name}</span>
+            {!!value.size && <span className="ml-2 flex-shrink-0 text-gray-500">{formatFileSize(value.size)}</span>}
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="ml-2 text-gray-400 hover:text-red-600"
+            title="Remove file"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={!formId || uploading}
+          className={`btn btn-outline btn-md ${hasError ? 'border-red-500' : ''}`}
+        >
+          {uploading ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600 mr-2"></div>
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          {uploading ? 'Uploading...' : 'Choose a file'}
+        </button>
+      )}
+      <p className="mt-1 text-xs text-gray-500">Up to {maxSizeMB}MB</p>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default FileUploadInput;
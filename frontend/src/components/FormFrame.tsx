@@ -0,0 +1,70 @@
+import React, { ReactNode } from 'react';
+import { Branding, FormTheme } from '../types';
+import { getBrandingStyle } from '../utils/branding';
+
+interface FormFrameProps {
+  theme?: FormTheme;
+  branding?: Branding;
+  title?: string;
+  description?: string;
+  // Fits the frame into a container instead of filling the page
+  compact?: boolean;
+  children: ReactNode;
+}
+
+// The themed and branded page around a public form. Shared by the public
+// form and the editor's live preview so both look the same.
+const FormFrame: React.FC<FormFrameProps> = ({
+  theme = 'light',
+  branding = {},
+  title,
+  description,
+  compact = false,
+  children,
+}) => {
+  return (
+    <div
+      className={`form-theme form-theme-${theme} ${
+        compact ? 'rounded-lg p-4' : 'min-h-screen py-12 px-4 sm:px-6 lg:px-8'
+      }`}
+      style={getBrandingStyle(branding)}
+    >
+      <div className="max-w-2xl mx-auto">
+        <div className="card overflow-hidden">
+          {branding.headerImageUrl && (
+            <img
+              src={branding.headerImageUrl}
+              alt=""
+              className={`w-full object-cover ${compact ? 'h-24' : 'h-40'}`}
+            />
+          )}
+          {(title || branding.logoUrl) && (
+            <div className="card-header text-center">
+              {branding.logoUrl && (
+                <img
+                  src={branding.logoUrl}
+                  alt="Logo"
+                  className="mx-auto mb-2 h-12 max-w-[12rem] object-contain"
+                />
+              )}
+              {title && <h1 className="card-title">{title}</h1>}
+              {description && (
+                <p className="card-description">{description}</p>
+              )}
+            </div>
+          )}
+          <div className={`card-content ${title || branding.logoUrl ? '' : 'pt-6'}`}>
+            {children}
+          </div>
+        </div>
+        {branding.showPoweredBy !== false && (
+          <p className="mt-6 text-center text-xs text-gray-500">
+            Powered by Feedback Platform
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FormFrame;
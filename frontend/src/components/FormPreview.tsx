@@ -0,0 +1,74 @@
+import React from 'react';
+import { useForm, useFormContext } from 'react-hook-form';
+import { Branding, FormSection, FormTheme } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import FormFrame from './FormFrame';
+import QuestionInput from './QuestionInput';
+import { QuestionDraft, cleanQuestion, getPages, sortBySection } from '../utils/questions';
+import { resolveBranding } from '../utils/branding';
+
+interface PreviewFields {
+  title: string;
+  description: string;
+  sections: FormSection[];
+  questions: QuestionDraft[];
+  settings: {
+    theme: FormTheme;
+    branding?: Branding;
+  };
+}
+
+// Live preview of the first page of the form being edited, with its theme
+// and branding applied.
+const FormPreview: React.FC = () => {
+  const { user } = useAuth();
+  const { watch } = useFormContext<PreviewFields>();
+  const { register, control } = useForm<any>();
+
+  const [title, description, sections = [], questions = [], settings] = watch([
+    'title',
+    'description',
+    'sections',
+    'questions',
+    'settings',
+  ]);
+  const [firstPage] = getPages(sortBySection(questions, sections).map(cleanQuestion), sections);
+  const branding = resolveBranding(user?.branding, settings?.branding);
+
+  return (
+    <FormFrame
+      theme={settings?.theme}
+      branding={branding}
+      title={title || 'Untitled form'}
+      description={description}
+      compact
+    >
+      <div className="space-y-6">
+        {firstPage.section && (
+          <h3 className="text-lg font-medium text-gray-900">{firstPage.section.title}</h3>
+        )}
+        {firstPage.questions.map((question) => (
+          <div key={question._id} className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              {question.text || 'Untitled question'}
+              {question.required && <span className="text-red-500 ml-1">*</span>}
+            </label>
+            <QuestionInput
+              question={question}
+              register={register}
+              control={control}
+              hasError={false}
+            />
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <button type="button" className="btn btn-brand btn-md">
+            {sections.length > 1 ? 'Next' : 'Submit Response'}
+          </button>
+        </div>
+      </div>
+    </FormFrame>
+  );
+};
+
+export default FormPreview;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Controller, useFormContext } from 'react-hook-form';
+import { QuestionDraft } from '../utils/questions';
+import { prefillParam } from '../utils/hiddenFields';
+
+interface HiddenFieldsFields {
+  hiddenFields: string[];
+  questions: QuestionDraft[];
+}
+
+// Edits the hidden fields captured from the public form's URL and lists the
+// parameters that prefill its questions.
+const HiddenFieldsEditor: React.FC = () => {
+  const { control, watch } = useFormContext<HiddenFieldsFields>();
+  const questions = watch('questions') || [];
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">URL Parameters</h2>
+        <p className="card-description">
+          Capture values such as a customer ID or campaign source from the form link
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        <div>
+          <label htmlFor="hiddenFields" className="block text-sm font-medium text-gray-700">
+            Hidden Fields
+          </label>
+          {/* Entries are kept as typed and trimmed on save */}
+          <Controller
+            control={control}
+            name="hiddenFields"
+            render={({ field }) => (
+              <input
+                id="hiddenFields"
+                type="text"
+                className="input mt-1"
+                placeholder="e.g., customer_id, plan, utm_source"
+                value={(field.value || []).join(',')}
+                onChange={(event) => field.onChange(event.target.value ? event.target.value.split(',') : [])}
+                onBlur={field.onBlur}
+              />
+            )}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Separate names with commas. Add them to the link as ?customer_id=42&amp;plan=pro; respondents
+            don't see them, and they are saved with each response. Campaign CSV columns with the same
+            names fill them in for invitees.
+          </p>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700">Prefill Questions</p>
+          <p className="mt-1 text-xs text-gray-500">
+            Add a question's parameter to the link to fill in its answer. Separate checkbox options with commas.
+          </p>
+          <ul className="mt-2 space-y-1">
+            {questions.map((question, index) => (
+              <li key={question._id} className="flex items-center justify-between text-sm">
+                <span className="truncate text-gray-700">{question.text || `Question ${index + 1}`}</span>
+                <code className="ml-4 rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                  {prefillParam(question._id)}=
+                </code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HiddenFieldsEditor;
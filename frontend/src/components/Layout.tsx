@@ -8,9 +8,14 @@ import {
   Settings, 
   LogOut,
   Menu,
-  X
+  X,
+  Users,
+  ShieldAlert
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { hasTwoFactor } from '../utils/twoFactor';
+import VerifyEmailBanner from './VerifyEmailBanner';
 
 interface LayoutProps {
   children: ReactNode;
@@ -18,6 +23,7 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { user, logout } = useAuth();
+  const { workspaces, currentWorkspace, switchWorkspace } = useWorkspace();
   const location = useLocation();
   const navigate = useNavigate();
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
@@ -31,8 +37,18 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { name: 'Dashboard', href: '/dashboard', icon: Home },
     { name: 'Create Form', href: '/forms/create', icon: Plus },
     { name: 'My Forms', href: '/dashboard', icon: FileText },
+    { name: 'Team', href: '/team', icon: Users },
+    { name: 'Settings', href: '/settings', icon: Settings },
   ];
 
+  // Form pages belong to a single workspace, so switching goes back to the list
+  const handleWorkspaceChange = (workspaceId: string) => {
+    switchWorkspace(workspaceId);
+    if (location.pathname.startsWith('/forms/')) {
+      navigate('/dashboard');
+    }
+  };
+
   const isActive = (href: string) => {
     return location.pathname === href;
   };
@@ -159,13 +175,41 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             <Menu className="h-6 w-6" />
           </button>
           <div className="flex flex-1 gap-x-4 self-stretch lg:gap-x-6">
-            <div className="flex flex-1"></div>
+            <div className="flex flex-1 items-center">
+              {workspaces.length > 0 && (
+                <select
+                  className="input max-w-xs"
+                  value={currentWorkspace?._id || ''}
+                  onChange={(e) => handleWorkspaceChange(e.target.value)}
+                  title="Workspace"
+                >
+                  {workspaces.map((workspace) => (
+                    <option key={workspace._id} value={workspace._id}>
+                      {workspace.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
           </div>
         </div>
 
         {/* Page content */}
         <main className="py-6">
           <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+            {user && user.emailVerified === false && <VerifyEmailBanner email={user.email} />}
+            {user && currentWorkspace?.requireTwoFactor && !hasTwoFactor(user) && (
+              <div className="mb-6 flex items-center rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                <ShieldAlert className="mr-2 h-5 w-5 flex-shrink-0" />
+                <p>
+                  {currentWorkspace.name} requires two-factor authentication.{' '}
+                  <Link to="/settings" className="font-medium underline hover:text-red-900">
+                    Turn it on in Settings
+                  </Link>{' '}
+                  to use its forms and responses.
+                </p>
+              </div>
+            )}
             {children}
           </div>
         </main>
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Controller, useFormContext } from 'react-hook-form';
+import { NotificationSettings } from '../types';
+import { NOTIFICATION_MODES } from '../utils/notifications';
+
+interface NotificationFields {
+  settings: {
+    requireEmail: boolean;
+    notifications: NotificationSettings;
+  };
+}
+
+// Edits who is emailed about new responses and whether respondents get a
+// copy of their answers.
+const NotificationsEditor: React.FC = () => {
+  const { register, control, watch } = useFormContext<NotificationFields>();
+  const mode = watch('settings.notifications.mode');
+  const requireEmail = watch('settings.requireEmail');
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Notifications</h2>
+        <p className="card-description">Get emailed when this form receives responses</p>
+      </div>
+      <div className="card-content space-y-4">
+        <div>
+          <label htmlFor="notificationMode" className="block text-sm font-medium text-gray-700">
+            New Responses
+          </label>
+          <select
+            id="notificationMode"
+            className="input mt-1"
+            {...register('settings.notifications.mode')}
+          >
+            {NOTIFICATION_MODES.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {mode !== 'off' && (
+          <div>
+            <label htmlFor="notificationRecipients" className="block text-sm font-medium text-gray-700">
+              Recipients
+            </label>
+            {/* Entries are kept as typed and trimmed on save */}
+            <Controller
+              control={control}
+              name="settings.notifications.recipients"
+              render={({ field }) => (
+                <input
+                  id="notificationRecipients"
+                  type="text"
+                  className="input mt-1"
+                  placeholder="Defaults to the form's creator"
+                  value={(field.value || []).join(',')}
+                  onChange={(event) => field.onChange(event.target.value ? event.target.value.split(',') : [])}
+                  onBlur={field.onBlur}
+                />
+              )}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Separate email addresses with commas. Only members of this workspace can be notified.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-start space-x-2">
+          <input
+            type="checkbox"
+            id="sendReceipts"
+            {...register('settings.notifications.sendReceipts')}
+            className="mt-0.5 h-4 w-4 text-primary-600"
+          />
+          <label htmlFor="sendReceipts" className="text-sm">
+            Email respondents a copy of their answers
+            {!requireEmail && (
+              <span className="block text-xs text-gray-500">
+                Only sent when email addresses are collected
+              </span>
+            )}
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationsEditor;
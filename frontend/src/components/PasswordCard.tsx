@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { authAPI } from '../services/api';
+
+interface PasswordFormData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+// Changing the password logs the account out on every other device
+const PasswordCard: React.FC = () => {
+  const [saving, setSaving] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<PasswordFormData>();
+  const newPassword = watch('newPassword');
+
+  const onSubmit = async (data: PasswordFormData) => {
+    setSaving(true);
+    try {
+      const response = await authAPI.changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      toast.success(response.message);
+      reset();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to change password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Password</h2>
+        <p className="card-description">Changing your password logs you out on your other devices.</p>
+      </div>
+      <form onSubmit={handleSubmit(onSubmit)} className="card-content space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">
+              Current Password
+            </label>
+            <input
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              className={`input mt-1 ${errors.currentPassword ? 'border-red-500' : ''}`}
+              {...register('currentPassword', { required: 'Current password is required' })}
+            />
+            {errors.currentPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.currentPassword.message}</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">
+              New Password
+            </label>
+            <input
+              id="newPassword"
+              type="password"
+              autoComplete="new-password"
+              className={`input mt-1 ${errors.newPassword ? 'border-red-500' : ''}`}
+              {...register('newPassword', {
+                required: 'New password is required',
+                minLength: {
+                  value: 6,
+                  message: 'Password must be at least 6 characters',
+                },
+              })}
+            />
+            {errors.newPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.newPassword.message}</p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700">
+              Confirm New Password
+            </label>
+            <input
+              id="confirmNewPassword"
+              type="password"
+              autoComplete="new-password"
+              className={`input mt-1 ${errors.confirmPassword ? 'border-red-500' : ''}`}
+              {...register('confirmPassword', {
+                required: 'Please confirm your new password',
+                validate: (value) => value === newPassword || 'Passwords do not match',
+              })}
+            />
+            {errors.confirmPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+        </div>
+
+        <button type="submit" disabled={saving} className="btn btn-primary btn-md">
+          {saving ? 'Saving...' : 'Change Password'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PasswordCard;
@@ -0,0 +1,306 @@
+import React, { useEffect } from 'react';
+import { useFormContext } from 'react-hook-form';
+import { Trash2, GripVertical, Plus, X } from 'lucide-react';
+import QuestionLogicEditor from './QuestionLogicEditor';
+import { FormSection } from '../types';
+import {
+  BRANCHING_TYPES,
+  CHOICE_TYPES,
+  QUESTION_TYPES,
+  QuestionDraft,
+  SCALE_DEFAULTS,
+} from '../utils/questions';
+import { END_OF_FORM } from '../utils/formLogic';
+import { DEFAULT_FILE_SIZE_MB, FILE_TYPE_PRESETS, MAX_FILE_SIZE_MB } from '../utils/fileUploads';
+
+interface QuestionEditorProps {
+  index: number;
+  onRemove: () => void;
+  canRemove: boolean;
+}
+
+interface QuestionFields {
+  sections: FormSection[];
+  questions: QuestionDraft[];
+}
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ index, onRemove, canRemove }) => {
+  const { register, watch, setValue } = useFormContext<QuestionFields>();
+  const type = watch(`questions.${index}.type`);
+  const options = watch(`questions.${index}.options`) || [];
+  const branches = watch(`questions.${index}.branches`) || [];
+  const laterQuestions = watch('questions').slice(index + 1);
+  const canBranch = BRANCHING_TYPES.includes(type);
+  const sections = watch('sections') || [];
+  const section = watch(`questions.${index}.section`);
+  const allowedTypes = watch(`questions.${index}.file.allowedTypes`) || [];
+  const sectionIndex = Math.max(0, sections.findIndex((s) => s._id === section));
+  const scaleDefaults = SCALE_DEFAULTS[type];
+  const needsOptions = CHOICE_TYPES.includes(type) && options.length === 0;
+
+  // Start choice questions with the two options they need at minimum
+  useEffect(() => {
+    if (needsOptions) {
+      setValue(`questions.${index}.options`, ['', '']);
+    }
+  }, [needsOptions, index, setValue]);
+
+  const addOption = () => {
+    setValue(`questions.${index}.options`, [...options, '']);
+  };
+
+  const toggleFileTypes = (types: string[], checked: boolean) => {
+    const others = allowedTypes.filter((allowed) => !types.includes(allowed));
+    setValue(`questions.${index}.file.allowedTypes`, checked ? [...others, ...types] : others);
+  };
+
+  const removeOption = (optionIndex: number) => {
+    setValue(
+      `questions.${index}.options`,
+      options.filter((_, i) => i !== optionIndex)
+    );
+    setValue(
+      `questions.${index}.branches`,
+      branches.filter((_, i) => i !== optionIndex)
+    );
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start space-x-3">
+        <div className="flex-shrink-0 mt-2">
+          <GripVertical className="h-5 w-5 text-gray-400" />
+        </div>
+        <div className="flex-1 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-900">
+              Question {index + 1}
+            </h3>
+            <button
+              type="button"
+              onClick={onRemove}
+              disabled={!canRemove}
+              className="text-red-400 hover:text-red-600 disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div>
+            <input
+              type="text"
+              className="input"
+              placeholder="Enter your question"
+              {...register(`questions.${index}.text` as const, {
+                required: 'Question text is required',
+              })}
+            />
+          </div>
+
+          <div className="flex items-center space-x-4">
+            <select
+              className="input max-w-xs"
+              {...register(`questions.${index}.type` as const)}
+            >
+              {QUESTION_TYPES.map((questionType) => (
+                <option key={questionType.value} value={questionType.value}>
+                  {questionType.label}
+                </option>
+              ))}
+            </select>
+            {sections.length > 0 && (
+              <select
+                className="input max-w-xs"
+                {...register(`questions.${index}.section` as const)}
+              >
+                {sections.map((s, i) => (
+                  <option key={s._id} value={s._id}>
+                    Page {i + 1}: {s.title || 'Untitled page'}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id={`required-${index}`}
+                {...register(`questions.${index}.required` as const)}
+                className="h-4 w-4 text-primary-600"
+              />
+              <label htmlFor={`required-${index}`} className="text-sm">
+                Required
+              </label>
+            </div>
+          </div>
+
+          {CHOICE_TYPES.includes(type) && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Options
+              </label>
+              <div className="space-y-2">
+                {options.map((_, optionIndex) => (
+                  <div key={optionIndex} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      className="input"
+                      placeholder={`Option ${optionIndex + 1}`}
+                      {...register(`questions.${index}.options.${optionIndex}` as const)}
+                    />
+                    {canBranch && (
+                      <select
+                        className="input max-w-[14rem]"
+                        title="After this answer"
+                        {...register(`questions.${index}.branches.${optionIndex}.goTo` as const)}
+                      >
+                        <option value="">Continue to next question</option>
+                        {laterQuestions.map((question, laterIndex) => (
+                          <option key={question._id} value={question._id}>
+                            Go to Q{index + laterIndex + 2}: {question.text || 'Untitled question'}
+                          </option>
+                        ))}
+                        {sections.slice(sectionIndex + 1).map((s, laterIndex) => (
+                          <option key={s._id} value={s._id}>
+                            Go to page {sectionIndex + laterIndex + 2}: {s.title || 'Untitled page'}
+                          </option>
+                        ))}
+                        <option value={END_OF_FORM}>End the form</option>
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => removeOption(optionIndex)}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={addOption}
+                className="btn btn-outline btn-sm"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Option
+              </button>
+            </div>
+          )}
+
+          {type === 'linear-scale' && scaleDefaults && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">From</label>
+                <select
+                  className="input mt-1"
+                  defaultValue={scaleDefaults.min}
+                  {...register(`questions.${index}.scale.min` as const, { valueAsNumber: true })}
+                >
+                  <option value={0}>0</option>
+                  <option value={1}>1</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">To</label>
+                <select
+                  className="input mt-1"
+                  defaultValue={scaleDefaults.max}
+                  {...register(`questions.${index}.scale.max` as const, { valueAsNumber: true })}
+                >
+                  {[2, 3, 4, 5, 6, 7, 8, 9, 10].map((value) => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              </div>
+              <input
+                type="text"
+                className="input"
+                placeholder="Label for lowest value (optional)"
+                {...register(`questions.${index}.scale.minLabel` as const)}
+              />
+              <input
+                type="text"
+                className="input"
+                placeholder="Label for highest value (optional)"
+                {...register(`questions.${index}.scale.maxLabel` as const)}
+              />
+            </div>
+          )}
+
+          {type === 'rating' && scaleDefaults && (
+            <div className="max-w-xs">
+              <label className="block text-sm font-medium text-gray-700">Number of stars</label>
+              <select
+                className="input mt-1"
+                defaultValue={scaleDefaults.max}
+                {...register(`questions.${index}.scale.max` as const, { valueAsNumber: true })}
+              >
+                {[3, 4, 5, 6, 7, 8, 9, 10].map((value) => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {type === 'number' && (
+            <div className="grid grid-cols-2 gap-4">
+              <input
+                type="number"
+                step="any"
+                className="input"
+                placeholder="Minimum (optional)"
+                {...register(`questions.${index}.limits.min` as const, { valueAsNumber: true })}
+              />
+              <input
+                type="number"
+                step="any"
+                className="input"
+                placeholder="Maximum (optional)"
+                {...register(`questions.${index}.limits.max` as const, { valueAsNumber: true })}
+              />
+            </div>
+          )}
+
+          {type === 'file' && (
+            <div className="space-y-3">
+              <div className="max-w-xs">
+                <label className="block text-sm font-medium text-gray-700">Largest file (MB)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_FILE_SIZE_MB}
+                  step="any"
+                  className="input mt-1"
+                  placeholder={String(DEFAULT_FILE_SIZE_MB)}
+                  {...register(`questions.${index}.file.maxSizeMB` as const, { valueAsNumber: true })}
+                />
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-700">Accepted files</span>
+                <div className="mt-1 flex flex-wrap gap-4">
+                  {FILE_TYPE_PRESETS.map((preset) => (
+                    <label key={preset.label} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-primary-600"
+                        checked={preset.types.every((allowed) => allowedTypes.includes(allowed))}
+                        onChange={(e) => toggleFileTypes(preset.types, e.target.checked)}
+                      />
+                      <span className="ml-2">{preset.label}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Leave all unchecked to accept any file.</p>
+              </div>
+            </div>
+          )}
+
+          <QuestionLogicEditor index={index} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,210 @@
+import React from 'react';
+import { Control, Controller, UseFormRegister } from 'react-hook-form';
+import { Star } from 'lucide-react';
+import { Question } from '../types';
+import FileUploadInput from './FileUploadInput';
+
+interface QuestionInputProps {
+  question: Question;
+  // Form that files are uploaded to; unset in the editor's preview
+  formId?: string;
+  register: UseFormRegister<any>;
+  control: Control<any>;
+  hasError: boolean;
+}
+
+const range = (min: number, max: number) =>
+  Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+// Renders the respondent-facing input for a question based on its type.
+// Values are registered as `question_<id>` on the surrounding form.
+const QuestionInput: React.FC<QuestionInputProps> = ({ question, formId, register, control, hasError }) => {
+  const name = `question_${question._id}`;
+  const requiredMessage = question.required ? 'This question is required' : false;
+  const errorClass = hasError ? 'border-red-500' : '';
+
+  switch (question.type) {
+    case 'short-text':
+      return (
+        <input
+          type="text"
+          className={`input ${errorClass}`}
+          placeholder="Enter your answer"
+          {...register(name, {
+            required: requiredMessage,
+            maxLength: { value: 500, message: 'Answer is too long' },
+          })}
+        />
+      );
+
+    case 'email':
+      return (
+        <input
+          type="email"
+          className={`input ${errorClass}`}
+          placeholder="name@example.com"
+          {...register(name, {
+            required: requiredMessage,
+            pattern: {
+              value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+              message: 'Invalid email address',
+            },
+          })}
+        />
+      );
+
+    case 'number':
+      return (
+        <input
+          type="number"
+          step="any"
+          className={`input max-w-xs ${errorClass}`}
+          placeholder="Enter a number"
+          {...register(name, {
+            required: requiredMessage,
+            min: question.limits?.min !== undefined
+              ? { value: question.limits.min, message: `Must be at least ${question.limits.min}` }
+              : undefined,
+            max: question.limits?.max !== undefined
+              ? { value: question.limits.max, message: `Must be at most ${question.limits.max}` }
+              : undefined,
+          })}
+        />
+      );
+
+    case 'date':
+      return (
+        <input
+          type="date"
+          className={`input max-w-xs ${errorClass}`}
+          {...register(name, { required: requiredMessage })}
+        />
+      );
+
+    case 'dropdown':
+      return (
+        <select
+          className={`input ${errorClass}`}
+          defaultValue=""
+          {...register(name, { required: question.required ? 'Please select an option' : false })}
+        >
+          <option value="">Select an option</option>
+          {question.options?.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+
+    case 'multiple-choice':
+    case 'checkboxes':
+      return (
+        <div className="space-y-2">
+          {question.options?.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center">
+              <input
+                type={question.type === 'checkboxes' ? 'checkbox' : 'radio'}
+                id={`${question._id}_${optionIndex}`}
+                value={option}
+                className="h-4 w-4 text-primary-600"
+                {...register(name, {
+                  required: question.required ? 'Please select an option' : false,
+                })}
+              />
+              <label
+                htmlFor={`${question._id}_${optionIndex}`}
+                className="ml-2 text-sm text-gray-700"
+              >
+                {option}
+              </label>
+            </div>
+          ))}
+        </div>
+      );
+
+    case 'linear-scale': {
+      const scale = question.scale || { min: 1, max: 10 };
+      return (
+        <div>
+          <div className="flex flex-wrap gap-2">
+            {range(scale.min, scale.max).map((value) => (
+              <label key={value} className="flex flex-col items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  value={value}
+                  className="h-4 w-4 text-primary-600"
+                  {...register(name, { required: requiredMessage })}
+                />
+                <span className="mt-1">{value}</span>
+              </label>
+            ))}
+          </div>
+          {(scale.minLabel || scale.maxLabel) && (
+            <div className="flex justify-between mt-1 text-xs text-gray-500">
+              <span>{scale.minLabel}</span>
+              <span>{scale.maxLabel}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case 'rating': {
+      const max = question.scale?.max || 5;
+      return (
+        <Controller
+          name={name}
+          control={control}
+          rules={{ required: requiredMessage }}
+          render={({ field }) => (
+            <div className="flex space-x-1">
+              {range(1, max).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => field.onChange(value)}
+                  className="text-yellow-400 hover:scale-110 transition-transform"
+                  title={`${value} of ${max}`}
+                >
+                  <Star
+                    className="h-7 w-7"
+                    fill={field.value >= value ? 'currentColor' : 'none'}
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+        />
+      );
+    }
+
+    case 'file':
+      return (
+        <Controller
+          name={name}
+          control={control}
+          rules={{ required: requiredMessage }}
+          render={({ field }) => (
+            <FileUploadInput
+              question={question}
+              formId={formId}
+              value={field.value}
+              onChange={field.onChange}
+              hasError={hasError}
+            />
+          )}
+        />
+      );
+
+    default:
+      return (
+        <textarea
+          className={`textarea ${errorClass}`}
+          placeholder="Enter your answer"
+          rows={3}
+          {...register(name, { required: requiredMessage })}
+        />
+      );
+  }
+};
+
+export default QuestionInput;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { Plus, X } from 'lucide-react';
+import { CHOICE_TYPES, QuestionDraft } from '../utils/questions';
+import { CONDITION_OPERATORS } from '../utils/formLogic';
+
+interface QuestionLogicEditorProps {
+  index: number;
+}
+
+interface QuestionFields {
+  questions: QuestionDraft[];
+}
+
+// Edits the conditions under which a question is shown. Conditions can only
+// refer to questions that come before this one.
+const QuestionLogicEditor: React.FC<QuestionLogicEditorProps> = ({ index }) => {
+  const { register, watch, control } = useFormContext<QuestionFields>();
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: `questions.${index}.logic.conditions` as const,
+  });
+  const questions = watch('questions');
+  const earlierQuestions = questions.slice(0, index);
+
+  if (earlierQuestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 border-t border-gray-100 pt-4">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Show this question only if
+        </label>
+        {fields.length > 1 && (
+          <select
+            className="input max-w-[12rem]"
+            defaultValue="all"
+            {...register(`questions.${index}.logic.match` as const)}
+          >
+            <option value="all">All conditions match</option>
+            <option value="any">Any condition matches</option>
+          </select>
+        )}
+      </div>
+
+      {fields.map((field, conditionIndex) => {
+        const condition = watch(`questions.${index}.logic.conditions.${conditionIndex}`);
+        const source = earlierQuestions.find((q) => q._id === condition?.questionId);
+        const operator = CONDITION_OPERATORS.find((o) => o.value === condition?.operator);
+
+        return (
+          <div key={field.id} className="flex items-center space-x-2">
+            <select
+              className="input"
+              {...register(`questions.${index}.logic.conditions.${conditionIndex}.questionId` as const)}
+            >
+              {earlierQuestions.map((question, questionIndex) => (
+                <option key={question._id} value={question._id}>
+                  Q{questionIndex + 1}: {question.text || 'Untitled question'}
+                </option>
+              ))}
+            </select>
+            <select
+              className="input"
+              {...register(`questions.${index}.logic.conditions.${conditionIndex}.operator` as const)}
+            >
+              {CONDITION_OPERATORS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {operator?.needsValue && (
+              source && CHOICE_TYPES.includes(source.type) ? (
+                <select
+                  className="input"
+                  {...register(`questions.${index}.logic.conditions.${conditionIndex}.value` as const)}
+                >
+                  <option value="">Select an option</option>
+                  {(source.options || []).filter(Boolean).map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="Value"
+                  {...register(`questions.${index}.logic.conditions.${conditionIndex}.value` as const)}
+                />
+              )
+            )}
+            <button
+              type="button"
+              onClick={() => remove(conditionIndex)}
+              className="text-gray-400 hover:text-red-600"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => append({ questionId: earlierQuestions[0]._id, operator: 'equals', value: '' })}
+        className="btn btn-outline btn-sm"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Condition
+      </button>
+    </div>
+  );
+};
+
+export default QuestionLogicEditor;
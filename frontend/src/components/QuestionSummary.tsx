@@ -0,0 +1,112 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { Payload } from 'recharts/types/component/DefaultTooltipContent';
+import { FormSummary } from '../types';
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
+// Questions with exactly one answer per response are shown as a pie chart
+const SINGLE_CHOICE_TYPES = ['multiple-choice', 'dropdown'];
+
+interface QuestionSummaryProps {
+  question: FormSummary['questions'][number];
+}
+
+// Summary card for one question: answer counts as a chart plus numeric, date
+// or word stats, depending on the question type.
+const QuestionSummary: React.FC<QuestionSummaryProps> = ({ question }) => {
+  const data = Object.entries(question.answers).map(([name, value]) => ({
+    name,
+    value,
+    percentage: question.percentages?.[name] ?? 0,
+  }));
+  const hasAnswers = data.some((entry) => entry.value > 0);
+  const formatTooltip = (value: number, name: string, item: Payload<number, string>) =>
+    [`${value} (${item.payload.percentage}%)`, 'Responses'];
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">
+          {question.questionText}
+          {question.retired && (
+            <span className="ml-2 inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+              Removed
+            </span>
+          )}
+        </h3>
+        <p className="card-description">
+          {question.totalAnswers} responses
+          {question.responseRate !== undefined && ` (${question.responseRate}% answered)`}
+          {question.stats?.average != null && ` · Average ${question.stats.average}`}
+          {question.stats?.min != null && ` · Min ${question.stats.min}`}
+          {question.stats?.max != null && ` · Max ${question.stats.max}`}
+          {question.stats?.nps !== undefined && ` · NPS ${question.stats.nps}`}
+          {question.stats?.earliest && ` · ${question.stats.earliest} to ${question.stats.latest}`}
+        </p>
+      </div>
+      <div className="card-content">
+        {hasAnswers && SINGLE_CHOICE_TYPES.includes(question.questionType) && (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie data={data.filter((entry) => entry.value > 0)} dataKey="value" nameKey="name" outerRadius={90}>
+                    {data.filter((entry) => entry.value > 0).map((entry, index) => (
+                      <Cell key={entry.name} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={formatTooltip} />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+            <ul className="space-y-2 self-center">
+              {data.map((entry) => (
+                <li key={entry.name} className="flex justify-between text-sm">
+                  <span className="text-gray-700">{entry.name}</span>
+                  <span className="text-gray-500">{entry.value} · {entry.percentage}%</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {hasAnswers && !SINGLE_CHOICE_TYPES.includes(question.questionType) && (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <Tooltip formatter={formatTooltip} />
+                <Bar dataKey="value" fill="#3B82F6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {question.words && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500">
+              {question.words.averageWords} words per answer on average · {question.words.totalWords} words in total
+            </p>
+            {question.words.topWords.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {question.words.topWords.map((entry) => (
+                  <span
+                    key={entry.word}
+                    className="inline-flex items-center rounded-full bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700"
+                  >
+                    {entry.word}
+                    <span className="ml-1 text-gray-500">{entry.count}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionSummary;
@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { responsesAPI } from '../services/api';
+import { Response, ResponseStatus, UserSummary, WorkspaceRole } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatAnswer } from '../utils/questions';
+import FileAnswerLink from './FileAnswerLink';
+import { can } from '../utils/permissions';
+import { SPAM_REASONS } from '../utils/spam';
+import { RESPONSE_STATUSES, getStatus, personId, personName } from '../utils/triage';
+
+interface ResponseDrawerProps {
+  responseId: string;
+  role?: WorkspaceRole;
+  // People in the form's workspace, who responses can be assigned to
+  members: UserSummary[];
+  // Called with the response after its triage changed
+  onUpdate: (response: Response) => void;
+  onClose: () => void;
+}
+
+// A response's full answers and details, with its status, tags, assignee and notes
+const ResponseDrawer: React.FC<ResponseDrawerProps> = ({ responseId, role, members, onUpdate, onClose }) => {
+  const { user } = useAuth();
+  const [response, setResponse] = useState<Response | null>(null);
+  const [tag, setTag] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canTriage = can(role, 'responses:triage');
+
+  useEffect(() => {
+    setResponse(null);
+    const fetchResponse = async () => {
+      try {
+        const result = await responsesAPI.getById(responseId);
+        setResponse(result.response);
+      } catch (error: any) {
+        toast.error(error.response?.data?.message || 'Failed to load response');
+        onClose();
+      }
+    };
+
+    fetchResponse();
+  }, [responseId, onClose]);
+
+  const applyUpdate = (updated: Response) => {
+    setResponse(updated);
+    onUpdate(updated);
+  };
+
+  const updateTriage = async (changes: { status?: ResponseStatus; tags?: string[]; assignee?: string | null }) => {
+    setSaving(true);
+    try {
+      const result = await responsesAPI.updateTriage(responseId, changes);
+      applyUpdate(result.response);
+    } catch (error: any) {
+      toast.error(error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || 'Failed to update response');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addTag = (event: React.FormEvent) => {
+    event.preventDefault();
+    const value = tag.trim();
+    if (!value || !response) return;
+    updateTriage({ tags: [...(response.tags || []), value] });
+    setTag('');
+  };
+
+  const removeTag = (value: string) => {
+    if (!response) return;
+    updateTriage({ tags: (response.tags || []).filter((current) => current !== value) });
+  };
+
+  const addNote = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!note.trim()) return;
+    setSaving(true);
+    try {
+      const result = await responsesAPI.addNote(responseId, { text: note });
+      applyUpdate(result.response);
+      setNote('');
+    } catch (error: any) {
+      toast.error(error.response?.data?.errors?.[0]?.msg || error.response?.data?.message || 'Failed to add note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteNote = async (noteId: string) => {
+    if (!window.confirm('Delete this note?')) return;
+    try {
+      const result = await responsesAPI.deleteNote(responseId, noteId);
+      applyUpdate(result.response);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete note');
+    }
+  };
+
+  const hiddenFields = Object.entries(response?.hiddenFields || {});
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative flex h-full w-full max-w-xl flex-col bg-white shadow-xl">
+        <div className="flex items-start justify-between border-b border-gray-200 px-6 py-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Response</h2>
+            {response && (
+              <p className="text-sm text-gray-500">
+                Submitted {new Date(response.submittedAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {!response ? (
+          <div className="flex flex-1 items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="flex-1 space-y-6 overflow-y-auto px-6 py-4">
+            {/* Triage */}
+            <section className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="responseStatus" className="block text-sm font-medium text-gray-700">
+                    Status
+                  </label>
+                  {canTriage ? (
+                    <select
+                      id="responseStatus"
+                      className="input mt-1"
+                      value={getStatus(response)}
+                      disabled={saving}
+                      onChange={(event) => updateTriage({ status: event.target.value as ResponseStatus })}
+                    >
+                      {Object.entries(RESPONSE_STATUSES).map(([value, { label }]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span
+                      className={`mt-1 inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${RESPONSE_STATUSES[getStatus(response)].className}`}
+                    >
+                      {RESPONSE_STATUSES[getStatus(response)].label}
+                    </span>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="responseAssignee" className="block text-sm font-medium text-gray-700">
+                    Assignee
+                  </label>
+                  {canTriage ? (
+                    <select
+                      id="responseAssignee"
+                      className="input mt-1"
+                      value={personId(response.assignee) || ''}
+                      disabled={saving}
+                      onChange={(event) => updateTriage({ assignee: event.target.value || null })}
+                    >
+                      <option value="">Unassigned</option>
+                      {members.map((member) => (
+                        <option key={member._id} value={member._id}>{member.businessName}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-900">
+                      {response.assignee ? personName(response.assignee, members) : 'Unassigned'}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700">Tags</span>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  {(response.tags || []).map((value) => (
+                    <span
+                      key={value}
+                      className="inline-flex items-center rounded-full bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700"
+                    >
+                      {value}
+                      {canTriage && (
+                        <button
+                          type="button"
+                          onClick={() => removeTag(value)}
+                          disabled={saving}
+                          className="ml-1 text-gray-500 hover:text-gray-700"
+                          title="Remove tag"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                  {!canTriage && !(response.tags || []).length && (
+                    <span className="text-sm text-gray-500">None</span>
+                  )}
+                  {canTriage && (
+                    <form onSubmit={addTag} className="flex items-center space-x-1">
+                      <input
+                        aria-label="New tag"
+                        type="text"
+                        className="input h-8 w-32 text-xs"
+                        placeholder="Add a tag"
+                        maxLength={50}
+                        value={tag}
+                        onChange={(event) => setTag(event.target.value)}
+                      />
+                      <button
+                        type="submit"
+                        disabled={saving || !tag.trim()}
+                        className="text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                        title="Add tag"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </button>
+                    </form>
+                  )}
+                </div>
+              </div>
+            </section>
+
+            {/* Answers */}
+            <section className="border-t border-gray-200 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900">Answers</h3>
+              <dl className="mt-2 space-y-3">
+                {response.answers.map((answer) => (
+                  <div key={answer.questionId}>
+                    <dt className="text-sm font-medium text-gray-700">{answer.questionText}</dt>
+                    <dd className="mt-1 whitespace-pre-wrap break-words text-sm text-gray-900">
+                      {answer.questionType === 'file' && answer.answer ? (
+                        <FileAnswerLink
+                          responseId={response._id}
+                          questionId={answer.questionId}
+                          name={formatAnswer(answer.answer)}
+                        />
+                      ) : (
+                        formatAnswer(answer.answer) || '-'
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+
+            {/* Details */}
+            <section className="border-t border-gray-200 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900">Details</h3>
+              <dl className="mt-2 grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                {response.submitterName && (
+                  <>
+                    <dt className="text-gray-500">Name</dt>
+                    <dd className="col-span-2 text-gray-900">{response.submitterName}</dd>
+                  </>
+                )}
+                {response.submitterEmail && (
+                  <>
+                    <dt className="text-gray-500">Email</dt>
+                    <dd className="col-span-2 break-all text-gray-900">{response.submitterEmail}</dd>
+                  </>
+                )}
+                <dt className="text-gray-500">Form version</dt>
+                <dd className="col-span-2 text-gray-900">v{response.formVersion || 1}</dd>
+                {hiddenFields.map(([name, value]) => (
+                  <React.Fragment key={name}>
+                    <dt className="text-gray-500">{name}</dt>
+                    <dd className="col-span-2 break-all text-gray-900">{value}</dd>
+                  </React.Fragment>
+                ))}
+                {response.spamReasons && response.spamReasons.length > 0 && (
+                  <>
+                    <dt className="text-gray-500">Spam checks</dt>
+                    <dd className="col-span-2 text-gray-900">
+                      {response.spamReasons.map((reason) => SPAM_REASONS[reason]).join(', ')}
+                    </dd>
+                  </>
+                )}
+                {response.ipAddress && (
+                  <>
+                    <dt className="text-gray-500">IP address</dt>
+                    <dd className="col-span-2 text-gray-900">{response.ipAddress}</dd>
+                  </>
+                )}
+                {response.userAgent && (
+                  <>
+                    <dt className="text-gray-500">Browser</dt>
+                    <dd className="col-span-2 break-words text-gray-900">{response.userAgent}</dd>
+                  </>
+                )}
+              </dl>
+            </section>
+
+            {/* Notes */}
+            <section className="border-t border-gray-200 pt-4">
+              <h3 className="text-sm font-semibold text-gray-900">Internal Notes</h3>
+              <p className="text-xs text-gray-500">Only your workspace sees these.</p>
+              <ul className="mt-3 space-y-3">
+                {(response.notes || []).map((item) => {
+                  const author = typeof item.author === 'object' ? item.author : undefined;
+                  const canDelete = canTriage && (author?.email === user?.email || can(role, 'workspace:manage'));
+                  return (
+                    <li key={item._id} className="rounded-md bg-gray-50 p-3">
+                      <div className="flex items-start justify-between">
+                        <p className="text-xs text-gray-500">
+                          <span className="font-medium text-gray-700">{personName(item.author, members)}</span>
+                          {' · '}
+                          {new Date(item.createdAt).toLocaleString()}
+                        </p>
+                        {canDelete && (
+                          <button
+                            type="button"
+                            onClick={() => deleteNote(item._id)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Delete note"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                      <p className="mt-1 whitespace-pre-wrap break-words text-sm text-gray-900">{item.text}</p>
+                    </li>
+                  );
+                })}
+                {!(response.notes || []).length && (
+                  <li className="text-sm text-gray-500">No notes yet.</li>
+                )}
+              </ul>
+              {canTriage && (
+                <form onSubmit={addNote} className="mt-3 space-y-2">
+                  <textarea
+                    aria-label="New note"
+                    rows={3}
+                    className="textarea"
+                    placeholder="Add a note for your team"
+                    maxLength={5000}
+                    value={note}
+                    onChange={(event) => setNote(event.target.value)}
+                  />
+                  <button type="submit" disabled={saving || !note.trim()} className="btn btn-primary btn-sm disabled:opacity-50">
+                    Add Note
+                  </button>
+                </form>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResponseDrawer;
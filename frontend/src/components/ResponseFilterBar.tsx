@@ -0,0 +1,338 @@
+import React, { useState, useEffect } from 'react';
+import { Filter, Plus, Search, X } from 'lucide-react';
+import { Form, ResponseFilters, ResponseStatus, UserSummary } from '../types';
+import { CHOICE_TYPES } from '../utils/questions';
+import { hasActiveFilters } from '../utils/responseFilters';
+import { RESPONSE_STATUSES } from '../utils/triage';
+
+interface ResponseFilterBarProps {
+  form: Form;
+  filters: ResponseFilters;
+  onChange: (filters: ResponseFilters) => void;
+  // Workspace members and the tags in use, for the triage filters
+  members: UserSummary[];
+  tags: string[];
+  // The signed-in user's member id, offered as "Assigned to me"
+  currentUserId?: string;
+}
+
+const NUMERIC_TYPES = ['linear-scale', 'rating', 'number'];
+// Prefix of hidden field names in the answer filter picker
+const FIELD_PREFIX = 'field:';
+
+// Search, date range, submitter, triage, answer and hidden field filters for a form's
+// responses. Text fields are applied on submit rather than on every keystroke.
+const ResponseFilterBar: React.FC<ResponseFilterBarProps> = ({
+  form,
+  filters,
+  onChange,
+  members,
+  tags,
+  currentUserId,
+}) => {
+  const [draft, setDraft] = useState<ResponseFilters>(filters);
+  const [questionId, setQuestionId] = useState('');
+  const [answerValue, setAnswerValue] = useState('');
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const hiddenFields = form.hiddenFields || [];
+  const fieldName = questionId.startsWith(FIELD_PREFIX) ? questionId.slice(FIELD_PREFIX.length) : null;
+  const question = form.questions.find((q) => q._id === questionId);
+  const answerFilters = Object.entries(filters.answer || {});
+  const fieldFilters = Object.entries(filters.field || {});
+
+  const applyDraft = (event: React.FormEvent) => {
+    event.preventDefault();
+    onChange({ ...filters, q: draft.q, email: draft.email, from: draft.from, to: draft.to });
+  };
+
+  const addAnswerFilter = () => {
+    if (!questionId || answerValue === '') return;
+    if (fieldName) {
+      onChange({ ...filters, field: { ...filters.field, [fieldName]: answerValue } });
+    } else {
+      onChange({ ...filters, answer: { ...filters.answer, [questionId]: answerValue } });
+    }
+    setQuestionId('');
+    setAnswerValue('');
+  };
+
+  const removeAnswerFilter = (id: string) => {
+    const answer = { ...filters.answer };
+    delete answer[id];
+    onChange({ ...filters, answer });
+  };
+
+  const removeFieldFilter = (name: string) => {
+    const field = { ...filters.field };
+    delete field[name];
+    onChange({ ...filters, field });
+  };
+
+  const clearFilters = () => {
+    onChange({ version: filters.version, sort: filters.sort, order: filters.order });
+  };
+
+  const questionText = (id: string) =>
+    form.questions.find((q) => q._id === id)?.text || 'Unknown question';
+
+  return (
+    <div className="card">
+      <div className="card-content space-y-4">
+        <form onSubmit={applyDraft} className="grid grid-cols-1 gap-4 md:grid-cols-5">
+          <div className="md:col-span-2">
+            <label htmlFor="filterSearch" className="block text-sm font-medium text-gray-700">
+              Search
+            </label>
+            <div className="relative mt-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <input
+                id="filterSearch"
+                type="text"
+                className="input pl-9"
+                placeholder="Search answers, names and emails"
+                value={draft.q || ''}
+                onChange={(event) => setDraft({ ...draft, q: event.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="filterEmail" className="block text-sm font-medium text-gray-700">
+              Submitter Email
+            </label>
+            <input
+              id="filterEmail"
+              type="text"
+              className="input mt-1"
+              placeholder="Any"
+              value={draft.email || ''}
+              onChange={(event) => setDraft({ ...draft, email: event.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="filterFrom" className="block text-sm font-medium text-gray-700">
+              From
+            </label>
+            <input
+              id="filterFrom"
+              type="date"
+              className="input mt-1"
+              value={draft.from || ''}
+              max={draft.to || undefined}
+              onChange={(event) => setDraft({ ...draft, from: event.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="filterTo" className="block text-sm font-medium text-gray-700">
+              To
+            </label>
+            <input
+              id="filterTo"
+              type="date"
+              className="input mt-1"
+              value={draft.to || ''}
+              min={draft.from || undefined}
+              onChange={(event) => setDraft({ ...draft, to: event.target.value })}
+            />
+          </div>
+          <div className="flex items-center space-x-2 md:col-span-5">
+            <button type="submit" className="btn btn-primary btn-sm">
+              <Filter className="h-4 w-4 mr-1" />
+              Apply Filters
+            </button>
+            {hasActiveFilters(filters) && (
+              <button type="button" onClick={clearFilters} className="btn btn-outline btn-sm">
+                Clear All
+              </button>
+            )}
+          </div>
+        </form>
+
+        {/* Triage filters */}
+        <div className="grid grid-cols-1 gap-4 border-t border-gray-200 pt-4 md:grid-cols-3">
+          <div>
+            <label htmlFor="filterStatus" className="block text-sm font-medium text-gray-700">
+              Status
+            </label>
+            <select
+              id="filterStatus"
+              className="input mt-1"
+              value={filters.status || ''}
+              onChange={(event) =>
+                onChange({ ...filters, status: (event.target.value as ResponseStatus) || undefined })
+              }
+            >
+              <option value="">Any</option>
+              {Object.entries(RESPONSE_STATUSES).map(([value, { label }]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filterAssignee" className="block text-sm font-medium text-gray-700">
+              Assignee
+            </label>
+            <select
+              id="filterAssignee"
+              className="input mt-1"
+              value={filters.assignee || ''}
+              onChange={(event) => onChange({ ...filters, assignee: event.target.value || undefined })}
+            >
+              <option value="">Anyone</option>
+              {currentUserId && <option value={currentUserId}>Assigned to me</option>}
+              <option value="none">Unassigned</option>
+              {members
+                .filter((member) => member._id !== currentUserId)
+                .map((member) => (
+                  <option key={member._id} value={member._id}>{member.businessName}</option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filterTag" className="block text-sm font-medium text-gray-700">
+              Tag
+            </label>
+            <select
+              id="filterTag"
+              className="input mt-1"
+              value={filters.tag || ''}
+              onChange={(event) => onChange({ ...filters, tag: event.target.value || undefined })}
+            >
+              <option value="">Any</option>
+              {tags.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Answer filters */}
+        <div className="flex flex-wrap items-end gap-2 border-t border-gray-200 pt-4">
+          <div>
+            <label htmlFor="filterQuestion" className="block text-sm font-medium text-gray-700">
+              Answer
+            </label>
+            <select
+              id="filterQuestion"
+              className="input mt-1"
+              value={questionId}
+              onChange={(event) => {
+                setQuestionId(event.target.value);
+                setAnswerValue('');
+              }}
+            >
+              <option value="">Choose a question</option>
+              {hiddenFields.length > 0 ? (
+                <>
+                  <optgroup label="Questions">
+                    {form.questions.map((q) => (
+                      <option key={q._id} value={q._id}>{q.text}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Hidden fields">
+                    {hiddenFields.map((name) => (
+                      <option key={name} value={`${FIELD_PREFIX}${name}`}>{name}</option>
+                    ))}
+                  </optgroup>
+                </>
+              ) : (
+                form.questions.map((q) => (
+                  <option key={q._id} value={q._id}>{q.text}</option>
+                ))
+              )}
+            </select>
+          </div>
+          {fieldName && (
+            <div>
+              <input
+                aria-label="Hidden field value"
+                type="text"
+                className="input"
+                placeholder="Equals"
+                value={answerValue}
+                onChange={(event) => setAnswerValue(event.target.value)}
+              />
+            </div>
+          )}
+          {question && (
+            <div>
+              {CHOICE_TYPES.includes(question.type) ? (
+                <select
+                  aria-label="Answer value"
+                  className="input"
+                  value={answerValue}
+                  onChange={(event) => setAnswerValue(event.target.value)}
+                >
+                  <option value="">Choose an option</option>
+                  {(question.options || []).map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  aria-label="Answer value"
+                  type={NUMERIC_TYPES.includes(question.type) ? 'number' : question.type === 'date' ? 'date' : 'text'}
+                  className="input"
+                  placeholder={NUMERIC_TYPES.includes(question.type) ? 'Equals' : 'Contains'}
+                  value={answerValue}
+                  onChange={(event) => setAnswerValue(event.target.value)}
+                />
+              )}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={addAnswerFilter}
+            disabled={!questionId || answerValue === ''}
+            className="btn btn-outline btn-md disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </button>
+        </div>
+
+        {(answerFilters.length > 0 || fieldFilters.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {answerFilters.map(([id, value]) => (
+              <span
+                key={id}
+                className="inline-flex items-center rounded-full bg-primary-50 px-3 py-1 text-xs font-medium text-primary-700"
+              >
+                {questionText(id)}: {value}
+                <button
+                  type="button"
+                  onClick={() => removeAnswerFilter(id)}
+                  className="ml-1 text-primary-500 hover:text-primary-700"
+                  title="Remove filter"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            {fieldFilters.map(([name, value]) => (
+              <span
+                key={name}
+                className="inline-flex items-center rounded-full bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700"
+              >
+                {name} = {value}
+                <button
+                  type="button"
+                  onClick={() => removeFieldFilter(name)}
+                  className="ml-1 text-gray-500 hover:text-gray-700"
+                  title="Remove filter"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResponseFilterBar;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { DEFAULT_CLOSED_MESSAGE } from '../utils/formLifecycle';
+
+interface ScheduleFields {
+  opensAt: string;
+  closesAt: string;
+  settings: {
+    maxResponses: number | string | null;
+    closedMessage: string;
+  };
+}
+
+// Edits when a form accepts responses: opening and closing times (as
+// datetime-local values), a response limit and the message shown once closed.
+const ScheduleEditor: React.FC = () => {
+  const { register, watch } = useFormContext<ScheduleFields>();
+  const opensAt = watch('opensAt');
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Schedule</h2>
+        <p className="card-description">Choose when the form accepts responses</p>
+      </div>
+      <div className="card-content space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label htmlFor="opensAt" className="block text-sm font-medium text-gray-700">
+              Opens At
+            </label>
+            <input id="opensAt" type="datetime-local" className="input mt-1" {...register('opensAt')} />
+          </div>
+          <div>
+            <label htmlFor="closesAt" className="block text-sm font-medium text-gray-700">
+              Closes At
+            </label>
+            <input
+              id="closesAt"
+              type="datetime-local"
+              className="input mt-1"
+              min={opensAt || undefined}
+              {...register('closesAt')}
+            />
+          </div>
+          <div>
+            <label htmlFor="maxResponses" className="block text-sm font-medium text-gray-700">
+              Response Limit
+            </label>
+            <input
+              id="maxResponses"
+              type="number"
+              min={1}
+              className="input mt-1"
+              placeholder="No limit"
+              {...register('settings.maxResponses')}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Leave these blank to accept responses until you close the form. Times are in your local time zone.
+        </p>
+
+        <div>
+          <label htmlFor="closedMessage" className="block text-sm font-medium text-gray-700">
+            Closed Message
+          </label>
+          <textarea
+            id="closedMessage"
+            className="textarea mt-1"
+            placeholder={DEFAULT_CLOSED_MESSAGE}
+            {...register('settings.closedMessage')}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleEditor;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { Plus, Trash2 } from 'lucide-react';
+import { FormSection } from '../types';
+import { QuestionDraft, createSection } from '../utils/questions';
+
+interface SectionFields {
+  sections: FormSection[];
+  questions: QuestionDraft[];
+}
+
+// Edits the pages of a multi-page form. Without any sections the form is
+// shown as a single page.
+const SectionsEditor: React.FC = () => {
+  const { register, control, getValues, setValue } = useFormContext<SectionFields>();
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'sections',
+  });
+
+  const addSection = () => {
+    // Turning a single-page form into pages needs a page for the existing questions
+    if (fields.length === 0) {
+      append([createSection(1), createSection(2)]);
+    } else {
+      append(createSection(fields.length + 1));
+    }
+  };
+
+  const removeSection = (index: number) => {
+    const removedId = getValues(`sections.${index}._id`);
+    getValues('questions').forEach((question, questionIndex) => {
+      if (question.section === removedId) {
+        setValue(`questions.${questionIndex}.section`, undefined);
+      }
+    });
+    // A single remaining page is the same as no pages
+    remove(fields.length === 2 ? undefined : index);
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Pages</h2>
+        <p className="card-description">
+          Split long forms into pages; respondents see a progress bar and move between pages
+        </p>
+      </div>
+      <div className="card-content">
+        <div className="space-y-4">
+          {fields.map((field, index) => (
+            <div key={field.id} className="border border-gray-200 rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-900">Page {index + 1}</h3>
+                <button
+                  type="button"
+                  onClick={() => removeSection(index)}
+                  className="text-red-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <input
+                type="text"
+                className="input"
+                placeholder="Page title"
+                {...register(`sections.${index}.title` as const, {
+                  required: 'Page title is required',
+                })}
+              />
+              <input
+                type="text"
+                className="input"
+                placeholder="Page description (optional)"
+                {...register(`sections.${index}.description` as const)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={addSection}
+          className="mt-4 btn btn-outline btn-md"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Page
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SectionsEditor;
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { LogOut, Monitor, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Session } from '../types';
+import { describeUserAgent } from '../utils/sessions';
+
+// The browsers signed in to the account, with a way to sign them out
+const SessionsCard: React.FC = () => {
+  const { logoutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await authAPI.getSessions();
+        setSessions(response.sessions);
+      } catch (error: any) {
+        toast.error(error.response?.data?.message || 'Failed to load sessions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      await authAPI.revokeSession(session._id);
+      setSessions(sessions.filter((item) => item._id !== session._id));
+      toast.success('Session ended');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to end session');
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Log out on every device, including this one?')) {
+      return;
+    }
+    try {
+      await logoutEverywhere();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to log out everywhere');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Sessions</h2>
+        <p className="card-description">
+          Browsers signed in to your account. Sessions that go unused for a while end on their own.
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border-t border-gray-200">
+            {sessions.map((session) => (
+              <li key={session._id} className="flex items-center justify-between py-3">
+                <div className="flex min-w-0 items-center">
+                  <Monitor className="mr-3 h-5 w-5 flex-shrink-0 text-gray-400" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 inline-flex rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                      Last active {new Date(session.lastUsedAt).toLocaleString()} · Signed in{' '}
+                      {new Date(session.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(session)}
+                    className="ml-4 text-gray-400 hover:text-red-600"
+                    title="End session"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button type="button" onClick={handleLogoutEverywhere} className="btn btn-outline btn-md">
+          <LogOut className="h-4 w-4 mr-2" />
+          Log Out Everywhere
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionsCard;
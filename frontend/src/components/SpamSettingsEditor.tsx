@@ -0,0 +1,49 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { SpamSettings } from '../types';
+
+interface SpamFields {
+  settings: {
+    spam: SpamSettings;
+  };
+}
+
+// Bot checks for the public form. Rendered inside the form settings card.
+const SpamSettingsEditor: React.FC = () => {
+  const { register } = useFormContext<SpamFields>();
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-4">
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="requireCaptcha"
+          {...register('settings.spam.captcha')}
+          className="h-4 w-4 text-primary-600"
+        />
+        <label htmlFor="requireCaptcha" className="text-sm">
+          Require respondents to solve a CAPTCHA
+        </label>
+      </div>
+
+      <div>
+        <label htmlFor="minFillSeconds" className="block text-sm font-medium text-gray-700">
+          Minimum fill time (seconds)
+        </label>
+        <input
+          id="minFillSeconds"
+          type="number"
+          min={0}
+          max={600}
+          className="input mt-1 w-32"
+          {...register('settings.spam.minFillSeconds', { valueAsNumber: true })}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Faster responses are held back as suspected spam until you review them.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SpamSettingsEditor;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Copy, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { TwoFactorSetup } from '../types';
+import { hasTwoFactor, normalizeCode } from '../utils/twoFactor';
+
+// Turning two-factor authentication on takes scanning a QR code into an
+// authenticator app and confirming a code from it; recovery codes are only
+// shown right after they are created
+const TwoFactorCard: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const enabled = !!user && hasTwoFactor(user);
+  const status = user && 'twoFactor' in user ? user.twoFactor : null;
+
+  // Picks up the new status for the rest of the app
+  const refreshProfile = async () => {
+    const profile = await authAPI.getProfile();
+    updateUser(profile.user);
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () => run(async () => {
+    setSetup(await authAPI.setupTwoFactor());
+    setCode('');
+  }, 'Failed to start setting up two-factor authentication');
+
+  const enable = (event: React.FormEvent) => {
+    event.preventDefault();
+    return run(async () => {
+      const response = await authAPI.enableTwoFactor({ code: normalizeCode(code) });
+      setSetup(null);
+      setRecoveryCodes(response.recoveryCodes);
+      toast.success(response.message);
+      await refreshProfile();
+    }, 'Failed to turn on two-factor authentication');
+  };
+
+  const requirePassword = () => {
+    if (!password) {
+      toast.error('Enter your password first');
+      return false;
+    }
+    return true;
+  };
+
+  const regenerate = () => {
+    if (!requirePassword()) return;
+    if (!window.confirm('Create new recovery codes? Your current ones will stop working.')) return;
+    return run(async () => {
+      const response = await authAPI.regenerateRecoveryCodes({ password });
+      setRecoveryCodes(response.recoveryCodes);
+      setPassword('');
+      toast.success(response.message);
+      await refreshProfile();
+    }, 'Failed to create new recovery codes');
+  };
+
+  const disable = () => {
+    if (!requirePassword()) return;
+    if (!window.confirm('Turn off two-factor authentication? Logging in will only need your password.')) return;
+    return run(async () => {
+      const response = await authAPI.disableTwoFactor({ password });
+      setRecoveryCodes([]);
+      setPassword('');
+      toast.success(response.message);
+      await refreshProfile();
+    }, 'Failed to turn off two-factor authentication');
+  };
+
+  const copyRecoveryCodes = () => {
+    navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success('Recovery codes copied to clipboard!');
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Two-Factor Authentication</h2>
+        <p className="card-description">
+          Logging in also asks for a code from an authenticator app on your phone, such as Google Authenticator,
+          1Password or Authy
+        </p>
+      </div>
+      <div className="card-content space-y-4">
+        {recoveryCodes.length > 0 && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4">
+            <p className="text-sm font-medium text-yellow-800">
+              Save these recovery codes somewhere safe. Each one logs you in once if you lose your phone,
+              and they will not be shown again.
+            </p>
+            <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 sm:grid-cols-5">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <div className="mt-3 flex items-center space-x-3">
+              <button type="button" onClick={copyRecoveryCodes} className="btn btn-outline btn-sm">
+                <Copy className="h-4 w-4 mr-1" />
+                Copy codes
+              </button>
+              <button type="button" onClick={() => setRecoveryCodes([])} className="btn btn-primary btn-sm">
+                I have saved them
+              </button>
+            </div>
+          </div>
+        )}
+
+        {enabled ? (
+          <>
+            <p className="flex items-center text-sm text-green-700">
+              <ShieldCheck className="mr-2 h-5 w-5" />
+              Two-factor authentication is on
+              {status?.enabledAt && ` since ${new Date(status.enabledAt).toLocaleDateString()}`}
+              {status && ` · ${status.recoveryCodesLeft} recovery codes left`}
+            </p>
+            <div className="max-w-sm">
+              <label htmlFor="twoFactorPassword" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <input
+                id="twoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                className="input mt-1"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-3">
+              <button type="button" onClick={regenerate} disabled={busy} className="btn btn-outline btn-md">
+                New Recovery Codes
+              </button>
+              <button
+                type="button"
+                onClick={disable}
+                disabled={busy}
+                className="btn btn-md bg-red-600 text-white hover:bg-red-700"
+              >
+                Turn Off
+              </button>
+            </div>
+          </>
+        ) : setup ? (
+          <form onSubmit={enable} className="space-y-4">
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+              <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-44 w-44 rounded border" />
+              <div className="space-y-2 text-sm text-gray-700">
+                <p>Scan the QR code with your authenticator app, or enter this key by hand:</p>
+                <p className="break-all rounded bg-gray-50 p-2 font-mono text-gray-900">{setup.secret}</p>
+              </div>
+            </div>
+            <div className="max-w-xs">
+              <label htmlFor="twoFactorSetupCode" className="block text-sm font-medium text-gray-700">
+                Code from the app
+              </label>
+              <input
+                id="twoFactorSetupCode"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className="input mt-1"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-3">
+              <button type="submit" disabled={busy || !code} className="btn btn-primary btn-md">
+                {busy ? 'Checking...' : 'Turn On'}
+              </button>
+              <button type="button" onClick={() => setSetup(null)} className="btn btn-outline btn-md">
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button type="button" onClick={startSetup} disabled={busy} className="btn btn-primary btn-md">
+            Set Up Two-Factor Authentication
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorCard;
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { authAPI } from '../services/api';
+
+interface VerifyEmailBannerProps {
+  email: string;
+}
+
+// Reminds users who have not followed their verification link yet
+const VerifyEmailBanner: React.FC<VerifyEmailBannerProps> = ({ email }) => {
+  const [sending, setSending] = useState(false);
+
+  const resend = async () => {
+    setSending(true);
+    try {
+      const response = await authAPI.resendVerification();
+      toast.success(response.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to send the verification link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex items-center justify-between rounded-md border border-yellow-200 bg-yellow-50 p-4">
+      <p className="flex items-center text-sm text-yellow-800">
+        <MailWarning className="mr-2 h-5 w-5 flex-shrink-0" />
+        Please verify {email} with the link we emailed you.
+      </p>
+      <button
+        type="button"
+        onClick={resend}
+        disabled={sending}
+        className="ml-4 text-sm font-medium text-yellow-800 hover:text-yellow-900 disabled:opacity-50"
+      >
+        {sending ? 'Sending...' : 'Resend link'}
+      </button>
+    </div>
+  );
+};
+
+export default VerifyEmailBanner;
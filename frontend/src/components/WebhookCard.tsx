@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronRight, Copy, Eye, EyeOff, RefreshCw, Send, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { webhooksAPI } from '../services/api';
+import { Webhook, WebhookDelivery } from '../types';
+import { getEventLabel } from '../utils/webhooks';
+
+interface WebhookCardProps {
+  webhook: Webhook;
+  onChange: (webhook: Webhook) => void;
+  onDelete: (webhookId: string) => void;
+}
+
+const STATUS_CLASSES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// A webhook subscription with its controls and recent delivery log.
+const WebhookCard: React.FC<WebhookCardProps> = ({ webhook, onChange, onDelete }) => {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [showSecret, setShowSecret] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await webhooksAPI.getDeliveries(webhook._id);
+      setDeliveries(response.deliveries);
+    } catch (error: any) {
+      toast.error('Failed to load deliveries');
+    }
+  }, [webhook._id]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const handleToggle = async () => {
+    try {
+      const response = await webhooksAPI.update(webhook._id, { isActive: !webhook.isActive });
+      onChange(response.webhook);
+      toast.success(response.webhook.isActive ? 'Webhook enabled' : 'Webhook disabled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update webhook');
+    }
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      const response = await webhooksAPI.sendTest(webhook._id);
+      const delivery: WebhookDelivery = response.delivery;
+      if (delivery.status === 'succeeded') {
+        toast.success(`Test event delivered (${delivery.responseStatus})`);
+      } else {
+        toast.error(`Test event failed: ${delivery.error}`);
+      }
+      fetchDeliveries();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to send test event');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Are you sure you want to delete this webhook?')) return;
+
+    try {
+      await webhooksAPI.delete(webhook._id);
+      onDelete(webhook._id);
+      toast.success('Webhook deleted');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete webhook');
+    }
+  };
+
+  const copySecret = () => {
+    navigator.clipboard.writeText(webhook.secret);
+    toast.success('Signing secret copied to clipboard!');
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <div className="flex items-start justify-between">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 truncate">{webhook.url}</h3>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {webhook.events.map((event) => (
+                <span key={event} className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                  {getEventLabel(event)}
+                </span>
+              ))}
+            </div>
+          </div>
+          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+            webhook.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {webhook.isActive ? 'Active' : 'Disabled'}
+          </span>
+        </div>
+      </div>
+      <div className="card-content space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Signing Secret</label>
+          <div className="mt-1 flex items-center space-x-2">
+            <code className="flex-1 truncate rounded bg-gray-50 px-3 py-2 text-sm text-gray-700">
+              {showSecret ? webhook.secret : '•'.repeat(32)}
+            </code>
+            <button
+              type="button"
+              onClick={() => setShowSecret(!showSecret)}
+              className="text-gray-400 hover:text-gray-600"
+              title={showSecret ? 'Hide secret' : 'Show secret'}
+            >
+              {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </button>
+            <button
+              type="button"
+              onClick={copySecret}
+              className="text-gray-400 hover:text-gray-600"
+              title="Copy secret"
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={handleTest}
+            disabled={testing}
+            className="btn btn-outline btn-sm"
+          >
+            <Send className="h-4 w-4 mr-1" />
+            {testing ? 'Sending...' : 'Send Test Event'}
+          </button>
+          <button type="button" onClick={handleToggle} className="btn btn-outline btn-sm">
+            {webhook.isActive ? 'Disable' : 'Enable'}
+          </button>
+          <button type="button" onClick={handleDelete} className="btn btn-outline btn-sm text-red-600">
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </button>
+        </div>
+
+        {/* Delivery log */}
+        <div>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900">Recent Deliveries</h4>
+            <button
+              type="button"
+              onClick={fetchDeliveries}
+              className="text-gray-400 hover:text-gray-600"
+              title="Refresh"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No deliveries yet.</p>
+          ) : (
+            <table className="mt-2 min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Response</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sent</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {deliveries.map((delivery) => (
+                  <React.Fragment key={delivery._id}>
+                    <tr
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedId(expandedId === delivery._id ? null : delivery._id)}
+                    >
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                        <span className="inline-flex items-center">
+                          {expandedId === delivery._id
+                            ? <ChevronDown className="h-4 w-4 mr-1 text-gray-400" />
+                            : <ChevronRight className="h-4 w-4 mr-1 text-gray-400" />}
+                          {delivery.event === 'webhook.test' ? 'Test event' : getEventLabel(delivery.event)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_CLASSES[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{delivery.attempts}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {delivery.responseStatus || delivery.error || '-'}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(delivery.lastAttemptAt || delivery.createdAt).toLocaleString()}
+                      </td>
+                    </tr>
+                    {expandedId === delivery._id && (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-3 bg-gray-50 space-y-2">
+                          {delivery.status === 'pending' && (
+                            <p className="text-xs text-gray-500">
+                              Next attempt {new Date(delivery.nextAttemptAt).toLocaleString()}
+                            </p>
+                          )}
+                          {delivery.error && (
+                            <p className="text-xs text-red-600">{delivery.error}</p>
+                          )}
+                          <p className="text-xs font-medium text-gray-700">Payload</p>
+                          <pre className="max-h-64 overflow-auto rounded bg-white p-2 text-xs text-gray-700">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                          {delivery.responseBody && (
+                            <>
+                              <p className="text-xs font-medium text-gray-700">
+                                Response{delivery.durationMs !== undefined && ` (${delivery.durationMs} ms)`}
+                              </p>
+                              <pre className="max-h-32 overflow-auto rounded bg-white p-2 text-xs text-gray-700">
+                                {delivery.responseBody}
+                              </pre>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WebhookCard;
@@ -1,12 +1,18 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User } from '../types';
+import { SessionUser, User } from '../types';
 import { authAPI } from '../services/api';
+import { onSessionExpired, setAccessToken } from '../services/http';
+
+// Login returns the session's user; the profile is the full user
+type AuthUser = User | SessionUser;
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   token: string | null;
-  login: (token: string, user: User) => void;
+  login: (token: string, user: AuthUser) => void;
   logout: () => void;
+  logoutEverywhere: () => Promise<void>;
+  updateUser: (user: AuthUser) => void;
   loading: boolean;
 }
 
@@ -25,28 +31,41 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const clearSession = () => {
+    setAccessToken(null);
+    localStorage.removeItem('user');
+    localStorage.removeItem('workspaceId');
+    setToken(null);
+    setUser(null);
+  };
+
   useEffect(() => {
+    // Tokens were kept in localStorage before sessions used a cookie
+    localStorage.removeItem('token');
+    onSessionExpired(clearSession);
+
     const initializeAuth = async () => {
-      const storedToken = localStorage.getItem('token');
+      // Only browsers that were signed in have a session to pick up
       const storedUser = localStorage.getItem('user');
 
-      if (storedToken && storedUser) {
+      if (storedUser) {
         try {
-          setToken(storedToken);
-          setUser(JSON.parse(storedUser));
-          
-          // Verify token is still valid
-          await authAPI.getProfile();
+          const session = await authAPI.refresh();
+          setAccessToken(session.token);
+          setToken(session.token);
+          setUser(session.user);
+
+          // Pick up profile changes
+          const profile = await authAPI.getProfile();
+          setUser(profile.user);
+          localStorage.setItem('user', JSON.stringify(profile.user));
         } catch (error) {
-          // Token is invalid, clear storage
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
-          setToken(null);
-          setUser(null);
+          // The session has ended
+          clearSession();
         }
       }
       setLoading(false);
@@ -55,18 +74,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
-  const login = (newToken: string, newUser: User) => {
-    localStorage.setItem('token', newToken);
+  const login = (newToken: string, newUser: AuthUser) => {
+    setAccessToken(newToken);
     localStorage.setItem('user', JSON.stringify(newUser));
     setToken(newToken);
     setUser(newUser);
   };
 
   const logout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    setToken(null);
-    setUser(null);
+    // The app signs out even if the API cannot be reached
+    authAPI.logout().catch(() => {});
+    clearSession();
+  };
+
+  const logoutEverywhere = async () => {
+    await authAPI.logoutAll();
+    clearSession();
+  };
+
+  const updateUser = (updatedUser: AuthUser) => {
+    localStorage.setItem('user', JSON.stringify(updatedUser));
+    setUser(updatedUser);
   };
 
   const value: AuthContextType = {
@@ -74,6 +102,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     token,
     login,
     logout,
+    logoutEverywhere,
+    updateUser,
     loading,
   };
 
@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { WorkspaceSummary } from '../types';
+import { workspacesAPI } from '../services/api';
+import { useAuth } from './AuthContext';
+
+interface WorkspaceContextType {
+  workspaces: WorkspaceSummary[];
+  currentWorkspace: WorkspaceSummary | null;
+  switchWorkspace: (workspaceId: string) => void;
+  refreshWorkspaces: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+}
+
+// Tracks the workspace the signed-in user is working in. Its id is kept in
+// localStorage, from where the API client sends it with every request.
+export const WorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const userEmail = user?.email;
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(localStorage.getItem('workspaceId'));
+
+  const switchWorkspace = useCallback((workspaceId: string) => {
+    localStorage.setItem('workspaceId', workspaceId);
+    setCurrentId(workspaceId);
+  }, []);
+
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const response = await workspacesAPI.getAll();
+      const list: WorkspaceSummary[] = response.workspaces;
+      setWorkspaces(list);
+
+      // Fall back to the first workspace if the stored one is gone
+      const storedId = localStorage.getItem('workspaceId');
+      const nextId = list.some((workspace) => workspace._id === storedId) ? storedId : list[0]?._id;
+      if (nextId) {
+        switchWorkspace(nextId);
+      }
+    } catch (error) {
+      setWorkspaces([]);
+    }
+  }, [switchWorkspace]);
+
+  useEffect(() => {
+    if (userEmail) {
+      refreshWorkspaces();
+    } else {
+      setWorkspaces([]);
+      setCurrentId(null);
+    }
+  }, [userEmail, refreshWorkspaces]);
+
+  const value: WorkspaceContextType = {
+    workspaces,
+    currentWorkspace: workspaces.find((workspace) => workspace._id === currentId) || null,
+    switchWorkspace,
+    refreshWorkspaces,
+  };
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
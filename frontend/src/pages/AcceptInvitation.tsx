@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { workspacesAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { WorkspaceRole } from '../types';
+import { ROLES } from '../utils/permissions';
+
+interface InvitationDetails {
+  workspaceName: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+}
+
+const AcceptInvitation: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { refreshWorkspaces, switchWorkspace } = useWorkspace();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const response = await workspacesAPI.getInvitation(token!);
+        setInvitation(response.invitation);
+      } catch (error: any) {
+        setInvitation(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      fetchInvitation();
+    }
+  }, [token]);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    try {
+      const response = await workspacesAPI.acceptInvitation(token!);
+      await refreshWorkspaces();
+      switchWorkspace(response.workspace._id);
+      toast.success(`You joined ${response.workspace.name}`);
+      navigate('/dashboard');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to accept invitation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <AlertCircle className="mx-auto h-12 w-12 text-red-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Invitation not found</h3>
+          <p className="mt-1 text-sm text-gray-500">This invitation may have expired or been revoked.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const redirect = encodeURIComponent(`/invitations/${token}`);
+  const roleLabel = ROLES.find((role) => role.value === invitation.role)?.label;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="card max-w-md w-full">
+        <div className="card-header text-center">
+          <Users className="mx-auto h-12 w-12 text-primary-600" />
+          <h1 className="card-title">Join {invitation.workspaceName}</h1>
+          <p className="card-description">
+            {invitation.email} has been invited as {roleLabel}
+          </p>
+        </div>
+        <div className="card-content space-y-4">
+          {user ? (
+            user.email === invitation.email ? (
+              <button
+                onClick={handleAccept}
+                disabled={accepting}
+                className="btn btn-primary btn-md w-full"
+              >
+                {accepting ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                ) : (
+                  'Accept Invitation'
+                )}
+              </button>
+            ) : (
+              <p className="text-sm text-gray-500 text-center">
+                You are signed in as {user.email}. Sign in as {invitation.email} to accept this invitation.
+              </p>
+            )
+          ) : (
+            <div className="flex flex-col space-y-2">
+              <Link to={`/login?redirect=${redirect}`} className="btn btn-primary btn-md">
+                Sign in to accept
+              </Link>
+              <Link to={`/register?redirect=${redirect}`} className="btn btn-outline btn-md">
+                Create an account
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
@@ -1,18 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, FileText, BarChart3, Share2, Eye, Edit, Trash2 } from 'lucide-react';
+import { Plus, FileText, BarChart3, Share2, Code, Eye, Edit, Trash2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { formsAPI } from '../services/api';
 import { Form } from '../types';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { can } from '../utils/permissions';
+import { FORM_STATES } from '../utils/formLifecycle';
+import EmbedCodeDialog from '../components/EmbedCodeDialog';
 
 const Dashboard: React.FC = () => {
   const [forms, setForms] = useState<Form[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [embedForm, setEmbedForm] = useState<Form | null>(null);
+  const { currentWorkspace } = useWorkspace();
+  const workspaceId = currentWorkspace?._id;
+  const canEdit = can(currentWorkspace?.role, 'forms:write');
 
+  // Forms are listed per workspace, so wait until one is selected
   useEffect(() => {
-    fetchForms();
-  }, []);
+    if (workspaceId) {
+      fetchForms();
+    }
+  }, [workspaceId]);
 
   const fetchForms = async () => {
     try {
@@ -26,7 +37,7 @@ const Dashboard: React.FC = () => {
   };
 
   const handleDeleteForm = async (formId: string) => {
-    if (window.confirm('Are you sure you want to delete this form?')) {
+    if (window.confirm('Are you sure you want to delete this form? Its responses and uploaded files are deleted with it.')) {
       try {
         await formsAPI.delete(formId);
         toast.success('Form deleted successfully');
@@ -64,15 +75,17 @@ const Dashboard: React.FC = () => {
             Manage your feedback forms and view responses
           </p>
         </div>
-        <div className="mt-4 sm:mt-0">
-          <Link
-            to="/forms/create"
-            className="btn btn-primary btn-md"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Create New Form
-          </Link>
-        </div>
+        {canEdit && (
+          <div className="mt-4 sm:mt-0">
+            <Link
+              to="/forms/create"
+              className="btn btn-primary btn-md"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Create New Form
+            </Link>
+          </div>
+        )}
       </div>
 
       {/* Search */}
@@ -109,9 +122,9 @@ const Dashboard: React.FC = () => {
                 <BarChart3 className="h-8 w-8 text-green-600" />
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-500">Active Forms</p>
+                <p className="text-sm font-medium text-gray-500">Open Forms</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {forms.filter(f => f.isActive).length}
+                  {forms.filter(f => f.state === 'open').length}
                 </p>
               </div>
             </div>
@@ -148,18 +161,22 @@ const Dashboard: React.FC = () => {
             <div className="text-center py-12">
               <FileText className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">No forms</h3>
-              <p className="mt-1 text-sm text-gray-500">
-                Get started by creating your first feedback form.
-              </p>
-              <div className="mt-6">
-                <Link
-                  to="/forms/create"
-                  className="btn btn-primary btn-md"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Create Form
-                </Link>
-              </div>
+              {canEdit && (
+                <>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Get started by creating your first feedback form.
+                  </p>
+                  <div className="mt-6">
+                    <Link
+                      to="/forms/create"
+                      className="btn btn-primary btn-md"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create Form
+                    </Link>
+                  </div>
+                </>
+              )}
             </div>
           ) : (
             <div className="overflow-hidden">
@@ -199,12 +216,8 @@ const Dashboard: React.FC = () => {
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          form.isActive
-                            ? 'bg-green-100 text-green-800'
-                            : 'bg-red-100 text-red-800'
-                        }`}>
-                          {form.isActive ? 'Active' : 'Inactive'}
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${FORM_STATES[form.state].className}`}>
+                          {FORM_STATES[form.state].label}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -222,6 +235,13 @@ const Dashboard: React.FC = () => {
                           >
                             <Share2 className="h-4 w-4" />
                           </button>
+                          <button
+                            onClick={() => setEmbedForm(form)}
+                            className="text-gray-400 hover:text-gray-600"
+                            title="Embed form"
+                          >
+                            <Code className="h-4 w-4" />
+                          </button>
                           <Link
                             to={`/forms/${form._id}/responses`}
                             className="text-gray-400 hover:text-gray-600"
@@ -229,20 +249,24 @@ const Dashboard: React.FC = () => {
                           >
                             <Eye className="h-4 w-4" />
                           </Link>
-                          <Link
-                            to={`/forms/${form._id}/edit`}
-                            className="text-gray-400 hover:text-gray-600"
-                            title="Edit form"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Link>
-                          <button
-                            onClick={() => handleDeleteForm(form._id)}
-                            className="text-gray-400 hover:text-red-600"
-                            title="Delete form"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {canEdit && (
+                            <>
+                              <Link
+                                to={`/forms/${form._id}/edit`}
+                                className="text-gray-400 hover:text-gray-600"
+                                title="Edit form"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Link>
+                              <button
+                                onClick={() => handleDeleteForm(form._id)}
+                                className="text-gray-400 hover:text-red-600"
+                                title="Delete form"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -253,6 +277,8 @@ const Dashboard: React.FC = () => {
           )}
         </div>
       </div>
+
+      {embedForm && <EmbedCodeDialog form={embedForm} onClose={() => setEmbedForm(null)} />}
     </div>
   );
 };
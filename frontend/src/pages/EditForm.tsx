@@ -1,20 +1,62 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useForm, useFieldArray } from 'react-hook-form';
-import { Plus, Trash2, GripVertical, CheckSquare, Type, Save } from 'lucide-react';
+import { useForm, useFieldArray, useWatch, FormProvider } from 'react-hook-form';
+import { AlertTriangle, Plus, Save } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { formsAPI } from '../services/api';
-import { Form, Question } from '../types';
+import { Branding, DuplicateSettings, Form, FormSection, FormStatus, FormTheme, NotificationSettings, SpamSettings } from '../types';
+import QuestionEditor from '../components/QuestionEditor';
+import SectionsEditor from '../components/SectionsEditor';
+import BrandingEditor from '../components/BrandingEditor';
+import NotificationsEditor from '../components/NotificationsEditor';
+import ScheduleEditor from '../components/ScheduleEditor';
+import DuplicateSettingsEditor from '../components/DuplicateSettingsEditor';
+import SpamSettingsEditor from '../components/SpamSettingsEditor';
+import HiddenFieldsEditor from '../components/HiddenFieldsEditor';
+import FormPreview from '../components/FormPreview';
+import { THEMES } from '../utils/branding';
+import { DEFAULT_NOTIFICATIONS, cleanNotifications } from '../utils/notifications';
+import { DEFAULT_DUPLICATES } from '../utils/duplicates';
+import { DEFAULT_SPAM_SETTINGS } from '../utils/spam';
+import { cleanHiddenFields, validateHiddenFields } from '../utils/hiddenFields';
+import { getBreakingChanges } from '../utils/formVersions';
+import {
+  FORM_STATES,
+  fromLocalInput,
+  getStatusOptions,
+  toLocalInput,
+  toMaxResponses,
+} from '../utils/formLifecycle';
+import {
+  QuestionDraft,
+  cleanQuestion,
+  createQuestion,
+  sortBySection,
+  toDraft,
+  validateQuestions,
+} from '../utils/questions';
 
 interface EditFormData {
   title: string;
   description: string;
-  questions: Omit<Question, '_id'>[];
-  isActive: boolean;
+  sections: FormSection[];
+  questions: QuestionDraft[];
+  hiddenFields: string[];
+  status: FormStatus;
+  // datetime-local values
+  opensAt: string;
+  closesAt: string;
   settings: {
     allowMultipleResponses: boolean;
+    duplicates: DuplicateSettings;
+    spam: SpamSettings;
     requireEmail: boolean;
-    theme: 'light' | 'dark' | 'blue' | 'green';
+    saveProgress: boolean;
+    theme: FormTheme;
+    branding: Branding;
+    notifications: NotificationSettings;
+    maxResponses: number | string | null;
+    closedMessage: string;
   };
 }
 
@@ -25,20 +67,27 @@ const EditForm: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
+  const methods = useForm<EditFormData>();
   const {
     register,
     control,
     handleSubmit,
-    watch,
     reset,
     formState: { errors },
-  } = useForm<EditFormData>();
+  } = methods;
 
   const { fields, append, remove } = useFieldArray({
     control,
     name: 'questions',
   });
 
+  // Edits that existing responses no longer fit; saving keeps those
+  // responses under the previous version
+  const watchedQuestions = useWatch({ control, name: 'questions' });
+  const breakingChanges = form?.responseCount && watchedQuestions
+    ? getBreakingChanges(form.questions, watchedQuestions.map(cleanQuestion))
+    : [];
+
   useEffect(() => {
     if (id) {
       fetchForm();
@@ -55,15 +104,22 @@ const EditForm: React.FC = () => {
       reset({
         title: formData.title,
         description: formData.description || '',
-        questions: formData.questions.map((q:Question) => ({
-          text: q.text,
-          type: q.type,
-          options: q.options || [],
-          required: q.required,
-          order: q.order,
-        })),
-        isActive: formData.isActive,
-        settings: formData.settings,
+        sections: formData.sections || [],
+        questions: formData.questions.map(toDraft),
+        hiddenFields: formData.hiddenFields || [],
+        status: formData.status,
+        opensAt: toLocalInput(formData.opensAt),
+        closesAt: toLocalInput(formData.closesAt),
+        settings: {
+          ...formData.settings,
+          branding: formData.settings.branding || {},
+          notifications: formData.settings.notifications || DEFAULT_NOTIFICATIONS,
+          duplicates: formData.settings.duplicates || DEFAULT_DUPLICATES,
+          spam: formData.settings.spam || DEFAULT_SPAM_SETTINGS,
+          maxResponses: formData.settings.maxResponses ?? '',
+          closedMessage: formData.settings.closedMessage || '',
+          saveProgress: !!formData.settings.saveProgress,
+        },
       });
     } catch (error: any) {
       toast.error('Failed to load form');
@@ -74,13 +130,7 @@ const EditForm: React.FC = () => {
   };
 
   const addQuestion = () => {
-    append({
-      text: '',
-      type: 'text',
-      options: [],
-      required: false,
-      order: fields.length + 1,
-    });
+    append(createQuestion(fields.length + 1));
   };
 
   const removeQuestion = (index: number) => {
@@ -90,29 +140,43 @@ const EditForm: React.FC = () => {
   };
 
   const onSubmit = async (data: EditFormData) => {
+    if (breakingChanges.length > 0 && !window.confirm(
+      `These changes affect the ${form?.responseCount} existing responses, which will stay with the current ` +
+      'version of the form. Publish a new version?'
+    )) {
+      return;
+    }
+
     setSaving(true);
     try {
-      // Validate questions
-      if (data.questions.length === 0) {
-        toast.error('At least one question is required');
+      const questions = sortBySection(data.questions, data.sections).map(cleanQuestion);
+      const questionError = validateQuestions(questions);
+      if (questionError) {
+        toast.error(questionError);
         return;
       }
 
-      // Validate multiple-choice questions have options
-      for (let i = 0; i < data.questions.length; i++) {
-        const question = data.questions[i];
-        if (question.type === 'multiple-choice' && (!question.options || question.options.length < 2)) {
-          toast.error(`Multiple-choice question "${question.text || `Question ${i + 1}`}" must have at least 2 options`);
-          return;
-        }
-        if (!question.text.trim()) {
-          toast.error(`Question ${i + 1} text is required`);
-          return;
-        }
+      const hiddenFields = cleanHiddenFields(data.hiddenFields);
+      const hiddenFieldError = validateHiddenFields(hiddenFields);
+      if (hiddenFieldError) {
+        toast.error(hiddenFieldError);
+        return;
       }
 
-      await formsAPI.update(id!, data);
-      toast.success('Form updated successfully!');
+      const settings = {
+        ...data.settings,
+        notifications: cleanNotifications(data.settings.notifications),
+        maxResponses: toMaxResponses(data.settings.maxResponses),
+      };
+      const result = await formsAPI.update(id!, {
+        ...data,
+        questions,
+        hiddenFields,
+        settings,
+        opensAt: fromLocalInput(data.opensAt),
+        closesAt: fromLocalInput(data.closesAt),
+      });
+      toast.success(result.message || 'Form updated successfully!');
       navigate('/dashboard');
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Failed to update form');
@@ -147,251 +211,240 @@ const EditForm: React.FC = () => {
         </p>
       </div>
 
-      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-        {/* Form Details */}
-        <div className="card">
-          <div className="card-header">
-            <h2 className="card-title">Form Details</h2>
-            <p className="card-description">Basic information about your form</p>
-          </div>
-          <div className="card-content space-y-4">
-            <div>
-              <label htmlFor="title" className="block text-sm font-medium text-gray-700">
-                Form Title *
-              </label>
-              <input
-                id="title"
-                type="text"
-                className={`input mt-1 ${errors.title ? 'border-red-500' : ''}`}
-                placeholder="Enter form title"
-                {...register('title', {
-                  required: 'Form title is required',
-                  minLength: {
-                    value: 3,
-                    message: 'Title must be at least 3 characters',
-                  },
-                })}
-              />
-              {errors.title && (
-                <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
-              )}
+      <FormProvider {...methods}>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {/* Form Details */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Form Details</h2>
+              <p className="card-description">Basic information about your form</p>
             </div>
+            <div className="card-content space-y-4">
+              <div>
+                <label htmlFor="title" className="block text-sm font-medium text-gray-700">
+                  Form Title *
+                </label>
+                <input
+                  id="title"
+                  type="text"
+                  className={`input mt-1 ${errors.title ? 'border-red-500' : ''}`}
+                  placeholder="Enter form title"
+                  {...register('title', {
+                    required: 'Form title is required',
+                    minLength: {
+                      value: 3,
+                      message: 'Title must be at least 3 characters',
+                    },
+                  })}
+                />
+                {errors.title && (
+                  <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+                )}
+              </div>
 
-            <div>
-              <label htmlFor="description" className="block text-sm font-medium text-gray-700">
-                Description
-              </label>
-              <textarea
-                id="description"
-                className="textarea mt-1"
-                placeholder="Enter form description (optional)"
-                {...register('description')}
-              />
-            </div>
+              <div>
+                <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                  Description
+                </label>
+                <textarea
+                  id="description"
+                  className="textarea mt-1"
+                  placeholder="Enter form description (optional)"
+                  {...register('description')}
+                />
+              </div>
 
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id="isActive"
-                {...register('isActive')}
-                className="h-4 w-4 text-primary-600"
-              />
-              <label htmlFor="isActive" className="text-sm">
-                Form is active (can receive responses)
-              </label>
+              <div>
+                <label htmlFor="status" className="block text-sm font-medium text-gray-700">
+                  Status
+                  <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${FORM_STATES[form.state].className}`}>
+                    Currently {FORM_STATES[form.state].label.toLowerCase()}
+                  </span>
+                </label>
+                <select id="status" className="input mt-1" {...register('status')}>
+                  {getStatusOptions(form.status).map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
-        </div>
 
-        {/* Questions */}
-        <div className="card">
-          <div className="card-header">
-            <h2 className="card-title">Questions</h2>
-            <p className="card-description">Edit questions in your form</p>
-          </div>
-          <div className="card-content">
-            <div className="space-y-4">
-              {fields.map((field, index) => (
-                <div key={field.id} className="border border-gray-200 rounded-lg p-4">
-                  <div className="flex items-start space-x-3">
-                    <div className="flex-shrink-0 mt-2">
-                      <GripVertical className="h-5 w-5 text-gray-400" />
-                    </div>
-                    <div className="flex-1 space-y-4">
-                      <div className="flex items-center justify-between">
-                        <h3 className="text-sm font-medium text-gray-900">
-                          Question {index + 1}
-                        </h3>
-                        <button
-                          type="button"
-                          onClick={() => removeQuestion(index)}
-                          disabled={fields.length === 1}
-                          className="text-red-400 hover:text-red-600 disabled:opacity-50"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      </div>
-
-                      <div>
-                        <input
-                          type="text"
-                          className="input"
-                          placeholder="Enter your question"
-                          {...register(`questions.${index}.text` as const, {
-                            required: 'Question text is required',
-                          })}
-                        />
-                      </div>
-
-                      <div className="flex items-center space-x-4">
-                        <div className="flex items-center space-x-2">
-                          <input
-                            type="radio"
-                            id={`text-${index}`}
-                            value="text"
-                            {...register(`questions.${index}.type` as const)}
-                            className="h-4 w-4 text-primary-600"
-                          />
-                          <label htmlFor={`text-${index}`} className="flex items-center text-sm">
-                            <Type className="h-4 w-4 mr-1" />
-                            Text
-                          </label>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <input
-                            type="radio"
-                            id={`multiple-${index}`}
-                            value="multiple-choice"
-                            {...register(`questions.${index}.type` as const)}
-                            className="h-4 w-4 text-primary-600"
-                          />
-                          <label htmlFor={`multiple-${index}`} className="flex items-center text-sm">
-                            <CheckSquare className="h-4 w-4 mr-1" />
-                            Multiple Choice
-                          </label>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <input
-                            type="checkbox"
-                            id={`required-${index}`}
-                            {...register(`questions.${index}.required` as const)}
-                            className="h-4 w-4 text-primary-600"
-                          />
-                          <label htmlFor={`required-${index}`} className="text-sm">
-                            Required
-                          </label>
-                        </div>
-                      </div>
-
-                      {watch(`questions.${index}.type`) === 'multiple-choice' && (
-                        <div className="space-y-2">
-                          <label className="block text-sm font-medium text-gray-700">
-                            Options
-                          </label>
-                          <div className="space-y-2">
-                            {[0, 1, 2, 3].map((optionIndex) => (
-                              <input
-                                key={optionIndex}
-                                type="text"
-                                className="input"
-                                placeholder={`Option ${optionIndex + 1}`}
-                                {...register(`questions.${index}.options.${optionIndex}` as const)}
-                              />
-                            ))}
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))}
+          {/* Pages */}
+          <SectionsEditor />
+
+          {/* Questions */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Questions</h2>
+              <p className="card-description">Edit questions in your form</p>
             </div>
+            <div className="card-content">
+              <div className="space-y-4">
+                {fields.map((field, index) => (
+                  <QuestionEditor
+                    key={field.id}
+                    index={index}
+                    onRemove={() => removeQuestion(index)}
+                    canRemove={fields.length > 1}
+                  />
+                ))}
+              </div>
 
-            <button
-              type="button"
-              onClick={addQuestion}
-              className="mt-4 btn btn-outline btn-md"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Question
-            </button>
+              <button
+                type="button"
+                onClick={addQuestion}
+                className="mt-4 btn btn-outline btn-md"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </button>
+            </div>
           </div>
-        </div>
 
-        {/* Settings */}
-        <div className="card">
-          <div className="card-header">
-            <h2 className="card-title">Form Settings</h2>
-            <p className="card-description">Configure form behavior</p>
+          {/* Settings */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Form Settings</h2>
+              <p className="card-description">Configure form behavior</p>
+            </div>
+            <div className="card-content space-y-4">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="allowMultiple"
+                  {...register('settings.allowMultipleResponses')}
+                  className="h-4 w-4 text-primary-600"
+                />
+                <label htmlFor="allowMultiple" className="text-sm">
+                  Allow multiple responses from the same person
+                </label>
+              </div>
+              <DuplicateSettingsEditor />
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="requireEmail"
+                  {...register('settings.requireEmail')}
+                  className="h-4 w-4 text-primary-600"
+                />
+                <label htmlFor="requireEmail" className="text-sm">
+                  Require email address from respondents
+                </label>
+              </div>
+
+              <div className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  id="saveProgress"
+                  {...register('settings.saveProgress')}
+                  className="mt-0.5 h-4 w-4 text-primary-600"
+                />
+                <label htmlFor="saveProgress" className="text-sm">
+                  Save progress so respondents can continue later
+                  <span className="block text-xs text-gray-500">
+                    Respondents get a link to finish on any device, and the summary shows where people drop off
+                  </span>
+                </label>
+              </div>
+
+              <SpamSettingsEditor />
+            </div>
           </div>
-          <div className="card-content space-y-4">
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id="allowMultiple"
-                {...register('settings.allowMultipleResponses')}
-                className="h-4 w-4 text-primary-600"
-              />
-              <label htmlFor="allowMultiple" className="text-sm">
-                Allow multiple responses from the same person
-              </label>
+
+          {/* URL Parameters */}
+          <HiddenFieldsEditor />
+
+          {/* Schedule */}
+          <ScheduleEditor />
+
+          {/* Notifications */}
+          <NotificationsEditor />
+
+          {/* Appearance */}
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Appearance</h2>
+              <p className="card-description">
+                Theme and branding for the public form; blank fields use your account branding
+              </p>
             </div>
+            <div className="card-content grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="theme" className="block text-sm font-medium text-gray-700">
+                    Form Theme
+                  </label>
+                  <select
+                    id="theme"
+                    className="input mt-1"
+                    {...register('settings.theme')}
+                  >
+                    {THEMES.map((theme) => (
+                      <option key={theme.value} value={theme.value}>{theme.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <BrandingEditor name="settings.branding" inherit />
+              </div>
 
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id="requireEmail"
-                {...register('settings.requireEmail')}
-                className="h-4 w-4 text-primary-600"
-              />
-              <label htmlFor="requireEmail" className="text-sm">
-                Require email address from respondents
-              </label>
+              <div>
+                <p className="mb-2 text-sm font-medium text-gray-700">Preview</p>
+                <FormPreview />
+              </div>
             </div>
+          </div>
 
-            <div>
-              <label htmlFor="theme" className="block text-sm font-medium text-gray-700">
-                Form Theme
-              </label>
-              <select
-                id="theme"
-                className="input mt-1"
-                {...register('settings.theme')}
-              >
-                <option value="light">Light</option>
-                <option value="dark">Dark</option>
-                <option value="blue">Blue</option>
-                <option value="green">Green</option>
-              </select>
+          {breakingChanges.length > 0 && (
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4">
+              <div className="flex">
+                <AlertTriangle className="h-5 w-5 flex-shrink-0 text-yellow-500" />
+                <div className="ml-3 text-sm text-yellow-800">
+                  <p className="font-medium">
+                    These changes affect {form.responseCount} existing {form.responseCount === 1 ? 'response' : 'responses'}
+                  </p>
+                  <ul className="mt-2 list-disc space-y-1 pl-5">
+                    {breakingChanges.map((change) => (
+                      <li key={change}>{change}</li>
+                    ))}
+                  </ul>
+                  <p className="mt-2">
+                    Saving publishes version {(form.version || 1) + 1}. Existing responses keep the questions
+                    they answered and can still be viewed per version on the responses page.
+                  </p>
+                </div>
+              </div>
             </div>
+          )}
+
+          {/* Submit */}
+          <div className="flex justify-end space-x-4">
+            <button
+              type="button"
+              onClick={() => navigate('/dashboard')}
+              className="btn btn-secondary btn-md"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="btn btn-primary btn-md"
+            >
+              {saving ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </button>
           </div>
-        </div>
-
-        {/* Submit */}
-        <div className="flex justify-end space-x-4">
-          <button
-            type="button"
-            onClick={() => navigate('/dashboard')}
-            className="btn btn-secondary btn-md"
-          >
-            Cancel
-          </button>
-          <button
-            type="submit"
-            disabled={saving}
-            className="btn btn-primary btn-md"
-          >
-            {saving ? (
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-            ) : (
-              <>
-                <Save className="h-4 w-4 mr-2" />
-                Save Changes
-              </>
-            )}
-          </button>
-        </div>
-      </form>
+        </form>
+      </FormProvider>
     </div>
   );
 };
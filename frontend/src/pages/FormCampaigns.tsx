@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { ArrowLeft, Mail, Plus, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { campaignsAPI, formsAPI } from '../services/api';
+import { Campaign, Form, WorkspaceRole } from '../types';
+import CampaignCard from '../components/CampaignCard';
+import { can } from '../utils/permissions';
+import { DEFAULT_CAMPAIGN_MESSAGE } from '../utils/campaigns';
+
+interface CampaignFormData {
+  name: string;
+  subject: string;
+  message: string;
+}
+
+const FormCampaigns: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [form, setForm] = useState<Form | null>(null);
+  const [role, setRole] = useState<WorkspaceRole | undefined>();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [csv, setCsv] = useState<{ fileName: string; text: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<CampaignFormData>({
+    defaultValues: { name: '', subject: '', message: '' },
+  });
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      const response = await campaignsAPI.getByForm(id!);
+      setCampaigns(response.campaigns);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load campaigns');
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchData = async () => {
+      try {
+        const formResponse = await formsAPI.getById(id);
+        setForm(formResponse.form);
+        setRole(formResponse.role);
+        await fetchCampaigns();
+      } catch (error: any) {
+        toast.error(error.response?.data?.message || 'Failed to load form');
+        navigate('/dashboard');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [id, navigate, fetchCampaigns]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setCsv(file ? { fileName: file.name, text: await file.text() } : null);
+  };
+
+  const onSubmit = async (data: CampaignFormData) => {
+    if (!csv) {
+      toast.error('Choose a CSV file with your recipients');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await campaignsAPI.create(id!, {
+        name: data.name,
+        subject: data.subject || undefined,
+        message: data.message || undefined,
+        csv: csv.text,
+      });
+      toast.success(response.message);
+      if (response.skipped.length > 0) {
+        const rows = response.skipped.map((row: { row: number }) => row.row).join(', ');
+        toast.error(`Skipped ${response.skipped.length} rows without a valid, unique email (rows ${rows})`);
+      }
+      reset();
+      setCsv(null);
+      fetchCampaigns();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create campaign');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = (campaignId: string) => {
+    setCampaigns(campaigns.filter((campaign) => campaign._id !== campaignId));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!form) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900">Form not found</h3>
+      </div>
+    );
+  }
+
+  const canManage = can(role, 'forms:write');
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Link
+            to={`/forms/${form._id}/responses`}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Email personal invite links to {form.title} and follow up with non-responders
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={fetchCampaigns}
+          className="text-gray-400 hover:text-gray-600"
+          title="Refresh"
+        >
+          <RefreshCw className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* New Campaign */}
+      {canManage && (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">New Campaign</h2>
+            <p className="card-description">
+              Upload a CSV with an email column, an optional name column and any other columns as custom fields.
+              Each recipient gets a link that fills in their email and name.
+            </p>
+          </div>
+          <div className="card-content">
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                  Campaign Name *
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  className={`input mt-1 ${errors.name ? 'border-red-500' : ''}`}
+                  placeholder="e.g., Spring customer survey"
+                  {...register('name', { required: 'Campaign name is required' })}
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="csv" className="block text-sm font-medium text-gray-700">
+                  Recipients (CSV) *
+                </label>
+                <input
+                  id="csv"
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="mt-1 block text-sm"
+                  onChange={handleFileChange}
+                />
+                {csv && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {csv.fileName}: {csv.text.split(/\r?\n/)[0]}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="subject" className="block text-sm font-medium text-gray-700">
+                  Email Subject
+                </label>
+                <input
+                  id="subject"
+                  type="text"
+                  className="input mt-1"
+                  placeholder={`We'd like your feedback: ${form.title}`}
+                  {...register('subject')}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="message" className="block text-sm font-medium text-gray-700">
+                  Message
+                </label>
+                <textarea
+                  id="message"
+                  className="textarea mt-1"
+                  rows={4}
+                  placeholder={DEFAULT_CAMPAIGN_MESSAGE}
+                  {...register('message')}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Use {'{{name}}'}, {'{{email}}'} or {'{{<column>}}'} to personalise it. The invite link is added below.
+                </p>
+              </div>
+
+              <div className="flex justify-end">
+                <button type="submit" disabled={creating} className="btn btn-primary btn-md">
+                  <Plus className="h-4 w-4 mr-2" />
+                  {creating ? 'Creating...' : 'Create Campaign'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Campaigns */}
+      {campaigns.length === 0 ? (
+        <div className="text-center py-12">
+          <Mail className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No campaigns yet</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Invite a list of people to this form and track who responds.
+          </p>
+        </div>
+      ) : (
+        campaigns.map((campaign) => (
+          <CampaignCard
+            key={campaign._id}
+            campaign={campaign}
+            canManage={canManage}
+            onRefresh={fetchCampaigns}
+            onDelete={handleDelete}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default FormCampaigns;
@@ -1,75 +1,247 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Download, Eye, ArrowLeft, BarChart3, PieChart as PieChartIcon } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Download, Eye, ArrowLeft, ArrowDown, ArrowUp, BarChart3, CheckCircle, Mail, ShieldAlert, Webhook } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { formsAPI, responsesAPI } from '../services/api';
-import { Form, Response, FormSummary } from '../types';
+import { formsAPI, responsesAPI, workspacesAPI } from '../services/api';
+import {
+  ExportFormat,
+  Form,
+  FormVersion,
+  Response,
+  FormSummary,
+  ResponseFilters,
+  SummaryInterval,
+  UserSummary,
+  WorkspaceRole,
+} from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ResponseFilterBar from '../components/ResponseFilterBar';
+import ResponseDrawer from '../components/ResponseDrawer';
+import DropOffSummary from '../components/DropOffSummary';
+import FileAnswerLink from '../components/FileAnswerLink';
+import QuestionSummary from '../components/QuestionSummary';
+import { formatAnswer } from '../utils/questions';
+import { can } from '../utils/permissions';
+import { hasActiveFilters, toQueryParams } from '../utils/responseFilters';
+import { SPAM_REASONS } from '../utils/spam';
+import { RESPONSE_STATUSES, getStatus, personName } from '../utils/triage';
 
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
+const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv' },
+  { value: 'xlsx', label: 'Excel', extension: 'xlsx' },
+  { value: 'json', label: 'JSON', extension: 'json' },
+  { value: 'ndjson', label: 'NDJSON', extension: 'ndjson' },
+];
+
+const LOCAL_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
 
 const FormResponses: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
   const [form, setForm] = useState<Form | null>(null);
+  const [role, setRole] = useState<WorkspaceRole | undefined>();
+  const [versions, setVersions] = useState<FormVersion[]>([]);
   const [responses, setResponses] = useState<Response[]>([]);
   const [summary, setSummary] = useState<FormSummary | null>(null);
   const [loading, setLoading] = useState(true);
-  const [viewMode, setViewMode] = useState<'table' | 'summary'>('summary');
+  // The spam view lists the responses quarantined as suspected spam
+  const [viewMode, setViewMode] = useState<'table' | 'summary' | 'spam'>('summary');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [quarantinedTotal, setQuarantinedTotal] = useState(0);
+  const [filters, setFilters] = useState<ResponseFilters>({});
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportTimeZone, setExportTimeZone] = useState(LOCAL_TIME_ZONE);
+  const [exporting, setExporting] = useState(false);
+  const [summaryInterval, setSummaryInterval] = useState<SummaryInterval>('day');
+  const [members, setMembers] = useState<UserSummary[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  // Response open in the detail drawer
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchForm = async () => {
+      try {
+        const response = await formsAPI.getById(id);
+        setForm(response.form);
+        setRole(response.role);
+        const versionList = await formsAPI.getVersions(id);
+        setVersions(versionList.versions);
+        if (response.form.workspace) {
+          const { workspace } = await workspacesAPI.getById(response.form.workspace);
+          setMembers(workspace.members.map((member) => member.user));
+        }
+      } catch (error: any) {
+        toast.error('Failed to load form');
+      }
+    };
+
+    fetchForm();
+  }, [id]);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const response = await responsesAPI.getTags(id!);
+      setTags(response.tags);
+    } catch (error: any) {
+      // The tag filter just offers no tags
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      fetchTags();
+    }
+  }, [id, fetchTags]);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await responsesAPI.getSummary(id!, {
+        ...toQueryParams(filters),
+        interval: summaryInterval,
+        timezone: LOCAL_TIME_ZONE,
+      });
+      setSummary(response.summary);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load summary');
+    }
+  }, [id, filters, summaryInterval]);
+
+  const fetchResponses = useCallback(async () => {
+    try {
+      const response = await responsesAPI.getByForm(id!, {
+        ...toQueryParams({ ...filters, quarantined: viewMode === 'spam' }),
+        page: currentPage,
+        limit: 20,
+      });
+      setResponses(response.responses);
+      setTotalPages(response.totalPages);
+      setQuarantinedTotal(response.quarantinedTotal);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load responses');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, currentPage, filters, viewMode]);
 
   useEffect(() => {
     if (id) {
-      fetchForm();
       fetchSummary();
+    }
+  }, [id, fetchSummary]);
+
+  useEffect(() => {
+    if (id) {
       fetchResponses();
     }
-  }, [id, currentPage]);
+  }, [id, fetchResponses]);
+
+  const handleFiltersChange = (next: ResponseFilters) => {
+    setFilters(next);
+    setCurrentPage(1);
+  };
+
+  // Clicking a column sorts by it, newest/highest first; clicking again flips the order
+  const handleSort = (sort: string) => {
+    const order = filters.sort === sort && filters.order !== 'asc' ? 'asc' : 'desc';
+    handleFiltersChange({ ...filters, sort, order });
+  };
+
+  const sortHeader = (sort: string, label: string) => {
+    const active = (filters.sort || 'submittedAt') === sort;
+    return (
+      <button
+        type="button"
+        onClick={() => handleSort(sort)}
+        className="inline-flex items-center uppercase tracking-wider hover:text-gray-700"
+      >
+        {label}
+        {active && (filters.order === 'asc'
+          ? <ArrowUp className="h-3 w-3 ml-1" />
+          : <ArrowDown className="h-3 w-3 ml-1" />)}
+      </button>
+    );
+  };
 
-  const fetchForm = async () => {
+  // Lets the sender of a response submit again despite duplicate protection
+  const handleAllowResubmission = async (response: Response) => {
+    if (!window.confirm('Allow the sender of this response to submit the form again?')) return;
     try {
-      const response = await formsAPI.getById(id!);
-      setForm(response.form);
+      await responsesAPI.allowResubmission(response._id);
+      toast.success('The sender can now respond again');
+      fetchResponses();
     } catch (error: any) {
-      toast.error('Failed to load form');
+      toast.error(error.response?.data?.message || 'Failed to allow resubmission');
     }
   };
 
-  const fetchSummary = async () => {
+  // Marking a response as spam removes it from the results; releasing it
+  // puts it back
+  const handleSetQuarantined = async (response: Response, quarantined: boolean) => {
     try {
-      const response = await responsesAPI.getSummary(id!);
-      setSummary(response.summary);
+      const result = await responsesAPI.setQuarantined(response._id, { quarantined });
+      toast.success(result.message);
+      fetchResponses();
+      fetchSummary();
     } catch (error: any) {
-      toast.error('Failed to load summary');
+      toast.error(error.response?.data?.message || 'Failed to update response');
     }
   };
 
-  const fetchResponses = async () => {
+  const handleDelete = async (response: Response) => {
+    if (!window.confirm('Delete this response? This cannot be undone.')) return;
     try {
-      const response = await responsesAPI.getByForm(id!, { page: currentPage, limit: 20 });
-      setResponses(response.responses);
-      setTotalPages(response.totalPages);
+      await responsesAPI.delete(response._id);
+      toast.success('Response deleted');
+      fetchResponses();
     } catch (error: any) {
-      toast.error('Failed to load responses');
-    } finally {
-      setLoading(false);
+      toast.error(error.response?.data?.message || 'Failed to delete response');
     }
   };
 
-  const handleExportCSV = async () => {
+  const showActions = can(role, 'forms:write');
+
+  const closeResponse = useCallback(() => setSelectedId(null), []);
+
+  // Keeps the row of a response changed in the drawer in step with it
+  const handleResponseUpdate = (updated: Response) => {
+    setResponses((current) => current.map((response) => (response._id === updated._id ? updated : response)));
+    fetchTags();
+  };
+
+  const currentUserId = members.find((member) => member.email === user?.email)?._id;
+
+  const changeViewMode = (mode: typeof viewMode) => {
+    setViewMode(mode);
+    setCurrentPage(1);
+  };
+
+  const handleExport = async () => {
+    const format = EXPORT_FORMATS.find((option) => option.value === exportFormat)!;
+    setExporting(true);
     try {
-      const blob = await responsesAPI.exportCSV(id!);
+      const blob = await responsesAPI.export(id!, {
+        ...toQueryParams(filters),
+        format: format.value,
+        timezone: exportTimeZone,
+      });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${form?.title}-responses.csv`;
+      const name = filters.version ? `${form?.title}-v${filters.version}` : form?.title;
+      a.download = `${name}-responses.${format.extension}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
-      toast.success('CSV exported successfully!');
+      toast.success(`${format.label} exported successfully!`);
     } catch (error: any) {
-      toast.error('Failed to export CSV');
+      toast.error('Failed to export responses');
+    } finally {
+      setExporting(false);
     }
   };
 
@@ -89,6 +261,13 @@ const FormResponses: React.FC = () => {
     );
   }
 
+  // Table columns follow the questions of the version shown (removed
+  // questions included when versions are merged)
+  const columns = summary
+    ? summary.questions.map((question) => ({ _id: question.questionId, text: question.questionText }))
+    : form.questions;
+  const hiddenFields = form.hiddenFields || [];
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -103,37 +282,110 @@ const FormResponses: React.FC = () => {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">{form.title}</h1>
             <p className="mt-1 text-sm text-gray-500">
-              {summary?.totalResponses || 0} responses
+              {summary?.totalResponses || 0} {hasActiveFilters(filters) ? 'matching responses' : 'responses'}
             </p>
           </div>
         </div>
         <div className="mt-4 sm:mt-0 flex space-x-3">
+          <Link
+            to={`/forms/${form._id}/campaigns`}
+            className="btn btn-outline btn-md"
+          >
+            <Mail className="h-4 w-4 mr-2" />
+            Campaigns
+          </Link>
+          {can(role, 'forms:write') && (
+            <Link
+              to={`/forms/${form._id}/webhooks`}
+              className="btn btn-outline btn-md"
+            >
+              <Webhook className="h-4 w-4 mr-2" />
+              Webhooks
+            </Link>
+          )}
+          <select
+            aria-label="Export format"
+            className="input w-auto"
+            value={exportFormat}
+            onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+          >
+            {EXPORT_FORMATS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Export time zone"
+            className="input w-auto"
+            value={exportTimeZone}
+            onChange={(event) => setExportTimeZone(event.target.value)}
+          >
+            <option value={LOCAL_TIME_ZONE}>Local time ({LOCAL_TIME_ZONE})</option>
+            {LOCAL_TIME_ZONE !== 'UTC' && <option value="UTC">UTC</option>}
+          </select>
           <button
-            onClick={handleExportCSV}
+            onClick={handleExport}
+            disabled={exporting}
             className="btn btn-outline btn-md"
           >
             <Download className="h-4 w-4 mr-2" />
-            Export CSV
+            {exporting ? 'Exporting...' : 'Export'}
           </button>
         </div>
       </div>
 
+      <ResponseFilterBar
+        form={form}
+        filters={filters}
+        onChange={handleFiltersChange}
+        members={members}
+        tags={tags}
+        currentUserId={currentUserId}
+      />
+
       {/* View Mode Toggle */}
-      <div className="flex space-x-2">
-        <button
-          onClick={() => setViewMode('summary')}
-          className={`btn btn-sm ${viewMode === 'summary' ? 'btn-primary' : 'btn-outline'}`}
-        >
-          <BarChart3 className="h-4 w-4 mr-2" />
-          Summary
-        </button>
-        <button
-          onClick={() => setViewMode('table')}
-          className={`btn btn-sm ${viewMode === 'table' ? 'btn-primary' : 'btn-outline'}`}
-        >
-          <Eye className="h-4 w-4 mr-2" />
-          Responses
-        </button>
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          <button
+            onClick={() => changeViewMode('summary')}
+            className={`btn btn-sm ${viewMode === 'summary' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Summary
+          </button>
+          <button
+            onClick={() => changeViewMode('table')}
+            className={`btn btn-sm ${viewMode === 'table' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Responses
+          </button>
+          {(quarantinedTotal > 0 || viewMode === 'spam') && (
+            <button
+              onClick={() => changeViewMode('spam')}
+              className={`btn btn-sm ${viewMode === 'spam' ? 'btn-primary' : 'btn-outline'}`}
+            >
+              <ShieldAlert className="h-4 w-4 mr-2" />
+              Spam ({quarantinedTotal})
+            </button>
+          )}
+        </div>
+        {versions.length > 1 && (
+          <select
+            aria-label="Form version"
+            className="input w-auto"
+            value={filters.version || ''}
+            onChange={(event) =>
+              handleFiltersChange({ ...filters, version: event.target.value ? Number(event.target.value) : undefined })
+            }
+          >
+            <option value="">All versions</option>
+            {versions.map((version) => (
+              <option key={version.version} value={version.version}>
+                Version {version.version}{version.version === form.version ? ' (current)' : ''} · {version.responseCount} responses
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {viewMode === 'summary' && summary && (
@@ -153,44 +405,86 @@ const FormResponses: React.FC = () => {
                 </div>
               </div>
             </div>
+            <div className="card">
+              <div className="card-content">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <CheckCircle className="h-8 w-8 text-primary-600" />
+                  </div>
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-gray-500">Questions Answered</p>
+                    <p className="text-2xl font-semibold text-gray-900">{summary.completionRate}%</p>
+                  </div>
+                </div>
+              </div>
+            </div>
           </div>
 
+          {/* Responses over time */}
+          <div className="card">
+            <div className="card-header">
+              <div className="flex items-center justify-between">
+                <h3 className="card-title">Responses Over Time</h3>
+                <select
+                  aria-label="Timeline interval"
+                  className="input w-auto"
+                  value={summaryInterval}
+                  onChange={(event) => setSummaryInterval(event.target.value as SummaryInterval)}
+                >
+                  <option value="day">Daily</option>
+                  <option value="week">Weekly</option>
+                  <option value="month">Monthly</option>
+                </select>
+              </div>
+            </div>
+            <div className="card-content">
+              {summary.timeline.length === 0 ? (
+                <p className="text-sm text-gray-500">No responses in this period.</p>
+              ) : (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={summary.timeline}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="period" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Bar dataKey="count" name="Responses" fill="#3B82F6" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {!!summary.dropOff?.totalPartials && <DropOffSummary dropOff={summary.dropOff} />}
+
           {/* Question Charts */}
           <div className="space-y-6">
-            {summary.questions.map((question, index) => (
-              <div key={question.questionId} className="card">
-                <div className="card-header">
-                  <h3 className="card-title">{question.questionText}</h3>
-                  <p className="card-description">
-                    {question.totalAnswers} responses
-                  </p>
-                </div>
-                <div className="card-content">
-                  {question.questionType === 'multiple-choice' && question.answers && (
-                    <div className="h-64">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <BarChart data={Object.entries(question.answers).map(([key, value]) => ({ name: key, value }))}>
-                          <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="name" />
-                          <YAxis />
-                          <Tooltip />
-                          <Bar dataKey="value" fill="#3B82F6" />
-                        </BarChart>
-                      </ResponsiveContainer>
-                    </div>
+            {summary.questions.map((question, index) => {
+              // Show a heading where each section (page) starts
+              const section = summary.sections?.find((s) => s.sectionId === question.sectionId);
+              const startsSection = section &&
+                (index === 0 || summary.questions[index - 1].sectionId !== question.sectionId);
+
+              return (
+                <React.Fragment key={question.questionId}>
+                  {startsSection && (
+                    <h2 className="text-lg font-semibold text-gray-900">{section.title}</h2>
                   )}
-                </div>
-              </div>
-            ))}
+                  <QuestionSummary question={question} />
+                </React.Fragment>
+              );
+            })}
           </div>
         </div>
       )}
 
-      {viewMode === 'table' && (
+      {viewMode !== 'summary' && (
         <div className="card">
           <div className="card-header">
-            <h2 className="card-title">All Responses</h2>
+            <h2 className="card-title">{viewMode === 'spam' ? 'Suspected Spam' : 'All Responses'}</h2>
             <p className="card-description">
+              {viewMode === 'spam' && 'Held back from results, exports, webhooks and notifications. '}
               Page {currentPage} of {totalPages}
             </p>
           </div>
@@ -198,10 +492,18 @@ const FormResponses: React.FC = () => {
             {responses.length === 0 ? (
               <div className="text-center py-12">
                 <Eye className="mx-auto h-12 w-12 text-gray-400" />
-                <h3 className="mt-2 text-sm font-medium text-gray-900">No responses yet</h3>
-                <p className="mt-1 text-sm text-gray-500">
-                  Share your form to start collecting responses.
-                </p>
+                {viewMode === 'spam' ? (
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No suspected spam</h3>
+                ) : hasActiveFilters(filters) ? (
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No responses match these filters</h3>
+                ) : (
+                  <>
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">No responses yet</h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Share your form to start collecting responses.
+                    </p>
+                  </>
+                )}
               </div>
             ) : (
               <div className="overflow-hidden">
@@ -209,38 +511,99 @@ const FormResponses: React.FC = () => {
                   <thead className="bg-gray-50">
                     <tr>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Submitted
+                        {sortHeader('submittedAt', 'Submitted')}
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Assignee
                       </th>
                       {form.settings.requireEmail && (
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Email
+                          {sortHeader('submitterEmail', 'Email')}
+                        </th>
+                      )}
+                      {versions.length > 1 && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Version
                         </th>
                       )}
-                      {form.questions.map((question) => (
+                      {hiddenFields.map((name) => (
+                        <th key={name} className="px-6 py-3 text-left text-xs font-medium text-gray-500 tracking-wider">
+                          {name}
+                        </th>
+                      ))}
+                      {columns.map((question) => (
                         <th key={question._id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          {question.text}
+                          {sortHeader(`question:${question._id}`, question.text)}
                         </th>
                       ))}
+                      {showActions && <th className="px-6 py-3" />}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                     {responses.map((response) => (
                       <tr key={response._id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <button
+                            type="button"
+                            onClick={() => setSelectedId(response._id)}
+                            className="text-primary-600 hover:text-primary-700"
+                            title="View response"
+                          >
+                            {new Date(response.submittedAt).toLocaleString()}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <span
+                            className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium whitespace-nowrap ${RESPONSE_STATUSES[getStatus(response)].className}`}
+                          >
+                            {RESPONSE_STATUSES[getStatus(response)].label}
+                          </span>
+                          {response.tags && response.tags.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {response.tags.map((value) => (
+                                <span key={value} className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">
+                                  {value}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {new Date(response.submittedAt).toLocaleString()}
+                          {response.assignee ? personName(response.assignee, members) : '-'}
                         </td>
                         {form.settings.requireEmail && (
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {response.submitterEmail || '-'}
                           </td>
                         )}
-                        {form.questions.map((question) => {
+                        {versions.length > 1 && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            v{response.formVersion || 1}
+                          </td>
+                        )}
+                        {hiddenFields.map((name) => (
+                          <td key={name} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {response.hiddenFields?.[name] || '-'}
+                          </td>
+                        ))}
+                        {columns.map((question) => {
                           const answer = response.answers.find(a => a.questionId === question._id);
                           return (
                             <td key={question._id} className="px-6 py-4 text-sm text-gray-900">
-                              {answer ? (
-                                <div className="max-w-xs truncate" title={answer.answer}>
-                                  {answer.answer}
+                              {answer && answer.questionType === 'file' ? (
+                                <div className="max-w-xs">
+                                  <FileAnswerLink
+                                    responseId={response._id}
+                                    questionId={question._id}
+                                    name={formatAnswer(answer.answer)}
+                                  />
+                                </div>
+                              ) : answer ? (
+                                <div className="max-w-xs truncate" title={formatAnswer(answer.answer)}>
+                                  {formatAnswer(answer.answer)}
                                 </div>
                               ) : (
                                 '-'
@@ -248,6 +611,52 @@ const FormResponses: React.FC = () => {
                             </td>
                           );
                         })}
+                        {showActions && (
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                            {viewMode === 'spam' ? (
+                              <div className="flex items-center justify-end space-x-3">
+                                <span className="text-xs text-gray-500">
+                                  {(response.spamReasons || []).map((reason) => SPAM_REASONS[reason]).join(', ')}
+                                </span>
+                                <button
+                                  type="button"
+                                  onClick={() => handleSetQuarantined(response, false)}
+                                  className="text-primary-600 hover:text-primary-700"
+                                >
+                                  Not spam
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleDelete(response)}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            ) : (
+                              <div className="flex items-center justify-end space-x-3">
+                                {!form.settings.allowMultipleResponses && (response.resubmissionAllowedAt ? (
+                                  <span className="text-xs text-gray-400">Resubmission allowed</span>
+                                ) : (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleAllowResubmission(response)}
+                                    className="text-primary-600 hover:text-primary-700"
+                                  >
+                                    Allow again
+                                  </button>
+                                ))}
+                                <button
+                                  type="button"
+                                  onClick={() => handleSetQuarantined(response, true)}
+                                  className="text-gray-500 hover:text-gray-700"
+                                >
+                                  Spam
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -282,6 +691,16 @@ const FormResponses: React.FC = () => {
           </div>
         </div>
       )}
+
+      {selectedId && (
+        <ResponseDrawer
+          responseId={selectedId}
+          role={role}
+          members={members}
+          onUpdate={handleResponseUpdate}
+          onClose={closeResponse}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { ArrowLeft, Plus, Webhook as WebhookIcon } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formsAPI, webhooksAPI } from '../services/api';
+import { Form, Webhook, WebhookEvent } from '../types';
+import WebhookCard from '../components/WebhookCard';
+import { WEBHOOK_EVENTS } from '../utils/webhooks';
+
+interface WebhookFormData {
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+}
+
+const FormWebhooks: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [form, setForm] = useState<Form | null>(null);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<WebhookFormData>({
+    defaultValues: { url: '', events: ['response.created'], secret: '' },
+  });
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchData = async () => {
+      try {
+        const [formResponse, webhooksResponse] = await Promise.all([
+          formsAPI.getById(id),
+          webhooksAPI.getByForm(id),
+        ]);
+        setForm(formResponse.form);
+        setWebhooks(webhooksResponse.webhooks);
+      } catch (error: any) {
+        toast.error(error.response?.data?.message || 'Failed to load webhooks');
+        navigate('/dashboard');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [id, navigate]);
+
+  const onSubmit = async (data: WebhookFormData) => {
+    if (!data.events || data.events.length === 0) {
+      toast.error('Select at least one event');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const response = await webhooksAPI.create(id!, {
+        url: data.url,
+        events: data.events,
+        secret: data.secret || undefined,
+      });
+      setWebhooks([response.webhook, ...webhooks]);
+      reset();
+      toast.success('Webhook added');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to add webhook');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleChange = (updated: Webhook) => {
+    setWebhooks(webhooks.map((webhook) => (webhook._id === updated._id ? updated : webhook)));
+  };
+
+  const handleDelete = (webhookId: string) => {
+    setWebhooks(webhooks.filter((webhook) => webhook._id !== webhookId));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!form) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900">Form not found</h3>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        <Link
+          to={`/forms/${form._id}/responses`}
+          className="text-gray-400 hover:text-gray-600"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Send {form.title} events to your own endpoints
+          </p>
+        </div>
+      </div>
+
+      {/* Add Webhook */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Add Webhook</h2>
+          <p className="card-description">
+            Each request is signed with an X-Webhook-Signature header and retried with backoff until your endpoint returns a 2xx status
+          </p>
+        </div>
+        <div className="card-content">
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label htmlFor="url" className="block text-sm font-medium text-gray-700">
+                Endpoint URL *
+              </label>
+              <input
+                id="url"
+                type="url"
+                className={`input mt-1 ${errors.url ? 'border-red-500' : ''}`}
+                placeholder="https://example.com/webhooks/feedback"
+                {...register('url', {
+                  required: 'Endpoint URL is required',
+                  pattern: {
+                    value: /^https?:\/\//i,
+                    message: 'URL must start with http:// or https://',
+                  },
+                })}
+              />
+              {errors.url && (
+                <p className="mt-1 text-sm text-red-600">{errors.url.message}</p>
+              )}
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700">Events</p>
+              <div className="mt-2 space-y-2">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label key={event.value} className="flex items-start space-x-2">
+                    <input
+                      type="checkbox"
+                      value={event.value}
+                      {...register('events')}
+                      className="mt-1 h-4 w-4 text-primary-600"
+                    />
+                    <span className="text-sm">
+                      <span className="font-medium text-gray-900">{event.label}</span>
+                      <span className="block text-gray-500">{event.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="secret" className="block text-sm font-medium text-gray-700">
+                Signing Secret
+              </label>
+              <input
+                id="secret"
+                type="text"
+                className="input mt-1"
+                placeholder="Leave blank to generate one"
+                {...register('secret', {
+                  minLength: {
+                    value: 16,
+                    message: 'Secret must be at least 16 characters',
+                  },
+                })}
+              />
+              {errors.secret && (
+                <p className="mt-1 text-sm text-red-600">{errors.secret.message}</p>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <button type="submit" disabled={creating} className="btn btn-primary btn-md">
+                <Plus className="h-4 w-4 mr-2" />
+                {creating ? 'Adding...' : 'Add Webhook'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Webhooks */}
+      {webhooks.length === 0 ? (
+        <div className="text-center py-12">
+          <WebhookIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No webhooks yet</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Add an endpoint to be notified when this form receives responses.
+          </p>
+        </div>
+      ) : (
+        webhooks.map((webhook) => (
+          <WebhookCard
+            key={webhook._id}
+            webhook={webhook}
+            onChange={handleChange}
+            onDelete={handleDelete}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default FormWebhooks;
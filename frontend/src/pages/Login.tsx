@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { Eye, EyeOff, Mail, Lock } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, ShieldCheck } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { authAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
+import { AuthSession } from '../types';
+import { normalizeCode } from '../utils/twoFactor';
 
 interface LoginForm {
   email: string;
@@ -14,8 +16,16 @@ interface LoginForm {
 const Login: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
+  // Set when the account also needs a code from its authenticator app
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Only follow redirects within the app, e.g. back to an invitation link
+  const redirect = searchParams.get('redirect');
+  const redirectTo = redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard';
 
   const {
     register,
@@ -23,13 +33,23 @@ const Login: React.FC = () => {
     formState: { errors },
   } = useForm<LoginForm>();
 
+  const finishLogin = (session: AuthSession) => {
+    login(session.token, session.user);
+    // Also says when logging in reactivated the account
+    toast.success(session.message);
+    navigate(redirectTo);
+  };
+
   const onSubmit = async (data: LoginForm) => {
     setLoading(true);
     try {
       const response = await authAPI.login(data);
-      login(response.token, response.user);
-      toast.success('Login successful!');
-      navigate('/dashboard');
+      if ('twoFactorToken' in response) {
+        setTwoFactorToken(response.twoFactorToken);
+        setCode('');
+        return;
+      }
+      finishLogin(response);
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Login failed');
     } finally {
@@ -37,6 +57,99 @@ const Login: React.FC = () => {
     }
   };
 
+  const onSubmitCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!twoFactorToken || !code.trim()) return;
+
+    setLoading(true);
+    try {
+      const response = await authAPI.loginTwoFactor(
+        useRecoveryCode
+          ? { twoFactorToken, recoveryCode: code.trim() }
+          : { twoFactorToken, code: normalizeCode(code) }
+      );
+      finishLogin(response);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Login failed');
+      // The challenge has expired; start over with the password
+      if (error.response?.status === 401) {
+        setTwoFactorToken(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (twoFactorToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <ShieldCheck className="mx-auto h-12 w-12 text-primary-600" />
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when turning on two-factor authentication.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </p>
+          </div>
+          <form className="mt-8 space-y-6" onSubmit={onSubmitCode}>
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                {useRecoveryCode ? 'Recovery code' : 'Code'}
+              </label>
+              <input
+                id="code"
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                className="input mt-1"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                className="font-medium text-primary-600 hover:text-primary-500"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                }}
+              >
+                {useRecoveryCode ? 'Use a code from your app' : 'Use a recovery code'}
+              </button>
+              <button
+                type="button"
+                className="font-medium text-gray-600 hover:text-gray-500"
+                onClick={() => setTwoFactorToken(null)}
+              >
+                Back
+              </button>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading || !code.trim()}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? (
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+              ) : (
+                'Verify'
+              )}
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -47,7 +160,7 @@ const Login: React.FC = () => {
           <p className="mt-2 text-center text-sm text-gray-600">
             Or{' '}
             <Link
-              to="/register"
+              to={redirect ? `/register?redirect=${encodeURIComponent(redirect)}` : '/register'}
               className="font-medium text-primary-600 hover:text-primary-500"
             >
               create a new account
@@ -122,6 +235,12 @@ const Login: React.FC = () => {
                 <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
               )}
             </div>
+
+            <div className="text-right text-sm">
+              <Link to="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
+                Forgot your password?
+              </Link>
+            </div>
           </div>
 
           <div>
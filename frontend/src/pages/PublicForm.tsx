@@ -1,25 +1,126 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
-import { CheckCircle, AlertCircle, Send } from 'lucide-react';
+import { CheckCircle, AlertCircle, Clock, Copy, Lock, Send, ChevronLeft, ChevronRight, Bookmark } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { formsAPI, responsesAPI } from '../services/api';
-import { Form, SubmitResponseData } from '../types';
+import { campaignsAPI, formsAPI, responsesAPI } from '../services/api';
+import { CaptchaConfig, InviteDetails, PublicFormDetails, SubmitResponseData } from '../types';
+import QuestionInput from '../components/QuestionInput';
+import FormFrame from '../components/FormFrame';
+import CaptchaWidget from '../components/CaptchaWidget';
+import { collectAnswers, getPages } from '../utils/questions';
+import { getVisibleQuestionIds } from '../utils/formLogic';
+import { DEFAULT_CLOSED_MESSAGE } from '../utils/formLifecycle';
+import { rememberDeviceToken } from '../utils/duplicates';
+import { getPrefilledValues, readHiddenFields } from '../utils/hiddenFields';
+import { getEmbedMode, postEmbedMessage } from '../utils/embed';
+import {
+  SAVE_DELAY_MS,
+  clearDraft,
+  getResumeLink,
+  getResumedValues,
+  loadDraft,
+  saveDraft,
+} from '../utils/partialResponses';
 
 const PublicForm: React.FC = () => {
   const { publicUrl } = useParams<{ publicUrl: string }>();
-  const navigate = useNavigate();
-  const [form, setForm] = useState<Form | null>(null);
+  const [searchParams] = useSearchParams();
+  // Personal invite link from a campaign
+  const inviteToken = searchParams.get('invite') || undefined;
+  // Set when shown in an iframe by the embed script
+  const embedMode = getEmbedMode(searchParams);
+  const reportedStart = useRef(false);
+  // Answers filled in from the URL, which do not count as starting the form
+  const prefilled = useRef<Record<string, unknown>>({});
+  // Values the form starts with, before any answers are restored
+  const initialValues = useRef<Record<string, unknown>>({});
+  // Hidden fields of a resumed partial, whose link lacks them
+  const resumedHiddenFields = useRef<Record<string, string> | undefined>();
+  const [form, setForm] = useState<PublicFormDetails | null>(null);
+  const [deviceToken, setDeviceToken] = useState<string | undefined>();
+  const [startToken, setStartToken] = useState<string | undefined>();
+  const [captcha, setCaptcha] = useState<CaptchaConfig | null>(null);
+  const [captchaToken, setCaptchaToken] = useState<string | undefined>();
+  // Changed to show a fresh challenge after a failed verification
+  const [captchaKey, setCaptchaKey] = useState(0);
+  // Set when the form closes while the respondent is filling it in
+  const [closedMessage, setClosedMessage] = useState<string | null>(null);
+  // Set when the respondent has already answered this form
+  const [duplicateMessage, setDuplicateMessage] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [pageIndex, setPageIndex] = useState(0);
+  // Token of the partial response saved on the server
+  const [resumeToken, setResumeToken] = useState<string | undefined>();
+  // Shown after "Continue later"
+  const [resumeLink, setResumeLink] = useState<string | null>(null);
+  const [savingProgress, setSavingProgress] = useState(false);
+  // Set when answers from an earlier visit were restored
+  const [restored, setRestored] = useState(false);
 
   const {
     register,
+    control,
     handleSubmit,
-    formState: { errors },
     watch,
-  } = useForm<any>();
+    trigger,
+    reset,
+    formState: { errors },
+  } = useForm<any>({
+    // Questions hidden by conditional logic drop their values and rules
+    shouldUnregister: true,
+  });
+
+  const values = watch();
+  const answers = form ? collectAnswers(form.questions, values) : {};
+  const visibleIds = form ? getVisibleQuestionIds(form.questions, answers) : new Set<string>();
+  const hasAnswers = Object.entries(answers).some(
+    ([id, answer]) =>
+      answer !== undefined &&
+      JSON.stringify(values[`question_${id}`]) !== JSON.stringify(prefilled.current[`question_${id}`])
+  );
+
+  // Invitees count as started once they answer their first question
+  useEffect(() => {
+    if (!inviteToken || !hasAnswers || reportedStart.current) return;
+    reportedStart.current = true;
+    campaignsAPI.startInvite(inviteToken).catch(() => undefined);
+  }, [inviteToken, hasAnswers]);
+
+  // Pages left without visible questions are skipped. Questions on other
+  // pages stay mounted (just hidden) so their answers are kept.
+  const pages = form
+    ? getPages(form.questions, form.sections)
+        .map((page, index) => ({
+          ...page,
+          index,
+          questions: page.questions.filter((question) => visibleIds.has(question._id)),
+        }))
+        .filter((page) => page.questions.length > 0)
+    : [];
+  const currentPosition = Math.max(0, pages.findIndex((page) => page.index >= pageIndex));
+  const currentPage = pages[currentPosition];
+  const isLastPage = currentPosition >= pages.length - 1;
+  const isMultiPage = !!form?.sections?.length;
+
+  const goToNextPage = async () => {
+    const fields = currentPage.questions.map((question) => `question_${question._id}`);
+    if (currentPosition === 0) {
+      fields.push('submitterEmail', 'submitterName');
+    }
+    if (!(await trigger(fields))) {
+      return;
+    }
+    setPageIndex(pages[currentPosition + 1].index);
+    window.scrollTo(0, 0);
+  };
+
+  const goToPreviousPage = () => {
+    setPageIndex(pages[currentPosition - 1].index);
+    window.scrollTo(0, 0);
+  };
 
   useEffect(() => {
     if (publicUrl) {
@@ -27,67 +128,224 @@ const PublicForm: React.FC = () => {
     }
   }, [publicUrl]);
 
+  // Embedded forms tell the host page their height so it can size the iframe
+  useEffect(() => {
+    if (!embedMode || !publicUrl) return;
+
+    let lastHeight = 0;
+    const observer = new ResizeObserver(() => {
+      const height = Math.ceil(document.body.getBoundingClientRect().height);
+      if (height !== lastHeight) {
+        lastHeight = height;
+        postEmbedMessage(publicUrl, 'height', { height });
+      }
+    });
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, [embedMode, publicUrl]);
+
   const fetchForm = async () => {
     try {
-      const response = await formsAPI.getByPublicUrl(publicUrl!);
+      // A resume link wins over the token kept with this browser's draft
+      const draft = loadDraft(publicUrl!);
+      const resume = searchParams.get('resume') || draft?.resumeToken;
+      const response = await formsAPI.getByPublicUrl(publicUrl!, { invite: inviteToken, resume });
       setForm(response.form);
+      setDeviceToken(rememberDeviceToken(response.deviceToken));
+      setStartToken(response.startToken);
+      setCaptcha(response.captcha);
+      postEmbedMessage(publicUrl!, 'loaded', { state: response.form.state });
+      // Questions can be prefilled with q_<questionId> query parameters
+      const invite: InviteDetails | null = response.invite;
+      prefilled.current = getPrefilledValues(response.form.questions, searchParams);
+      initialValues.current = {
+        ...prefilled.current,
+        ...(invite && { submitterEmail: invite.email, submitterName: invite.name || '' }),
+      };
+
+      // The draft is at least as recent as the server's copy of the same
+      // answers, but is dropped once the form has changed
+      let restoredValues: Record<string, unknown> | undefined;
+      if (response.resume) {
+        setResumeToken(resume);
+        resumedHiddenFields.current = response.resume.hiddenFields;
+      }
+      if (draft && draft.version === response.form.version && (!response.resume || draft.resumeToken === resume)) {
+        restoredValues = draft.values;
+        setPageIndex(draft.pageIndex);
+      } else if (response.resume) {
+        restoredValues = getResumedValues(response.form.questions, response.resume);
+      }
+      setRestored(!!restoredValues);
+
+      if (restoredValues || Object.keys(initialValues.current).length > 0) {
+        reset({ ...initialValues.current, ...restoredValues });
+      }
     } catch (error: any) {
-      toast.error('Form not found or inactive');
-      navigate('/');
+      setForm(null);
     } finally {
       setLoading(false);
     }
   };
 
-  const onSubmit = async (data: SubmitResponseData & { submitterName?: string; submitterEmail?: string }) => {
+  // Saves the answers so far in this browser and, when the form saves
+  // progress, on the server. Returns the resume token from the server.
+  const saveProgress = async () => {
+    if (!form || !publicUrl) return undefined;
+
+    const draftValues = { ...values };
+    delete draftValues.website;
+    saveDraft(publicUrl, { version: form.version, values: draftValues, pageIndex, resumeToken });
+    if (!form.settings.saveProgress) return undefined;
+
+    const result = await responsesAPI.savePartial({
+      formId: form._id,
+      answers: form.questions
+        .filter((question) => visibleIds.has(question._id) && answers[question._id] !== undefined)
+        .map((question) => ({ questionId: question._id, answer: answers[question._id]! })),
+      submitterEmail: values.submitterEmail || undefined,
+      submitterName: values.submitterName || undefined,
+      inviteToken,
+      hiddenFields: readHiddenFields(form, searchParams) || resumedHiddenFields.current,
+      resumeToken,
+    });
+    setResumeToken(result.resumeToken);
+    saveDraft(publicUrl, { version: form.version, values: draftValues, pageIndex, resumeToken: result.resumeToken });
+    return result.resumeToken;
+  };
+
+  // Autosaves a moment after the respondent stops changing their answers.
+  // A failed save is retried with the next change.
+  const saveProgressRef = useRef(saveProgress);
+  saveProgressRef.current = saveProgress;
+  const valuesKey = JSON.stringify(values);
+  useEffect(() => {
+    if (!hasAnswers || submitted) return;
+    const timer = setTimeout(() => {
+      saveProgressRef.current().catch(() => undefined);
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [valuesKey, pageIndex, hasAnswers, submitted]);
+
+  const continueLater = async () => {
+    setSavingProgress(true);
+    try {
+      const token = await saveProgress();
+      if (token) {
+        setResumeLink(getResumeLink(publicUrl!, token));
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save your progress');
+    } finally {
+      setSavingProgress(false);
+    }
+  };
+
+  const copyResumeLink = () => {
+    if (!resumeLink) return;
+    navigator.clipboard.writeText(resumeLink);
+    toast.success('Link copied to clipboard!');
+  };
+
+  // Forgets the restored answers and shows the form as on a first visit
+  const startOver = () => {
+    if (!window.confirm('Clear your answers and start over?')) return;
+    clearDraft(publicUrl!);
+    setResumeToken(undefined);
+    setResumeLink(null);
+    resumedHiddenFields.current = undefined;
+    setRestored(false);
+    setPageIndex(0);
+    reset(initialValues.current);
+  };
+
+  const onSubmit = async (data: Record<string, any>) => {
     if (!form) return;
 
     setSubmitting(true);
     try {
-      // Prepare answers
-      const answers = form.questions.map((question) => {
-       const answer = (data as unknown as Record<string, string | undefined>)[`question_${question._id}`];
-
-        return {
-          questionId: question._id,
-          answer: answer || '',
-        };
-      });
+      // Only questions still shown after applying the form's logic count
+      const answerMap = collectAnswers(form.questions, data);
+      const visibleIds = getVisibleQuestionIds(form.questions, answerMap);
+      const shownQuestions = form.questions.filter((question) => visibleIds.has(question._id));
 
       // Validate required questions
-      for (const question of form.questions) {
-        if (question.required) {
-          const answer = (data as unknown as Record<string, string | undefined>)[`question_${question._id}`];
+      for (const question of shownQuestions) {
+        if (question.required && answerMap[question._id] === undefined) {
+          toast.error(`Please answer the required question: ${question.text}`);
+          setSubmitting(false);
+          return;
+        }
+      }
 
+      // Prepare answers
+      const answers = shownQuestions
+        .filter((question) => answerMap[question._id] !== undefined)
+        .map((question) => ({
+          questionId: question._id,
+          answer: answerMap[question._id]!,
+        }));
 
-          if (!answer || answer.trim() === '') {
-            toast.error(`Please answer the required question: ${question.text}`);
-            setSubmitting(false);
-            return;
-          }
-        }
+      if (answers.length === 0) {
+        toast.error('Please answer at least one question');
+        setSubmitting(false);
+        return;
+      }
+
+      if (captcha && !captchaToken) {
+        toast.error('Please complete the CAPTCHA');
+        setSubmitting(false);
+        return;
       }
 
       const responseData: SubmitResponseData = {
         formId: form._id,
+        formVersion: form.version,
         answers,
         submitterName: data.submitterName,
         submitterEmail: data.submitterEmail,
+        deviceToken,
+        inviteToken,
+        hiddenFields: readHiddenFields(form, searchParams) || resumedHiddenFields.current,
+        startToken,
+        captchaToken,
+        website: data.website,
+        resumeToken,
       };
 
-      await responsesAPI.submit(responseData);
+      const result = await responsesAPI.submit(responseData);
+      clearDraft(form.publicUrl);
       setSubmitted(true);
+      postEmbedMessage(form.publicUrl, 'submitted', { responseId: result.responseId });
       toast.success('Thank you for your feedback!');
     } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Failed to submit response');
+      if (error.response?.status === 403) {
+        setClosedMessage(error.response.data.message);
+      } else if (error.response?.data?.duplicate) {
+        setDuplicateMessage(error.response.data.message);
+      } else if (error.response?.data?.captcha) {
+        setCaptchaToken(undefined);
+        setCaptchaKey((key) => key + 1);
+        toast.error(error.response.data.message);
+      } else {
+        toast.error(error.response?.data?.message || 'Failed to submit response');
+      }
     } finally {
       setSubmitting(false);
     }
   };
 
+  // Pressing enter on an earlier page moves on instead of submitting
+  const handleFormSubmit = isLastPage
+    ? handleSubmit(onSubmit)
+    : (event: React.FormEvent) => {
+        event.preventDefault();
+        goToNextPage();
+      };
+
   if (loading) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className={`${embedMode ? 'py-12' : 'min-h-screen'} flex items-center justify-center bg-gray-50`}>
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
       </div>
     );
@@ -95,7 +353,7 @@ const PublicForm: React.FC = () => {
 
   if (!form) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className={`${embedMode ? 'py-12' : 'min-h-screen'} flex items-center justify-center bg-gray-50`}>
         <div className="text-center">
           <AlertCircle className="mx-auto h-12 w-12 text-red-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">Form not found</h3>
@@ -105,149 +363,254 @@ const PublicForm: React.FC = () => {
     );
   }
 
+  if (form.state === 'scheduled') {
+    return (
+      <FormFrame theme={form.settings.theme} branding={form.branding} title={form.title} compact={!!embedMode}>
+        <div className="text-center py-6">
+          <Clock className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">This form is not open yet</h3>
+          {form.opensAt && (
+            <p className="mt-1 text-sm text-gray-500">
+              It opens on {new Date(form.opensAt).toLocaleString()}.
+            </p>
+          )}
+        </div>
+      </FormFrame>
+    );
+  }
+
+  if (form.state === 'closed' || closedMessage) {
+    return (
+      <FormFrame theme={form.settings.theme} branding={form.branding} title={form.title} compact={!!embedMode}>
+        <div className="text-center py-6">
+          <Lock className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">This form is closed</h3>
+          <p className="mt-1 text-sm text-gray-500 whitespace-pre-line">
+            {closedMessage || form.settings.closedMessage || DEFAULT_CLOSED_MESSAGE}
+          </p>
+        </div>
+      </FormFrame>
+    );
+  }
+
+  if (duplicateMessage) {
+    return (
+      <FormFrame theme={form.settings.theme} branding={form.branding} title={form.title} compact={!!embedMode}>
+        <div className="text-center py-6">
+          <Copy className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Already submitted</h3>
+          <p className="mt-1 text-sm text-gray-500">{duplicateMessage}</p>
+        </div>
+      </FormFrame>
+    );
+  }
+
   if (submitted) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="text-center">
+      <FormFrame theme={form.settings.theme} branding={form.branding} compact={!!embedMode}>
+        <div className="text-center py-6">
           <CheckCircle className="mx-auto h-12 w-12 text-green-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">Thank you!</h3>
           <p className="mt-1 text-sm text-gray-500">Your response has been submitted successfully.</p>
         </div>
-      </div>
+      </FormFrame>
     );
   }
 
   return (
-    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
-      <div className="max-w-2xl mx-auto">
-        <div className="card">
-          <div className="card-header text-center">
-            <h1 className="card-title">{form.title}</h1>
-            {form.description && (
-              <p className="card-description">{form.description}</p>
+    <FormFrame
+      theme={form.settings.theme}
+      branding={form.branding}
+      title={form.title}
+      description={form.description}
+      compact={!!embedMode}
+    >
+      {isMultiPage && (
+        <div className="mb-6">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>Page {currentPosition + 1} of {pages.length}</span>
+            <span>{Math.round(((currentPosition + 1) / pages.length) * 100)}%</span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-200">
+            <div
+              className="h-2 rounded-full bg-brand transition-all"
+              style={{ width: `${((currentPosition + 1) / pages.length) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+      {restored && (
+        <div className="mb-6 flex items-center justify-between rounded-md bg-gray-50 p-3 text-sm text-gray-700">
+          <span>We restored the answers you gave earlier.</span>
+          <button type="button" onClick={startOver} className="font-medium text-brand hover:underline">
+            Start over
+          </button>
+        </div>
+      )}
+      <form onSubmit={handleFormSubmit} className="space-y-6">
+        {/* Honeypot: hidden from people, so only bots fill it in */}
+        <div className="absolute -left-[9999px] h-px w-px overflow-hidden" aria-hidden="true">
+          <label htmlFor="website">Website</label>
+          <input id="website" type="text" tabIndex={-1} autoComplete="off" {...register('website')} />
+        </div>
+
+        {/* Optional contact information */}
+        {(form.settings.requireEmail || form.settings.allowMultipleResponses) && (
+          <div className={`space-y-4 ${currentPosition === 0 ? '' : 'hidden'}`}>
+            <h3 className="text-lg font-medium text-gray-900">Contact Information</h3>
+            
+            {form.settings.requireEmail && (
+              <div>
+                <label htmlFor="submitterEmail" className="block text-sm font-medium text-gray-700">
+                  Email Address *
+                </label>
+                <input
+                  id="submitterEmail"
+                  type="email"
+                  className={`input mt-1 ${errors.submitterEmail ? 'border-red-500' : ''}`}
+                  placeholder="Enter your email"
+                  {...register('submitterEmail', {
+                    required: 'Email is required',
+                    pattern: {
+                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                      message: 'Invalid email address',
+                    },
+                  })}
+                />
+                                       {errors.submitterEmail && (
+                   <p className="mt-1 text-sm text-red-600">{String(errors.submitterEmail.message || 'Email is required')}</p>
+                 )}
+              </div>
             )}
+
+            <div>
+              <label htmlFor="submitterName" className="block text-sm font-medium text-gray-700">
+                Name (Optional)
+              </label>
+              <input
+                id="submitterName"
+                type="text"
+                className="input mt-1"
+                placeholder="Enter your name"
+                {...register('submitterName')}
+              />
+            </div>
           </div>
-          <div className="card-content">
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-              {/* Optional contact information */}
-              {(form.settings.requireEmail || form.settings.allowMultipleResponses) && (
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium text-gray-900">Contact Information</h3>
-                  
-                  {form.settings.requireEmail && (
-                    <div>
-                      <label htmlFor="submitterEmail" className="block text-sm font-medium text-gray-700">
-                        Email Address *
-                      </label>
-                      <input
-                        id="submitterEmail"
-                        type="email"
-                        className={`input mt-1 ${errors.submitterEmail ? 'border-red-500' : ''}`}
-                        placeholder="Enter your email"
-                        {...register('submitterEmail', {
-                          required: 'Email is required',
-                          pattern: {
-                            value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                            message: 'Invalid email address',
-                          },
-                        })}
-                      />
-                                             {errors.submitterEmail && (
-                         <p className="mt-1 text-sm text-red-600">{String(errors.submitterEmail.message || 'Email is required')}</p>
-                       )}
-                    </div>
-                  )}
-
-                  <div>
-                    <label htmlFor="submitterName" className="block text-sm font-medium text-gray-700">
-                      Name (Optional)
-                    </label>
-                    <input
-                      id="submitterName"
-                      type="text"
-                      className="input mt-1"
-                      placeholder="Enter your name"
-                      {...register('submitterName')}
-                    />
-                  </div>
-                </div>
+        )}
+
+        {/* Questions */}
+        {pages.map((page, position) => (
+          <div
+            key={page.section?._id || 'questions'}
+            className={`space-y-6 ${position === currentPosition ? '' : 'hidden'}`}
+          >
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">
+                {page.section?.title || 'Questions'}
+              </h3>
+              {page.section?.description && (
+                <p className="mt-1 text-sm text-gray-500">{page.section.description}</p>
               )}
+            </div>
 
-              {/* Questions */}
-              <div className="space-y-6">
-                <h3 className="text-lg font-medium text-gray-900">Questions</h3>
-                
-                {form.questions.map((question, index) => (
-                  <div key={question._id} className="space-y-2">
-                    <label className="block text-sm font-medium text-gray-700">
-                      {question.text}
-                      {question.required && <span className="text-red-500 ml-1">*</span>}
-                    </label>
-
-                    {question.type === 'text' ? (
-                      <textarea
-                        className={`textarea ${errors[`question_${question._id}`] ? 'border-red-500' : ''}`}
-                        placeholder="Enter your answer"
-                        rows={3}
-                        {...register(`question_${question._id}` as const, {
-                          required: question.required ? 'This question is required' : false,
-                        })}
-                      />
-                    ) : (
-                      <div className="space-y-2">
-                        {question.options?.map((option, optionIndex) => (
-                          <div key={optionIndex} className="flex items-center">
-                            <input
-                              type="radio"
-                              id={`${question._id}_${optionIndex}`}
-                              value={option}
-                              className="h-4 w-4 text-primary-600"
-                              {...register(`question_${question._id}` as const, {
-                                required: question.required ? 'Please select an option' : false,
-                              })}
-                            />
-                            <label
-                              htmlFor={`${question._id}_${optionIndex}`}
-                              className="ml-2 text-sm text-gray-700"
-                            >
-                              {option}
-                            </label>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-
-                                         {errors[`question_${question._id}`] && (
-                       <p className="text-sm text-red-600">
-                         {String(errors[`question_${question._id}`]?.message || 'This field is required')}
-                       </p>
-                     )}
-                  </div>
-                ))}
-              </div>
+            {page.questions.map((question) => (
+              <div key={question._id} className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {question.text}
+                  {question.required && <span className="text-red-500 ml-1">*</span>}
+                </label>
 
-              {/* Submit button */}
-              <div className="flex justify-end">
-                <button
-                  type="submit"
-                  disabled={submitting}
-                  className="btn btn-primary btn-lg"
-                >
-                  {submitting ? (
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  ) : (
-                    <>
-                      <Send className="h-5 w-5 mr-2" />
-                      Submit Response
-                    </>
-                  )}
-                </button>
+                <QuestionInput
+                  question={question}
+                  formId={form._id}
+                  register={register}
+                  control={control}
+                  hasError={!!errors[`question_${question._id}`]}
+                />
+
+                {errors[`question_${question._id}`] && (
+                  <p className="text-sm text-red-600">
+                    {String(errors[`question_${question._id}`]?.message || 'This field is required')}
+                  </p>
+                )}
               </div>
-            </form>
+            ))}
+          </div>
+        ))}
+
+        {captcha && isLastPage && (
+          <CaptchaWidget key={captchaKey} config={captcha} onChange={setCaptchaToken} />
+        )}
+
+        {resumeLink && (
+          <div className="space-y-2 rounded-md bg-gray-50 p-3">
+            <p className="text-sm text-gray-700">
+              Your answers are saved. Use this link to continue on any device:
+            </p>
+            <div className="flex items-center space-x-2">
+              <p className="flex-1 truncate text-sm text-gray-900">{resumeLink}</p>
+              <button type="button" onClick={copyResumeLink} className="btn btn-outline btn-sm">
+                <Copy className="h-4 w-4 mr-1" />
+                Copy link
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Navigation and submit buttons */}
+        <div className="flex justify-between">
+          <div>
+            {currentPosition > 0 && (
+              <button
+                type="button"
+                onClick={goToPreviousPage}
+                className="btn btn-outline btn-lg"
+              >
+                <ChevronLeft className="h-5 w-5 mr-2" />
+                Back
+              </button>
+            )}
+          </div>
+          <div className="flex items-center space-x-3">
+            {form.settings.saveProgress && hasAnswers && (
+              <button
+                type="button"
+                onClick={continueLater}
+                disabled={savingProgress}
+                className="btn btn-outline btn-lg"
+              >
+                <Bookmark className="h-5 w-5 mr-2" />
+                Continue later
+              </button>
+            )}
+            {isLastPage ? (
+              <button
+                type="submit"
+                disabled={submitting}
+                className="btn btn-brand btn-lg"
+              >
+                {submitting ? (
+                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                ) : (
+                  <>
+                    <Send className="h-5 w-5 mr-2" />
+                    Submit Response
+                  </>
+                )}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="btn btn-brand btn-lg"
+              >
+                Next
+                <ChevronRight className="h-5 w-5 ml-2" />
+              </button>
+            )}
           </div>
         </div>
-      </div>
-    </div>
+      </form>
+    </FormFrame>
   );
 };
 
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { Eye, EyeOff, Mail, Lock, Building } from 'lucide-react';
 import toast from 'react-hot-toast';
@@ -19,6 +19,10 @@ const Register: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Only follow redirects within the app, e.g. back to an invitation link
+  const redirect = searchParams.get('redirect');
+  const redirectTo = redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard';
 
   const {
     register,
@@ -38,8 +42,8 @@ const Register: React.FC = () => {
         businessName: data.businessName,
       });
       login(response.token, response.user);
-      toast.success('Registration successful!');
-      navigate('/dashboard');
+      toast.success('Registration successful! Check your email for a link to verify your address.');
+      navigate(redirectTo);
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Registration failed');
     } finally {
@@ -57,7 +61,7 @@ const Register: React.FC = () => {
           <p className="mt-2 text-center text-sm text-gray-600">
             Or{' '}
             <Link
-              to="/login"
+              to={redirect ? `/login?redirect=${encodeURIComponent(redirect)}` : '/login'}
               className="font-medium text-primary-600 hover:text-primary-500"
             >
               sign in to your existing account
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import toast from 'react-hot-toast';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Branding } from '../types';
+import BrandingEditor from '../components/BrandingEditor';
+import FormFrame from '../components/FormFrame';
+import AccountCard from '../components/AccountCard';
+import ApiKeysCard from '../components/ApiKeysCard';
+import CloseAccountCard from '../components/CloseAccountCard';
+import PasswordCard from '../components/PasswordCard';
+import SessionsCard from '../components/SessionsCard';
+import TwoFactorCard from '../components/TwoFactorCard';
+
+interface SettingsFormData {
+  branding: Branding;
+}
+
+const Settings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const [saving, setSaving] = useState(false);
+
+  const methods = useForm<SettingsFormData>({
+    defaultValues: {
+      branding: {
+        ...user?.branding,
+        showPoweredBy: user?.branding?.showPoweredBy !== false,
+      },
+    },
+  });
+  const { handleSubmit, watch } = methods;
+  const branding = watch('branding');
+
+  const onSubmit = async (data: SettingsFormData) => {
+    setSaving(true);
+    try {
+      const response = await authAPI.updateBranding({ branding: data.branding });
+      updateUser(response.user);
+      toast.success('Branding saved successfully!');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save branding');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Manage your account settings
+        </p>
+      </div>
+
+      <AccountCard />
+
+      <PasswordCard />
+
+      <TwoFactorCard />
+
+      <FormProvider {...methods}>
+        <form onSubmit={handleSubmit(onSubmit)} className="card">
+          <div className="card-header">
+            <h2 className="card-title">Branding</h2>
+            <p className="card-description">
+              Applied to all of your forms; each form can override it in its Appearance settings
+            </p>
+          </div>
+          <div className="card-content grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="space-y-4">
+              <BrandingEditor name="branding" />
+              <button
+                type="submit"
+                disabled={saving}
+                className="btn btn-primary btn-md"
+              >
+                {saving ? (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                ) : (
+                  'Save Branding'
+                )}
+              </button>
+            </div>
+
+            <div>
+              <p className="mb-2 text-sm font-medium text-gray-700">Preview</p>
+              <FormFrame
+                branding={branding}
+                title={user?.businessName || 'Your form'}
+                description="This is how your forms will look to respondents."
+                compact
+              >
+                <div className="flex justify-end">
+                  <button type="button" className="btn btn-brand btn-md">
+                    Submit Response
+                  </button>
+                </div>
+              </FormFrame>
+            </div>
+          </div>
+        </form>
+      </FormProvider>
+
+      <SessionsCard />
+
+      <ApiKeysCard />
+
+      <CloseAccountCard />
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,341 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
+import { Copy, Trash2, UserPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { workspacesAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { Workspace, WorkspaceRole } from '../types';
+import { ROLES, can } from '../utils/permissions';
+
+interface InviteFormData {
+  email: string;
+  role: WorkspaceRole;
+}
+
+const Team: React.FC = () => {
+  const { user } = useAuth();
+  const { currentWorkspace, refreshWorkspaces, switchWorkspace } = useWorkspace();
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [inviteLink, setInviteLink] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<InviteFormData>({ defaultValues: { email: '', role: 'editor' } });
+
+  const isOwner = can(workspace?.role, 'workspace:manage');
+  const workspaceId = currentWorkspace?._id;
+
+  const fetchWorkspace = useCallback(async () => {
+    if (!workspaceId) return;
+    try {
+      const response = await workspacesAPI.getById(workspaceId);
+      setWorkspace(response.workspace);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load workspace');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchWorkspace();
+  }, [fetchWorkspace]);
+
+  const onInvite = async (data: InviteFormData) => {
+    try {
+      const response = await workspacesAPI.invite(workspace!._id, data);
+      setWorkspace(response.workspace);
+      setInviteLink(`${window.location.origin}/invitations/${response.token}`);
+      reset({ email: '', role: data.role });
+      toast.success('Invitation created');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create invitation');
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    try {
+      const response = await workspacesAPI.revokeInvitation(workspace!._id, invitationId);
+      setWorkspace(response.workspace);
+      toast.success('Invitation revoked');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to revoke invitation');
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: WorkspaceRole) => {
+    try {
+      const response = await workspacesAPI.updateMember(workspace!._id, userId, { role });
+      setWorkspace(response.workspace);
+      await refreshWorkspaces();
+      toast.success('Role updated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update role');
+    }
+  };
+
+  const handleRemove = async (userId: string, isSelf: boolean) => {
+    const message = isSelf
+      ? 'Are you sure you want to leave this workspace?'
+      : 'Are you sure you want to remove this member?';
+    if (!window.confirm(message)) return;
+
+    try {
+      await workspacesAPI.removeMember(workspace!._id, userId);
+      toast.success(isSelf ? 'You left the workspace' : 'Member removed');
+      if (isSelf) {
+        await refreshWorkspaces();
+      } else {
+        fetchWorkspace();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to remove member');
+    }
+  };
+
+  const handleRequireTwoFactor = async (requireTwoFactor: boolean) => {
+    try {
+      const response = await workspacesAPI.updateSecurity(workspace!._id, { requireTwoFactor });
+      setWorkspace(response.workspace);
+      await refreshWorkspaces();
+      toast.success(response.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update security settings');
+    }
+  };
+
+  const handleCreateWorkspace = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+
+    try {
+      const response = await workspacesAPI.create({ name: newWorkspaceName.trim() });
+      setNewWorkspaceName('');
+      await refreshWorkspaces();
+      switchWorkspace(response.workspace._id);
+      toast.success('Workspace created');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create workspace');
+    }
+  };
+
+  const copyInviteLink = () => {
+    navigator.clipboard.writeText(inviteLink);
+    toast.success('Invitation link copied to clipboard!');
+  };
+
+  if (loading || !workspace) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Members of {workspace.name} share its forms and responses
+        </p>
+      </div>
+
+      {/* Members */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Members</h2>
+          <p className="card-description">
+            {ROLES.map((role) => `${role.label}: ${role.description}`).join(' · ')}
+          </p>
+        </div>
+        <div className="card-content">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Member
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {workspace.members.map((member) => {
+                const isSelf = member.user.email === user?.email;
+                return (
+                  <tr key={member.user._id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {member.user.businessName}{isSelf && ' (you)'}
+                        {member.twoFactorEnabled ? (
+                          <span className="ml-2 inline-flex rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-800">
+                            2FA
+                          </span>
+                        ) : workspace.requireTwoFactor && (
+                          <span className="ml-2 inline-flex rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-semibold text-yellow-800">
+                            Needs 2FA
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500">{member.user.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {isOwner ? (
+                        <select
+                          className="input max-w-[10rem]"
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member.user._id, e.target.value as WorkspaceRole)}
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role.value} value={role.value}>{role.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        ROLES.find((role) => role.value === member.role)?.label
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {(isOwner || isSelf) && (
+                        <button
+                          onClick={() => handleRemove(member.user._id, isSelf)}
+                          className="text-gray-400 hover:text-red-600"
+                          title={isSelf ? 'Leave workspace' : 'Remove member'}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Security */}
+      {isOwner && (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Security</h2>
+            <p className="card-description">
+              Members without two-factor authentication cannot open this workspace's forms and responses until
+              they turn it on in their Settings
+            </p>
+          </div>
+          <div className="card-content">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-primary-600"
+                checked={workspace.requireTwoFactor}
+                onChange={(e) => handleRequireTwoFactor(e.target.checked)}
+              />
+              <span>Require two-factor authentication for all members</span>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Invitations */}
+      {isOwner && (
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Invite Members</h2>
+            <p className="card-description">
+              Invitation links are valid for 7 days and can only be accepted by the invited email address
+            </p>
+          </div>
+          <div className="card-content space-y-4">
+            <form onSubmit={handleSubmit(onInvite)} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="email"
+                className={`input ${errors.email ? 'border-red-500' : ''}`}
+                placeholder="colleague@example.com"
+                {...register('email', { required: 'Email is required' })}
+              />
+              <select className="input sm:max-w-[10rem]" {...register('role')}>
+                {ROLES.map((role) => (
+                  <option key={role.value} value={role.value}>{role.label}</option>
+                ))}
+              </select>
+              <button type="submit" disabled={isSubmitting} className="btn btn-primary btn-md">
+                <UserPlus className="h-4 w-4 mr-2" />
+                Invite
+              </button>
+            </form>
+
+            {inviteLink && (
+              <div className="flex items-center space-x-2 rounded-md bg-gray-50 p-3">
+                <p className="flex-1 truncate text-sm text-gray-700">{inviteLink}</p>
+                <button type="button" onClick={copyInviteLink} className="btn btn-outline btn-sm">
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy link
+                </button>
+              </div>
+            )}
+
+            {workspace.invitations.length > 0 && (
+              <ul className="divide-y divide-gray-200">
+                {workspace.invitations.map((invitation) => (
+                  <li key={invitation._id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="text-sm text-gray-900">{invitation.email}</p>
+                      <p className="text-xs text-gray-500">
+                        {ROLES.find((role) => role.value === invitation.role)?.label} · expires{' '}
+                        {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(invitation._id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Revoke invitation"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* New workspace */}
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">New Workspace</h2>
+          <p className="card-description">Create a separate workspace, e.g. for another team</p>
+        </div>
+        <div className="card-content">
+          <form onSubmit={handleCreateWorkspace} className="flex gap-2">
+            <input
+              type="text"
+              className="input"
+              placeholder="Workspace name"
+              value={newWorkspaceName}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+            />
+            <button type="submit" className="btn btn-outline btn-md">
+              Create
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Team;
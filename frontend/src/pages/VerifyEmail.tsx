@@ -0,0 +1,68 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+
+const VerifyEmail: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { user, updateUser } = useAuth();
+  const [result, setResult] = useState<{ verified: boolean; message: string } | null>(null);
+  // Links work once; React may run the effect twice in development
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await authAPI.verifyEmail({ token });
+        setResult({ verified: true, message: response.message });
+      } catch (error: any) {
+        setResult({
+          verified: false,
+          message: error.response?.data?.message || 'This link is invalid or has expired.',
+        });
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  // Clear the "verify your email" notice in the open session
+  useEffect(() => {
+    if (result?.verified && user && !user.emailVerified) {
+      updateUser({ ...user, emailVerified: true });
+    }
+  }, [result, user, updateUser]);
+
+  if (!result) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+      <div className="text-center">
+        {result.verified ? (
+          <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+        ) : (
+          <AlertCircle className="mx-auto h-12 w-12 text-red-400" />
+        )}
+        <h3 className="mt-2 text-sm font-medium text-gray-900">
+          {result.verified ? 'Email verified' : 'Could not verify your email'}
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">{result.message}</p>
+        <Link to={user ? '/dashboard' : '/login'} className="btn btn-primary btn-md mt-6">
+          {user ? 'Go to dashboard' : 'Sign in'}
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -1,131 +1,905 @@
-import axios from 'axios';
-import { 
-  User, 
-  Form, 
-  Response, 
-  FormSummary, 
-  LoginCredentials, 
-  RegisterData, 
-  CreateFormData, 
+// Generated by backend/scripts/generate-client.js from the OpenAPI document
+// in backend/openapi. Do not edit; run `npm run generate-client` in backend/.
+
+import api from './http';
+import {
+  AccountUpdate,
+  ApiKey,
+  ApiKeyInput,
+  AuthSession,
+  BrandingInput,
+  Campaign,
+  CampaignInput,
+  CampaignRecipient,
+  CaptchaConfig,
+  CreateFormData,
+  EmailVerificationData,
+  ExportFormat,
+  FileLink,
+  ForgotPasswordData,
+  Form,
+  FormSnapshot,
+  FormSummary,
+  FormVersion,
+  InvitationDetails,
+  InvitationInput,
+  InviteDetails,
+  LoginCredentials,
+  LoginResult,
+  MemberInput,
+  Message,
+  NoteInput,
+  PasswordChange,
+  PasswordConfirmation,
+  PublicFormDetails,
+  RecipientStatus,
+  RecoveryCodes,
+  RegisterData,
+  ResetPasswordData,
+  Response,
+  ResponseStatus,
+  ResumeDetails,
+  SavePartialResponseData,
+  Session,
+  SpamReviewInput,
   SubmitResponseData,
-  PaginatedResponse 
+  SummaryInterval,
+  TriageInput,
+  TwoFactorCode,
+  TwoFactorLogin,
+  TwoFactorSetup,
+  UpdateFormData,
+  UpdateWebhookData,
+  UploadedFile,
+  User,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookInput,
+  Workspace,
+  WorkspaceInput,
+  WorkspaceRole,
+  WorkspaceSecurityInput,
+  WorkspaceSummary,
 } from '../types';
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
-
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Request interceptor to add auth token
-api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Response interceptor to handle auth errors
-api.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/login';
-    }
-    return Promise.reject(error);
-  }
-);
-
-// Auth API
+export interface AuthGetSessionsResult {
+  sessions: Session[];
+}
+
+export interface AuthUpdateAccountResult {
+  message: string;
+  user: User;
+}
+
+export interface AuthGetProfileResult {
+  user: User;
+}
+
+export interface AuthUpdateBrandingResult {
+  message: string;
+  user: User;
+}
+
+export interface FormsCreateResult {
+  message: string;
+  form: Form;
+}
+
+export interface FormsGetAllParams {
+  // Page number, from 1
+  page?: number;
+  // Forms per page
+  limit?: number;
+  // Text the title contains
+  search?: string;
+}
+
+export interface FormsGetAllResult {
+  forms: Form[];
+  totalPages: number;
+  currentPage: number;
+  total: number;
+}
+
+export interface FormsGetByIdResult {
+  form: Form;
+  role: WorkspaceRole;
+}
+
+export interface FormsUpdateResult {
+  message: string;
+  form: Form;
+}
+
+export interface FormsGetVersionsResult {
+  currentVersion: number;
+  versions: FormVersion[];
+}
+
+export interface FormsGetVersionResult {
+  version: FormSnapshot;
+}
+
+export interface FormsGetByPublicUrlParams {
+  // Token from a campaign invite link
+  invite?: string;
+  // Resume token of a partial response to continue
+  resume?: string;
+}
+
+export interface FormsGetByPublicUrlResult {
+  form: PublicFormDetails;
+  // Kept by the browser for duplicate checks
+  deviceToken: string;
+  // Sent back with the response to time it
+  startToken: string;
+  captcha: CaptchaConfig | null;
+  invite: InviteDetails | null;
+  // Null when the token is unknown or has expired
+  resume: ResumeDetails | null;
+}
+
+export interface ResponsesSubmitResult {
+  message: string;
+  responseId: string;
+}
+
+export interface ResponsesSavePartialResult {
+  message: string;
+  // Send back with later saves and the final submission
+  resumeToken: string;
+  expiresAt: string;
+}
+
+export interface ResponsesGetByFormParams {
+  // Page number, from 1
+  page?: number;
+  // Responses per page
+  limit?: number;
+  // Form version answered; all versions merged when unset
+  version?: number;
+  // Only the responses quarantined as suspected spam
+  quarantined?: boolean;
+  // Text searched in answers, submitter email and name
+  q?: string;
+  // Part of the submitter's email address
+  email?: string;
+  // Earliest submission time
+  from?: string;
+  // Latest submission time; a date without a time includes that whole day
+  to?: string;
+  // Answers to match, by question id; repeat a key for any of several values
+  answer?: Record<string, string | string[]>;
+  // Hidden field values to match, by name; repeat a key for any of several values
+  field?: Record<string, string | string[]>;
+  // Triage status; repeat for any of several
+  status?: ResponseStatus | ResponseStatus[];
+  // A tag the response has; repeat for any of several
+  tag?: string | string[];
+  // Id of the member it is assigned to, or "none" for unassigned
+  assignee?: string;
+  // submittedAt, submitterEmail, submitterName or question:<id>
+  sort?: string;
+  // Sort direction
+  order?: 'asc' | 'desc';
+}
+
+export interface ResponsesGetByFormResult {
+  responses: Response[];
+  totalPages: number;
+  currentPage: number;
+  total: number;
+  // Responses awaiting spam review
+  quarantinedTotal: number;
+}
+
+export interface ResponsesGetSummaryParams {
+  // Form version answered; all versions merged when unset
+  version?: number;
+  // Only the responses quarantined as suspected spam
+  quarantined?: boolean;
+  // Text searched in answers, submitter email and name
+  q?: string;
+  // Part of the submitter's email address
+  email?: string;
+  // Earliest submission time
+  from?: string;
+  // Latest submission time; a date without a time includes that whole day
+  to?: string;
+  // Answers to match, by question id; repeat a key for any of several values
+  answer?: Record<string, string | string[]>;
+  // Hidden field values to match, by name; repeat a key for any of several values
+  field?: Record<string, string | string[]>;
+  // Triage status; repeat for any of several
+  status?: ResponseStatus | ResponseStatus[];
+  // A tag the response has; repeat for any of several
+  tag?: string | string[];
+  // Id of the member it is assigned to, or "none" for unassigned
+  assignee?: string;
+  // submittedAt, submitterEmail, submitterName or question:<id>
+  sort?: string;
+  // Sort direction
+  order?: 'asc' | 'desc';
+  // Period of the timeline
+  interval?: SummaryInterval;
+  // IANA time zone for dates
+  timezone?: string;
+}
+
+export interface ResponsesGetSummaryResult {
+  summary: FormSummary;
+}
+
+export interface ResponsesExportParams {
+  // Form version answered; all versions merged when unset
+  version?: number;
+  // Only the responses quarantined as suspected spam
+  quarantined?: boolean;
+  // Text searched in answers, submitter email and name
+  q?: string;
+  // Part of the submitter's email address
+  email?: string;
+  // Earliest submission time
+  from?: string;
+  // Latest submission time; a date without a time includes that whole day
+  to?: string;
+  // Answers to match, by question id; repeat a key for any of several values
+  answer?: Record<string, string | string[]>;
+  // Hidden field values to match, by name; repeat a key for any of several values
+  field?: Record<string, string | string[]>;
+  // Triage status; repeat for any of several
+  status?: ResponseStatus | ResponseStatus[];
+  // A tag the response has; repeat for any of several
+  tag?: string | string[];
+  // Id of the member it is assigned to, or "none" for unassigned
+  assignee?: string;
+  // submittedAt, submitterEmail, submitterName or question:<id>
+  sort?: string;
+  // Sort direction
+  order?: 'asc' | 'desc';
+  // File format
+  format?: ExportFormat;
+  // IANA time zone for dates
+  timezone?: string;
+}
+
+export interface ResponsesGetTagsResult {
+  tags: string[];
+}
+
+export interface ResponsesGetByIdResult {
+  response: Response;
+}
+
+export interface ResponsesAllowResubmissionResult {
+  message: string;
+  response: Response;
+}
+
+export interface ResponsesSetQuarantinedResult {
+  message: string;
+  response: Response;
+}
+
+export interface ResponsesUpdateTriageResult {
+  message: string;
+  response: Response;
+}
+
+export interface ResponsesAddNoteResult {
+  message: string;
+  response: Response;
+}
+
+export interface ResponsesDeleteNoteResult {
+  message: string;
+  response: Response;
+}
+
+export interface WorkspacesGetAllResult {
+  workspaces: WorkspaceSummary[];
+}
+
+export interface WorkspacesCreateResult {
+  message: string;
+  workspace: Workspace;
+}
+
+export interface WorkspacesGetInvitationResult {
+  invitation: InvitationDetails;
+}
+
+export interface WorkspacesAcceptInvitationResult {
+  message: string;
+  workspace: Workspace;
+}
+
+export interface WorkspacesGetByIdResult {
+  workspace: Workspace;
+}
+
+export interface WorkspacesUpdateResult {
+  message: string;
+  workspace: Workspace;
+}
+
+export interface WorkspacesUpdateSecurityResult {
+  message: string;
+  workspace: Workspace;
+}
+
+export interface WorkspacesInviteResult {
+  message: string;
+  // Only returned once; share the link with the invitee
+  token: string;
+  workspace: Workspace;
+}
+
+export interface WorkspacesRevokeInvitationResult {
+  message: string;
+  workspace: Workspace;
+}
+
+export interface WorkspacesUpdateMemberResult {
+  message: string;
+  workspace: Workspace;
+}
+
+export interface WebhooksGetByFormResult {
+  webhooks: Webhook[];
+  events: WebhookEvent[];
+}
+
+export interface WebhooksCreateResult {
+  message: string;
+  webhook: Webhook;
+}
+
+export interface WebhooksUpdateResult {
+  message: string;
+  webhook: Webhook;
+}
+
+export interface WebhooksSendTestResult {
+  delivery: WebhookDelivery;
+}
+
+export interface WebhooksGetDeliveriesParams {
+  // Deliveries to return
+  limit?: number;
+}
+
+export interface WebhooksGetDeliveriesResult {
+  deliveries: WebhookDelivery[];
+}
+
+export interface CampaignsGetByFormResult {
+  campaigns: Campaign[];
+}
+
+export interface CampaignsCreateResult {
+  message: string;
+  campaign: Campaign;
+  // Data rows (from 1) left out of the list
+  skipped: {
+    row: number;
+    reason: string;
+  }[];
+}
+
+export interface CampaignsGetByIdParams {
+  // Only the recipients in this status
+  status?: RecipientStatus;
+}
+
+export interface CampaignsGetByIdResult {
+  campaign: Campaign;
+  recipients: CampaignRecipient[];
+}
+
+export interface CampaignsSendResult {
+  message: string;
+  // Emails queued
+  count: number;
+}
+
+export interface CampaignsRemindResult {
+  message: string;
+  // Emails queued
+  count: number;
+}
+
+export interface ApiKeysGetAllResult {
+  apiKeys: ApiKey[];
+}
+
+export interface ApiKeysCreateResult {
+  message: string;
+  apiKey: ApiKey;
+  // The key itself; only returned in this response
+  token: string;
+}
+
+export interface UploadsUploadImageResult {
+  // Public URL of the image
+  url: string;
+}
+
+// Accounts and sessions
 export const authAPI = {
-  login: async (credentials: LoginCredentials) => {
-    const response = await api.post('/auth/login', credentials);
+  // Register a new admin user
+  register: async (data: RegisterData): Promise<AuthSession> => {
+    const response = await api.post('/auth/register', data);
     return response.data;
   },
 
-  register: async (data: RegisterData) => {
-    const response = await api.post('/auth/register', data);
+  // Log in an admin user
+  login: async (data: LoginCredentials): Promise<LoginResult> => {
+    const response = await api.post('/auth/login', data);
+    return response.data;
+  },
+
+  // Finish logging in with a code from the authenticator app or a recovery code
+  loginTwoFactor: async (data: TwoFactorLogin): Promise<AuthSession> => {
+    const response = await api.post('/auth/login/2fa', data);
+    return response.data;
+  },
+
+  // Start turning on two-factor authentication
+  setupTwoFactor: async (): Promise<TwoFactorSetup> => {
+    const response = await api.post('/auth/2fa/setup');
+    return response.data;
+  },
+
+  // Turn on two-factor authentication with a code from the authenticator app
+  enableTwoFactor: async (data: TwoFactorCode): Promise<RecoveryCodes> => {
+    const response = await api.post('/auth/2fa/enable', data);
+    return response.data;
+  },
+
+  // Turn off two-factor authentication
+  disableTwoFactor: async (data: PasswordConfirmation): Promise<Message> => {
+    const response = await api.post('/auth/2fa/disable', data);
+    return response.data;
+  },
+
+  // Replace your recovery codes with new ones
+  regenerateRecoveryCodes: async (data: PasswordConfirmation): Promise<RecoveryCodes> => {
+    const response = await api.post('/auth/2fa/recovery-codes', data);
+    return response.data;
+  },
+
+  // Trade the refresh token cookie for a new one and a new access token
+  refresh: async (): Promise<AuthSession> => {
+    const response = await api.post('/auth/refresh');
+    return response.data;
+  },
+
+  // End the session of the refresh token cookie
+  logout: async (): Promise<Message> => {
+    const response = await api.post('/auth/logout');
+    return response.data;
+  },
+
+  // End all of your sessions, on every device
+  logoutAll: async (): Promise<Message> => {
+    const response = await api.post('/auth/logout-all');
+    return response.data;
+  },
+
+  // List your sessions, most recently used first
+  getSessions: async (): Promise<AuthGetSessionsResult> => {
+    const response = await api.get('/auth/sessions');
+    return response.data;
+  },
+
+  // End one of your sessions
+  revokeSession: async (id: string): Promise<Message> => {
+    const response = await api.delete(`/auth/sessions/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Change your password; your other sessions are ended
+  changePassword: async (data: PasswordChange): Promise<Message> => {
+    const response = await api.put('/auth/password', data);
+    return response.data;
+  },
+
+  // Email a password reset link; responds the same whether or not an account uses the address
+  forgotPassword: async (data: ForgotPasswordData): Promise<Message> => {
+    const response = await api.post('/auth/forgot-password', data);
+    return response.data;
+  },
+
+  // Set a new password with the token from a reset link; all sessions are ended
+  resetPassword: async (data: ResetPasswordData): Promise<Message> => {
+    const response = await api.post('/auth/reset-password', data);
+    return response.data;
+  },
+
+  // Verify an email address with the token from the link
+  verifyEmail: async (data: EmailVerificationData): Promise<Message> => {
+    const response = await api.post('/auth/verify-email', data);
+    return response.data;
+  },
+
+  // Email yourself a new verification link
+  resendVerification: async (): Promise<Message> => {
+    const response = await api.post('/auth/verify-email/resend');
+    return response.data;
+  },
+
+  // Update your business name or email address
+  updateAccount: async (data: AccountUpdate): Promise<AuthUpdateAccountResult> => {
+    const response = await api.put('/auth/account', data);
+    return response.data;
+  },
+
+  // Delete your account
+  deleteAccount: async (data: PasswordConfirmation): Promise<Message> => {
+    const response = await api.delete('/auth/account', { data });
+    return response.data;
+  },
+
+  // Deactivate your account and end all its sessions; logging in again reactivates it
+  deactivate: async (data: PasswordConfirmation): Promise<Message> => {
+    const response = await api.post('/auth/deactivate', data);
     return response.data;
   },
 
-  getProfile: async () => {
+  // Get the current user
+  getProfile: async (): Promise<AuthGetProfileResult> => {
     const response = await api.get('/auth/me');
     return response.data;
   },
+
+  // Update the account branding used by all forms
+  updateBranding: async (data: {
+    branding?: BrandingInput;
+  }): Promise<AuthUpdateBrandingResult> => {
+    const response = await api.put('/auth/branding', data);
+    return response.data;
+  },
 };
 
-// Forms API
+// Forms and their published versions
 export const formsAPI = {
-  create: async (data: CreateFormData) => {
+  // Create a form in the current workspace
+  create: async (data: CreateFormData): Promise<FormsCreateResult> => {
     const response = await api.post('/forms', data);
     return response.data;
   },
 
-  getAll: async (params?: { page?: number; limit?: number; search?: string }) => {
+  // List the forms of the current workspace
+  getAll: async (params?: FormsGetAllParams): Promise<FormsGetAllResult> => {
     const response = await api.get('/forms', { params });
     return response.data;
   },
 
-  getById: async (id: string) => {
-    const response = await api.get(`/forms/${id}`);
+  // Get a form
+  getById: async (id: string): Promise<FormsGetByIdResult> => {
+    const response = await api.get(`/forms/${encodeURIComponent(id)}`);
     return response.data;
   },
 
-  update: async (id: string, data: Partial<CreateFormData>) => {
-    const response = await api.put(`/forms/${id}`, data);
+  // Update a form
+  update: async (id: string, data: UpdateFormData): Promise<FormsUpdateResult> => {
+    const response = await api.put(`/forms/${encodeURIComponent(id)}`, data);
     return response.data;
   },
 
-  delete: async (id: string) => {
-    const response = await api.delete(`/forms/${id}`);
+  // Delete a form with its responses, files, versions, campaigns and webhooks
+  delete: async (id: string): Promise<Message> => {
+    const response = await api.delete(`/forms/${encodeURIComponent(id)}`);
     return response.data;
   },
 
-  getByPublicUrl: async (publicUrl: string) => {
-    const response = await api.get(`/forms/public/${publicUrl}`);
+  // List a form's published versions with their response counts
+  getVersions: async (id: string): Promise<FormsGetVersionsResult> => {
+    const response = await api.get(`/forms/${encodeURIComponent(id)}/versions`);
+    return response.data;
+  },
+
+  // Get the questions and sections of a published version
+  getVersion: async (id: string, version: number): Promise<FormsGetVersionResult> => {
+    const response = await api.get(`/forms/${encodeURIComponent(id)}/versions/${encodeURIComponent(version)}`);
+    return response.data;
+  },
+
+  // Get a form by its public URL
+  getByPublicUrl: async (publicUrl: string, params?: FormsGetByPublicUrlParams): Promise<FormsGetByPublicUrlResult> => {
+    const response = await api.get(`/forms/public/${encodeURIComponent(publicUrl)}`, { params });
     return response.data;
   },
 };
 
-// Responses API
+// Submissions, results, summaries and exports
 export const responsesAPI = {
-  submit: async (data: SubmitResponseData) => {
+  // Submit a response to a public form
+  submit: async (data: SubmitResponseData): Promise<ResponsesSubmitResult> => {
     const response = await api.post('/responses', data);
     return response.data;
   },
 
-  getByForm: async (formId: string, params?: { page?: number; limit?: number }) => {
-    const response = await api.get(`/responses/form/${formId}`, { params });
+  // Save the answers given so far to a form that saves progress
+  savePartial: async (data: SavePartialResponseData): Promise<ResponsesSavePartialResult> => {
+    const response = await api.post('/responses/partial', data);
     return response.data;
   },
 
-  getSummary: async (formId: string) => {
-    const response = await api.get(`/responses/form/${formId}/summary`);
+  // Get a page of a form's responses
+  getByForm: async (formId: string, params?: ResponsesGetByFormParams): Promise<ResponsesGetByFormResult> => {
+    const response = await api.get(`/responses/form/${encodeURIComponent(formId)}`, { params });
     return response.data;
   },
 
-  exportCSV: async (formId: string) => {
-    const response = await api.get(`/responses/form/${formId}/export`, {
-      responseType: 'blob',
-    });
+  // Get summary statistics for a form's responses
+  getSummary: async (formId: string, params?: ResponsesGetSummaryParams): Promise<ResponsesGetSummaryResult> => {
+    const response = await api.get(`/responses/form/${encodeURIComponent(formId)}/summary`, { params });
     return response.data;
   },
 
-  getById: async (id: string) => {
-    const response = await api.get(`/responses/${id}`);
+  // Download a form's responses
+  export: async (formId: string, params?: ResponsesExportParams): Promise<Blob> => {
+    const response = await api.get(`/responses/form/${encodeURIComponent(formId)}/export`, { params, responseType: 'blob' });
+    return response.data;
+  },
+
+  // Get the tags used on a form's responses
+  getTags: async (formId: string): Promise<ResponsesGetTagsResult> => {
+    const response = await api.get(`/responses/form/${encodeURIComponent(formId)}/tags`);
+    return response.data;
+  },
+
+  // Get a response
+  getById: async (id: string): Promise<ResponsesGetByIdResult> => {
+    const response = await api.get(`/responses/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Delete a response
+  delete: async (id: string): Promise<Message> => {
+    const response = await api.delete(`/responses/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Get a download link for the file answering a question
+  getFileLink: async (id: string, questionId: string): Promise<FileLink> => {
+    const response = await api.get(`/responses/${encodeURIComponent(id)}/files/${encodeURIComponent(questionId)}`);
+    return response.data;
+  },
+
+  // Let the sender of a response respond again
+  allowResubmission: async (id: string): Promise<ResponsesAllowResubmissionResult> => {
+    const response = await api.post(`/responses/${encodeURIComponent(id)}/allow-resubmission`);
+    return response.data;
+  },
+
+  // Quarantine a response as spam, or release it into the results
+  setQuarantined: async (id: string, data: SpamReviewInput): Promise<ResponsesSetQuarantinedResult> => {
+    const response = await api.patch(`/responses/${encodeURIComponent(id)}/spam`, data);
+    return response.data;
+  },
+
+  // Change a response's status, tags or assignee
+  updateTriage: async (id: string, data: TriageInput): Promise<ResponsesUpdateTriageResult> => {
+    const response = await api.patch(`/responses/${encodeURIComponent(id)}/triage`, data);
+    return response.data;
+  },
+
+  // Add an internal note to a response
+  addNote: async (id: string, data: NoteInput): Promise<ResponsesAddNoteResult> => {
+    const response = await api.post(`/responses/${encodeURIComponent(id)}/notes`, data);
+    return response.data;
+  },
+
+  // Delete a note from a response (its author or workspace owners)
+  deleteNote: async (id: string, noteId: string): Promise<ResponsesDeleteNoteResult> => {
+    const response = await api.delete(`/responses/${encodeURIComponent(id)}/notes/${encodeURIComponent(noteId)}`);
+    return response.data;
+  },
+};
+
+// Workspaces, members and invitations
+export const workspacesAPI = {
+  // List the workspaces you belong to
+  getAll: async (): Promise<WorkspacesGetAllResult> => {
+    const response = await api.get('/workspaces');
+    return response.data;
+  },
+
+  // Create a workspace you own
+  create: async (data: WorkspaceInput): Promise<WorkspacesCreateResult> => {
+    const response = await api.post('/workspaces', data);
+    return response.data;
+  },
+
+  // Get the details of an invitation from its link
+  getInvitation: async (token: string): Promise<WorkspacesGetInvitationResult> => {
+    const response = await api.get(`/workspaces/invitations/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  // Join a workspace with an invitation sent to your email
+  acceptInvitation: async (token: string): Promise<WorkspacesAcceptInvitationResult> => {
+    const response = await api.post(`/workspaces/invitations/${encodeURIComponent(token)}/accept`);
+    return response.data;
+  },
+
+  // Get a workspace with its members
+  getById: async (id: string): Promise<WorkspacesGetByIdResult> => {
+    const response = await api.get(`/workspaces/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Rename a workspace (owners)
+  update: async (id: string, data: WorkspaceInput): Promise<WorkspacesUpdateResult> => {
+    const response = await api.put(`/workspaces/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Require members to use two-factor authentication, or stop requiring it (owners)
+  updateSecurity: async (id: string, data: WorkspaceSecurityInput): Promise<WorkspacesUpdateSecurityResult> => {
+    const response = await api.put(`/workspaces/${encodeURIComponent(id)}/security`, data);
+    return response.data;
+  },
+
+  // Invite someone to a workspace by email (owners)
+  invite: async (id: string, data: InvitationInput): Promise<WorkspacesInviteResult> => {
+    const response = await api.post(`/workspaces/${encodeURIComponent(id)}/invitations`, data);
+    return response.data;
+  },
+
+  // Revoke a pending invitation (owners)
+  revokeInvitation: async (id: string, invitationId: string): Promise<WorkspacesRevokeInvitationResult> => {
+    const response = await api.delete(`/workspaces/${encodeURIComponent(id)}/invitations/${encodeURIComponent(invitationId)}`);
+    return response.data;
+  },
+
+  // Change a member's role (owners)
+  updateMember: async (id: string, userId: string, data: MemberInput): Promise<WorkspacesUpdateMemberResult> => {
+    const response = await api.put(`/workspaces/${encodeURIComponent(id)}/members/${encodeURIComponent(userId)}`, data);
+    return response.data;
+  },
+
+  // Remove a member (owners), or leave the workspace by removing yourself
+  removeMember: async (id: string, userId: string): Promise<Message> => {
+    const response = await api.delete(`/workspaces/${encodeURIComponent(id)}/members/${encodeURIComponent(userId)}`);
     return response.data;
   },
 };
 
-export default api; 
\ No newline at end of file
+// Event subscriptions of a form
+export const webhooksAPI = {
+  // Get the webhooks of a form (editors)
+  getByForm: async (formId: string): Promise<WebhooksGetByFormResult> => {
+    const response = await api.get(`/webhooks/form/${encodeURIComponent(formId)}`);
+    return response.data;
+  },
+
+  // Subscribe a URL to events of a form (editors)
+  create: async (formId: string, data: WebhookInput): Promise<WebhooksCreateResult> => {
+    const response = await api.post(`/webhooks/form/${encodeURIComponent(formId)}`, data);
+    return response.data;
+  },
+
+  // Update a webhook's URL, events, secret or status (editors)
+  update: async (id: string, data: UpdateWebhookData): Promise<WebhooksUpdateResult> => {
+    const response = await api.put(`/webhooks/${encodeURIComponent(id)}`, data);
+    return response.data;
+  },
+
+  // Delete a webhook and its delivery log (editors)
+  delete: async (id: string): Promise<Message> => {
+    const response = await api.delete(`/webhooks/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Send a test event and wait for the first attempt (editors)
+  sendTest: async (id: string): Promise<WebhooksSendTestResult> => {
+    const response = await api.post(`/webhooks/${encodeURIComponent(id)}/test`);
+    return response.data;
+  },
+
+  // Get the most recent deliveries of a webhook (editors)
+  getDeliveries: async (id: string, params?: WebhooksGetDeliveriesParams): Promise<WebhooksGetDeliveriesResult> => {
+    const response = await api.get(`/webhooks/${encodeURIComponent(id)}/deliveries`, { params });
+    return response.data;
+  },
+};
+
+// Personal invite links sent by email
+export const campaignsAPI = {
+  // Get the campaigns of a form with recipient counts by status
+  getByForm: async (formId: string): Promise<CampaignsGetByFormResult> => {
+    const response = await api.get(`/campaigns/form/${encodeURIComponent(formId)}`);
+    return response.data;
+  },
+
+  // Create a campaign from a CSV recipient list
+  create: async (formId: string, data: CampaignInput): Promise<CampaignsCreateResult> => {
+    const response = await api.post(`/campaigns/form/${encodeURIComponent(formId)}`, data);
+    return response.data;
+  },
+
+  // Get a campaign with its recipients
+  getById: async (id: string, params?: CampaignsGetByIdParams): Promise<CampaignsGetByIdResult> => {
+    const response = await api.get(`/campaigns/${encodeURIComponent(id)}`, { params });
+    return response.data;
+  },
+
+  // Delete a campaign and its recipients; their links stop working
+  delete: async (id: string): Promise<Message> => {
+    const response = await api.delete(`/campaigns/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+
+  // Email invitations to the recipients who have not been sent one
+  send: async (id: string): Promise<CampaignsSendResult> => {
+    const response = await api.post(`/campaigns/${encodeURIComponent(id)}/send`);
+    return response.data;
+  },
+
+  // Email a reminder to invited recipients who have not responded
+  remind: async (id: string): Promise<CampaignsRemindResult> => {
+    const response = await api.post(`/campaigns/${encodeURIComponent(id)}/remind`);
+    return response.data;
+  },
+
+  // Record that an invitee started answering
+  startInvite: async (token: string): Promise<Message> => {
+    const response = await api.post(`/campaigns/invites/${encodeURIComponent(token)}/start`);
+    return response.data;
+  },
+};
+
+// Personal API keys
+export const apiKeysAPI = {
+  // List your API keys, without their tokens
+  getAll: async (): Promise<ApiKeysGetAllResult> => {
+    const response = await api.get('/api-keys');
+    return response.data;
+  },
+
+  // Create an API key
+  create: async (data: ApiKeyInput): Promise<ApiKeysCreateResult> => {
+    const response = await api.post('/api-keys', data);
+    return response.data;
+  },
+
+  // Revoke an API key
+  revoke: async (id: string): Promise<Message> => {
+    const response = await api.delete(`/api-keys/${encodeURIComponent(id)}`);
+    return response.data;
+  },
+};
+
+// Branding images and files uploaded to forms
+export const uploadsAPI = {
+  // Upload a branding image (logo or form header)
+  uploadImage: async (data: {
+    image: Blob;
+  }): Promise<UploadsUploadImageResult> => {
+    const body = new FormData();
+    body.append('image', data.image);
+    const response = await api.post('/uploads/images', body, { headers: { 'Content-Type': 'multipart/form-data' } });
+    return response.data;
+  },
+
+  // Upload a file to answer a file question of a public form
+  uploadFile: async (formId: string, questionId: string, data: {
+    file: Blob;
+  }): Promise<UploadedFile> => {
+    const body = new FormData();
+    body.append('file', data.file);
+    const response = await api.post(`/uploads/forms/${encodeURIComponent(formId)}/questions/${encodeURIComponent(questionId)}`, body, { headers: { 'Content-Type': 'multipart/form-data' } });
+    return response.data;
+  },
+
+  // Download a file uploaded to a form
+  downloadFile: async (token: string): Promise<Blob> => {
+    const response = await api.get(`/uploads/files/${encodeURIComponent(token)}`, { responseType: 'blob' });
+    return response.data;
+  },
+};
@@ -0,0 +1,99 @@
+import axios from 'axios';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set on a request repeated with a refreshed access token
+    retriedAfterRefresh?: boolean;
+  }
+}
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Access tokens are short-lived and only kept in memory. The refresh token
+// is an httpOnly cookie that the API only accepts on /auth requests.
+let accessToken: string | null = null;
+
+export const setAccessToken = (token: string | null) => {
+  accessToken = token;
+};
+
+// Called when the session cannot be refreshed any more
+let sessionExpiredHandler = () => {};
+
+export const onSessionExpired = (handler: () => void) => {
+  sessionExpiredHandler = handler;
+};
+
+// Requests that fail at the same time share one refresh
+let refreshing: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshing) {
+    refreshing = api
+      .post<{ token: string }>('/auth/refresh')
+      .then((response) => {
+        setAccessToken(response.data.token);
+        return response.data.token;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+// Request interceptor to add auth token
+api.interceptors.request.use(
+  (config) => {
+    if (accessToken) {
+      config.headers.Authorization = `Bearer ${accessToken}`;
+    }
+    if (config.url?.startsWith('/auth/')) {
+      config.withCredentials = true;
+    }
+    // Lists and new forms belong to the workspace selected in the app
+    const workspaceId = localStorage.getItem('workspaceId');
+    if (workspaceId) {
+      config.headers['X-Workspace-Id'] = workspaceId;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Response interceptor to refresh expired access tokens and retry once
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const request = error.config;
+    if (
+      error.response?.status !== 401 ||
+      !accessToken ||
+      !request ||
+      request.retriedAfterRefresh ||
+      request.url === '/auth/refresh'
+    ) {
+      return Promise.reject(error);
+    }
+
+    try {
+      await refreshAccessToken();
+    } catch {
+      setAccessToken(null);
+      sessionExpiredHandler();
+      return Promise.reject(error);
+    }
+    return api({ ...request, retriedAfterRefresh: true });
+  }
+);
+
+export default api;
@@ -0,0 +1,848 @@
+// Generated by backend/scripts/generate-client.js from the OpenAPI document
+// in backend/openapi. Do not edit; run `npm run generate-client` in backend/.
+
+export interface Message {
+  message: string;
+}
+
+export interface ValidationErrors {
+  errors: {
+    type: 'field';
+    value?: unknown;
+    msg: string;
+    // Field in the body, e.g. questions[0].text
+    path: string;
+    location: 'body';
+  }[];
+}
+
+export type FormTheme = 'light' | 'dark' | 'blue' | 'green';
+
+export type BrandingFont = 'inter' | 'system' | 'serif' | 'mono';
+
+export interface Branding {
+  logoUrl?: string;
+  headerImageUrl?: string;
+  primaryColor?: string;
+  fontFamily?: BrandingFont;
+  showPoweredBy?: boolean;
+}
+
+export interface BrandingInput {
+  logoUrl?: string | '' | null;
+  headerImageUrl?: string | '' | null;
+  primaryColor?: string | '' | null;
+  fontFamily?: 'inter' | 'system' | 'serif' | 'mono' | '' | null;
+  showPoweredBy?: boolean;
+}
+
+export interface User {
+  _id: string;
+  email: string;
+  businessName: string;
+  role: 'admin';
+  emailVerified: boolean;
+  isActive: boolean;
+  branding?: Branding;
+  twoFactor: TwoFactorStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesLeft: number;
+}
+
+export interface UserSummary {
+  _id: string;
+  email: string;
+  businessName: string;
+}
+
+// The user as returned with a new session token
+export interface SessionUser {
+  id: string;
+  email: string;
+  businessName: string;
+  role: 'admin';
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  branding?: Branding;
+}
+
+export interface AuthSession {
+  message: string;
+  // Short-lived access token for the Authorization header
+  token: string;
+  user: SessionUser;
+}
+
+// The password was right; the account also needs a code from its authenticator app
+export interface TwoFactorChallenge {
+  message: string;
+  twoFactorRequired: true;
+  // Send back with a code to POST /auth/login/2fa
+  twoFactorToken: string;
+}
+
+export type LoginResult = AuthSession | TwoFactorChallenge;
+
+export interface TwoFactorLogin {
+  twoFactorToken: string;
+  // Code from the authenticator app
+  code?: string;
+  // One of the recovery codes, instead of a code
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetup {
+  // For authenticator apps that cannot scan the QR code
+  secret: string;
+  otpauthUrl: string;
+  // The otpauth URL as a PNG data URL
+  qrCode: string;
+}
+
+export interface TwoFactorCode {
+  code: string;
+}
+
+export interface RecoveryCodes {
+  message: string;
+  // Only returned once; each code works once
+  recoveryCodes: string[];
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface RegisterData {
+  email: string;
+  password: string;
+  businessName: string;
+}
+
+export interface PasswordChange {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface AccountUpdate {
+  businessName?: string;
+  email?: string;
+  // Needed to change the email address
+  currentPassword?: string;
+}
+
+export interface PasswordConfirmation {
+  // The current password
+  password: string;
+}
+
+export interface ForgotPasswordData {
+  email: string;
+}
+
+export interface ResetPasswordData {
+  // Token from the reset link
+  token: string;
+  password: string;
+}
+
+export interface EmailVerificationData {
+  // Token from the verification link
+  token: string;
+}
+
+// A browser signed in to the account
+export interface Session {
+  _id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  createdAt: string;
+  // Whether this is the session making the request
+  current: boolean;
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'analyst';
+
+export interface WorkspaceSummary {
+  _id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+  requireTwoFactor: boolean;
+}
+
+export interface WorkspaceMember {
+  user: UserSummary;
+  role: WorkspaceRole;
+  twoFactorEnabled: boolean;
+  joinedAt: string;
+}
+
+export interface WorkspaceInvitation {
+  _id: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface Workspace {
+  _id: string;
+  name: string;
+  role: WorkspaceRole;
+  // Members without two-factor authentication can only leave the workspace
+  requireTwoFactor: boolean;
+  members: WorkspaceMember[];
+  // Only listed for owners
+  invitations: WorkspaceInvitation[];
+  createdAt: string;
+}
+
+// A workspace invitation as its link shows it to the invitee
+export interface InvitationDetails {
+  workspaceName: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+}
+
+export interface WorkspaceInput {
+  name: string;
+}
+
+export interface InvitationInput {
+  email: string;
+  role: WorkspaceRole;
+}
+
+export interface MemberInput {
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceSecurityInput {
+  requireTwoFactor: boolean;
+}
+
+export type QuestionType =
+  | 'text'
+  | 'short-text'
+  | 'email'
+  | 'multiple-choice'
+  | 'dropdown'
+  | 'checkboxes'
+  | 'linear-scale'
+  | 'rating'
+  | 'number'
+  | 'date'
+  | 'file';
+
+export interface QuestionScale {
+  min: number;
+  max: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+export interface QuestionLimits {
+  min?: number;
+  max?: number;
+}
+
+export interface QuestionFileSettings {
+  // Largest file accepted, in megabytes
+  maxSizeMB?: number;
+  // MIME types such as application/pdf or groups such as image/*; empty accepts any
+  allowedTypes?: string[];
+}
+
+export interface UploadedFile {
+  // Answer to the file question with this; it is kept until the response is submitted
+  token: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not-equals'
+  | 'contains'
+  | 'not-contains'
+  | 'greater-than'
+  | 'less-than'
+  | 'answered'
+  | 'not-answered';
+
+export interface QuestionCondition {
+  questionId: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+export interface QuestionLogic {
+  match: 'all' | 'any';
+  conditions: QuestionCondition[];
+}
+
+export interface QuestionBranch {
+  option: string;
+  // Id of the question or section to jump to, or 'end' to finish the form
+  goTo: string;
+}
+
+export interface FormSection {
+  _id: string;
+  title: string;
+  description?: string;
+}
+
+export interface FormSectionInput {
+  _id?: string;
+  title: string;
+  description?: string;
+}
+
+export interface Question {
+  _id: string;
+  text: string;
+  type: QuestionType;
+  options?: string[];
+  scale?: QuestionScale;
+  limits?: QuestionLimits;
+  file?: QuestionFileSettings;
+  logic?: QuestionLogic;
+  branches?: QuestionBranch[];
+  section?: string;
+  required: boolean;
+  order: number;
+}
+
+// Type-specific settings, sections and logic are checked when the form is saved
+export interface QuestionInput {
+  _id?: string;
+  text: string;
+  type: QuestionType;
+  options?: string[];
+  scale?: QuestionScale;
+  limits?: QuestionLimits;
+  file?: QuestionFileSettings;
+  logic?: QuestionLogic;
+  branches?: QuestionBranch[];
+  section?: string;
+  required?: boolean;
+  order?: number;
+}
+
+export type AnswerValue = string | number | string[];
+
+export type NotificationMode = 'off' | 'instant' | 'daily' | 'weekly';
+
+export interface NotificationSettings {
+  mode: NotificationMode;
+  // Email addresses of members of the form's workspace; empty means the form's creator
+  recipients: string[];
+  sendReceipts: boolean;
+}
+
+export interface NotificationSettingsInput {
+  mode?: 'off' | 'instant' | 'daily' | 'weekly';
+  // Email addresses of members of the form's workspace; empty means the form's creator
+  recipients?: string[];
+  sendReceipts?: boolean;
+}
+
+// Ways of recognising a repeat response when a form allows only one per person
+export type DuplicateStrategy = 'email' | 'device' | 'ip' | 'invite';
+
+export interface DuplicateSettings {
+  strategies: DuplicateStrategy[];
+  // How long the same IP address is blocked after responding
+  ipWindowHours: number;
+}
+
+export interface DuplicateSettingsInput {
+  strategies?: ('email' | 'device' | 'ip' | 'invite')[];
+  ipWindowHours?: number;
+}
+
+// Bot checks for public submissions
+export interface SpamSettings {
+  // Only enforced when the server has a CAPTCHA provider configured
+  captcha: boolean;
+  // Faster submissions are quarantined as suspected spam
+  minFillSeconds: number;
+}
+
+export interface SpamSettingsInput {
+  captcha?: boolean;
+  minFillSeconds?: number;
+}
+
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'recaptcha' | 'stub';
+
+// CAPTCHA widget a public form must show; returned with the public form
+export interface CaptchaConfig {
+  provider: CaptchaProvider;
+  siteKey: string | null;
+}
+
+export type FormStatus = 'draft' | 'open' | 'closed' | 'archived';
+
+// An open form is scheduled until its opening time and closed after its closing time
+export type FormState = FormStatus | 'scheduled';
+
+export interface FormSettings {
+  allowMultipleResponses: boolean;
+  duplicates?: DuplicateSettings;
+  spam?: SpamSettings;
+  requireEmail: boolean;
+  // Unfinished answers are saved so respondents can continue later
+  saveProgress?: boolean;
+  theme: FormTheme;
+  branding?: Branding;
+  notifications?: NotificationSettings;
+  maxResponses?: number | null;
+  // Shown on the public form while it is closed
+  closedMessage?: string;
+}
+
+export interface FormSettingsInput {
+  allowMultipleResponses?: boolean;
+  duplicates?: DuplicateSettingsInput;
+  spam?: SpamSettingsInput;
+  requireEmail?: boolean;
+  saveProgress?: boolean;
+  theme?: FormTheme;
+  branding?: BrandingInput;
+  notifications?: NotificationSettingsInput;
+  maxResponses?: number | null;
+  closedMessage?: string;
+}
+
+export type HiddenFieldsInput = string[];
+
+export interface Form {
+  _id: string;
+  title: string;
+  description?: string;
+  creator: string;
+  workspace?: string;
+  sections?: FormSection[];
+  questions: Question[];
+  // Names of values captured from the public form's URL
+  hiddenFields?: string[];
+  status: FormStatus;
+  // Status combined with the schedule
+  state: FormState;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  publicUrl: string;
+  // Latest published version; bumped whenever questions or sections change
+  version?: number;
+  settings: FormSettings;
+  responseCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PublicFormSettings {
+  allowMultipleResponses: boolean;
+  requireEmail: boolean;
+  saveProgress?: boolean;
+  theme: FormTheme;
+  closedMessage?: string;
+}
+
+// A form as its public page shows it to respondents
+export interface PublicFormDetails {
+  _id: string;
+  title: string;
+  description?: string;
+  sections?: FormSection[];
+  questions: Question[];
+  hiddenFields?: string[];
+  state: FormState;
+  opensAt?: string | null;
+  publicUrl: string;
+  version?: number;
+  settings: PublicFormSettings;
+  // Account and form branding combined
+  branding: Branding;
+}
+
+export interface CreateFormData {
+  title: string;
+  description?: string;
+  sections?: FormSectionInput[];
+  questions: QuestionInput[];
+  hiddenFields?: HiddenFieldsInput;
+  status?: 'draft' | 'open' | 'closed' | 'archived';
+  opensAt?: string | null;
+  closesAt?: string | null;
+  settings?: FormSettingsInput;
+}
+
+export interface UpdateFormData {
+  title?: string;
+  description?: string;
+  sections?: FormSectionInput[];
+  questions?: QuestionInput[];
+  hiddenFields?: HiddenFieldsInput;
+  status?: 'draft' | 'open' | 'closed' | 'archived';
+  opensAt?: string | null;
+  closesAt?: string | null;
+  settings?: FormSettingsInput;
+}
+
+export interface FormVersion {
+  version: number;
+  title: string;
+  publishedBy?: UserSummary;
+  publishedAt: string;
+  questionCount: number;
+  responseCount: number;
+}
+
+// A published version's questions and sections, as its respondents saw them
+export interface FormSnapshot {
+  _id: string;
+  form: string;
+  version: number;
+  title: string;
+  sections?: FormSection[];
+  questions: Question[];
+  publishedBy?: UserSummary;
+  createdAt: string;
+}
+
+export interface Answer {
+  questionId: string;
+  questionText: string;
+  questionType: QuestionType;
+  answer: AnswerValue;
+}
+
+// honeypot: a hidden field was filled in; too-fast: submitted too quickly
+export type SpamReason = 'honeypot' | 'too-fast';
+
+// Where the workspace is with following a response up
+export type ResponseStatus = 'new' | 'in-progress' | 'resolved';
+
+// An internal note, never shown to the respondent
+export interface ResponseNote {
+  _id: string;
+  // Filled in on single responses, an id in lists
+  author: string | UserSummary;
+  text: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// A signed download link for a file answering a question
+export interface FileLink {
+  // Downloads the file without logging in until it expires
+  url: string;
+  expiresAt: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+export interface Response {
+  _id: string;
+  form: string;
+  // Unset on responses from before versioning, which count as version 1
+  formVersion?: number;
+  answers: Answer[];
+  submitterEmail?: string;
+  submitterName?: string;
+  // Values of the form's hidden fields, by name
+  hiddenFields?: Record<string, string>;
+  ipAddress?: string;
+  userAgent?: string;
+  // Set once an admin has let the sender respond again
+  resubmissionAllowedAt?: string;
+  // Suspected spam, left out of results until reviewed
+  quarantined?: boolean;
+  spamReasons?: SpamReason[];
+  reviewedAt?: string;
+  // Unset on responses from before triage, which count as new
+  status?: ResponseStatus;
+  tags?: string[];
+  // Filled in on single responses, an id in lists
+  assignee?: string | UserSummary;
+  notes?: ResponseNote[];
+  submittedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SubmitResponseData {
+  formId: string;
+  // Version the respondent saw; rejected if the form has changed since
+  formVersion?: number;
+  answers: {
+    questionId: string;
+    answer: AnswerValue;
+  }[];
+  submitterEmail?: string;
+  submitterName?: string;
+  // Signed token identifying the browser, issued with the public form
+  deviceToken?: string;
+  inviteToken?: string;
+  // Values for the form's hidden fields, taken from the page's URL
+  hiddenFields?: Record<string, string>;
+  // Issued with the public form to measure how long filling it in took
+  startToken?: string;
+  // Token of the partial response being completed, which is then deleted
+  resumeToken?: string;
+  captchaToken?: string;
+  // Honeypot; hidden from people, so only bots fill it in
+  website?: string;
+}
+
+export interface SavePartialResponseData {
+  formId: string;
+  // Answers so far; invalid ones are left out rather than rejected
+  answers: {
+    questionId: string;
+    answer: AnswerValue;
+  }[];
+  // Kept once it is a valid address
+  submitterEmail?: string;
+  submitterName?: string;
+  inviteToken?: string;
+  hiddenFields?: Record<string, string>;
+  // Returned by the first save; updates that partial instead of starting another
+  resumeToken?: string;
+}
+
+// A partial response as its resume link restores it
+export interface ResumeDetails {
+  answers: {
+    questionId: string;
+    answer: AnswerValue;
+  }[];
+  submitterEmail?: string;
+  submitterName?: string;
+  hiddenFields?: Record<string, string>;
+  expiresAt: string;
+}
+
+// Where respondents left unfinished responses
+export interface DropOff {
+  // Partial responses never submitted
+  totalPartials: number;
+  // Partials with every question shown answered
+  notSubmitted: number;
+  // Questions respondents stopped at, in form order
+  questions: {
+    questionId: string;
+    questionText: string;
+    count: number;
+  }[];
+}
+
+export interface SpamReviewInput {
+  quarantined: boolean;
+}
+
+export interface TriageInput {
+  status?: 'new' | 'in-progress' | 'resolved';
+  tags?: string[];
+  // A member of the form's workspace, or null to unassign
+  assignee?: string | null;
+}
+
+export interface NoteInput {
+  text: string;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export type SummaryInterval = 'day' | 'week' | 'month';
+
+export interface FormSummary {
+  totalResponses: number;
+  // Average share of the form's questions answered per response (%)
+  completionRate: number;
+  interval: SummaryInterval;
+  // Responses per period: YYYY-MM-DD, YYYY-Www or YYYY-MM
+  timeline: {
+    period: string;
+    count: number;
+  }[];
+  sections: {
+    sectionId: string;
+    title: string;
+    questionIds: string[];
+  }[];
+  questions: QuestionSummary[];
+  dropOff?: DropOff;
+}
+
+export interface QuestionSummary {
+  questionId: string;
+  questionText: string;
+  questionType: QuestionType;
+  sectionId: string | null;
+  // No longer on the form; only in merged results
+  retired: boolean;
+  totalAnswers: number;
+  // Share of responses answering the question (%)
+  responseRate: number;
+  answers: Record<string, number>;
+  // Share of the question's answers with each value (%)
+  percentages: Record<string, number>;
+  stats?: {
+    average?: number | null;
+    min?: number | null;
+    max?: number | null;
+    nps?: number;
+    earliest?: string | null;
+    latest?: string | null;
+  };
+  // Text questions only
+  words?: {
+    averageWords: number;
+    totalWords: number;
+    topWords: {
+      word: string;
+      count: number;
+    }[];
+  };
+}
+
+// pending: not emailed yet; the others follow the recipient's progress
+export type RecipientStatus = 'pending' | 'sent' | 'opened' | 'started' | 'completed';
+
+export interface Campaign {
+  _id: string;
+  form: string;
+  name: string;
+  subject?: string;
+  // May use {{name}}, {{email}} and custom fields as placeholders
+  message?: string;
+  // Custom field columns of the recipient list
+  fields: string[];
+  createdBy?: UserSummary;
+  lastSentAt?: string;
+  lastRemindedAt?: string;
+  // Recipients in each status
+  counts: Record<RecipientStatus, number>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CampaignInput {
+  name: string;
+  subject?: string;
+  message?: string;
+  csv: string;
+}
+
+export interface CampaignRecipient {
+  _id: string;
+  campaign: string;
+  email: string;
+  name?: string;
+  fields?: Record<string, string>;
+  status: RecipientStatus;
+  sentAt?: string;
+  openedAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  lastRemindedAt?: string;
+  reminderCount: number;
+  // Why the last email could not be sent
+  lastError?: string;
+  response?: string;
+}
+
+// Prefilled details of the recipient whose invite link opened a public form
+export interface InviteDetails {
+  email: string;
+  name?: string;
+}
+
+export type WebhookEvent = 'response.created' | 'form.closed';
+
+export interface Webhook {
+  _id: string;
+  form: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookInput {
+  // http(s) URL the events are POSTed to
+  url: string;
+  events: WebhookEvent[];
+  // Signs deliveries; generated when left blank on creation
+  secret?: string | '' | null;
+  isActive?: boolean;
+}
+
+export interface UpdateWebhookData {
+  // http(s) URL the events are POSTed to
+  url?: string;
+  events?: WebhookEvent[];
+  // Signs deliveries; generated when left blank on creation
+  secret?: string | '' | null;
+  isActive?: boolean;
+}
+
+export interface WebhookDelivery {
+  _id: string;
+  webhook: string;
+  event: WebhookEvent | 'webhook.test';
+  payload: Record<string, unknown>;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  createdAt: string;
+}
+
+// Permissions a personal API key can be given
+export type ApiKeyScope = 'forms:read' | 'responses:read' | 'responses:triage' | 'forms:write';
+
+export interface ApiKey {
+  _id: string;
+  name: string;
+  // Start of the token; the full token is only shown when the key is created
+  prefix: string;
+  scopes: ApiKeyScope[];
+  // Requests per minute
+  rateLimit: number;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  createdAt: string;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ('forms:read' | 'responses:read' | 'responses:triage' | 'forms:write')[];
+  // Unset or null for a key that never expires
+  expiresInDays?: number | null;
+  // Requests per minute
+  rateLimit?: number;
+}
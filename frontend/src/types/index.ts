@@ -1,108 +1,30 @@
-export interface User {
-  _id: string;
-  email: string;
-  businessName: string;
-  role: 'admin';
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
+import { ResponseStatus } from './api';
+
+// The API's types are generated from the backend's OpenAPI document
+export * from './api';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Filters for a form's responses; also applied to its summary and export
+export interface ResponseFilters {
+  // Form version answered; all versions merged when unset
+  version?: number;
+  // Show only the responses quarantined as suspected spam
+  quarantined?: boolean;
+  q?: string;
+  email?: string;
+  // Dates as YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+  // Answer values to match, keyed by question id
+  answer?: Record<string, string>;
+  // Hidden field values to match, keyed by name
+  field?: Record<string, string>;
+  status?: ResponseStatus;
+  tag?: string;
+  // Member id, or 'none' for unassigned responses
+  assignee?: string;
+  // submittedAt, submitterEmail, submitterName or question:<id>
+  sort?: string;
+  order?: SortOrder;
 }
-
-export interface Question {
-  _id: string;
-  text: string;
-  type: 'text' | 'multiple-choice';
-  options?: string[];
-  required: boolean;
-  order: number;
-}
-
-export interface Form {
-  _id: string;
-  title: string;
-  description?: string;
-  creator: string;
-  questions: Question[];
-  isActive: boolean;
-  publicUrl: string;
-  settings: {
-    allowMultipleResponses: boolean;
-    requireEmail: boolean;
-    theme: 'light' | 'dark' | 'blue' | 'green';
-  };
-  responseCount?: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Answer {
-  questionId: string;
-  questionText: string;
-  questionType: 'text' | 'multiple-choice';
-  answer: string;
-}
-
-export interface Response {
-  _id: string;
-  form: string;
-  answers: Answer[];
-  submitterEmail?: string;
-  submitterName?: string;
-  ipAddress?: string;
-  userAgent?: string;
-  submittedAt: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface FormSummary {
-  totalResponses: number;
-  questions: {
-    questionId: string;
-    questionText: string;
-    questionType: 'text' | 'multiple-choice';
-    totalAnswers: number;
-    answers: Record<string, number>;
-  }[];
-}
-
-export interface ApiResponse<T> {
-  message?: string;
-  data?: T;
-  error?: string;
-}
-
-export interface PaginatedResponse<T> {
-  data: T[];
-  totalPages: number;
-  currentPage: number;
-  total: number;
-}
-
-export interface LoginCredentials {
-  email: string;
-  password: string;
-}
-
-export interface RegisterData {
-  email: string;
-  password: string;
-  businessName: string;
-}
-
-export interface CreateFormData {
-  title: string;
-  description?: string;
-  questions: Omit<Question, '_id'>[];
-  settings?: Partial<Form['settings']>;
-}
-
-export interface SubmitResponseData {
-  formId: string;
-  answers: {
-    questionId: string;
-    answer: string;
-  }[];
-  submitterEmail?: string;
-  submitterName?: string;
-} 
\ No newline at end of file
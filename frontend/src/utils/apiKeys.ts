@@ -0,0 +1,18 @@
+import { ApiKeyScope } from '../types';
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'forms:read', label: 'Read forms', description: 'List forms and their questions and versions' },
+  { value: 'responses:read', label: 'Read responses', description: 'List, summarise and export responses' },
+  { value: 'responses:triage', label: 'Triage responses', description: 'Set the status, tags and assignee of responses and add notes' },
+  { value: 'forms:write', label: 'Write forms', description: 'Create, edit and delete forms and review responses' },
+];
+
+// Days until a new key expires; null never expires
+export const API_KEY_EXPIRY_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: null, label: 'Never' },
+];
+
+export const isExpired = (expiresAt?: string) => Boolean(expiresAt && new Date(expiresAt) <= new Date());
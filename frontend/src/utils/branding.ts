@@ -0,0 +1,50 @@
+import React from 'react';
+import { Branding, BrandingFont, FormTheme } from '../types';
+
+export const THEMES: { value: FormTheme; label: string; primaryColor: string }[] = [
+  { value: 'light', label: 'Light', primaryColor: '#2563eb' },
+  { value: 'dark', label: 'Dark', primaryColor: '#6366f1' },
+  { value: 'blue', label: 'Blue', primaryColor: '#2563eb' },
+  { value: 'green', label: 'Green', primaryColor: '#16a34a' },
+];
+
+export const FONTS: { value: BrandingFont; label: string; stack: string }[] = [
+  { value: 'inter', label: 'Inter', stack: "'Inter', system-ui, sans-serif" },
+  { value: 'system', label: 'System', stack: "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif" },
+  { value: 'serif', label: 'Serif', stack: "Georgia, 'Times New Roman', serif" },
+  { value: 'mono', label: 'Monospace', stack: 'ui-monospace, Menlo, Consolas, monospace' },
+];
+
+const BRANDING_FIELDS: (keyof Branding)[] = [
+  'logoUrl',
+  'headerImageUrl',
+  'primaryColor',
+  'fontFamily',
+  'showPoweredBy',
+];
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// Combines account and form branding the same way the API does for public
+// forms: blank form values fall back to the account's.
+export const resolveBranding = (account: Branding = {}, form: Branding = {}): Branding => {
+  const branding: Record<string, unknown> = {};
+  for (const field of BRANDING_FIELDS) {
+    branding[field] = isBlank(form[field]) ? account[field] : form[field];
+  }
+  return { ...branding, showPoweredBy: branding.showPoweredBy !== false } as Branding;
+};
+
+// Inline style for a themed form; the primary colour is exposed as
+// --brand-primary for the .btn-brand and .bg-brand classes.
+export const getBrandingStyle = (branding: Branding = {}) => {
+  const style: Record<string, string> = {};
+  if (branding.primaryColor) {
+    style['--brand-primary'] = branding.primaryColor;
+  }
+  const font = FONTS.find((option) => option.value === branding.fontFamily);
+  if (font) {
+    style.fontFamily = font.stack;
+  }
+  return style as React.CSSProperties;
+};
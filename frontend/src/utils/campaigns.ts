@@ -0,0 +1,24 @@
+import { Campaign, RecipientStatus } from '../types';
+
+export const RECIPIENT_STATUSES: Record<RecipientStatus, { label: string; className: string }> = {
+  pending: { label: 'Not sent', className: 'bg-gray-100 text-gray-800' },
+  sent: { label: 'Sent', className: 'bg-blue-100 text-blue-800' },
+  opened: { label: 'Opened', className: 'bg-yellow-100 text-yellow-800' },
+  started: { label: 'Started', className: 'bg-purple-100 text-purple-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+};
+
+const ORDER: RecipientStatus[] = ['pending', 'sent', 'opened', 'started', 'completed'];
+
+export const DEFAULT_CAMPAIGN_MESSAGE =
+  'Hi {{name}},\n\nWe would love to hear what you think. The link below is personal, so please do not forward it.';
+
+// Recipients who got at least as far as `status`
+export const countReached = (counts: Campaign['counts'], status: RecipientStatus) =>
+  ORDER.slice(ORDER.indexOf(status)).reduce((total, current) => total + (counts[current] || 0), 0);
+
+export const countRecipients = (counts: Campaign['counts']) => countReached(counts, 'pending');
+
+// Invited recipients who have not responded yet
+export const countRemindable = (counts: Campaign['counts']) =>
+  (counts.sent || 0) + (counts.opened || 0) + (counts.started || 0);
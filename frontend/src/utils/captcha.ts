@@ -0,0 +1,46 @@
+import { CaptchaProvider } from '../types';
+
+// Accepted by the server's stub verifier (CAPTCHA_PROVIDER=stub)
+export const STUB_CAPTCHA_TOKEN = 'stub-captcha-pass';
+
+interface CaptchaApi {
+  render: (
+    element: HTMLElement,
+    options: { sitekey: string; callback: (token: string) => void; 'expired-callback': () => void }
+  ) => unknown;
+}
+
+// Script and global of each provider's widget; all three support explicit
+// rendering once the script calls the `onload` callback
+const PROVIDER_SCRIPTS: Record<Exclude<CaptchaProvider, 'stub'>, { url: string; global: string }> = {
+  turnstile: { url: 'https://challenges.cloudflare.com/turnstile/v0/api.js', global: 'turnstile' },
+  hcaptcha: { url: 'https://js.hcaptcha.com/1/api.js', global: 'hcaptcha' },
+  recaptcha: { url: 'https://www.google.com/recaptcha/api.js', global: 'grecaptcha' },
+};
+
+const loading: Partial<Record<CaptchaProvider, Promise<CaptchaApi>>> = {};
+
+// Loads a provider's script once and resolves to its widget API
+export const loadCaptcha = (provider: Exclude<CaptchaProvider, 'stub'>): Promise<CaptchaApi> => {
+  const existing = loading[provider];
+  if (existing) return existing;
+
+  const { url, global } = PROVIDER_SCRIPTS[provider];
+  const callback = `onCaptchaLoad_${provider}`;
+  const promise = new Promise<CaptchaApi>((resolve, reject) => {
+    const scope = window as unknown as Record<string, unknown>;
+    scope[callback] = () => resolve(scope[global] as CaptchaApi);
+
+    const script = document.createElement('script');
+    script.src = `${url}?onload=${callback}&render=explicit`;
+    script.async = true;
+    script.onerror = () => {
+      delete loading[provider];
+      reject(new Error(`Failed to load ${provider}`));
+    };
+    document.head.appendChild(script);
+  });
+
+  loading[provider] = promise;
+  return promise;
+};
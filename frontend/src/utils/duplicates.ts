@@ -0,0 +1,24 @@
+import { DuplicateSettings, DuplicateStrategy } from '../types';
+
+export const DUPLICATE_STRATEGIES: { value: DuplicateStrategy; label: string; description: string }[] = [
+  { value: 'email', label: 'Email address', description: 'One response per submitter email' },
+  { value: 'device', label: 'Device', description: 'One response per browser, remembered by a signed token' },
+  { value: 'ip', label: 'IP address', description: 'One response per network address within a time window' },
+  { value: 'invite', label: 'Invite link', description: 'One response per personal invite link' },
+];
+
+export const DEFAULT_DUPLICATES: DuplicateSettings = {
+  strategies: ['email', 'device'],
+  ipWindowHours: 24,
+};
+
+const DEVICE_TOKEN_KEY = 'deviceToken';
+
+// Keeps the first device token the API hands out, so that the browser is
+// recognised across forms and visits
+export const rememberDeviceToken = (issued?: string) => {
+  const stored = localStorage.getItem(DEVICE_TOKEN_KEY);
+  if (stored) return stored;
+  if (issued) localStorage.setItem(DEVICE_TOKEN_KEY, issued);
+  return issued;
+};
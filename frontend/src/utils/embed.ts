@@ -0,0 +1,49 @@
+// Embedded forms (see public/embed.js) load the public form in an iframe
+// with ?embed=<mode> and report back to the host page with postMessage.
+
+export type EmbedMode = 'inline' | 'popup' | 'slider';
+
+export type EmbedEvent = 'loaded' | 'submitted' | 'height';
+
+export const EMBED_MODES: { value: EmbedMode; label: string; description: string }[] = [
+  { value: 'inline', label: 'Inline', description: 'Part of the page, growing with the form' },
+  { value: 'popup', label: 'Popup', description: 'A button that opens the form in a dialog' },
+  { value: 'slider', label: 'Slide-in', description: 'A button that slides the form in from the side' },
+];
+
+const MESSAGE_SOURCE = 'feedback-platform';
+
+export const getEmbedMode = (params: URLSearchParams): EmbedMode | null => {
+  const mode = params.get('embed');
+  return EMBED_MODES.some((option) => option.value === mode) ? (mode as EmbedMode) : null;
+};
+
+// Tells the host page about the embedded form. Nothing is sent outside an iframe.
+export const postEmbedMessage = (publicUrl: string, event: EmbedEvent, data: Record<string, unknown> = {}) => {
+  if (window.parent === window) return;
+  window.parent.postMessage({ source: MESSAGE_SOURCE, event, publicUrl, ...data }, '*');
+};
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// The <script> tag that embeds a form on another site
+export const buildEmbedCode = (options: {
+  publicUrl: string;
+  mode: EmbedMode;
+  buttonText?: string;
+  params?: string;
+}) => {
+  const attributes = [
+    `src="${window.location.origin}/embed.js"`,
+    `data-form="${escapeAttribute(options.publicUrl)}"`,
+    `data-mode="${options.mode}"`,
+  ];
+  if (options.mode !== 'inline' && options.buttonText) {
+    attributes.push(`data-button-text="${escapeAttribute(options.buttonText)}"`);
+  }
+  if (options.params) {
+    attributes.push(`data-params="${escapeAttribute(options.params)}"`);
+  }
+  return `<script ${attributes.join(' ')} async></script>`;
+};
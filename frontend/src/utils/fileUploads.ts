@@ -0,0 +1,51 @@
+// Limits of file questions; the API allows at most MAX_FILE_SIZE_MB unless
+// its MAX_UPLOAD_SIZE_MB says otherwise
+export const DEFAULT_FILE_SIZE_MB = 10;
+export const MAX_FILE_SIZE_MB = 25;
+
+// Groups of file types a question can be limited to; none means any file
+export const FILE_TYPE_PRESETS: { label: string; types: string[] }[] = [
+  { label: 'Images', types: ['image/*'] },
+  { label: 'PDF', types: ['application/pdf'] },
+  {
+    label: 'Documents',
+    types: [
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.oasis.opendocument.text',
+      'text/plain',
+    ],
+  },
+  {
+    label: 'Spreadsheets',
+    types: [
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.oasis.opendocument.spreadsheet',
+      'text/csv',
+    ],
+  },
+];
+
+// The value a file question holds once its file is uploaded; the token is
+// what the response sends as the answer
+export interface FileValue {
+  token: string;
+  name: string;
+  size?: number;
+}
+
+export const isFileValue = (value: unknown): value is FileValue =>
+  typeof value === 'object' && value !== null && typeof (value as FileValue).token === 'string';
+
+export const matchesFileType = (mimeType: string, allowedTypes: string[] = []) =>
+  allowedTypes.length === 0 ||
+  allowedTypes.some((allowed) =>
+    allowed.endsWith('/*') ? mimeType.startsWith(allowed.slice(0, -1)) : mimeType === allowed
+  );
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
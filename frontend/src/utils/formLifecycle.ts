@@ -0,0 +1,37 @@
+import { FormState, FormStatus } from '../types';
+
+export const FORM_STATES: Record<FormState, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-800' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' },
+  open: { label: 'Open', className: 'bg-green-100 text-green-800' },
+  closed: { label: 'Closed', className: 'bg-red-100 text-red-800' },
+  archived: { label: 'Archived', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+// Statuses a form can be set to; a published form cannot return to draft
+export const getStatusOptions = (current: FormStatus): { value: FormStatus; label: string }[] => [
+  ...(current === 'draft' ? [{ value: 'draft' as FormStatus, label: 'Draft (not public)' }] : []),
+  { value: 'open', label: 'Open' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'archived', label: 'Archived (hidden)' },
+];
+
+export const DEFAULT_CLOSED_MESSAGE = 'This form is no longer accepting responses.';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// ISO timestamp to a datetime-local input value in the browser's time zone
+export const toLocalInput = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// datetime-local input value to an ISO timestamp; null clears the time
+export const fromLocalInput = (value?: string | null) =>
+  value ? new Date(value).toISOString() : null;
+
+// Response limit input value to the API value; blank means no limit
+export const toMaxResponses = (value?: number | string | null) =>
+  value === '' || value === null || value === undefined ? null : Number(value);
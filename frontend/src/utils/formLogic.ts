@@ -0,0 +1,84 @@
+import { AnswerValue, ConditionOperator, Question, QuestionCondition, QuestionLogic } from '../types';
+
+// Mirrors backend/utils/formLogic.js, which enforces the same rules when a
+// response is submitted; keep both in sync.
+
+export const END_OF_FORM = 'end';
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'is', needsValue: true },
+  { value: 'not-equals', label: 'is not', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not-contains', label: 'does not contain', needsValue: true },
+  { value: 'greater-than', label: 'is greater than', needsValue: true },
+  { value: 'less-than', label: 'is less than', needsValue: true },
+  { value: 'answered', label: 'is answered', needsValue: false },
+  { value: 'not-answered', label: 'is not answered', needsValue: false },
+];
+
+type AnswerMap = Record<string, AnswerValue | undefined>;
+
+const hasAnswer = (value: AnswerValue | undefined) =>
+  value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+const matchesCondition = (condition: QuestionCondition, value: AnswerValue | undefined) => {
+  const expected = condition.value ?? '';
+  const values = Array.isArray(value) ? value.map(String) : [String(value)];
+  const contains = () =>
+    values.some((item) => item.toLowerCase().includes(expected.toLowerCase()));
+
+  switch (condition.operator) {
+    case 'answered':
+      return hasAnswer(value);
+    case 'not-answered':
+      return !hasAnswer(value);
+    case 'equals':
+      return hasAnswer(value) && values.includes(expected);
+    case 'not-equals':
+      return !hasAnswer(value) || !values.includes(expected);
+    case 'contains':
+      return hasAnswer(value) && contains();
+    case 'not-contains':
+      return !hasAnswer(value) || !contains();
+    case 'greater-than':
+      return hasAnswer(value) && Number(value) > Number(expected);
+    case 'less-than':
+      return hasAnswer(value) && Number(value) < Number(expected);
+    default:
+      return false;
+  }
+};
+
+const conditionsMet = (logic: QuestionLogic | undefined, answers: AnswerMap) => {
+  if (!logic || logic.conditions.length === 0) return true;
+  const results = logic.conditions.map((condition) =>
+    matchesCondition(condition, answers[condition.questionId])
+  );
+  return logic.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+};
+
+// Returns the ids of the questions the respondent should currently see.
+export const getVisibleQuestionIds = (questions: Question[], answers: AnswerMap) => {
+  const visible = new Set<string>();
+  const visibleAnswers: AnswerMap = {};
+  let jumpTarget: string | null = null;
+
+  for (const question of questions) {
+    if (jumpTarget) {
+      if (jumpTarget !== question._id && jumpTarget !== question.section) continue;
+      jumpTarget = null;
+    }
+
+    if (!conditionsMet(question.logic, visibleAnswers)) continue;
+
+    visible.add(question._id);
+    visibleAnswers[question._id] = answers[question._id];
+
+    const branch = question.branches?.find((b) => b.option === answers[question._id]);
+    if (branch?.goTo) {
+      jumpTarget = branch.goTo;
+    }
+  }
+
+  return visible;
+};
@@ -0,0 +1,36 @@
+import { Question } from '../types';
+import { QUESTION_TYPES } from './questions';
+
+const typeLabel = (type: Question['type']) =>
+  QUESTION_TYPES.find((option) => option.value === type)?.label || type;
+
+// Describes edits that stop existing answers from fitting the questions:
+// removed questions, changed types, removed options and changed scales.
+// `current` should already be cleaned (see cleanQuestion).
+export const getBreakingChanges = (original: Question[], current: Question[]): string[] => {
+  const changes: string[] = [];
+
+  for (const before of original) {
+    const after = current.find((question) => question._id === before._id);
+    if (!after) {
+      changes.push(`"${before.text}" was removed`);
+      continue;
+    }
+    if (after.type !== before.type) {
+      changes.push(`"${before.text}" changed from ${typeLabel(before.type)} to ${typeLabel(after.type)}`);
+      continue;
+    }
+    const removedOptions = (before.options || []).filter((option) => !(after.options || []).includes(option));
+    if (removedOptions.length > 0) {
+      changes.push(`"${before.text}" no longer offers ${removedOptions.map((option) => `"${option}"`).join(', ')}`);
+    }
+    if (before.scale && after.scale &&
+        (before.scale.min !== after.scale.min || before.scale.max !== after.scale.max)) {
+      changes.push(
+        `"${before.text}" scale changed from ${before.scale.min}-${before.scale.max} to ${after.scale.min}-${after.scale.max}`
+      );
+    }
+  }
+
+  return changes;
+};
@@ -0,0 +1,95 @@
+import { AnswerValue, PublicFormDetails, Question } from '../types';
+import { CHOICE_TYPES } from './questions';
+
+// Query parameters that prefill a visible question: q_<questionId>=<value>
+export const PREFILL_PREFIX = 'q_';
+export const MAX_HIDDEN_FIELDS = 20;
+
+// Query parameters the public form uses itself
+const RESERVED_NAMES = ['invite', 'embed', 'resume'];
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,49}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const prefillParam = (questionId: string) => `${PREFILL_PREFIX}${questionId}`;
+
+// Trims the names typed into the editor and drops blank entries
+export const cleanHiddenFields = (names: string[] = []) =>
+  names.map((name) => name.trim()).filter(Boolean);
+
+// Returns a message for the first invalid name, or null
+export const validateHiddenFields = (names: string[]) => {
+  if (names.length > MAX_HIDDEN_FIELDS) {
+    return `A form can have up to ${MAX_HIDDEN_FIELDS} hidden fields`;
+  }
+  for (const name of names) {
+    if (!NAME_PATTERN.test(name)) {
+      return `"${name}" is not a valid hidden field name. Start with a letter and use only letters, numbers, - and _.`;
+    }
+    if (RESERVED_NAMES.includes(name.toLowerCase()) || name.toLowerCase().startsWith(PREFILL_PREFIX)) {
+      return `"${name}" is reserved; choose another hidden field name`;
+    }
+  }
+  if (new Set(names).size !== names.length) {
+    return 'Hidden field names must be unique';
+  }
+  return null;
+};
+
+// Values of the form's hidden fields present in the page's query string
+export const readHiddenFields = (form: PublicFormDetails, params: URLSearchParams) => {
+  const values: Record<string, string> = {};
+  for (const name of form.hiddenFields || []) {
+    const value = params.get(name);
+    if (value) {
+      values[name] = value;
+    }
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+};
+
+// Converts a query parameter into the input value of `question`, or
+// undefined when it does not fit (e.g. an option the question lacks)
+const toInputValue = (question: Question, values: string[]): AnswerValue | undefined => {
+  const value = values[0].trim();
+
+  if (question.type === 'checkboxes') {
+    const selected = values
+      .flatMap((entry) => entry.split(','))
+      .map((entry) => entry.trim())
+      .filter((entry) => (question.options || []).includes(entry));
+    return selected.length > 0 ? selected : undefined;
+  }
+  if (CHOICE_TYPES.includes(question.type)) {
+    return (question.options || []).includes(value) ? value : undefined;
+  }
+  if (question.type === 'linear-scale' || question.type === 'rating') {
+    const number = Number(value);
+    const min = question.type === 'rating' ? 1 : question.scale?.min ?? 1;
+    const max = question.scale?.max ?? (question.type === 'rating' ? 5 : 10);
+    if (!Number.isInteger(number) || number < min || number > max) return undefined;
+    // Scale radios hold strings; the rating control holds numbers
+    return question.type === 'rating' ? number : value;
+  }
+  if (question.type === 'number') {
+    return value !== '' && !Number.isNaN(Number(value)) ? value : undefined;
+  }
+  if (question.type === 'date') {
+    return DATE_PATTERN.test(value) ? value : undefined;
+  }
+  return value || undefined;
+};
+
+// Form values for the questions prefilled by the query string, keyed as
+// QuestionInput registers them
+export const getPrefilledValues = (questions: Question[], params: URLSearchParams) => {
+  const values: Record<string, AnswerValue> = {};
+  for (const question of questions) {
+    const raw = params.getAll(prefillParam(question._id));
+    if (raw.length === 0) continue;
+    const value = toInputValue(question, raw);
+    if (value !== undefined) {
+      values[`question_${question._id}`] = value;
+    }
+  }
+  return values;
+};
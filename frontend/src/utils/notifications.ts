@@ -0,0 +1,20 @@
+import { NotificationMode, NotificationSettings } from '../types';
+
+export const NOTIFICATION_MODES: { value: NotificationMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'instant', label: 'Email me every response' },
+  { value: 'daily', label: 'Daily digest' },
+  { value: 'weekly', label: 'Weekly digest' },
+];
+
+export const DEFAULT_NOTIFICATIONS: NotificationSettings = {
+  mode: 'off',
+  recipients: [],
+  sendReceipts: false,
+};
+
+// Trims the recipients typed into the editor and drops blank entries
+export const cleanNotifications = (notifications: NotificationSettings): NotificationSettings => ({
+  ...notifications,
+  recipients: (notifications.recipients || []).map((email) => email.trim()).filter(Boolean),
+});
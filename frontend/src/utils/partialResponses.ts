@@ -0,0 +1,77 @@
+import { AnswerValue, Question, ResumeDetails } from '../types';
+import { FileValue } from './fileUploads';
+
+// Answers are kept in this browser while a form is filled in, so reloading
+// or closing the tab does not lose them. Forms that save progress also keep
+// them on the server, where a resume link reopens them on any device.
+const DRAFT_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Milliseconds to wait after the last change before saving
+export const SAVE_DELAY_MS = 2000;
+
+export interface FormDraft {
+  // Version of the form the answers were given to
+  version?: number;
+  values: Record<string, unknown>;
+  pageIndex: number;
+  // Token of the partial response saved on the server, if any
+  resumeToken?: string;
+  savedAt: string;
+}
+
+const draftKey = (publicUrl: string) => `draft:${publicUrl}`;
+
+// The draft saved for a form, or null if there is none or it is too old
+export const loadDraft = (publicUrl: string): FormDraft | null => {
+  try {
+    const draft: FormDraft | null = JSON.parse(localStorage.getItem(draftKey(publicUrl)) || 'null');
+    if (!draft || Date.now() - new Date(draft.savedAt).getTime() > DRAFT_DAYS * DAY_MS) {
+      return null;
+    }
+    return draft;
+  } catch {
+    return null;
+  }
+};
+
+export const saveDraft = (publicUrl: string, draft: Omit<FormDraft, 'savedAt'>) => {
+  try {
+    localStorage.setItem(draftKey(publicUrl), JSON.stringify({ ...draft, savedAt: new Date().toISOString() }));
+  } catch {
+    // Storage may be full or disabled; the server copy, if any, still works
+  }
+};
+
+export const clearDraft = (publicUrl: string) => localStorage.removeItem(draftKey(publicUrl));
+
+// Converts a saved answer back into the input value of `question`
+const toInputValue = (question: Question, answer: AnswerValue): AnswerValue | FileValue => {
+  // Scale radios and number inputs hold strings; the rating control holds numbers
+  if (question.type === 'linear-scale' || question.type === 'number') {
+    return String(answer);
+  }
+  // Saved progress keeps only the token of an uploaded file
+  if (question.type === 'file' && typeof answer === 'string') {
+    return { token: answer, name: 'Uploaded file' };
+  }
+  return answer;
+};
+
+// Form values for the answers and contact details a resume link restores,
+// keyed as QuestionInput registers them
+export const getResumedValues = (questions: Question[], resume: ResumeDetails) => {
+  const values: Record<string, unknown> = {};
+  for (const { questionId, answer } of resume.answers) {
+    const question = questions.find((item) => item._id === questionId);
+    if (question) {
+      values[`question_${question._id}`] = toInputValue(question, answer);
+    }
+  }
+  if (resume.submitterEmail) values.submitterEmail = resume.submitterEmail;
+  if (resume.submitterName) values.submitterName = resume.submitterName;
+  return values;
+};
+
+export const getResumeLink = (publicUrl: string, resumeToken: string) =>
+  `${window.location.origin}/form/${publicUrl}?resume=${encodeURIComponent(resumeToken)}`;
@@ -0,0 +1,22 @@
+import { WorkspaceRole } from '../types';
+
+// Mirrors the API's workspace permissions so the UI only offers what the
+// current role is allowed to do.
+export type Permission = 'forms:read' | 'forms:write' | 'responses:read' | 'responses:triage' | 'workspace:manage';
+
+const PERMISSIONS: Record<Permission, WorkspaceRole[]> = {
+  'forms:read': ['owner', 'editor', 'analyst'],
+  'forms:write': ['owner', 'editor'],
+  'responses:read': ['owner', 'editor', 'analyst'],
+  'responses:triage': ['owner', 'editor', 'analyst'],
+  'workspace:manage': ['owner'],
+};
+
+export const ROLES: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manages members and everything else' },
+  { value: 'editor', label: 'Editor', description: 'Creates and edits forms, views responses' },
+  { value: 'analyst', label: 'Analyst', description: 'Views forms, responses and exports, and triages responses' },
+];
+
+export const can = (role: WorkspaceRole | undefined, permission: Permission) =>
+  !!role && PERMISSIONS[permission].includes(role);
@@ -0,0 +1,259 @@
+import { AnswerValue, FormSection, Question, QuestionType } from '../types';
+import { END_OF_FORM } from './formLogic';
+import { DEFAULT_FILE_SIZE_MB, MAX_FILE_SIZE_MB, isFileValue } from './fileUploads';
+
+// Questions being edited carry client-generated ids so that logic rules can
+// reference them before the form has been saved.
+export type QuestionDraft = Question;
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'short-text', label: 'Short Text' },
+  { value: 'text', label: 'Long Text' },
+  { value: 'email', label: 'Email' },
+  { value: 'multiple-choice', label: 'Multiple Choice' },
+  { value: 'checkboxes', label: 'Checkboxes' },
+  { value: 'dropdown', label: 'Dropdown' },
+  { value: 'linear-scale', label: 'Linear Scale' },
+  { value: 'rating', label: 'Star Rating' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'file', label: 'File Upload' },
+];
+
+export const CHOICE_TYPES: QuestionType[] = ['multiple-choice', 'checkboxes', 'dropdown'];
+
+// Single-choice types whose options can jump ahead in the form
+export const BRANCHING_TYPES: QuestionType[] = ['multiple-choice', 'dropdown'];
+
+export const SCALE_DEFAULTS: Partial<Record<QuestionType, { min: number; max: number }>> = {
+  'linear-scale': { min: 1, max: 10 },
+  rating: { min: 1, max: 5 },
+};
+
+// Generates an id in MongoDB ObjectId format (timestamp + random bytes)
+export const generateObjectId = () => {
+  const timestamp = Math.floor(Date.now() / 1000).toString(16).padStart(8, '0');
+  let random = '';
+  for (let i = 0; i < 16; i++) {
+    random += Math.floor(Math.random() * 16).toString(16);
+  }
+  return timestamp + random;
+};
+
+export const createQuestion = (order: number): QuestionDraft => ({
+  _id: generateObjectId(),
+  text: '',
+  type: 'text',
+  options: [],
+  required: false,
+  order,
+});
+
+export const createSection = (number: number): FormSection => ({
+  _id: generateObjectId(),
+  title: `Page ${number}`,
+  description: '',
+});
+
+export interface FormPage {
+  section?: FormSection;
+  questions: Question[];
+}
+
+// Splits a form's questions into the pages respondents step through.
+export const getPages = (questions: Question[], sections: FormSection[] = []): FormPage[] => {
+  if (sections.length === 0) {
+    return [{ questions }];
+  }
+  return sections.map((section) => ({
+    section,
+    questions: questions.filter((question) => question.section === section._id),
+  }));
+};
+
+// Orders questions by their section, keeping the editor order within each
+// section, so every page's questions are contiguous as the API expects.
+// Questions without a (known) section go on the first page.
+export const sortBySection = (questions: QuestionDraft[], sections: FormSection[]) => {
+  if (sections.length === 0) {
+    return questions.map((question) => ({ ...question, section: undefined }));
+  }
+
+  const positionOf = (question: QuestionDraft) => {
+    const position = sections.findIndex((section) => section._id === question.section);
+    return position === -1 ? 0 : position;
+  };
+
+  return questions
+    .map((question, index) => ({ question, index, position: positionOf(question) }))
+    .sort((a, b) => a.position - b.position || a.index - b.index)
+    .map(({ question, position }) => ({ ...question, section: sections[position]._id }));
+};
+
+// Prepares a saved question for the editor, which keeps one branch entry per
+// option so the jump targets line up with the option inputs.
+export const toDraft = (question: Question): QuestionDraft => ({
+  ...question,
+  options: question.options || [],
+  branches: (question.options || []).map((option) => ({
+    option,
+    goTo: question.branches?.find((branch) => branch.option === option)?.goTo || '',
+  })),
+});
+
+const toOptionalNumber = (value: unknown) => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+// Drops settings that do not apply to a question's type and fills in scale
+// defaults, so the payload matches what the API validates.
+export const cleanQuestion = (question: QuestionDraft, index: number): QuestionDraft => {
+  const cleaned: QuestionDraft = {
+    ...question,
+    options: CHOICE_TYPES.includes(question.type)
+      ? (question.options || []).map((option) => option.trim()).filter(Boolean)
+      : [],
+    scale: undefined,
+    limits: undefined,
+    file: undefined,
+    logic: question.logic?.conditions?.length
+      ? {
+          match: question.logic.match || 'all',
+          conditions: question.logic.conditions.filter((condition) => condition.questionId),
+        }
+      : undefined,
+    branches: BRANCHING_TYPES.includes(question.type)
+      ? (question.branches || [])
+          .map((branch, optionIndex) => ({ ...branch, option: (question.options || [])[optionIndex] }))
+          .filter((branch) => branch.goTo && branch.option?.trim())
+          .map((branch) => ({ ...branch, option: branch.option.trim() }))
+      : [],
+    order: index + 1,
+  };
+
+  const scaleDefaults = SCALE_DEFAULTS[question.type];
+  if (scaleDefaults) {
+    cleaned.scale = {
+      ...question.scale,
+      min: question.type === 'rating'
+        ? 1
+        : toOptionalNumber(question.scale?.min) ?? scaleDefaults.min,
+      max: toOptionalNumber(question.scale?.max) ?? scaleDefaults.max,
+    };
+  }
+
+  if (question.type === 'number') {
+    cleaned.limits = {
+      min: toOptionalNumber(question.limits?.min),
+      max: toOptionalNumber(question.limits?.max),
+    };
+  }
+
+  if (question.type === 'file') {
+    cleaned.file = {
+      maxSizeMB: toOptionalNumber(question.file?.maxSizeMB) ?? DEFAULT_FILE_SIZE_MB,
+      allowedTypes: question.file?.allowedTypes || [],
+    };
+  }
+
+  return cleaned;
+};
+
+// Returns an error message for the first invalid question, if any.
+export const validateQuestions = (questions: QuestionDraft[]): string | null => {
+  if (questions.length === 0) {
+    return 'At least one question is required';
+  }
+
+  for (let i = 0; i < questions.length; i++) {
+    const question = questions[i];
+    const label = question.text || `Question ${i + 1}`;
+
+    if (!question.text.trim()) {
+      return `Question ${i + 1} text is required`;
+    }
+    if (CHOICE_TYPES.includes(question.type)) {
+      const options = question.options || [];
+      if (options.length < 2) {
+        return `Question "${label}" must have at least 2 options`;
+      }
+      if (new Set(options).size !== options.length) {
+        return `Question "${label}" has duplicate options`;
+      }
+    }
+    if (question.scale && question.scale.min >= question.scale.max) {
+      return `Question "${label}" must have a scale maximum greater than its minimum`;
+    }
+    if (question.type === 'file') {
+      const maxSizeMB = toOptionalNumber(question.file?.maxSizeMB);
+      if (maxSizeMB !== undefined && (maxSizeMB <= 0 || maxSizeMB > MAX_FILE_SIZE_MB)) {
+        return `Question "${label}" must allow files of up to ${MAX_FILE_SIZE_MB}MB`;
+      }
+    }
+    for (const condition of question.logic?.conditions || []) {
+      const position = questions.findIndex((q) => q._id === condition.questionId);
+      if (position === -1 || position >= i) {
+        return `Question "${label}" can only depend on earlier questions`;
+      }
+    }
+    for (const branch of question.branches || []) {
+      const position = questions.findIndex((q) => q._id === branch.goTo || q.section === branch.goTo);
+      if (branch.goTo !== END_OF_FORM && position <= i) {
+        return `Question "${label}" can only jump to a later question or page`;
+      }
+    }
+    if (
+      question.limits?.min !== undefined &&
+      question.limits?.max !== undefined &&
+      question.limits.min > question.limits.max
+    ) {
+      return `Question "${label}" has a minimum greater than its maximum`;
+    }
+  }
+
+  return null;
+};
+
+export const isEmptyAnswer = (answer: unknown) =>
+  answer === undefined ||
+  answer === null ||
+  answer === false ||
+  (typeof answer === 'number' && Number.isNaN(answer)) ||
+  (typeof answer === 'string' && answer.trim() === '') ||
+  (Array.isArray(answer) && answer.length === 0);
+
+// Converts raw react-hook-form values into the shape the API expects for a
+// question, e.g. a single checked checkbox into a one-item array.
+export const normalizeAnswer = (question: Question, value: unknown): AnswerValue | undefined => {
+  if (isEmptyAnswer(value)) return undefined;
+
+  switch (question.type) {
+    case 'checkboxes':
+      return Array.isArray(value) ? value : [String(value)];
+    case 'linear-scale':
+    case 'rating':
+    case 'number':
+      return Number(value);
+    // Uploaded files are answered with their token
+    case 'file':
+      return isFileValue(value) ? value.token : undefined;
+    default:
+      return String(value);
+  }
+};
+
+// Collects the normalised answers from the public form's values, keyed by
+// question id.
+export const collectAnswers = (questions: Question[], data: Record<string, unknown>) => {
+  const answers: Record<string, AnswerValue | undefined> = {};
+  for (const question of questions) {
+    answers[question._id] = normalizeAnswer(question, data[`question_${question._id}`]);
+  }
+  return answers;
+};
+
+export const formatAnswer = (answer: AnswerValue | undefined) => {
+  if (answer === undefined || answer === null) return '';
+  return Array.isArray(answer) ? answer.join(', ') : String(answer);
+};
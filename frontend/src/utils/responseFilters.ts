@@ -0,0 +1,32 @@
+import { ResponseFilters } from '../types';
+
+// Converts filters into API query parameters. Dates are sent as the start and
+// end of the chosen days in the browser's time zone.
+export const toQueryParams = (filters: ResponseFilters) => ({
+  version: filters.version,
+  quarantined: filters.quarantined || undefined,
+  q: filters.q || undefined,
+  email: filters.email || undefined,
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  answer: filters.answer && Object.keys(filters.answer).length > 0 ? filters.answer : undefined,
+  field: filters.field && Object.keys(filters.field).length > 0 ? filters.field : undefined,
+  status: filters.status,
+  tag: filters.tag,
+  assignee: filters.assignee,
+  sort: filters.sort,
+  order: filters.order,
+});
+
+export const hasActiveFilters = (filters: ResponseFilters) =>
+  Boolean(
+    filters.q ||
+    filters.email ||
+    filters.from ||
+    filters.to ||
+    (filters.answer && Object.keys(filters.answer).length > 0) ||
+    (filters.field && Object.keys(filters.field).length > 0) ||
+    filters.status ||
+    filters.tag ||
+    filters.assignee
+  );
@@ -0,0 +1,11 @@
+import { SpamReason, SpamSettings } from '../types';
+
+export const DEFAULT_SPAM_SETTINGS: SpamSettings = {
+  captcha: false,
+  minFillSeconds: 3,
+};
+
+export const SPAM_REASONS: Record<SpamReason, string> = {
+  honeypot: 'Filled in a hidden field',
+  'too-fast': 'Submitted too quickly',
+};
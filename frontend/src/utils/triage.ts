@@ -0,0 +1,20 @@
+import { Response, ResponseStatus, UserSummary } from '../types';
+
+export const RESPONSE_STATUSES: Record<ResponseStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-blue-100 text-blue-800' },
+  'in-progress': { label: 'In progress', className: 'bg-yellow-100 text-yellow-800' },
+  resolved: { label: 'Resolved', className: 'bg-green-100 text-green-800' },
+};
+
+// Responses from before triage have no status and count as new
+export const getStatus = (response: Response): ResponseStatus => response.status || 'new';
+
+// The id of a person a response refers to, whether filled in or not
+export const personId = (person?: string | UserSummary) =>
+  typeof person === 'object' ? person._id : person;
+
+// Finds the name to show for a person among the workspace's members
+export const personName = (person: string | UserSummary | undefined, members: UserSummary[]) => {
+  if (typeof person === 'object') return person.businessName;
+  return members.find((member) => member._id === person)?.businessName || 'Former member';
+};
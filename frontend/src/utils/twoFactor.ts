@@ -0,0 +1,8 @@
+import { SessionUser, User } from '../types';
+
+// Sessions carry `twoFactorEnabled`; the profile has the full status
+export const hasTwoFactor = (user: User | SessionUser) =>
+  'twoFactor' in user ? user.twoFactor.enabled : user.twoFactorEnabled;
+
+// Codes are typed or pasted with spaces, e.g. "123 456"
+export const normalizeCode = (code: string) => code.replace(/\s/g, '');
@@ -0,0 +1,9 @@
+import { WebhookEvent } from '../types';
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string; description: string }[] = [
+  { value: 'response.created', label: 'Response created', description: 'A respondent submits the form' },
+  { value: 'form.closed', label: 'Form closed', description: 'The form is closed by hand, at its closing time or after its response limit' },
+];
+
+export const getEventLabel = (event: string) =>
+  WEBHOOK_EVENTS.find((option) => option.value === event)?.label || event;